@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import type { YouTubeVideoInfo } from '@kidsvid/shared';
+import { profileUploadCadence, recommendUploadSlots } from './cadence.js';
+
+function video(videoId: string, channelId: string, publishedAt: string): YouTubeVideoInfo {
+  return {
+    videoId,
+    channelId,
+    title: videoId,
+    description: '',
+    publishedAt,
+    duration: 180,
+    viewCount: 1000,
+    likeCount: 10,
+    commentCount: 1,
+    tags: [],
+    thumbnailUrl: '',
+    defaultLanguage: 'en',
+    categoryId: '27',
+  };
+}
+
+const DAY = 24 * 3600_000;
+const at = (start: string, offsetMs: number) =>
+  new Date(Date.parse(start) + offsetMs).toISOString();
+
+describe('profileUploadCadence', () => {
+  it('reads a steady schedule in the channel’s local time', () => {
+    // Tuesdays and Thursdays at 15:00 UTC for 8 weeks
+    const videos = Array.from({ length: 8 }).flatMap((_, week) => [
+      video(`tue${week}`, 'us', at('2026-01-06T15:00:00Z', week * 7 * DAY)),
+      video(`thu${week}`, 'us', at('2026-01-08T15:00:00Z', week * 7 * DAY)),
+    ]);
+
+    const [profile] = profileUploadCadence(videos, [{ channelId: 'us', country: 'US' }]);
+
+    expect(profile).toMatchObject({
+      channelId: 'us',
+      uploads: 16,
+      utcOffset: -5,
+      timezoneSource: 'country',
+      weekdays: ['Tuesday', 'Thursday'],
+      localHours: [10],
+      videosPerWeek: 2.06,
+      release: 'steady',
+      medianGapHours: 48,
+      gaps: [],
+    });
+  });
+
+  it('infers the timezone from upload hours and finds bursts and breaks', () => {
+    // Three uploads an hour apart, every three weeks
+    const videos = Array.from({ length: 4 }).flatMap((_, burst) =>
+      [0, 1, 2].map((i) =>
+        video(`b${burst}-${i}`, 'x', at('2026-01-05T02:00:00Z', burst * 21 * DAY + i * 3600_000)),
+      ),
+    );
+
+    const [profile] = profileUploadCadence(videos);
+
+    expect(profile.timezoneSource).toBe('upload_hours');
+    expect(profile.utcOffset).toBe(8);
+    expect(profile.localHours).toEqual([10, 11, 12]);
+    expect(profile.release).toBe('burst');
+    expect(profile.medianGapHours).toBe(1);
+    expect(profile.gaps).toHaveLength(3);
+    expect(profile.gaps[0]).toEqual({
+      from: '2026-01-05T04:00:00.000Z',
+      to: '2026-01-26T02:00:00.000Z',
+      days: 20.92,
+    });
+  });
+
+  it('skips channels with too few uploads to profile', () => {
+    const videos = [0, 1, 2].map((i) => video(`v${i}`, 'few', at('2026-01-05T10:00:00Z', i * DAY)));
+    expect(profileUploadCadence(videos)).toEqual([]);
+  });
+});
+
+describe('recommendUploadSlots', () => {
+  it('weighs every channel the same however much it uploads', () => {
+    const videos: YouTubeVideoInfo[] = [];
+    const scores = new Map<string, number>();
+    const add = (channelId: string, date: string, count: number, score: number) => {
+      for (let i = 0; i < count; i++) {
+        const id = `${channelId}-${date}-${i}`;
+        videos.push(video(id, channelId, `${date}T15:00:00Z`));
+        scores.set(id, score);
+      }
+    };
+    // The prolific channel does a little better on Mondays; the others do much better on
+    // Wednesdays. Pooled, Monday would win.
+    add('prolific', '2026-01-05', 40, 0.2);
+    add('prolific', '2026-01-07', 10, -0.2);
+    add('prolific', '2026-01-04', 5, 1); // Sundays: only one channel uploads then
+    for (const channelId of ['b', 'c']) {
+      add(channelId, '2026-01-05', 2, -0.7);
+      add(channelId, '2026-01-07', 2, 0.7);
+    }
+
+    const recommendations = recommendUploadSlots(videos, scores);
+
+    expect(recommendations.map((r) => [r.day, r.hourUtc])).toEqual([
+      ['Wednesday', 15],
+      ['Monday', 15],
+    ]);
+    expect(recommendations[0].expectedEngagementBoost).toBeGreaterThan(1.5);
+    expect(recommendations[0].reason).toContain('3 channels');
+  });
+});
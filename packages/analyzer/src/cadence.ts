@@ -0,0 +1,252 @@
+import {
+  DAY_NAMES,
+  type UploadRecommendation,
+  type YouTubeChannelInfo,
+  type YouTubeVideoInfo,
+} from '@kidsvid/shared';
+import { median, round } from './stats.js';
+
+/** Upload cadence fingerprinting.
+ * Profiles each competitor's release routine in its own local time — which weekdays and hours
+ * it uploads at, how many videos a week, steady or in bursts, and the breaks it took — and ranks
+ * upload slots with every channel weighing the same, so one prolific channel's schedule can't
+ * pass for what works. */
+
+export interface ChannelCadence {
+  channelId: string;
+  uploads: number;
+  /** Hours from UTC of the channel's local time */
+  utcOffset: number;
+  /** Where the offset came from: the channel's country, or the hours it uploads at */
+  timezoneSource: 'country' | 'upload_hours';
+  /** Local weekdays the channel usually uploads on, most used first */
+  weekdays: string[];
+  /** Local hours of day the channel usually uploads at, most used first */
+  localHours: number[];
+  videosPerWeek: number;
+  /** Steady channels upload at even intervals; bursty ones release batches between quiet spells */
+  release: 'steady' | 'burst';
+  medianGapHours: number;
+  /** Breaks far beyond the channel's usual gap between uploads, longest first */
+  gaps: Array<{ from: string; to: string; days: number }>;
+}
+
+const HOUR = 3600_000;
+const DAY = 24 * HOUR;
+
+const MIN_CHANNEL_UPLOADS = 5;
+/** A weekday or hour holding this share of a channel's uploads is part of its routine; a
+ * channel uploading every day holds about 14% on each weekday */
+const ROUTINE_DAY_SHARE = 0.1;
+const ROUTINE_HOUR_SHARE = 0.15;
+/** Gap spread (coefficient of variation) above which releases count as bursts */
+const BURST_GAP_VARIATION = 1;
+/** A gap is a break when it is this many times the usual gap, and at least a week */
+const BREAK_GAP_MULTIPLE = 4;
+const MIN_BREAK_DAYS = 7;
+/** Without a country, a channel's average upload time is taken to be late morning locally */
+const TYPICAL_LOCAL_HOUR = 11;
+
+/** A slot needs uploads from this many channels to be ranked */
+const MIN_SLOT_CHANNELS = 2;
+const MIN_SLOT_UPLOADS = 3;
+const RECOMMENDED_DAYS = 5;
+const RECOMMENDED_HOURS = 3;
+
+/** Standard-time UTC offsets of the countries kids channels come from. Countries spanning
+ * several zones get their most populous one. */
+const COUNTRY_UTC_OFFSETS: Record<string, number> = {
+  US: -5,
+  CA: -5,
+  MX: -6,
+  BR: -3,
+  AR: -3,
+  CO: -5,
+  GB: 0,
+  IE: 0,
+  PT: 0,
+  FR: 1,
+  DE: 1,
+  ES: 1,
+  IT: 1,
+  NL: 1,
+  PL: 1,
+  SE: 1,
+  UA: 2,
+  RU: 3,
+  TR: 3,
+  AE: 4,
+  PK: 5,
+  IN: 5.5,
+  TH: 7,
+  VN: 7,
+  ID: 7,
+  CN: 8,
+  SG: 8,
+  MY: 8,
+  PH: 8,
+  KR: 9,
+  JP: 9,
+  AU: 10,
+  NZ: 12,
+};
+
+/** Cadence of every channel with enough dated uploads, most uploads first */
+export function profileUploadCadence(
+  videos: YouTubeVideoInfo[],
+  channels: Pick<YouTubeChannelInfo, 'channelId' | 'country'>[] = [],
+): ChannelCadence[] {
+  const countries = new Map(channels.map((c) => [c.channelId, c.country?.toUpperCase()]));
+  const profiles: ChannelCadence[] = [];
+
+  for (const [channelId, channelVideos] of groupByChannel(videos)) {
+    const times = channelVideos
+      .map((v) => Date.parse(v.publishedAt))
+      .filter((t) => !Number.isNaN(t))
+      .sort((a, b) => a - b);
+    if (times.length < MIN_CHANNEL_UPLOADS) continue;
+
+    const countryOffset: number | undefined = COUNTRY_UTC_OFFSETS[countries.get(channelId) ?? ''];
+    const utcOffset = countryOffset ?? offsetFromUploadHours(times);
+    const local = times.map((t) => new Date(t + utcOffset * HOUR));
+
+    const gaps = times.slice(1).map((t, i) => t - times[i]);
+    const medianGap = median(gaps);
+    const meanGap = gaps.reduce((s, g) => s + g, 0) / gaps.length;
+    const gapSd = Math.sqrt(gaps.reduce((s, g) => s + (g - meanGap) ** 2, 0) / gaps.length);
+    const weeks = (times[times.length - 1] - times[0]) / (7 * DAY);
+
+    profiles.push({
+      channelId,
+      uploads: times.length,
+      utcOffset,
+      timezoneSource: countryOffset !== undefined ? 'country' : 'upload_hours',
+      weekdays: routine(
+        local.map((d) => d.getUTCDay()),
+        ROUTINE_DAY_SHARE,
+      ).map((day) => DAY_NAMES[day]),
+      localHours: routine(
+        local.map((d) => d.getUTCHours()),
+        ROUTINE_HOUR_SHARE,
+      ),
+      videosPerWeek: weeks > 0 ? round((times.length - 1) / weeks) : times.length,
+      release: meanGap > 0 && gapSd / meanGap > BURST_GAP_VARIATION ? 'burst' : 'steady',
+      medianGapHours: round(medianGap / HOUR),
+      gaps: gaps
+        .map((gap, i) => ({ gap, from: times[i], to: times[i + 1] }))
+        .filter(({ gap }) => gap >= Math.max(MIN_BREAK_DAYS * DAY, BREAK_GAP_MULTIPLE * medianGap))
+        .sort((a, b) => b.gap - a.gap)
+        .slice(0, 3)
+        .map(({ gap, from, to }) => ({
+          from: new Date(from).toISOString(),
+          to: new Date(to).toISOString(),
+          days: round(gap / DAY),
+        })),
+    });
+  }
+
+  return profiles.sort((a, b) => b.uploads - a.uploads);
+}
+
+/** An upload weekday (0 = Sunday) or UTC hour, with the channel-weighted relative views of
+ * the uploads in it */
+export interface UploadSlot {
+  key: number;
+  /** Views as a multiple of the uploading channels' medians, each channel weighing the same */
+  boost: number;
+  channels: number;
+  uploads: number;
+}
+
+/** Slots (weekdays or UTC hours, as `slotOf` picks) ranked by channel-relative views (log
+ * views against the channel median, by video id). Each channel's uploads together weigh the
+ * same, and a slot needs uploads from several channels, or from the only one analyzed. */
+export function rankUploadSlots(
+  videos: YouTubeVideoInfo[],
+  scores: Map<string, number>,
+  slotOf: (date: Date) => number,
+): UploadSlot[] {
+  const dated = videos.filter((v) => !Number.isNaN(Date.parse(v.publishedAt)));
+  const channelUploads = new Map<string, number>();
+  for (const v of dated)
+    channelUploads.set(v.channelId, (channelUploads.get(v.channelId) ?? 0) + 1);
+  const minChannels = Math.min(MIN_SLOT_CHANNELS, channelUploads.size);
+
+  const slots = new Map<
+    number,
+    { weight: number; score: number; uploads: number; channels: Set<string> }
+  >();
+  for (const v of dated) {
+    const key = slotOf(new Date(v.publishedAt));
+    const slot = slots.get(key) ?? { weight: 0, score: 0, uploads: 0, channels: new Set() };
+    const weight = 1 / channelUploads.get(v.channelId)!;
+    slot.weight += weight;
+    slot.score += weight * (scores.get(v.videoId) ?? 0);
+    slot.uploads++;
+    slot.channels.add(v.channelId);
+    slots.set(key, slot);
+  }
+  return [...slots]
+    .filter(([, s]) => s.channels.size >= minChannels && s.uploads >= MIN_SLOT_UPLOADS)
+    .map(([key, s]) => ({
+      key,
+      boost: round(Math.exp(s.score / s.weight)),
+      channels: s.channels.size,
+      uploads: s.uploads,
+    }))
+    .sort((a, b) => b.boost - a.boost || b.channels - a.channels);
+}
+
+/** The best upload days crossed with the best UTC hours, like a scheduler's preferred days
+ * and hours */
+export function recommendUploadSlots(
+  videos: YouTubeVideoInfo[],
+  scores: Map<string, number>,
+): UploadRecommendation[] {
+  const days = rankUploadSlots(videos, scores, (d) => d.getUTCDay()).slice(0, RECOMMENDED_DAYS);
+  const hours = rankUploadSlots(videos, scores, (d) => d.getUTCHours()).slice(0, RECOMMENDED_HOURS);
+
+  return days
+    .flatMap((day) =>
+      hours.map((hour) => ({
+        day: DAY_NAMES[day.key],
+        hourUtc: hour.key,
+        reason:
+          `${DAY_NAMES[day.key]} at ${hour.key}:00 UTC — competitor uploads on ${DAY_NAMES[day.key]} ` +
+          `get ${day.boost}x and at ${hour.key}:00 ${hour.boost}x their channel's median views ` +
+          `(${day.channels} and ${hour.channels} channels)`,
+        expectedEngagementBoost: round(day.boost * hour.boost),
+      })),
+    )
+    .sort((a, b) => b.expectedEngagementBoost - a.expectedEngagementBoost);
+}
+
+/** The offset that puts the channel's average upload time (a circular mean, so 23:00 and
+ * 01:00 average to midnight) at a typical local publishing hour */
+function offsetFromUploadHours(times: number[]): number {
+  let sin = 0;
+  let cos = 0;
+  for (const t of times) {
+    const angle = ((((t % DAY) + DAY) % DAY) / DAY) * 2 * Math.PI;
+    sin += Math.sin(angle);
+    cos += Math.cos(angle);
+  }
+  const meanHour = ((Math.atan2(sin, cos) / (2 * Math.PI)) * 24 + 24) % 24;
+  const offset = Math.round(TYPICAL_LOCAL_HOUR - meanHour);
+  return ((((offset + 12) % 24) + 24) % 24) - 12;
+}
+
+/** Values holding a routine share of the list, most common first; the most common when none do */
+function routine(values: number[], minShare: number): number[] {
+  const counts = new Map<number, number>();
+  for (const value of values) counts.set(value, (counts.get(value) ?? 0) + 1);
+  const ranked = [...counts].sort((a, b) => b[1] - a[1] || a[0] - b[0]);
+  const usual = ranked.filter(([, n]) => n / values.length >= minShare);
+  return (usual.length > 0 ? usual : ranked.slice(0, 1)).map(([value]) => value);
+}
+
+function groupByChannel(videos: YouTubeVideoInfo[]): Map<string, YouTubeVideoInfo[]> {
+  const byChannel = new Map<string, YouTubeVideoInfo[]>();
+  for (const v of videos) byChannel.set(v.channelId, [...(byChannel.get(v.channelId) ?? []), v]);
+  return byChannel;
+}
@@ -1,6 +1,9 @@
-import type { ContentCategory, YouTubeVideoInfo } from '@kidsvid/shared';
+import type { CategoryModel, ContentCategory, YouTubeVideoInfo } from '@kidsvid/shared';
+import { predictCategory, type CategorizerInput } from './text-classifier.js';
 
-/** Keyword-based content categorizer for kids YouTube videos */
+/** Content categorizer for kids YouTube videos.
+ * Uses a trained classifier when one is passed in (see `loadActiveCategoryModel`), and the
+ * hand-maintained keyword lists below otherwise. */
 
 const CATEGORY_KEYWORDS: Record<ContentCategory, string[]> = {
   nursery_rhyme: [
@@ -133,7 +136,16 @@ export interface CategorizeResult {
   scores: Record<ContentCategory, number>;
 }
 
-export function categorizeVideo(video: YouTubeVideoInfo): CategorizeResult {
+/** Categorize with a trained model, or by keywords without one */
+export function categorizeVideo(
+  video: CategorizerInput,
+  model?: CategoryModel | null,
+): CategorizeResult {
+  return model ? predictCategory(model, video) : categorizeByKeywords(video);
+}
+
+/** Keyword baseline: title matches score 3, description matches 1, tag matches 2 */
+export function categorizeByKeywords(video: CategorizerInput): CategorizeResult {
   const text = `${video.title} ${video.description}`.toLowerCase();
   const tags = video.tags.map((t) => t.toLowerCase());
 
@@ -178,16 +190,22 @@ export function categorizeVideo(video: YouTubeVideoInfo): CategorizeResult {
   };
 }
 
-export function categorizeVideos(videos: YouTubeVideoInfo[]): Map<string, CategorizeResult> {
+export function categorizeVideos(
+  videos: YouTubeVideoInfo[],
+  model?: CategoryModel | null,
+): Map<string, CategorizeResult> {
   const results = new Map<string, CategorizeResult>();
   for (const video of videos) {
-    results.set(video.videoId, categorizeVideo(video));
+    results.set(video.videoId, categorizeVideo(video, model));
   }
   return results;
 }
 
 /** Determine primary category for a channel based on its videos */
-export function categorizeChannel(videos: YouTubeVideoInfo[]): CategorizeResult {
+export function categorizeChannel(
+  videos: YouTubeVideoInfo[],
+  model?: CategoryModel | null,
+): CategorizeResult {
   if (videos.length === 0) {
     return { category: 'other', confidence: 0, scores: {} as Record<ContentCategory, number> };
   }
@@ -197,7 +215,7 @@ export function categorizeChannel(videos: YouTubeVideoInfo[]): CategorizeResult
   let totalWeight = 0;
 
   for (const video of videos) {
-    const result = categorizeVideo(video);
+    const result = categorizeVideo(video, model);
     const weight = Math.log10(Math.max(video.viewCount, 1)); // log-weight by views
     totalWeight += weight;
 
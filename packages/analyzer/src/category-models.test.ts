@@ -0,0 +1,134 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { CategoryModel, Database } from '@kidsvid/shared';
+import {
+  activateCategoryModel,
+  loadActiveCategoryModel,
+  loadLabeledVideos,
+  saveCategoryLabel,
+  saveCategoryModel,
+} from './category-models.js';
+
+const model: CategoryModel = {
+  algorithm: 'tfidf_naive_bayes',
+  categories: ['educational', 'story'],
+  priors: [-0.69, -0.69],
+  idf: { learn: 1.2 },
+  likelihoods: { learn: [-1, -3] },
+};
+
+/** Each update().set().where() resolves through returning() to the next row list in `updated` */
+function createMockDb(updated: Array<Array<{ id: number }>> = []) {
+  const queue = [...updated];
+  const sets: Array<Record<string, unknown>> = [];
+  const update = vi.fn(() => ({
+    set: vi.fn((values: Record<string, unknown>) => {
+      sets.push(values);
+      const rows = queue.shift() ?? [];
+      const where = Object.assign(Promise.resolve(rows), {
+        returning: vi.fn().mockResolvedValue(rows),
+      });
+      return { where: vi.fn(() => where) };
+    }),
+  }));
+  const values = vi.fn(() => ({
+    onConflictDoUpdate: vi.fn().mockResolvedValue(undefined),
+    returning: vi.fn().mockResolvedValue([{ id: 7 }]),
+  }));
+  const db = {
+    insert: vi.fn(() => ({ values })),
+    transaction: vi.fn(async (fn: (tx: unknown) => Promise<void>) => fn({ update })),
+    query: {
+      videoCategoryLabels: { findMany: vi.fn().mockResolvedValue([]) },
+      videos: { findMany: vi.fn().mockResolvedValue([]) },
+      categorizerModels: { findFirst: vi.fn().mockResolvedValue(undefined) },
+    },
+  };
+  return { db: db as unknown as Database, mock: db, values, sets };
+}
+
+describe('saveCategoryLabel', () => {
+  it('upserts the label by video', async () => {
+    const { db, values } = createMockDb();
+
+    await saveCategoryLabel(db, 'v1', 'story', 'ana');
+
+    expect(values).toHaveBeenCalledWith({
+      youtubeVideoId: 'v1',
+      category: 'story',
+      labeledBy: 'ana',
+    });
+  });
+});
+
+describe('loadLabeledVideos', () => {
+  it('joins labels with their video text and drops labels of unknown videos', async () => {
+    const { db, mock } = createMockDb();
+    mock.query.videoCategoryLabels.findMany.mockResolvedValue([
+      { youtubeVideoId: 'v1', category: 'story' },
+      { youtubeVideoId: 'gone', category: 'song' },
+    ]);
+    mock.query.videos.findMany.mockResolvedValue([
+      { youtubeVideoId: 'v1', title: 'Bedtime Bear', description: null, tags: null },
+    ]);
+
+    expect(await loadLabeledVideos(db)).toEqual([
+      {
+        video: { videoId: 'v1', title: 'Bedtime Bear', description: '', tags: [] },
+        category: 'story',
+      },
+    ]);
+  });
+
+  it('skips the video lookup without labels', async () => {
+    const { db, mock } = createMockDb();
+
+    expect(await loadLabeledVideos(db)).toEqual([]);
+    expect(mock.query.videos.findMany).not.toHaveBeenCalled();
+  });
+});
+
+describe('saveCategoryModel', () => {
+  it('stores the model as a new version', async () => {
+    const { db, values } = createMockDb();
+
+    expect(await saveCategoryModel(db, model, 40)).toBe(7);
+    expect(values).toHaveBeenCalledWith({
+      algorithm: 'tfidf_naive_bayes',
+      labelCount: 40,
+      model,
+      evaluation: undefined,
+    });
+  });
+});
+
+describe('activateCategoryModel', () => {
+  it('deactivates the current version before activating the new one', async () => {
+    const { db, sets } = createMockDb([[{ id: 3 }], [{ id: 7 }]]);
+
+    await activateCategoryModel(db, 7);
+
+    expect(sets).toEqual([{ active: false }, { active: true }]);
+  });
+
+  it('goes back to keywords with null', async () => {
+    const { db, sets } = createMockDb();
+
+    await activateCategoryModel(db, null);
+
+    expect(sets).toEqual([{ active: false }]);
+  });
+
+  it('rejects a version that does not exist', async () => {
+    const { db } = createMockDb([[], []]);
+
+    await expect(activateCategoryModel(db, 99)).rejects.toThrow('v99 does not exist');
+  });
+});
+
+describe('loadActiveCategoryModel', () => {
+  it('is null while categorizing by keywords', async () => {
+    const { db } = createMockDb();
+
+    expect(await loadActiveCategoryModel(db)).toBeNull();
+  });
+});
@@ -0,0 +1,134 @@
+import type { CategoryModel, ContentCategory, Database } from '@kidsvid/shared';
+import {
+  categorizerModels,
+  videoCategoryLabels,
+  videos,
+  desc,
+  eq,
+  inArray,
+  sql,
+} from '@kidsvid/shared/db';
+import type { CrossValidation, LabeledVideo } from './text-classifier.js';
+
+/** Hand labels and trained categorizer versions.
+ * Labels are the ground truth for training and evaluation; each trained model is stored as a
+ * new version, and the active one is what analysis runs and discovery categorize with from
+ * their next run. */
+
+export type CategorizerModelVersion = typeof categorizerModels.$inferSelect;
+
+export type LabelingCandidate = Pick<
+  typeof videos.$inferSelect,
+  'youtubeVideoId' | 'title' | 'description' | 'tags' | 'category'
+>;
+
+export async function saveCategoryLabel(
+  db: Database,
+  youtubeVideoId: string,
+  category: ContentCategory,
+  labeledBy?: string,
+): Promise<void> {
+  await db
+    .insert(videoCategoryLabels)
+    .values({ youtubeVideoId, category, labeledBy })
+    .onConflictDoUpdate({
+      target: videoCategoryLabels.youtubeVideoId,
+      set: { category, labeledBy, updatedAt: new Date() },
+    });
+}
+
+/** Random analyzed videos nobody has labeled yet */
+export async function sampleUnlabeledVideos(
+  db: Database,
+  count: number,
+): Promise<LabelingCandidate[]> {
+  return db
+    .select({
+      youtubeVideoId: videos.youtubeVideoId,
+      title: videos.title,
+      description: videos.description,
+      tags: videos.tags,
+      category: videos.category,
+    })
+    .from(videos)
+    .where(
+      sql`not exists (select 1 from ${videoCategoryLabels} where ${videoCategoryLabels.youtubeVideoId} = ${videos.youtubeVideoId})`,
+    )
+    .orderBy(sql`random()`)
+    .limit(count);
+}
+
+/** Every label, with the text of the video it labels */
+export async function loadLabeledVideos(db: Database): Promise<LabeledVideo[]> {
+  const labels = await db.query.videoCategoryLabels.findMany();
+  if (labels.length === 0) return [];
+  const rows = await db.query.videos.findMany({
+    where: inArray(
+      videos.youtubeVideoId,
+      labels.map((l) => l.youtubeVideoId),
+    ),
+    columns: { youtubeVideoId: true, title: true, description: true, tags: true },
+  });
+  const byId = new Map(rows.map((r) => [r.youtubeVideoId, r]));
+
+  return labels.flatMap((label) => {
+    const row = byId.get(label.youtubeVideoId);
+    if (!row) return [];
+    return [
+      {
+        video: {
+          videoId: row.youtubeVideoId,
+          title: row.title,
+          description: row.description ?? '',
+          tags: row.tags ?? [],
+        },
+        category: label.category,
+      },
+    ];
+  });
+}
+
+/** Store a trained model as a new version; returns its version number */
+export async function saveCategoryModel(
+  db: Database,
+  model: CategoryModel,
+  labelCount: number,
+  evaluation?: CrossValidation,
+): Promise<number> {
+  const [row] = await db
+    .insert(categorizerModels)
+    .values({ algorithm: model.algorithm, labelCount, model, evaluation })
+    .returning({ id: categorizerModels.id });
+  return row.id;
+}
+
+/** Make a version the one analysis categorizes with, or go back to keywords with null */
+export async function activateCategoryModel(db: Database, version: number | null): Promise<void> {
+  await db.transaction(async (tx) => {
+    await tx
+      .update(categorizerModels)
+      .set({ active: false })
+      .where(eq(categorizerModels.active, true));
+    if (version === null) return;
+    const activated = await tx
+      .update(categorizerModels)
+      .set({ active: true })
+      .where(eq(categorizerModels.id, version))
+      .returning({ id: categorizerModels.id });
+    if (activated.length === 0) throw new Error(`Categorizer model v${version} does not exist`);
+  });
+}
+
+export async function loadActiveCategoryModel(
+  db: Database,
+): Promise<CategorizerModelVersion | null> {
+  const row = await db.query.categorizerModels.findFirst({
+    where: eq(categorizerModels.active, true),
+  });
+  return row ?? null;
+}
+
+/** Trained versions, newest first */
+export async function listCategoryModels(db: Database): Promise<CategorizerModelVersion[]> {
+  return db.query.categorizerModels.findMany({ orderBy: [desc(categorizerModels.id)] });
+}
@@ -1,5 +1,34 @@
-import { loadAnalyzerConfig, createLogger, YouTubeClient, getDb } from '@kidsvid/shared';
+import { createInterface } from 'readline/promises';
+import {
+  CONTENT_CATEGORIES,
+  loadAnalyzerConfig,
+  createLogger,
+  createQuotaLedger,
+  createCacheStore,
+  YouTubeClient,
+  getDb,
+  listCompletedRuns,
+  loadRunPatterns,
+  findPausedRun,
+  type Database,
+  type Logger,
+} from '@kidsvid/shared';
 import { AnalysisPipeline } from './pipeline.js';
+import { ThumbnailAnalyzer } from './thumbnails.js';
+import { diffRuns, formatRunDiff } from './run-diff.js';
+import { categorizeByKeywords } from './categorizer.js';
+import { crossValidate, formatEvaluation, trainCategoryModel } from './text-classifier.js';
+import {
+  activateCategoryModel,
+  listCategoryModels,
+  loadLabeledVideos,
+  sampleUnlabeledVideos,
+  saveCategoryLabel,
+  saveCategoryModel,
+} from './category-models.js';
+
+/** Fewer labels than this can't say anything about a trained categorizer */
+const MIN_TRAINING_LABELS = 20;
 
 async function main() {
   const args = process.argv.slice(2);
@@ -11,12 +40,22 @@ kidsvid-ai analyzer — Analyze top YouTube Kids channels
 
 Usage:
   npm run analyze [options]
+  npm run analyze -- diff [runA] [runB]   Compare findings of two runs (default: latest two)
+  npm run analyze -- label [--count n]    Hand-label the categories of sampled videos
+  npm run analyze -- evaluate             Cross-validate a trained categorizer against keywords
+  npm run analyze -- train [--activate]   Train and store a new categorizer version
+  npm run analyze -- model [use <version|keywords>]   List versions, or pick the one to use
 
 Options:
-  --channels <ids>     Comma-separated YouTube channel IDs (default: top 30 kids channels)
+  --channels <ids>     Comma-separated YouTube channel IDs (default: the active watchlist)
   --videos <n>         Videos per channel to analyze (default: 50)
+  --playlists <n>      Playlists per channel for series analysis (default: 10, 0 to skip)
   --skip-existing      Skip channels analyzed in last 24h
+  --resume [runId]     Continue a run paused on quota (default: the latest paused run)
   --no-store           Don't store patterns to DB (dry run)
+  --no-cache           Bypass the YouTube response cache entirely
+  --refresh            Fetch fresh responses and overwrite the cache
+  --no-thumbnails      Skip downloading and measuring competitor thumbnails
   --help, -h           Show this help
     `);
     process.exit(0);
@@ -27,9 +66,38 @@ Options:
 
   logger.info('Starting YouTube Kids channel analysis...');
 
-  const youtube = new YouTubeClient({ apiKey: config.youtubeApiKey });
   const db = getDb(config.databaseUrl);
-  const pipeline = new AnalysisPipeline(youtube, db, logger);
+  if (args[0] === 'diff') {
+    await printRunDiff(db, logger, args.slice(1));
+    return;
+  }
+  if (args[0] === 'label') {
+    const countIdx = args.indexOf('--count');
+    await labelVideos(db, logger, countIdx >= 0 ? parseInt(args[countIdx + 1], 10) : 20);
+    return;
+  }
+  if (args[0] === 'evaluate' || args[0] === 'train') {
+    await trainCategorizer(db, logger, args[0] === 'train', args.includes('--activate'));
+    return;
+  }
+  if (args[0] === 'model') {
+    await manageCategorizer(db, logger, args.slice(1));
+    return;
+  }
+
+  const youtube = new YouTubeClient({
+    apiKey: config.youtubeApiKey,
+    ledger: createQuotaLedger(db, logger, config),
+    consumer: 'analyzer',
+    cache: createCacheStore(config.youtubeCacheStore, { db, dir: config.youtubeCacheDir }),
+    cacheMode: args.includes('--no-cache') ? 'off' : args.includes('--refresh') ? 'refresh' : 'use',
+  });
+  const pipeline = new AnalysisPipeline(
+    youtube,
+    db,
+    logger,
+    new ThumbnailAnalyzer(logger, { cacheDir: config.youtubeThumbnailDir }),
+  );
 
   // Parse CLI args
   const channelIdxArg = args.indexOf('--channels');
@@ -38,23 +106,53 @@ Options:
   const videosIdx = args.indexOf('--videos');
   const videosPerChannel = videosIdx >= 0 ? parseInt(args[videosIdx + 1], 10) : 50;
 
+  const playlistsIdx = args.indexOf('--playlists');
+  const playlistsPerChannel = playlistsIdx >= 0 ? parseInt(args[playlistsIdx + 1], 10) : 10;
+
   const skipExisting = args.includes('--skip-existing');
   const storePatterns = !args.includes('--no-store');
 
+  let resume: number | undefined;
+  const resumeIdx = args.indexOf('--resume');
+  if (resumeIdx >= 0) {
+    const id = parseInt(args[resumeIdx + 1], 10);
+    resume = Number.isNaN(id) ? (await findPausedRun(db))?.id : id;
+    if (resume === undefined) {
+      logger.error('No analysis run is paused on quota');
+      process.exit(1);
+    }
+  }
+
   try {
     const result = await pipeline.run({
       channelIds,
       videosPerChannel,
+      playlistsPerChannel,
       skipExisting,
       storePatterns,
+      resume,
+      analyzeThumbnails: !args.includes('--no-thumbnails'),
     });
 
+    if (result.status === 'paused_quota') {
+      logger.warn(
+        `Run ${result.runId} paused on quota after ${result.channelsAnalyzed} channels` +
+          (result.resumeAt ? ` — resume after ${result.resumeAt.toISOString()}` : '') +
+          ` with: npm run analyze -- --resume ${result.runId}`,
+      );
+      return;
+    }
+
     logger.info('═══════════════════════════════════════');
     logger.info('Analysis complete!');
     logger.info(`  Channels: ${result.channelsAnalyzed}`);
     logger.info(`  Videos: ${result.videosAnalyzed}`);
     logger.info(`  Patterns: ${result.patterns.length}`);
     logger.info(`  API quota used: ${result.apiQuotaUsed}/10,000`);
+    const cache = youtube.cacheStats;
+    logger.info(
+      `  Cache: ${cache.hits} hits, ${cache.revalidated} revalidated, ${cache.misses} misses`,
+    );
     logger.info('═══════════════════════════════════════');
 
     // Print key findings
@@ -67,10 +165,138 @@ Options:
         logger.info(`  [${p.patternType}] ${p.finding}`);
       }
     }
+
+    const topicGaps = (result.contentGaps ?? []).filter((g) => g.educationalCategory);
+    if (topicGaps.length > 0) {
+      logger.info('\nEducational Topic Gaps:');
+      for (const g of topicGaps.slice(0, 10)) {
+        logger.info(`  [${g.educationalCategory}] ${g.recommendation}`);
+      }
+    }
+
+    const localization = result.localization ?? [];
+    if (localization.length > 0) {
+      logger.info('\nLocalization Opportunities:');
+      for (const l of localization.slice(0, 5)) {
+        logger.info(`  [${l.language}] ${l.recommendation}`);
+      }
+    }
   } catch (err) {
     logger.error({ err }, 'Analysis failed');
     process.exit(1);
   }
 }
 
+/** Print what changed between two runs; without ids, the latest two completed runs */
+async function printRunDiff(db: Database, logger: Logger, ids: string[]) {
+  let [a, b] = ids.map((id) => parseInt(id, 10));
+  if (a === undefined || b === undefined) {
+    const [latest, previous] = await listCompletedRuns(db, 2);
+    if (!previous) {
+      logger.error('Need two completed analysis runs to diff');
+      process.exit(1);
+    }
+    [a, b] = [previous.id, latest.id];
+  }
+
+  const diff = diffRuns(await loadRunPatterns(db, a), await loadRunPatterns(db, b));
+  logger.info(`Analysis run ${a} → ${b}`);
+  for (const line of formatRunDiff(diff)) logger.info(line);
+}
+
+/** Show sampled unlabeled videos one at a time and record the category typed for each.
+ * No category is suggested: labels picked by accepting the keyword categorizer's guess would
+ * bias the evaluation toward that same baseline. */
+async function labelVideos(db: Database, logger: Logger, count: number) {
+  const candidates = await sampleUnlabeledVideos(db, count);
+  if (candidates.length === 0) {
+    logger.info('Every analyzed video is labeled');
+    return;
+  }
+
+  logger.info(CONTENT_CATEGORIES.map((c, i) => `${i + 1}=${c}`).join('  '));
+  const rl = createInterface({ input: process.stdin, output: process.stdout });
+  let labeled = 0;
+  try {
+    for (const [i, video] of candidates.entries()) {
+      logger.info(`\n[${i + 1}/${candidates.length}] ${video.title}`);
+      if (video.tags?.length) logger.info(`  tags: ${video.tags.slice(0, 12).join(', ')}`);
+      if (video.description)
+        logger.info(`  ${video.description.slice(0, 200).replace(/\s+/g, ' ')}`);
+
+      let answer = '';
+      while (answer === '') {
+        answer = (
+          await rl.question(`Category (1-${CONTENT_CATEGORIES.length}, s = skip, q = quit): `)
+        ).trim();
+      }
+      if (answer === 'q') break;
+      if (answer === 's') continue;
+      const category = CONTENT_CATEGORIES[parseInt(answer, 10) - 1];
+      if (!category) {
+        logger.warn(`"${answer}" is not a category number, skipped`);
+        continue;
+      }
+      await saveCategoryLabel(db, video.youtubeVideoId, category, process.env.USER);
+      labeled++;
+    }
+  } finally {
+    rl.close();
+  }
+  logger.info(`Labeled ${labeled} video(s)`);
+}
+
+/** Cross-validate the trained categorizer against keywords; with `save`, also train on every
+ * label and store the result as a new version */
+async function trainCategorizer(db: Database, logger: Logger, save: boolean, activate: boolean) {
+  const labeled = await loadLabeledVideos(db);
+  if (labeled.length < MIN_TRAINING_LABELS) {
+    logger.error(
+      `Need at least ${MIN_TRAINING_LABELS} labeled videos, have ${labeled.length} (npm run analyze -- label)`,
+    );
+    process.exit(1);
+  }
+
+  const evaluation = crossValidate(labeled, (v) => categorizeByKeywords(v).category);
+  for (const line of formatEvaluation(evaluation)) logger.info(line);
+  if (!save) return;
+
+  const version = await saveCategoryModel(
+    db,
+    trainCategoryModel(labeled),
+    labeled.length,
+    evaluation,
+  );
+  if (activate) await activateCategoryModel(db, version);
+  logger.info(
+    activate
+      ? `Categorizer v${version} trained and active`
+      : `Categorizer v${version} trained; use it with: npm run analyze -- model use ${version}`,
+  );
+}
+
+async function manageCategorizer(db: Database, logger: Logger, args: string[]) {
+  if (args[0] === 'use') {
+    const version = args[1] === 'keywords' ? null : parseInt(args[1], 10);
+    if (version !== null && Number.isNaN(version)) {
+      logger.error('Usage: npm run analyze -- model use <version|keywords>');
+      process.exit(1);
+    }
+    await activateCategoryModel(db, version);
+    logger.info(version === null ? 'Categorizing by keywords' : `Categorizing with v${version}`);
+    return;
+  }
+
+  const models = await listCategoryModels(db);
+  if (!models.some((m) => m.active)) logger.info('* keywords');
+  for (const m of models) {
+    const accuracy = m.evaluation
+      ? `accuracy ${Math.round(m.evaluation.model.accuracy * 100)}% vs keywords ${Math.round(m.evaluation.keywords.accuracy * 100)}%`
+      : 'not evaluated';
+    logger.info(
+      `${m.active ? '*' : ' '} v${m.id} ${m.algorithm}, ${m.labelCount} labels, ${accuracy} (${m.createdAt.toISOString().slice(0, 10)})`,
+    );
+  }
+}
+
 main();
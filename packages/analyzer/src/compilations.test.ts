@@ -0,0 +1,177 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { Logger, YouTubeVideoInfo } from '@kidsvid/shared';
+import { analyzeCompilations, detectCompilationPatterns, parseChapters } from './compilations.js';
+import { categorizeVideo } from './categorizer.js';
+import { detectPatterns } from './patterns.js';
+import { StrategyEngine } from './strategy-engine.js';
+
+const mockLogger = {
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+  debug: vi.fn(),
+} as unknown as Logger;
+
+function video(
+  videoId: string,
+  channelId: string,
+  overrides: Partial<YouTubeVideoInfo> = {},
+): YouTubeVideoInfo {
+  return {
+    videoId,
+    channelId,
+    title: `Song ${videoId}`,
+    description: '',
+    publishedAt: '2026-09-01T00:00:00Z',
+    duration: 180,
+    viewCount: 1000,
+    likeCount: 10,
+    commentCount: 1,
+    tags: [],
+    thumbnailUrl: '',
+    defaultLanguage: 'en',
+    categoryId: '27',
+    ...overrides,
+  };
+}
+
+/** A description listing the titles as evenly spaced chapters */
+function chapters(titles: string[], duration: number): string {
+  const step = Math.floor(duration / titles.length);
+  return titles
+    .map((title, i) => {
+      const start = i * step;
+      return `${Math.floor(start / 60)}:${String(start % 60).padStart(2, '0')} ${title}`;
+    })
+    .join('\n');
+}
+
+describe('parseChapters', () => {
+  it('reads timestamped lines into segments running to the next chapter', () => {
+    const description = [
+      'All your favorite songs!',
+      '0:00 Bath Song',
+      '3:12 - Wheels on the Bus',
+      '(7:45) Five Little Ducks',
+      '1:02:03 Bedtime',
+      'Subscribe for more',
+    ].join('\n');
+
+    expect(parseChapters(description, 4000)).toEqual([
+      { start: 0, end: 192, title: 'Bath Song' },
+      { start: 192, end: 465, title: 'Wheels on the Bus' },
+      { start: 465, end: 3723, title: 'Five Little Ducks' },
+      { start: 3723, end: 4000, title: 'Bedtime' },
+    ]);
+  });
+
+  it('ignores lists YouTube would not turn into chapters', () => {
+    expect(parseChapters('0:30 Intro\n1:00 Song\n2:00 Outro')).toEqual([]);
+    expect(parseChapters('0:00 Intro\n1:00 Outro')).toEqual([]);
+    expect(parseChapters('0:00 Intro\n2:00 Song\n1:00 Outro')).toEqual([]);
+  });
+});
+
+describe('analyzeCompilations', () => {
+  it('detects compilations by duration, title and chapters, and counts reused segments', () => {
+    const videos = [
+      video('bath', 'A', { title: 'Bath Song | Kids TV' }),
+      video('bus', 'A', { title: 'Wheels on the Bus' }),
+      video('hour', 'A', {
+        title: 'Bath Song + More Nursery Rhymes',
+        duration: 1800,
+        description: chapters(['Bath Song', 'Wheels on the Bus!', 'Brand New Song'], 1800),
+      }),
+      video('colors', 'A', { title: '10 Minutes of Colors', duration: 600 }),
+      video('story', 'A', { title: 'The Long Story', duration: 1000 }),
+    ];
+    const compilations = analyzeCompilations(videos);
+
+    expect([...compilations.keys()]).toEqual(['hour', 'colors']);
+    expect(compilations.get('hour')).toMatchObject({
+      signals: ['duration', 'chapters'],
+      reusedSegments: 2,
+    });
+    expect(compilations.get('hour')!.segments).toHaveLength(3);
+    expect(compilations.get('colors')!.signals).toEqual(['title']);
+  });
+});
+
+describe('detectCompilationPatterns', () => {
+  // Per channel: 8 episodes at the channel median, a 35min compilation of them that does well
+  // and two 25min compilations of new segments that do less well
+  const videos = ['a', 'b', 'c'].flatMap((channelId) => {
+    const episodes = Array.from({ length: 8 }, (_, i) => video(`${channelId}${i}`, channelId));
+    const compilation = (id: string, duration: number, viewCount: number, titles: string[]) =>
+      video(`${channelId}-${id}`, channelId, {
+        title: `${id} compilation`,
+        duration,
+        viewCount,
+        description: chapters(titles, duration),
+      });
+    const fresh = (id: string, n: number) =>
+      Array.from({ length: n }, (_, i) => `New ${channelId} ${id} ${i}`);
+    return [
+      ...episodes,
+      compilation(
+        'best',
+        2100,
+        5000,
+        episodes.map((v) => v.title),
+      ),
+      compilation('new1', 1500, 2000, fresh('new1', 4)),
+      compilation('new2', 1500, 1500, fresh('new2', 5)),
+    ];
+  });
+
+  it('relates compilation length, segments and reuse to views', () => {
+    const findings = detectCompilationPatterns(videos);
+    const byType = new Map(findings.map((f) => [f.patternType, f]));
+
+    expect([...byType.keys()]).toEqual([
+      'compilation_share',
+      'compilation_length',
+      'compilation_segments',
+      'compilation_reuse',
+    ]);
+    expect(byType.get('compilation_share')!.metadata).toMatchObject({
+      compilations: 9,
+      chapterShare: 1,
+      relativeViews: [2, 1],
+    });
+    expect(byType.get('compilation_length')!.metadata.bestBucket).toEqual({
+      label: '30-45min',
+      count: 3,
+      relativeViews: 5,
+    });
+    expect(byType.get('compilation_segments')!.metadata.bestBucket).toMatchObject({
+      label: '6-10',
+    });
+    expect(byType.get('compilation_reuse')!.metadata).toMatchObject({
+      reusedShare: 0.33,
+      relativeViews: [5, 1.73],
+    });
+  });
+
+  it('plans compilations from the detected findings', () => {
+    const patterns = detectPatterns({
+      videos,
+      categories: new Map(videos.map((v) => [v.videoId, categorizeVideo(v)])),
+    });
+    const plan = new StrategyEngine(mockLogger).recommendByFormat(patterns).compilation;
+
+    expect(plan.map((r) => [r.area, r.source])).toEqual([
+      ['format', 'analysis'],
+      ['duration', 'analysis'],
+      ['segments', 'analysis'],
+      ['reuse', 'analysis'],
+    ]);
+    expect(plan[1].recommendation).toMatch(/^Make compilations 30-45min long \(5x vs /);
+    expect(plan[2].recommendation).toMatch(/^Stitch 6-10 segments/);
+    expect(plan[3].recommendation).toMatch(/^Build compilations mostly from published episodes/);
+  });
+
+  it('needs enough compilations', () => {
+    expect(detectCompilationPatterns(videos.filter((v) => v.channelId === 'a'))).toEqual([]);
+  });
+});
@@ -0,0 +1,287 @@
+import type { PatternFinding, YouTubeVideoInfo } from '@kidsvid/shared';
+import { compareGroups, median, relativeViewScores, round, type GroupComparison } from './stats.js';
+
+/** Compilation detection.
+ * Compilations stitch songs or episodes into one long video. They're recognised by running
+ * time, title cues ("compilation", "1 hour", "non-stop") and the `00:00 Title` chapter lists in
+ * their descriptions. Chapters give a compilation's segments; a segment whose title the channel
+ * also published as an upload, or in another compilation, is reused footage. */
+
+export interface Chapter {
+  /** Seconds into the video */
+  start: number;
+  end: number;
+  title: string;
+}
+
+export type CompilationSignal = 'duration' | 'title' | 'chapters';
+
+export interface CompilationAnalysis {
+  videoId: string;
+  channelId: string;
+  duration: number;
+  signals: CompilationSignal[];
+  /** Chapters of the description, when it lists them */
+  segments: Chapter[];
+  /** Segments the channel also published on their own or in another compilation */
+  reusedSegments: number;
+}
+
+/** Kids videos this long are compilations whatever their title says */
+export const COMPILATION_DURATION = 20 * 60;
+export const COMPILATION_TITLE =
+  /\b(compilations?|non[- ]?stop|mix|collection|best of|full episodes|\d+\s*(min(ute)?s?|hours?))\b/i;
+/** Shorter videos need a title cue or a chapter list as well */
+const MIN_CUED_DURATION = 8 * 60;
+/** YouTube only turns a description's timestamps into chapters from three of them */
+const MIN_CHAPTERS = 3;
+/** `0:00 Title`, `(1:02:03) Title`, `00:45 - Title` */
+const CHAPTER_LINE = /^\s*[([]?((?:\d{1,2}:)?\d{1,2}:\d{2})[)\]]?\s*[-–—:|.]?\s*(\S.*?)\s*$/;
+const TITLE_SEPARATOR = /\s*\|\s*|\s+[-–—]+\s+/;
+
+/** Compilations needed for any compilation finding */
+const MIN_COMPILATIONS = 5;
+/** Buckets need this many compilations to be the best one */
+const MIN_BUCKET_COMPILATIONS = 3;
+/** Compilations reusing this share of their segments count as mostly reused */
+const HIGH_REUSE = 0.5;
+const LENGTH_BUCKETS = [
+  { label: '8-20min', min: 8 * 60, max: 20 * 60 },
+  { label: '20-30min', min: 20 * 60, max: 30 * 60 },
+  { label: '30-45min', min: 30 * 60, max: 45 * 60 },
+  { label: '45-60min', min: 45 * 60, max: 60 * 60 },
+  { label: '60min+', min: 60 * 60, max: Infinity },
+];
+const SEGMENT_BUCKETS = [
+  { label: '3-5', min: 3, max: 6 },
+  { label: '6-10', min: 6, max: 11 },
+  { label: '11-20', min: 11, max: 21 },
+  { label: '21+', min: 21, max: Infinity },
+];
+
+/** The chapter list of a description. Like YouTube, only a list starting at 0:00 with at least
+ * three ascending timestamps counts; the last chapter runs to the end of the video. */
+export function parseChapters(description: string, duration = 0): Chapter[] {
+  const marks: Array<{ start: number; title: string }> = [];
+  for (const line of description.split(/\r?\n/)) {
+    const match = line.match(CHAPTER_LINE);
+    if (match) marks.push({ start: parseTimestamp(match[1]), title: match[2] });
+  }
+
+  if (marks.length < MIN_CHAPTERS || marks[0].start !== 0) return [];
+  if (marks.some((m, i) => i > 0 && m.start <= marks[i - 1].start)) return [];
+  return marks.map((m, i) => ({
+    ...m,
+    end: marks[i + 1]?.start ?? Math.max(duration, m.start),
+  }));
+}
+
+/** Every compilation among the videos, by video id */
+export function analyzeCompilations(videos: YouTubeVideoInfo[]): Map<string, CompilationAnalysis> {
+  const found: CompilationAnalysis[] = [];
+  for (const video of videos) {
+    const segments = parseChapters(video.description, video.duration);
+    const signals: CompilationSignal[] = [];
+    if (video.duration >= COMPILATION_DURATION) signals.push('duration');
+    if (COMPILATION_TITLE.test(video.title)) signals.push('title');
+    if (segments.length > 0) signals.push('chapters');
+
+    const compilation =
+      signals.includes('duration') || (video.duration >= MIN_CUED_DURATION && signals.length > 0);
+    if (!compilation) continue;
+    found.push({
+      videoId: video.videoId,
+      channelId: video.channelId,
+      duration: video.duration,
+      signals,
+      segments,
+      reusedSegments: 0,
+    });
+  }
+
+  // A channel's own uploads, and the compilations each segment title appears in
+  const ids = new Set(found.map((c) => c.videoId));
+  const uploads = new Set(
+    videos.filter((v) => !ids.has(v.videoId)).map((v) => `${v.channelId}:${normalize(v.title)}`),
+  );
+  const appearances = new Map<string, Set<string>>();
+  for (const c of found) {
+    for (const segment of c.segments) {
+      const key = `${c.channelId}:${normalize(segment.title)}`;
+      appearances.set(key, (appearances.get(key) ?? new Set()).add(c.videoId));
+    }
+  }
+  for (const c of found) {
+    c.reusedSegments = c.segments.filter((segment) => {
+      const key = `${c.channelId}:${normalize(segment.title)}`;
+      return uploads.has(key) || appearances.get(key)!.size > 1;
+    }).length;
+  }
+
+  return new Map(found.map((c) => [c.videoId, c]));
+}
+
+/** How compilations perform against other long-form videos, and how their length, segment
+ * count and segment reuse go with views */
+export function detectCompilationPatterns(
+  videos: YouTubeVideoInfo[],
+  scores: Map<string, number> = relativeViewScores(videos),
+): PatternFinding[] {
+  const analyses = analyzeCompilations(videos);
+  const compilations = [...analyses.values()];
+  if (compilations.length < MIN_COMPILATIONS) return [];
+
+  const findings: PatternFinding[] = [];
+  const scoresOf = (list: Array<{ videoId: string }>) =>
+    list.map((v) => scores.get(v.videoId) ?? 0);
+  const chaptered = compilations.filter((c) => c.segments.length > 0);
+
+  const shareTest = compareGroups(
+    scoresOf(compilations),
+    scoresOf(videos.filter((v) => !analyses.has(v.videoId))),
+  );
+  const medianDuration = median(compilations.map((c) => c.duration));
+  findings.push({
+    patternType: 'compilation_share',
+    category: null,
+    finding:
+      `${compilations.length}/${videos.length} long-form videos are compilations (median ${formatMinutes(medianDuration)}, ` +
+      `${chaptered.length} with chapter lists). Compilations get ${shareTest.relativeViewsA}x their channel's median views ` +
+      `vs ${shareTest.relativeViewsB}x for other videos${describeTest(shareTest)}.`,
+    confidence: shareTest.confidence,
+    sampleSize: videos.length,
+    metadata: {
+      compilations: compilations.length,
+      share: round(compilations.length / videos.length),
+      medianDuration,
+      chapterShare: round(chaptered.length / compilations.length),
+      signals: Object.fromEntries(
+        (['duration', 'title', 'chapters'] as const).map((s) => [
+          s,
+          compilations.filter((c) => c.signals.includes(s)).length,
+        ]),
+      ),
+      ...testMetadata(shareTest),
+    },
+  });
+
+  const length = bestBucket(compilations, LENGTH_BUCKETS, (c) => c.duration, scoresOf);
+  if (length) {
+    findings.push({
+      patternType: 'compilation_length',
+      category: null,
+      finding: `Best performing compilation length: ${length.best.label} at ${length.best.relativeViews}x channel median views (${length.best.count} compilations) vs ${length.test.relativeViewsB}x for other lengths${describeTest(length.test)}.`,
+      confidence: length.test.confidence,
+      sampleSize: compilations.length,
+      metadata: { buckets: length.buckets, bestBucket: length.best, ...testMetadata(length.test) },
+    });
+  }
+
+  if (chaptered.length >= MIN_COMPILATIONS) {
+    const segments = bestBucket(chaptered, SEGMENT_BUCKETS, (c) => c.segments.length, scoresOf);
+    const medianSegments = median(chaptered.map((c) => c.segments.length));
+    const medianSegmentLength = median(
+      chaptered.flatMap((c) => c.segments.map((s) => s.end - s.start)),
+    );
+    if (segments) {
+      findings.push({
+        patternType: 'compilation_segments',
+        category: null,
+        finding: `Compilations list a median ${medianSegments} chapters of ${formatMinutes(medianSegmentLength)}. ${segments.best.label} segments do best at ${segments.best.relativeViews}x channel median views (${segments.best.count} compilations) vs ${segments.test.relativeViewsB}x${describeTest(segments.test)}.`,
+        confidence: segments.test.confidence,
+        sampleSize: chaptered.length,
+        metadata: {
+          medianSegments,
+          medianSegmentLength,
+          buckets: segments.buckets,
+          bestBucket: segments.best,
+          ...testMetadata(segments.test),
+        },
+      });
+    }
+
+    const reuse = (c: CompilationAnalysis) => c.reusedSegments / c.segments.length;
+    const reused = chaptered.filter((c) => reuse(c) >= HIGH_REUSE);
+    const fresh = chaptered.filter((c) => reuse(c) < HIGH_REUSE);
+    const reuseTest = compareGroups(scoresOf(reused), scoresOf(fresh));
+    findings.push({
+      patternType: 'compilation_reuse',
+      category: null,
+      finding: `${reused.length}/${chaptered.length} chaptered compilations mostly reuse segments the channel published before. They get ${reuseTest.relativeViewsA}x channel median views vs ${reuseTest.relativeViewsB}x for mostly new segments${describeTest(reuseTest)}.`,
+      confidence: reuseTest.confidence,
+      sampleSize: chaptered.length,
+      metadata: {
+        medianReuse: round(median(chaptered.map(reuse))),
+        reusedShare: round(reused.length / chaptered.length),
+        ...testMetadata(reuseTest),
+      },
+    });
+  }
+
+  return findings;
+}
+
+// ─── Helpers ───
+
+/** Views of each bucket, and the best bucket with enough compilations tested against the rest */
+function bestBucket(
+  compilations: CompilationAnalysis[],
+  buckets: Array<{ label: string; min: number; max: number }>,
+  value: (c: CompilationAnalysis) => number,
+  scoresOf: (list: CompilationAnalysis[]) => number[],
+) {
+  const members = buckets.map((b) =>
+    compilations.filter((c) => value(c) >= b.min && value(c) < b.max),
+  );
+  const stats = buckets.map((b, i) => ({
+    label: b.label,
+    count: members[i].length,
+    relativeViews: members[i].length > 0 ? round(Math.exp(median(scoresOf(members[i])))) : 0,
+  }));
+  const bestIndex = stats.reduce(
+    (best, b, i) =>
+      b.count >= MIN_BUCKET_COMPILATIONS &&
+      (best < 0 || b.relativeViews > stats[best].relativeViews)
+        ? i
+        : best,
+    -1,
+  );
+  if (bestIndex < 0) return null;
+
+  const test = compareGroups(
+    scoresOf(members[bestIndex]),
+    scoresOf(members.filter((_, i) => i !== bestIndex).flat()),
+  );
+  return { buckets: stats, best: stats[bestIndex], test };
+}
+
+function parseTimestamp(timestamp: string): number {
+  return timestamp.split(':').reduce((seconds, part) => seconds * 60 + parseInt(part, 10), 0);
+}
+
+/** A title's lead segment, lowercased and without punctuation, so "Bath Song | Cocomelon" and
+ * "Bath Song!" match */
+function normalize(title: string): string {
+  return title
+    .split(TITLE_SEPARATOR)[0]
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+function testMetadata(test: GroupComparison): Record<string, unknown> {
+  return {
+    effectSize: test.effectSize,
+    interval: test.interval,
+    pValue: test.pValue,
+    relativeViews: [test.relativeViewsA, test.relativeViewsB],
+  };
+}
+
+function describeTest(test: GroupComparison): string {
+  return test.sizeA >= 2 && test.sizeB >= 2 ? ` (p=${test.pValue}, effect ${test.effectSize})` : '';
+}
+
+function formatMinutes(seconds: number): string {
+  return seconds >= 60 ? `${Math.round(seconds / 60)}min` : `${Math.round(seconds)}s`;
+}
@@ -0,0 +1,225 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  QuotaExhaustedError,
+  TOP_KIDS_CHANNELS,
+  Watchlist,
+  type Database,
+  type Logger,
+  type YouTubeChannelInfo,
+  type YouTubeClient,
+  type YouTubeVideoInfo,
+} from '@kidsvid/shared';
+import { ChannelDiscovery, isKidsChannel, nicheSimilarity } from './discovery.js';
+
+const mockLogger = {
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+  debug: vi.fn(),
+} as unknown as Logger;
+
+function channel(
+  channelId: string,
+  subscriberCount: number,
+  overrides: Partial<YouTubeChannelInfo> = {},
+): YouTubeChannelInfo {
+  return {
+    channelId,
+    name: `${channelId} Kids`,
+    description: '',
+    subscriberCount,
+    videoCount: 100,
+    viewCount: 1_000_000,
+    country: 'US',
+    thumbnailUrl: '',
+    customUrl: '',
+    publishedAt: '2020-01-01T00:00:00Z',
+    ...overrides,
+  };
+}
+
+function video(videoId: string, title: string): YouTubeVideoInfo {
+  return {
+    videoId,
+    channelId: 'x',
+    title,
+    description: '',
+    publishedAt: '2026-09-01T00:00:00Z',
+    duration: 180,
+    viewCount: 1000,
+    likeCount: 10,
+    commentCount: 1,
+    tags: [],
+    thumbnailUrl: '',
+    defaultLanguage: 'en',
+    categoryId: '27',
+  };
+}
+
+function createMockYouTube(quotaAfterSearches = Infinity) {
+  let searches = 0;
+  const uploads: Record<string, YouTubeVideoInfo[]> = {
+    UC_learn: [
+      video('l1', 'Learn Colors for Toddlers | Educational Video'),
+      video('l2', 'Counting to 10 | Learning Numbers for Kids'),
+    ],
+    UC_toys: [video('t1', 'Giant Surprise Egg Unboxing'), video('t2', 'Toy Haul Unboxing')],
+  };
+  return {
+    searchChannels: vi.fn(async () => {
+      if (++searches > quotaAfterSearches) {
+        throw new QuotaExhaustedError('YouTube quota exhausted', new Date());
+      }
+      return [
+        { channelId: 'UC_learn', title: 'Learn' },
+        { channelId: 'UC_toys', title: 'Toys' },
+        { channelId: 'UC_small', title: 'Small' },
+        { channelId: 'UC_watched', title: 'Watched' },
+      ];
+    }),
+    getChannelsBatch: vi.fn(async (ids: string[]) =>
+      ids.map((id) =>
+        id === 'UC_small' ? channel(id, 5_000) : channel(id, 2_000_000, { madeForKids: true }),
+      ),
+    ),
+    getChannelVideos: vi.fn(async (channelId: string) => uploads[channelId] ?? []),
+  };
+}
+
+function createMockDb() {
+  const proposed: Array<Record<string, unknown>> = [];
+  const db = {
+    query: {
+      watchlist: {
+        findMany: vi.fn().mockResolvedValue([{ youtubeChannelId: 'UC_watched', status: 'active' }]),
+        findFirst: vi.fn().mockResolvedValue({ id: 1 }),
+      },
+      channels: {
+        findMany: vi.fn().mockResolvedValue([{ primaryCategory: 'educational' }]),
+      },
+      categorizerModels: {
+        findFirst: vi.fn().mockResolvedValue(undefined),
+      },
+    },
+    insert: vi.fn(() => ({
+      values: vi.fn((rows: Array<Record<string, unknown>>) => {
+        proposed.push(...rows);
+        return {
+          onConflictDoNothing: vi.fn(() => ({ returning: vi.fn().mockResolvedValue(rows) })),
+        };
+      }),
+    })),
+  } as unknown as Database;
+  return { db, proposed };
+}
+
+/** A watchlist table that starts empty and keeps what's inserted into it */
+function createEmptyWatchlistDb() {
+  const rows: Array<Record<string, unknown>> = [];
+  const db = {
+    query: {
+      watchlist: {
+        findMany: vi.fn(async () => rows),
+        findFirst: vi.fn(async () => rows[0]),
+      },
+      channels: { findMany: vi.fn().mockResolvedValue([]) },
+      categorizerModels: { findFirst: vi.fn().mockResolvedValue(undefined) },
+    },
+    insert: vi.fn(() => ({
+      values: vi.fn((values: Array<Record<string, unknown>>) => {
+        const added = values.filter(
+          (v) => !rows.some((r) => r.youtubeChannelId === v.youtubeChannelId),
+        );
+        rows.push(...added);
+        return {
+          onConflictDoNothing: vi.fn(() => ({ returning: vi.fn().mockResolvedValue(added) })),
+        };
+      }),
+    })),
+  } as unknown as Database;
+  return { db, rows };
+}
+
+describe('nicheSimilarity', () => {
+  it('is 1 for the same category mix and 0 for disjoint ones', () => {
+    expect(nicheSimilarity({ educational: 2, song: 1 }, { educational: 4, song: 2 })).toBeCloseTo(
+      1,
+    );
+    expect(nicheSimilarity({ educational: 3 }, { unboxing: 3 })).toBe(0);
+    expect(nicheSimilarity({}, { educational: 1 })).toBe(0);
+  });
+});
+
+describe('isKidsChannel', () => {
+  it('trusts the made-for-kids designation over the channel text', () => {
+    expect(isKidsChannel(channel('UC_a', 1, { madeForKids: false }))).toBe(false);
+    expect(isKidsChannel(channel('UC_b', 1, { name: 'Gaming Daily', madeForKids: true }))).toBe(
+      true,
+    );
+  });
+
+  it('falls back to kids terms in the name or description', () => {
+    expect(isKidsChannel(channel('UC_c', 1, { name: 'Tech Reviews' }))).toBe(false);
+    expect(
+      isKidsChannel(channel('UC_d', 1, { name: 'Sunny', description: 'Songs for toddlers' })),
+    ).toBe(true);
+  });
+});
+
+describe('ChannelDiscovery', () => {
+  it('proposes unknown, large kids channels that match the niche', async () => {
+    const youtube = createMockYouTube();
+    const { db, proposed } = createMockDb();
+    const discovery = new ChannelDiscovery(youtube as unknown as YouTubeClient, db, mockLogger);
+
+    const result = await discovery.discover({ keywords: ['kids learning videos'] });
+
+    expect(youtube.getChannelsBatch).toHaveBeenCalledWith(['UC_learn', 'UC_toys', 'UC_small']);
+    expect(youtube.getChannelVideos).not.toHaveBeenCalledWith('UC_small', expect.anything());
+    expect(result).toMatchObject({ searched: 1, candidates: 2 });
+    expect(proposed).toHaveLength(1);
+    expect(proposed[0]).toMatchObject({
+      youtubeChannelId: 'UC_learn',
+      niche: 'educational',
+      language: 'en',
+      tier: 'large',
+      status: 'proposed',
+      source: 'discovery',
+    });
+    expect(proposed[0].score).toBeGreaterThanOrEqual(0.4);
+    expect(proposed[0].reason).toContain('category overlap');
+  });
+
+  it('keeps the built-in channels analyzed after discovering into an empty watchlist', async () => {
+    const youtube = createMockYouTube();
+    const cocomelon = TOP_KIDS_CHANNELS[0].channelId;
+    youtube.searchChannels.mockResolvedValue([
+      { channelId: 'UC_learn', title: 'Learn' },
+      { channelId: cocomelon, title: 'Cocomelon' },
+    ]);
+    const { db, rows } = createEmptyWatchlistDb();
+    const discovery = new ChannelDiscovery(youtube as unknown as YouTubeClient, db, mockLogger);
+
+    const result = await discovery.discover({ keywords: ['kids learning videos'] });
+
+    // A built-in channel is never proposed as new
+    expect(youtube.getChannelsBatch).toHaveBeenCalledWith(['UC_learn']);
+    expect(result.proposals.map((p) => p.youtubeChannelId)).toEqual(['UC_learn']);
+    expect(rows.filter((r) => r.status === 'proposed')).toHaveLength(1);
+    // The next analysis run still covers the built-in channels
+    expect(await new Watchlist(db, mockLogger).activeChannelIds()).toEqual(
+      TOP_KIDS_CHANNELS.map((c) => c.channelId),
+    );
+  });
+
+  it('keeps earlier search results when the quota runs out mid-search', async () => {
+    const youtube = createMockYouTube(1);
+    const { db } = createMockDb();
+    const discovery = new ChannelDiscovery(youtube as unknown as YouTubeClient, db, mockLogger);
+
+    const result = await discovery.discover({ keywords: ['kids learning videos', 'phonics'] });
+
+    expect(result.searched).toBe(1);
+    expect(result.proposals.map((p) => p.youtubeChannelId)).toEqual(['UC_learn']);
+  });
+});
@@ -0,0 +1,240 @@
+import {
+  QuotaExhaustedError,
+  TOP_KIDS_CHANNELS,
+  Watchlist,
+  subscriberTier,
+  type CategoryModel,
+  type ContentCategory,
+  type Database,
+  type Logger,
+  type WatchlistEntry,
+  type WatchlistProposal,
+  type YouTubeChannelInfo,
+  type YouTubeClient,
+} from '@kidsvid/shared';
+import { channels, inArray } from '@kidsvid/shared/db';
+import { categorizeVideo } from './categorizer.js';
+import { loadActiveCategoryModel } from './category-models.js';
+import { extractTopicPhrases } from './trends.js';
+
+/** Competitor discovery.
+ * Searches YouTube for kids channels the watchlist doesn't know yet. It keeps channels that
+ * are big enough and look made for kids, scores them by how closely their recent uploads
+ * match the watchlist's niche, and proposes the best ones for someone to accept. */
+
+export const DISCOVERY_KEYWORDS = [
+  'kids learning videos',
+  'nursery rhymes for kids',
+  'preschool learning songs',
+  'toddler learning videos',
+  'science for kids',
+  'phonics songs for kids',
+];
+
+export interface DiscoveryOptions {
+  keywords?: string[];
+  /** Smallest channel worth following (default 100K subscribers) */
+  minSubscribers?: number;
+  /** Proposals to make per discovery run (default 10) */
+  maxProposals?: number;
+  /** Lowest similarity score that gets proposed (default 0.4) */
+  minScore?: number;
+  /** Recent uploads sampled per candidate to score it (default 10) */
+  videosPerCandidate?: number;
+}
+
+export interface DiscoveryResult {
+  searched: number;
+  candidates: number;
+  proposals: WatchlistEntry[];
+}
+
+const DEFAULT_MIN_SUBSCRIBERS = 100_000;
+const DEFAULT_MAX_PROPOSALS = 10;
+const DEFAULT_MIN_SCORE = 0.4;
+const DEFAULT_VIDEOS_PER_CANDIDATE = 10;
+/** Candidates sampled per proposal slot; each costs ~3 quota units to score */
+const CANDIDATES_PER_PROPOSAL = 3;
+/** Weight of category overlap against educational-topic share in the score */
+const CATEGORY_WEIGHT = 0.7;
+
+/** Niche assumed before any watched channel has been analyzed */
+const DEFAULT_NICHE: Partial<Record<ContentCategory, number>> = {
+  educational: 2,
+  nursery_rhyme: 1,
+  song: 1,
+};
+
+const KIDS_TERMS =
+  /\b(kids?|children|child|toddlers?|preschool|nursery|baby|babies|learning|cartoons?)\b/i;
+
+export class ChannelDiscovery {
+  private watchlist: Watchlist;
+
+  constructor(
+    private youtube: YouTubeClient,
+    private db: Database,
+    private logger: Logger,
+  ) {
+    this.watchlist = new Watchlist(db, logger);
+  }
+
+  async discover(options: DiscoveryOptions = {}): Promise<DiscoveryResult> {
+    const {
+      keywords = DISCOVERY_KEYWORDS,
+      minSubscribers = DEFAULT_MIN_SUBSCRIBERS,
+      maxProposals = DEFAULT_MAX_PROPOSALS,
+      minScore = DEFAULT_MIN_SCORE,
+      videosPerCandidate = DEFAULT_VIDEOS_PER_CANDIDATE,
+    } = options;
+
+    const listed = await this.watchlist.list();
+    // The built-in channels count as known even before they're seeded into the table
+    const known = new Set([
+      ...listed.map((e) => e.youtubeChannelId),
+      ...TOP_KIDS_CHANNELS.map((c) => c.channelId),
+    ]);
+    const niche = await this.nicheProfile(
+      listed.filter((e) => e.status === 'active').map((e) => e.youtubeChannelId),
+    );
+    // Candidates are categorized like the analyzed channels the niche comes from
+    const categoryModel = (await loadActiveCategoryModel(this.db))?.model ?? null;
+
+    // Search is 100 units a call: keep what earlier keywords found if the quota runs out
+    const found = new Set<string>();
+    let searched = 0;
+    for (const keyword of keywords) {
+      try {
+        const results = await this.youtube.searchChannels(keyword);
+        searched++;
+        for (const r of results) if (!known.has(r.channelId)) found.add(r.channelId);
+      } catch (err) {
+        if (!(err instanceof QuotaExhaustedError) || found.size === 0) throw err;
+        this.logger.warn({ keyword }, 'Quota exhausted during discovery search');
+        break;
+      }
+    }
+
+    const eligible = (await this.youtube.getChannelsBatch([...found]))
+      .filter((c) => c.subscriberCount >= minSubscribers && isKidsChannel(c))
+      .sort((a, b) => b.subscriberCount - a.subscriberCount)
+      .slice(0, maxProposals * CANDIDATES_PER_PROPOSAL);
+
+    const scored: WatchlistProposal[] = [];
+    for (const channel of eligible) {
+      try {
+        const proposal = await this.scoreCandidate(
+          channel,
+          niche,
+          videosPerCandidate,
+          categoryModel,
+        );
+        if (proposal.score >= minScore) scored.push(proposal);
+      } catch (err) {
+        if (err instanceof QuotaExhaustedError) break;
+        this.logger.warn({ channel: channel.name, err }, 'Could not score discovery candidate');
+      }
+    }
+
+    scored.sort((a, b) => b.score - a.score);
+    const proposals = await this.watchlist.propose(scored.slice(0, maxProposals));
+    this.logger.info(
+      { searched, found: found.size, eligible: eligible.length, proposed: proposals.length },
+      'Channel discovery complete',
+    );
+    return { searched, candidates: eligible.length, proposals };
+  }
+
+  private async scoreCandidate(
+    channel: YouTubeChannelInfo,
+    niche: Partial<Record<ContentCategory, number>>,
+    videosPerCandidate: number,
+    categoryModel: CategoryModel | null,
+  ): Promise<WatchlistProposal> {
+    const uploads = await this.youtube.getChannelVideos(channel.channelId, videosPerCandidate);
+    const categories: Partial<Record<ContentCategory, number>> = {};
+    const languages = new Map<string, number>();
+    let educational = 0;
+    for (const video of uploads) {
+      const { category } = categorizeVideo(video, categoryModel);
+      categories[category] = (categories[category] ?? 0) + 1;
+      if (video.defaultLanguage) {
+        const language = video.defaultLanguage.split('-')[0];
+        languages.set(language, (languages.get(language) ?? 0) + 1);
+      }
+      if (extractTopicPhrases(video).topics.length > 0) educational++;
+    }
+
+    const overlap = nicheSimilarity(categories, niche);
+    const educationalShare = uploads.length > 0 ? educational / uploads.length : 0;
+    const score = CATEGORY_WEIGHT * overlap + (1 - CATEGORY_WEIGHT) * educationalShare;
+    const topCategory = mostCommon(categories);
+
+    return {
+      youtubeChannelId: channel.channelId,
+      name: channel.name,
+      niche: topCategory,
+      language: mostCommon(Object.fromEntries(languages)),
+      tier: subscriberTier(channel.subscriberCount),
+      subscriberCount: channel.subscriberCount,
+      score: Math.round(score * 100) / 100,
+      reason:
+        `${Math.round(overlap * 100)}% category overlap with the watchlist` +
+        (topCategory ? ` (mostly ${topCategory})` : '') +
+        `, ${Math.round(educationalShare * 100)}% of recent uploads on educational topics` +
+        (channel.madeForKids ? ', made for kids' : ''),
+    };
+  }
+
+  /** Category mix of the channels we already follow, from their last analysis */
+  private async nicheProfile(
+    channelIds: string[],
+  ): Promise<Partial<Record<ContentCategory, number>>> {
+    if (channelIds.length === 0) return DEFAULT_NICHE;
+    const rows = await this.db.query.channels.findMany({
+      where: inArray(channels.youtubeChannelId, channelIds),
+      columns: { primaryCategory: true },
+    });
+
+    const profile: Partial<Record<ContentCategory, number>> = {};
+    for (const row of rows) {
+      if (row.primaryCategory) {
+        profile[row.primaryCategory] = (profile[row.primaryCategory] ?? 0) + 1;
+      }
+    }
+    return Object.keys(profile).length > 0 ? profile : DEFAULT_NICHE;
+  }
+}
+
+/** Made-for-kids designation, or kids terms in the channel's name or description */
+export function isKidsChannel(channel: YouTubeChannelInfo): boolean {
+  if (channel.madeForKids !== undefined) return channel.madeForKids;
+  return KIDS_TERMS.test(channel.name) || KIDS_TERMS.test(channel.description);
+}
+
+/** Cosine similarity of two category count vectors (0 = disjoint, 1 = same mix) */
+export function nicheSimilarity(
+  a: Partial<Record<ContentCategory, number>>,
+  b: Partial<Record<ContentCategory, number>>,
+): number {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)] as ContentCategory[]);
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (const key of keys) {
+    const x = a[key] ?? 0;
+    const y = b[key] ?? 0;
+    dot += x * y;
+    normA += x * x;
+    normB += y * y;
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+function mostCommon<K extends string>(counts: Partial<Record<K, number>>): K | null {
+  let best: K | null = null;
+  for (const [key, count] of Object.entries(counts) as Array<[K, number]>) {
+    if (best === null || count > (counts[best] ?? 0)) best = key;
+  }
+  return best;
+}
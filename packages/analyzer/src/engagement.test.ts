@@ -239,6 +239,36 @@ describe('findViralOutliers', () => {
     expect(outliers[0].viralMultiplier).toBeGreaterThan(outliers[1].viralMultiplier);
   });
 
+  it('compares recent velocity instead of lifetime views when velocities are given', () => {
+    const videos = [
+      makeVideo({ videoId: 'old-hit', viewCount: 50000000 }),
+      ...Array.from({ length: 8 }, (_, i) =>
+        makeVideo({ videoId: `norm${i}`, viewCount: 100000 }),
+      ),
+      makeVideo({ videoId: 'rising', viewCount: 300000 }),
+    ];
+    const categories = new Map(
+      videos.map((v) => [v.videoId, categorizeVideo(v)]),
+    );
+    const velocities = new Map(
+      videos.map((v) => [
+        v.videoId,
+        {
+          videoId: v.videoId,
+          channelId: v.channelId,
+          category: 'other' as const,
+          velocity7d: v.videoId === 'rising' ? 40000 : 1000,
+          velocity30d: null,
+          acceleration: null,
+          breakout: false,
+        },
+      ]),
+    );
+
+    const outliers = findViralOutliers(videos, categories, velocities);
+    expect(outliers.map((o) => o.video.videoId)).toEqual(['rising']);
+  });
+
   it('handles empty input', () => {
     const outliers = findViralOutliers([], new Map());
     expect(outliers).toHaveLength(0);
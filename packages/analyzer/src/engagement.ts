@@ -1,5 +1,6 @@
 import type { YouTubeVideoInfo, ChannelAnalysis, ContentCategory } from '@kidsvid/shared';
 import type { CategorizeResult } from './categorizer.js';
+import type { VideoVelocity } from './velocity.js';
 
 /** Analyze engagement patterns across channels and videos */
 
@@ -147,22 +148,31 @@ export function rankChannels(analyses: ChannelAnalysis[]): (ChannelAnalysis & {
     .map((a, i) => ({ ...a, rank: i + 1 }));
 }
 
-/** Identify viral outlier videos (>3x average views) */
+/** Identify viral outlier videos (>3x average views).
+ * With velocities from competitor snapshots, compares last-week views per day instead of
+ * lifetime views, among the videos that have one. */
 export function findViralOutliers(
   videos: YouTubeVideoInfo[],
   categories: Map<string, CategorizeResult>,
+  velocities?: Map<string, VideoVelocity>,
 ): { video: YouTubeVideoInfo; category: ContentCategory; viralMultiplier: number }[] {
-  if (videos.length === 0) return [];
-
-  const avgViews = videos.reduce((s, v) => s + v.viewCount, 0) / videos.length;
-  const threshold = avgViews * 3;
-
-  return videos
-    .filter((v) => v.viewCount > threshold)
+  const recent = velocities
+    ? videos.filter((v) => velocities.get(v.videoId)?.velocity7d != null)
+    : [];
+  const pool = recent.length > 0 ? recent : videos;
+  const score = (v: YouTubeVideoInfo) =>
+    recent.length > 0 ? velocities!.get(v.videoId)!.velocity7d! : v.viewCount;
+  if (pool.length === 0) return [];
+
+  const avgScore = pool.reduce((s, v) => s + score(v), 0) / pool.length;
+  const threshold = avgScore * 3;
+
+  return pool
+    .filter((v) => score(v) > threshold)
     .map((v) => ({
       video: v,
       category: categories.get(v.videoId)?.category || 'other',
-      viralMultiplier: Math.round((v.viewCount / avgViews) * 10) / 10,
+      viralMultiplier: Math.round((score(v) / avgScore) * 10) / 10,
     }))
     .sort((a, b) => b.viralMultiplier - a.viralMultiplier);
 }
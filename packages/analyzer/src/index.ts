@@ -1,12 +1,117 @@
 export { AnalysisPipeline, type AnalysisPipelineOptions } from './pipeline.js';
-export { ChannelScraper, type ScraperOptions, type ScraperResult } from './scraper.js';
+export {
+  ChannelScraper,
+  createScrapePlan,
+  type ScraperOptions,
+  type ScraperResult,
+} from './scraper.js';
+export {
+  ChannelDiscovery,
+  DISCOVERY_KEYWORDS,
+  isKidsChannel,
+  nicheSimilarity,
+  type DiscoveryOptions,
+  type DiscoveryResult,
+} from './discovery.js';
 export {
   categorizeVideo,
   categorizeVideos,
   categorizeChannel,
+  categorizeByKeywords,
   type CategorizeResult,
 } from './categorizer.js';
-export { detectPatterns, type PatternDetectorInput } from './patterns.js';
+export {
+  extractFeatures,
+  trainCategoryModel,
+  predictCategory,
+  evaluateCategorizer,
+  crossValidate,
+  formatEvaluation,
+  type CategorizerInput,
+  type LabeledVideo,
+  type TrainOptions,
+  type CrossValidation,
+} from './text-classifier.js';
+export {
+  saveCategoryLabel,
+  sampleUnlabeledVideos,
+  loadLabeledVideos,
+  saveCategoryModel,
+  activateCategoryModel,
+  loadActiveCategoryModel,
+  listCategoryModels,
+  type CategorizerModelVersion,
+  type LabelingCandidate,
+} from './category-models.js';
+export {
+  classifyEducationalTopics,
+  classifyVideoTopics,
+  summarizeTopicCoverage,
+  type TopicClassification,
+  type TopicCoverage,
+} from './topic-classifier.js';
+export { detectPatterns, videoFormat, type PatternDetectorInput } from './patterns.js';
+export {
+  profileUploadCadence,
+  rankUploadSlots,
+  recommendUploadSlots,
+  type ChannelCadence,
+  type UploadSlot,
+} from './cadence.js';
+export { parseTitleTemplates, formatTemplate, type ParsedTitle } from './title-templates.js';
+export {
+  parseChapters,
+  analyzeCompilations,
+  detectCompilationPatterns,
+  COMPILATION_DURATION,
+  type Chapter,
+  type CompilationAnalysis,
+  type CompilationSignal,
+} from './compilations.js';
+export {
+  profilePlaylists,
+  detectSeriesPatterns,
+  type SeriesProfile,
+  type CompilationProfile,
+} from './series.js';
+export {
+  videoLanguage,
+  summarizeMarkets,
+  findLanguageEditions,
+  detectMarketPatterns,
+  languageName,
+  type MarketSummary,
+  type LanguageEdition,
+  type EditionChannel,
+  type MarketPatternInput,
+} from './markets.js';
+export {
+  ThumbnailAnalyzer,
+  computeThumbnailFeatures,
+  type ThumbnailAnalyzerOptions,
+  type ThumbnailFeatures,
+  type ThumbnailColor,
+  type RgbaImage,
+} from './thumbnails.js';
+export {
+  diffRuns,
+  formatRunDiff,
+  findingKey,
+  headlineValues,
+  type RunDiff,
+  type ChangedFinding,
+  type FindingChange,
+  type DiffOptions,
+} from './run-diff.js';
+export {
+  compareGroups,
+  compareRates,
+  estimateMean,
+  relativeViewScores,
+  type GroupComparison,
+  type RateComparison,
+  type MeanEstimate,
+} from './stats.js';
 export {
   computeEngagementStats,
   buildChannelAnalysis,
@@ -14,10 +119,28 @@ export {
   findViralOutliers,
   type EngagementStats,
 } from './engagement.js';
+export {
+  loadVideoSnapshots,
+  computeVideoVelocities,
+  aggregateVelocity,
+  BREAKOUT_MULTIPLIER,
+  BREAKOUT_MIN_VELOCITY,
+  type VideoSnapshot,
+  type VideoVelocity,
+  type GroupVelocity,
+} from './velocity.js';
+export {
+  detectTrends,
+  extractTopicPhrases,
+  topicEducationalCategory,
+  type TrendOptions,
+  type TrendVideo,
+} from './trends.js';
 export {
   StrategyEngine,
   type ChannelMetrics,
   type CompetitivePosition,
-  type UploadRecommendation,
+  type FormatRecommendation,
+  type ContentPlanFormat,
   type TitleRecommendation,
 } from './strategy-engine.js';
@@ -0,0 +1,209 @@
+import { describe, it, expect } from 'vitest';
+import type { YouTubeChannelInfo, YouTubeVideoInfo } from '@kidsvid/shared';
+import {
+  detectMarketPatterns,
+  findLanguageEditions,
+  languageName,
+  summarizeMarkets,
+  videoLanguage,
+} from './markets.js';
+
+function video(
+  videoId: string,
+  channelId: string,
+  overrides: Partial<YouTubeVideoInfo> = {},
+): YouTubeVideoInfo {
+  return {
+    videoId,
+    channelId,
+    title: 'Wheels on the Bus',
+    description: '',
+    publishedAt: '2026-09-01T15:00:00Z',
+    duration: 180,
+    viewCount: 1000,
+    likeCount: 10,
+    commentCount: 1,
+    tags: [],
+    thumbnailUrl: '',
+    defaultLanguage: '',
+    categoryId: '27',
+    ...overrides,
+  };
+}
+
+function channel(channelId: string, name: string, country = ''): YouTubeChannelInfo {
+  return {
+    channelId,
+    name,
+    description: '',
+    subscriberCount: 1000,
+    videoCount: 10,
+    viewCount: 100000,
+    country,
+    thumbnailUrl: '',
+    customUrl: '',
+    publishedAt: '2020-01-01T00:00:00Z',
+  };
+}
+
+/** Running times no two channels share by accident */
+const catalogue = [125, 163, 217, 248, 301, 356, 412, 487];
+
+describe('videoLanguage', () => {
+  it('prefers the default language, then the title, then the country', () => {
+    expect(videoLanguage(video('a', 'c', { defaultLanguage: 'es-419' }), 'US')).toBe('es');
+    expect(videoLanguage(video('b', 'c', { title: '동요 모음' }))).toBe('ko');
+    expect(videoLanguage(video('c', 'c', { title: 'Canciones Infantiles' }))).toBe('es');
+    expect(videoLanguage(video('d', 'c'), 'BR')).toBe('pt');
+    expect(videoLanguage(video('e', 'c'))).toBe('und');
+  });
+
+  it('recognises title words that start or end in a non-ASCII letter', () => {
+    expect(videoLanguage(video('a', 'c', { title: 'En Sevilen Çocuk Şarkıları' }))).toBe('tr');
+    expect(videoLanguage(video('b', 'c', { title: 'Çizgi Film Derlemesi' }))).toBe('tr');
+    expect(videoLanguage(video('c', 'c', { title: 'Les meilleurs dessins animés' }))).toBe('fr');
+    expect(videoLanguage(video('d', 'c', { title: 'Dessin animé pour la maternelle' }))).toBe('fr');
+  });
+});
+
+describe('summarizeMarkets', () => {
+  it('summarizes each market with enough videos', () => {
+    const videos = [
+      ...Array.from({ length: 6 }, (_, i) =>
+        video(`us${i}`, i < 3 ? 'us1' : 'us2', { viewCount: 1000 * (i + 1) }),
+      ),
+      ...Array.from({ length: 5 }, (_, i) => video(`mx${i}`, 'mx', { viewCount: 500 })),
+      video('fr0', 'fr'),
+    ];
+    const markets = summarizeMarkets(videos, [
+      channel('us1', 'One', 'US'),
+      channel('us2', 'Two', 'US'),
+      channel('mx', 'Tres', 'MX'),
+      channel('fr', 'Quatre', 'FR'),
+    ]);
+
+    expect(markets.map((m) => [m.language, m.videos, m.channels, m.countries])).toEqual([
+      ['en', 6, 2, ['US']],
+      ['es', 5, 1, ['MX']],
+    ]);
+    expect(markets[0].medianViews).toBe(3500);
+    expect(markets[1].engagementRate).toBe(0.022);
+  });
+});
+
+describe('findLanguageEditions', () => {
+  it('pairs channels sharing running times and credits the earlier one as the source', () => {
+    const videos = [
+      ...catalogue.map((duration, i) =>
+        video(`en${i}`, 'en', { duration, viewCount: 100000, publishedAt: '2026-01-01T15:00:00Z' }),
+      ),
+      ...catalogue.slice(0, 6).map((duration, i) =>
+        video(`es${i}`, 'es', {
+          duration,
+          viewCount: 40000,
+          publishedAt: '2026-03-01T15:00:00Z',
+        }),
+      ),
+    ];
+    const editions = findLanguageEditions(videos, [
+      channel('en', 'Little Stars', 'US'),
+      channel('es', 'Estrellitas', 'MX'),
+    ]);
+
+    expect(editions).toHaveLength(1);
+    expect(editions[0]).toMatchObject({
+      source: { channelId: 'en', language: 'en' },
+      edition: { channelId: 'es', language: 'es' },
+      matchedVideos: 6,
+      relativeReach: 0.4,
+      evidence: ['durations'],
+    });
+  });
+
+  it('recognises editions by a shared name', () => {
+    const videos = [
+      video('en0', 'en', { viewCount: 90000 }),
+      video('pt0', 'pt', { duration: 200, viewCount: 30000 }),
+    ];
+    const editions = findLanguageEditions(videos, [
+      channel('en', 'Cocomelon Nursery Rhymes', 'US'),
+      channel('pt', 'Cocomelon em Português', 'BR'),
+    ]);
+
+    expect(editions.map((e) => [e.edition.channelId, e.matchedVideos, e.evidence])).toEqual([
+      ['pt', 0, ['name']],
+    ]);
+    expect(editions[0].relativeReach).toBeCloseTo(0.33, 2);
+  });
+
+  it('does not take one shared common word for a shared name', () => {
+    const videos = [
+      video('en0', 'en', { viewCount: 90000 }),
+      video('es0', 'es', { duration: 200 }),
+      video('fr0', 'fr', { duration: 300 }),
+    ];
+    const editions = findLanguageEditions(videos, [
+      channel('en', 'Super Happy Songs', 'US'),
+      channel('es', 'Super Amigos', 'MX'),
+      channel('fr', 'Petits Amis Super', 'FR'),
+    ]);
+
+    expect(editions).toEqual([]);
+  });
+
+  it('recognises editions sharing more than one distinctive name word', () => {
+    const videos = [video('en0', 'en'), video('es0', 'es', { duration: 200 })];
+    const editions = findLanguageEditions(videos, [
+      channel('en', 'Super Simple Songs', 'US'),
+      channel('es', 'Super Simple en Español', 'MX'),
+    ]);
+
+    expect(editions.map((e) => e.evidence)).toEqual([['name']]);
+  });
+
+  it('does not take running times any two channels share by chance for an edition', () => {
+    // Both channels upload a video at every whole minute, so every offset matches as often
+    const minutes = Array.from({ length: 10 }, (_, i) => 120 + i * 10);
+    const videos = [
+      ...minutes.map((duration, i) => video(`en${i}`, 'en', { duration })),
+      ...minutes.map((duration, i) => video(`es${i}`, 'es', { duration })),
+    ];
+    const editions = findLanguageEditions(videos, [
+      channel('en', 'Happy Tunes', 'US'),
+      channel('es', 'Rondas Alegres', 'ES'),
+    ]);
+
+    expect(editions).toEqual([]);
+  });
+});
+
+describe('detectMarketPatterns', () => {
+  it('reports market share and profiles markets large enough', () => {
+    const videos = [
+      ...Array.from({ length: 24 }, (_, i) =>
+        video(`en${i}`, `en${i % 3}`, {
+          title: `Learn Colors ${i}`,
+          defaultLanguage: 'en',
+          viewCount: 1000 + i * 100,
+        }),
+      ),
+      ...Array.from({ length: 6 }, (_, i) =>
+        video(`es${i}`, 'es', { title: `Canciones Infantiles ${i}`, viewCount: 5000 }),
+      ),
+    ];
+    const findings = detectMarketPatterns({ videos, categories: new Map() });
+
+    const share = findings.find((f) => f.patternType === 'market_share')!;
+    expect(share.finding).toContain('English 80% of videos (3 channels');
+    expect(share.finding).toContain('Spanish 20% of videos (1 channel,');
+    expect(findings.filter((f) => f.patternType === 'market_profile')).toHaveLength(1);
+    expect(findings.find((f) => f.patternType === 'market_profile')!.metadata.language).toBe('en');
+  });
+});
+
+describe('languageName', () => {
+  it('names language codes in English', () => {
+    expect(languageName('es')).toBe('Spanish');
+    expect(languageName('und')).toBe('Undetermined');
+  });
+});
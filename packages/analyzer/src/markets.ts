@@ -0,0 +1,421 @@
+import type { PatternFinding, YouTubeChannelInfo, YouTubeVideoInfo } from '@kidsvid/shared';
+import type { CategorizeResult } from './categorizer.js';
+import { detectPatterns } from './patterns.js';
+import { estimateMean, formatNumber, median, round } from './stats.js';
+
+/** Language markets.
+ * Segments competitor videos by language — the video's default language, else the script or
+ * common words of its title, else its channel's country — and profiles each market's views,
+ * engagement and patterns. Also finds channels running parallel language editions of one
+ * catalogue: dubbed videos keep their running time, so two channels in different languages
+ * sharing far more exact durations than chance would give are editions of each other. */
+
+export interface MarketSummary {
+  /** ISO 639-1 code, or `und` when no signal gave the language away */
+  language: string;
+  videos: number;
+  channels: number;
+  /** Countries of the market's channels, most channels first */
+  countries: string[];
+  medianViews: number;
+  engagementRate: number;
+}
+
+export interface EditionChannel {
+  channelId: string;
+  name: string;
+  language: string;
+}
+
+/** A channel that republishes another channel's videos in another language */
+export interface LanguageEdition {
+  /** The edition the shared videos were published on first */
+  source: EditionChannel;
+  edition: EditionChannel;
+  /** Videos of the edition matched to a source video by running time */
+  matchedVideos: number;
+  /** Median views of the edition's matched videos relative to their source videos (or of the
+   * channels' medians, for editions recognised by name alone) */
+  relativeReach: number;
+  evidence: Array<'durations' | 'name'>;
+}
+
+export interface MarketPatternInput {
+  videos: YouTubeVideoInfo[];
+  categories: Map<string, CategorizeResult>;
+  channels?: YouTubeChannelInfo[];
+}
+
+const UNDETERMINED = 'und';
+/** Markets with this many videos get their own pattern profile */
+const MIN_MARKET_VIDEOS = 20;
+/** Markets smaller than this aren't summarized */
+const MIN_SUMMARY_VIDEOS = 5;
+/** Running times within this many seconds count as the same video */
+const DURATION_TOLERANCE = 1;
+/** Dubs are long-form; Shorts' running times coincide too often to tell anything */
+const MIN_EDITION_DURATION = 90;
+/** Offsets (seconds) at which matching running times can only be coincidence */
+const CHANCE_OFFSETS = [-40, -30, -20, -10, 10, 20, 30, 40];
+/** Exact-duration matches must beat chance this many times over, and number at least this */
+const EDITION_MATCH_RATIO = 3;
+const MIN_EDITION_MATCHES = 3;
+/** A name's distinctive words run together must be this long to be a brand, not just a word */
+const MIN_BRAND_STEM = 6;
+
+const SCRIPT_LANGUAGES: Array<[RegExp, string]> = [
+  [/\p{Script=Hangul}/u, 'ko'],
+  [/[\p{Script=Hiragana}\p{Script=Katakana}]/u, 'ja'],
+  [/\p{Script=Han}/u, 'zh'],
+  [/\p{Script=Cyrillic}/u, 'ru'],
+  [/\p{Script=Arabic}/u, 'ar'],
+  [/\p{Script=Devanagari}/u, 'hi'],
+  [/\p{Script=Thai}/u, 'th'],
+  [/\p{Script=Hebrew}/u, 'he'],
+  [/\p{Script=Greek}/u, 'el'],
+];
+
+/** Words that only kids titles in one Latin-script language use. Bounded by letter lookarounds,
+ * since `\b` only knows ASCII letters and never matches next to "ç" or "é". */
+const TITLE_WORDS: Array<[RegExp, string]> = [
+  [/(?<!\p{L})(canciones|infantiles?|niños|para bebés|cuentos|aprende)(?!\p{L})/iu, 'es'],
+  [/(?<!\p{L})(músicas?|crianças|desenhos?|para bebês)(?!\p{L})/iu, 'pt'],
+  [/(?<!\p{L})(comptines?|pour enfants|dessins? animés?|chansons?)(?!\p{L})/iu, 'fr'],
+  [/(?<!\p{L})(kinderlieder|für kinder|zeichentrick|lernen)(?!\p{L})/iu, 'de'],
+  [/(?<!\p{L})(canzoni|bambini|cartoni animati)(?!\p{L})/iu, 'it'],
+  [/(?<!\p{L})(lagu anak|anak-anak)(?!\p{L})/iu, 'id'],
+  [/(?<!\p{L})(çocuk şarkıları|çizgi film)(?!\p{L})/iu, 'tr'],
+];
+
+/** Main language of channels' home countries */
+const COUNTRY_LANGUAGES: Record<string, string> = {
+  US: 'en',
+  GB: 'en',
+  CA: 'en',
+  AU: 'en',
+  NZ: 'en',
+  IE: 'en',
+  ES: 'es',
+  MX: 'es',
+  AR: 'es',
+  CO: 'es',
+  CL: 'es',
+  PE: 'es',
+  BR: 'pt',
+  PT: 'pt',
+  FR: 'fr',
+  DE: 'de',
+  AT: 'de',
+  IT: 'it',
+  NL: 'nl',
+  RU: 'ru',
+  UA: 'uk',
+  TR: 'tr',
+  JP: 'ja',
+  KR: 'ko',
+  CN: 'zh',
+  TW: 'zh',
+  TH: 'th',
+  VN: 'vi',
+  ID: 'id',
+  SA: 'ar',
+  AE: 'ar',
+  EG: 'ar',
+};
+
+/** Words in channel names that say what or for whom, not whose, the channel is */
+const GENERIC_NAME_WORDS = new Set(
+  (
+    'kids tv channel official nursery rhymes songs song baby babies children family toys ' +
+    'cartoons cartoon learning english español espanol en em portugues português français ' +
+    'deutsch infantil canciones crianças enfants kinder the and de la el les club world'
+  ).split(' '),
+);
+
+/** The language a video is in: its default language, else its title's script or words, else
+ * its channel's country */
+export function videoLanguage(video: YouTubeVideoInfo, country?: string): string {
+  if (video.defaultLanguage) return video.defaultLanguage.split('-')[0].toLowerCase();
+  for (const [pattern, language] of [...SCRIPT_LANGUAGES, ...TITLE_WORDS]) {
+    if (pattern.test(video.title)) return language;
+  }
+  return (country && COUNTRY_LANGUAGES[country.toUpperCase()]) || UNDETERMINED;
+}
+
+/** Views, engagement and reach of every language market, most videos first */
+export function summarizeMarkets(
+  videos: YouTubeVideoInfo[],
+  channels: YouTubeChannelInfo[] = [],
+): MarketSummary[] {
+  const countries = new Map(channels.map((c) => [c.channelId, c.country]));
+  const markets = new Map<string, YouTubeVideoInfo[]>();
+  for (const v of videos) {
+    const language = videoLanguage(v, countries.get(v.channelId));
+    markets.set(language, [...(markets.get(language) ?? []), v]);
+  }
+
+  return [...markets]
+    .filter(([, list]) => list.length >= MIN_SUMMARY_VIDEOS)
+    .map(([language, list]) => {
+      const channelIds = [...new Set(list.map((v) => v.channelId))];
+      const countryCounts = new Map<string, number>();
+      for (const id of channelIds) {
+        const country = countries.get(id);
+        if (country) countryCounts.set(country, (countryCounts.get(country) ?? 0) + 1);
+      }
+      const withViews = list.filter((v) => v.viewCount > 0);
+      return {
+        language,
+        videos: list.length,
+        channels: channelIds.length,
+        countries: [...countryCounts].sort((a, b) => b[1] - a[1]).map(([country]) => country),
+        medianViews: Math.round(median(list.map((v) => v.viewCount))),
+        engagementRate: round(
+          withViews.reduce((s, v) => s + (v.likeCount + v.commentCount) / v.viewCount, 0) /
+            Math.max(withViews.length, 1),
+          4,
+        ),
+      };
+    })
+    .sort((a, b) => b.videos - a.videos);
+}
+
+/** Pairs of channels in different languages that publish the same catalogue */
+export function findLanguageEditions(
+  videos: YouTubeVideoInfo[],
+  channels: YouTubeChannelInfo[] = [],
+): LanguageEdition[] {
+  const info = new Map(channels.map((c) => [c.channelId, c]));
+  const byChannel = new Map<string, YouTubeVideoInfo[]>();
+  for (const v of videos) byChannel.set(v.channelId, [...(byChannel.get(v.channelId) ?? []), v]);
+
+  const profiles = [...byChannel].map(([channelId, list]) => {
+    const languages = new Map<string, number>();
+    for (const v of list) {
+      const language = videoLanguage(v, info.get(channelId)?.country);
+      languages.set(language, (languages.get(language) ?? 0) + 1);
+    }
+    const durations = new Map<number, number>();
+    for (const v of list.filter((v) => v.duration >= MIN_EDITION_DURATION)) {
+      durations.set(v.duration, (durations.get(v.duration) ?? 0) + 1);
+    }
+    return {
+      channel: {
+        channelId,
+        name: info.get(channelId)?.name ?? channelId,
+        language: [...languages].sort((a, b) => b[1] - a[1])[0][0],
+      },
+      videos: list,
+      durations,
+      nameWords: distinctiveWords(info.get(channelId)?.name ?? ''),
+    };
+  });
+
+  const editions: LanguageEdition[] = [];
+  for (let i = 0; i < profiles.length; i++) {
+    for (let j = i + 1; j < profiles.length; j++) {
+      const [a, b] = [profiles[i], profiles[j]];
+      if (a.channel.language === b.channel.language) continue;
+      if ([a, b].some((p) => p.channel.language === UNDETERMINED)) continue;
+
+      const evidence: LanguageEdition['evidence'] = [];
+      const matches = durationMatches(a.durations, b.durations, 0);
+      const chance =
+        CHANCE_OFFSETS.reduce((s, k) => s + durationMatches(a.durations, b.durations, k), 0) /
+        CHANCE_OFFSETS.length;
+      if (matches >= MIN_EDITION_MATCHES && matches >= EDITION_MATCH_RATIO * Math.max(chance, 1)) {
+        evidence.push('durations');
+      }
+      if (sameBrand(a.nameWords, b.nameWords)) evidence.push('name');
+      if (evidence.length === 0) continue;
+
+      editions.push(editionOf(a, b, evidence));
+    }
+  }
+  return editions.sort((a, b) => b.matchedVideos - a.matchedVideos);
+}
+
+/** Market share, per-market pattern profiles and parallel language editions */
+export function detectMarketPatterns(input: MarketPatternInput): PatternFinding[] {
+  const { videos, categories, channels = [] } = input;
+  const findings: PatternFinding[] = [];
+  const markets = summarizeMarkets(videos, channels);
+  if (markets.length === 0) return findings;
+
+  const countries = new Map(channels.map((c) => [c.channelId, c.country]));
+  const languageOf = (v: YouTubeVideoInfo) => videoLanguage(v, countries.get(v.channelId));
+  const share = estimateMean(videos.map((v) => (languageOf(v) === markets[0].language ? 1 : 0)));
+  findings.push({
+    patternType: 'market_share',
+    category: null,
+    finding: `Language markets: ${markets
+      .slice(0, 5)
+      .map(
+        (m) =>
+          `${languageName(m.language)} ${Math.round((m.videos / videos.length) * 100)}% of videos (${plural(m.channels, 'channel')}, ${formatNumber(m.medianViews)} median views, ${(m.engagementRate * 100).toFixed(1)}% engagement)`,
+      )
+      .join('; ')}.`,
+    confidence: share.confidence,
+    sampleSize: videos.length,
+    metadata: { markets },
+  });
+
+  // Each large enough market's own title, duration and schedule patterns
+  for (const market of markets.filter((m) => m.videos >= MIN_MARKET_VIDEOS)) {
+    const marketVideos = videos.filter((v) => languageOf(v) === market.language);
+    const segment = detectPatterns({
+      videos: marketVideos,
+      categories,
+      channels: channels.filter((c) => marketVideos.some((v) => v.channelId === c.channelId)),
+    });
+    const find = (type: string) => segment.find((p) => p.patternType === type && !p.category);
+    const bestDuration = (
+      find('duration_optimal')?.metadata.bestBucket as { label: string } | undefined
+    )?.label;
+    const topWords = (
+      (find('title_keywords')?.metadata.topWords as Array<{ word: string }> | undefined) ?? []
+    )
+      .slice(0, 5)
+      .map((w) => w.word);
+    const bestDay = (
+      find('upload_day')?.metadata.dayStats as Array<{ day: string }> | undefined
+    )?.[0]?.day;
+    const engagement = estimateMean(
+      marketVideos
+        .filter((v) => v.viewCount > 0)
+        .map((v) => (v.likeCount + v.commentCount) / v.viewCount),
+    );
+
+    findings.push({
+      patternType: 'market_profile',
+      category: null,
+      finding:
+        `[${market.language}] ${market.videos} videos from ${plural(market.channels, 'channel')}` +
+        (market.countries.length > 0 ? ` (${market.countries.slice(0, 3).join(', ')})` : '') +
+        `: ${formatNumber(market.medianViews)} median views, ${(market.engagementRate * 100).toFixed(1)}% engagement` +
+        (bestDuration ? `; best duration ${bestDuration}` : '') +
+        (bestDay ? `; best upload day ${bestDay}` : '') +
+        (topWords.length > 0 ? `; top title words ${topWords.join(', ')}` : '') +
+        '.',
+      confidence: engagement.confidence,
+      sampleSize: market.videos,
+      metadata: { ...market, bestDuration, bestDay, topWords },
+    });
+  }
+
+  const editions = findLanguageEditions(videos, channels);
+  if (editions.length > 0) {
+    findings.push({
+      patternType: 'language_editions',
+      category: null,
+      finding: `Parallel language editions: ${editions
+        .slice(0, 5)
+        .map(
+          (e) =>
+            `${e.edition.name} (${e.edition.language}) republishes ${e.source.name} (${e.source.language}) at ${e.relativeReach}x its views`,
+        )
+        .join('; ')}.`,
+      confidence: round(
+        editions.filter((e) => e.evidence.includes('durations')).length / editions.length,
+      ),
+      sampleSize: editions.reduce((s, e) => s + e.matchedVideos, 0),
+      metadata: { editions },
+    });
+  }
+
+  return findings;
+}
+
+/** English name of a language code ("es" → "Spanish") */
+export function languageName(code: string): string {
+  if (code === UNDETERMINED) return 'Undetermined';
+  try {
+    return new Intl.DisplayNames(['en'], { type: 'language' }).of(code) ?? code;
+  } catch {
+    return code;
+  }
+}
+
+// ─── Helpers ───
+
+interface ChannelProfile {
+  channel: EditionChannel;
+  videos: YouTubeVideoInfo[];
+  /** Long-form running times (seconds) and how many videos have each */
+  durations: Map<number, number>;
+  /** Distinctive words of the channel's name, in order */
+  nameWords: string[];
+}
+
+/** Video pairs whose running times match after shifting b's by `offset` seconds */
+function durationMatches(a: Map<number, number>, b: Map<number, number>, offset: number): number {
+  let matches = 0;
+  for (const [duration, count] of a) {
+    for (let d = -DURATION_TOLERANCE; d <= DURATION_TOLERANCE; d++) {
+      matches += count * (b.get(duration + offset + d) ?? 0);
+    }
+  }
+  return matches;
+}
+
+/** Match each video to one of the other channel's by running time, and call the channel that
+ * published the matched videos first the source */
+function editionOf(
+  a: ChannelProfile,
+  b: ChannelProfile,
+  evidence: LanguageEdition['evidence'],
+): LanguageEdition {
+  const unmatched = b.videos.filter((v) => v.duration >= MIN_EDITION_DURATION);
+  const pairs: Array<[YouTubeVideoInfo, YouTubeVideoInfo]> = [];
+  for (const video of a.videos.filter((v) => v.duration >= MIN_EDITION_DURATION)) {
+    const i = unmatched.findIndex(
+      (v) => Math.abs(v.duration - video.duration) <= DURATION_TOLERANCE,
+    );
+    if (i >= 0) pairs.push([video, unmatched.splice(i, 1)[0]]);
+  }
+
+  const aFirst = median(
+    pairs.map(([x, y]) => Date.parse(y.publishedAt) - Date.parse(x.publishedAt)),
+  );
+  const medianViews = (p: ChannelProfile) => median(p.videos.map((v) => v.viewCount));
+  const aIsSource = pairs.length > 0 ? aFirst >= 0 : medianViews(a) >= medianViews(b);
+  const [source, edition] = aIsSource ? [a, b] : [b, a];
+
+  const relativeReach =
+    pairs.length > 0
+      ? median(
+          pairs.map(([x, y]) => {
+            const [src, ed] = aIsSource ? [x, y] : [y, x];
+            return (ed.viewCount + 1) / (src.viewCount + 1);
+          }),
+        )
+      : (medianViews(edition) + 1) / (medianViews(source) + 1);
+
+  return {
+    source: source.channel,
+    edition: edition.channel,
+    matchedVideos: evidence.includes('durations') ? pairs.length : 0,
+    relativeReach: round(relativeReach),
+    evidence,
+  };
+}
+
+function distinctiveWords(name: string): string[] {
+  return name
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((w) => w.length >= 3 && !GENERIC_NAME_WORDS.has(w));
+}
+
+/** Two names are one brand's when their distinctive words run together into the same stem
+ * ("Cocomelon Nursery Rhymes", "Cocomelon em Português"), or when they share more than one
+ * distinctive word. A single shared word ("Super", "Little") is too common to tell. */
+function sameBrand(a: string[], b: string[]): boolean {
+  const stem = a.join('');
+  if (stem.length >= MIN_BRAND_STEM && stem === b.join('')) return true;
+  return new Set(a.filter((w) => b.includes(w))).size > 1;
+}
+
+function plural(n: number, noun: string): string {
+  return `${n} ${noun}${n === 1 ? '' : 's'}`;
+}
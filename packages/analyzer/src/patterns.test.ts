@@ -1,6 +1,7 @@
 import { describe, it, expect } from 'vitest';
 import { detectPatterns, type PatternDetectorInput } from './patterns.js';
 import { categorizeVideo } from './categorizer.js';
+import type { ThumbnailFeatures } from './thumbnails.js';
 import type { YouTubeVideoInfo } from '@kidsvid/shared';
 
 function makeVideo(overrides: Partial<YouTubeVideoInfo> = {}): YouTubeVideoInfo {
@@ -118,6 +119,70 @@ describe('detectPatterns', () => {
     expect(dayPattern!.metadata.dayStats).toBeDefined();
   });
 
+  it('ranks upload days with every channel weighing the same', () => {
+    // A prolific channel that uploads mostly on Mondays would make Monday best if its uploads
+    // were pooled; the two other channels both do far better on Wednesdays
+    const upload = (channelId: string, day: string, weeks: number, viewCount: number) =>
+      Array.from({ length: weeks }, (_, i) => {
+        const date = new Date(`2024-06-${day}T12:00:00Z`);
+        date.setUTCDate(date.getUTCDate() + i * 7);
+        return makeVideo({
+          videoId: `${channelId}-${day}-${i}`,
+          channelId,
+          publishedAt: date.toISOString(),
+          viewCount,
+        });
+      });
+    const videos = [
+      ...upload('big', '03', 30, 200000),
+      ...upload('big', '05', 10, 100000),
+      ...['a', 'b'].flatMap((channelId) => [
+        ...upload(channelId, '03', 4, 100000),
+        ...upload(channelId, '05', 4, 300000),
+      ]),
+    ];
+
+    const dayPattern = detectPatterns(makeInput(videos)).find(
+      (p) => p.patternType === 'upload_day',
+    );
+    const dayStats = dayPattern!.metadata.dayStats as Array<{ day: string; channels: number }>;
+    expect(dayStats[0]).toMatchObject({ day: 'Wednesday', channels: 3 });
+  });
+
+  it('profiles each channel’s upload cadence and ranks slots across channels', () => {
+    const videos = ['big', 'small'].flatMap((channelId) =>
+      Array.from({ length: 15 }, (_, i) => {
+        const date = new Date('2024-06-01T14:00:00Z');
+        date.setDate(date.getDate() + i);
+        const tuesday = date.getUTCDay() === 2;
+        return makeVideo({
+          videoId: `${channelId}${i}`,
+          channelId,
+          publishedAt: date.toISOString(),
+          viewCount: (channelId === 'big' ? 1000 : 1) * (tuesday ? 500000 : 100000),
+        });
+      }),
+    );
+    const result = detectPatterns({
+      ...makeInput(videos),
+      channels: [
+        { channelId: 'big', name: 'Big Channel', country: 'GB' },
+        { channelId: 'small', name: 'Small Channel', country: 'US' },
+      ] as PatternDetectorInput['channels'],
+    });
+
+    const cadence = result.find((p) => p.patternType === 'upload_cadence');
+    expect(cadence).toBeDefined();
+    expect(cadence!.finding).toContain('Big Channel 7/week, daily 14:00 UTC');
+    const channels = cadence!.metadata.channels as Array<{ channelId: string; localHours: number[] }>;
+    expect(channels.map((c) => [c.channelId, c.localHours])).toEqual([
+      ['big', [14]],
+      ['small', [9]],
+    ]);
+    const recommendations = cadence!.metadata.recommendations as Array<{ day: string }>;
+    expect(recommendations[0]).toMatchObject({ day: 'Tuesday', hourUtc: 14 });
+  });
+
   it('detects upload frequency', () => {
     const videos = Array.from({ length: 20 }, (_, i) => {
       const date = new Date('2024-06-01T12:00:00Z');
@@ -196,6 +261,42 @@ describe('detectPatterns', () => {
     expect(engPattern!.finding).toContain('%');
   });
 
+  it('compares category engagement as rates, not as view multiples', () => {
+    const videos = [
+      ...Array.from({ length: 10 }, (_, i) =>
+        makeVideo({
+          videoId: `edu${i}`,
+          title: 'Learn Colors and Numbers',
+          viewCount: 100_000,
+          likeCount: i % 2 ? 5_010 : 4_990,
+          commentCount: 0,
+        }),
+      ),
+      ...Array.from({ length: 10 }, (_, i) =>
+        makeVideo({
+          videoId: `song${i}`,
+          title: 'Baby Shark Song for Kids',
+          tags: ['kids songs', 'sing along'],
+          viewCount: 100_000,
+          likeCount: i % 2 ? 2_010 : 1_990,
+          commentCount: 0,
+        }),
+      ),
+    ];
+    const input = makeInput(videos);
+    const category = input.categories.get('edu0')!.category;
+    const result = detectPatterns(input);
+    const finding = result.find(
+      (p) => p.patternType === 'engagement_rate' && p.category === category,
+    )!;
+
+    expect(finding.finding).toContain('5.00% vs 2.00% for other categories');
+    expect(finding.metadata.effectSize).toBe(1);
+    const [low, high] = finding.metadata.interval as [number, number];
+    expect(low).toBeGreaterThan(2.9);
+    expect(high).toBeLessThan(3.1);
+  });
+
   it('detects per-category patterns when enough data', () => {
     const videos = [
       ...Array.from({ length: 10 }, (_, i) =>
@@ -224,6 +325,178 @@ describe('detectPatterns', () => {
     expect(catFindings.length).toBeGreaterThan(0);
   });
 
+  it('compares title lengths within each channel, not across mega-hits', () => {
+    const longTitle = 'A much longer title about counting apples with friends today';
+    // Long titles do a little better on both channels, but the huge channel mostly uses
+    // short titles, so raw averages favour short titles
+    const uploads = (channelId: string, title: string, viewCount: number, count: number) =>
+      Array.from({ length: count }, (_, i) =>
+        makeVideo({ videoId: `${channelId}-${title.length}-${i}`, channelId, title, viewCount }),
+      );
+    const videos = [
+      ...uploads('mega', 'Wheels', 50_000_000, 8),
+      ...uploads('mega', longTitle, 60_000_000, 2),
+      ...uploads('small', 'Wheels', 10_000, 2),
+      ...uploads('small', longTitle, 12_000, 8),
+    ];
+    const result = detectPatterns(makeInput(videos));
+    const titlePattern = result.find((p) => p.patternType === 'title_length' && !p.category)!;
+
+    expect(titlePattern.metadata.shortAvgViews).toBeGreaterThan(
+      titlePattern.metadata.longAvgViews as number,
+    );
+    expect(titlePattern.metadata.effectSize).toBeLessThan(0);
+    expect(titlePattern.metadata.interval).toHaveLength(2);
+  });
+
+  it('derives confidence from the test instead of a fixed value', () => {
+    const emojiVideos = (emojiViews: (i: number) => number) =>
+      Array.from({ length: 20 }, (_, i) =>
+        makeVideo({
+          videoId: `v${i}`,
+          title: i < 10 ? '🎉 Fun Video for Kids!' : 'Fun Video for Kids',
+          viewCount: i < 10 ? emojiViews(i) : 100_000 + (i - 10) * 1000,
+        }),
+      );
+    const find = (videos: YouTubeVideoInfo[]) =>
+      detectPatterns(makeInput(videos)).find((p) => p.patternType === 'title_emoji')!;
+
+    const clear = find(emojiVideos((i) => 1_000_000 + i * 1000));
+    const noise = find(emojiVideos((i) => 100_000 + i * 1000 + 500));
+
+    expect(clear.confidence).toBeGreaterThan(0.99);
+    expect(clear.metadata.pValue).toBeLessThan(0.01);
+    expect(noise.confidence).toBeLessThan(0.5);
+  });
+
+  it('ranks title templates by channel-relative views', () => {
+    // On both channels, titles with the channel's brand suffix beat bare titles
+    const songs = ['Bath Time', 'Wheels on the Bus', 'Old MacDonald', 'Twinkle Twinkle', 'Humpty'];
+    const videos = ['big', 'small'].flatMap((channelId) =>
+      Array.from({ length: 10 }, (_, i) =>
+        makeVideo({
+          videoId: `${channelId}-${i}`,
+          channelId,
+          title: i < 5 ? `${songs[i]} | ${channelId} Kids Songs` : songs[i - 5],
+          viewCount: (channelId === 'big' ? 1_000_000 : 1000) * (i < 5 ? 3 : 1) + i,
+        }),
+      ),
+    );
+
+    const result = detectPatterns(makeInput(videos));
+    const finding = result.find((p) => p.patternType === 'title_template' && !p.category)!;
+    const templates = finding.metadata.templates as Array<Record<string, unknown>>;
+
+    expect(templates.map((t) => t.template)).toEqual(['[phrase] | [brand]', '[phrase]']);
+    expect(templates[0]).toMatchObject({ count: 10, channels: 2, effectSize: 1 });
+    expect(finding.metadata.brandedShare).toBe(0.5);
+    expect(finding.finding).toContain('50% of titles end in channel branding');
+  });
+
+  it('runs a separate suite for Shorts and tags findings by format', () => {
+    const shorts = ['big', 'small'].flatMap((channelId) =>
+      Array.from({ length: 8 }, (_, i) => {
+        const date = new Date('2024-06-01T14:00:00Z');
+        date.setDate(date.getDate() + i);
+        const hooked = i < 4;
+        return makeVideo({
+          videoId: `${channelId}-short${i}`,
+          channelId,
+          title: hooked ? `Can you find the ${i} ducks?` : `Duck pond number ${i}`,
+          tags: i % 2 === 0 ? ['satisfying', 'shorts'] : ['shorts'],
+          duration: 30,
+          publishedAt: date.toISOString(),
+          viewCount: (channelId === 'big' ? 1000 : 1) * (hooked ? 90000 : 30000) + i,
+        });
+      }),
+    );
+    // Long-form views are far higher, and must not set the Shorts' channel medians
+    const episodes = Array.from({ length: 10 }, (_, i) =>
+      makeVideo({ videoId: `ep${i}`, channelId: 'big', duration: 300, viewCount: 900_000_000 }),
+    );
+    const thumbnails = new Map<string, ThumbnailFeatures>(
+      shorts.map((v, i) => [
+        v.videoId,
+        {
+          palette: [],
+          saturation: 0.5,
+          brightness: 0.5,
+          contrast: 0.2,
+          textCoverage: 0,
+          subjectSize: 0.3,
+          faceSize: 0,
+          aspectRatio: i % 4 === 0 ? 1.78 : 0.56,
+        },
+      ]),
+    );
+
+    const result = detectPatterns({ ...makeInput([...shorts, ...episodes]), thumbnails });
+
+    const hook = result.find((p) => p.patternType === 'shorts_hook')!;
+    expect(hook.format).toBe('short');
+    expect(hook.metadata).toMatchObject({ hookedShare: 0.5, relativeViews: [1.5, 0.5] });
+    expect(result.find((p) => p.patternType === 'shorts_loop')!.metadata.keywords).toEqual([
+      { keyword: 'satisfying', count: 8 },
+    ]);
+    expect(result.find((p) => p.patternType === 'shorts_thumbnail')!.metadata.verticalShare).toBe(
+      0.75,
+    );
+    expect(result.find((p) => p.patternType === 'shorts_frequency')!.metadata).toMatchObject({
+      shortsPerWeek: 7,
+      shortsShare: 0.62,
+    });
+    // The long-form suite only sees the episodes
+    const duration = result.find((p) => p.patternType === 'duration' && !p.category)!;
+    expect(duration.format).toBe('long_form');
+    expect(duration.sampleSize).toBe(10);
+  });
+
+  it('correlates measured thumbnail features with channel-relative views', () => {
+    const look = (bright: boolean): ThumbnailFeatures => ({
+      palette: [{ color: bright ? 'yellow' : 'brown', share: 0.6 }],
+      saturation: bright ? 0.8 : 0.2,
+      brightness: 0.6,
+      contrast: 0.2,
+      textCoverage: 0,
+      subjectSize: 0.3,
+      faceSize: 0.1,
+      aspectRatio: 1.78,
+    });
+    // Bright thumbnails beat their channel's median on both channels
+    const videos = ['big', 'small'].flatMap((channelId) =>
+      Array.from({ length: 10 }, (_, i) =>
+        makeVideo({
+          videoId: `${channelId}-${i}`,
+          channelId,
+          title: 'FUN Kids Video',
+          viewCount: (channelId === 'big' ? 1_000_000 : 1000) * (i < 5 ? 3 : 1) + i,
+        }),
+      ),
+    );
+    const thumbnails = new Map(
+      videos.map((v) => [v.videoId, look(Number(v.videoId.split('-')[1]) < 5)]),
+    );
+
+    const result = detectPatterns({ ...makeInput(videos), thumbnails });
+    const saturation = result.find((p) => p.patternType === 'thumbnail_saturation')!;
+    const palette = result.find((p) => p.patternType === 'thumbnail_palette')!;
+
+    expect(saturation.metadata).toMatchObject({ threshold: 0.5, highMean: 0.8, lowMean: 0.2 });
+    expect(saturation.metadata.effectSize).toBe(1);
+    expect(saturation.confidence).toBeGreaterThan(0.99);
+    expect(palette.finding).toMatch(/strongest yellow .*; weakest brown/);
+    expect((palette.metadata.colors as Array<{ color: string }>).map((c) => c.color)).toEqual([
+      'yellow',
+      'brown',
+    ]);
+    // Features every thumbnail shares can't be compared; measured images replace the caps proxy
+    expect(result.some((p) => p.patternType === 'thumbnail_text')).toBe(false);
+    expect(result.some((p) => p.patternType === 'thumbnail_caps')).toBe(false);
+    expect(
+      detectPatterns(makeInput(videos)).some((p) => p.patternType === 'thumbnail_caps'),
+    ).toBe(true);
+  });
+
   it('handles videos with zero views gracefully', () => {
     const videos = Array.from({ length: 10 }, (_, i) =>
       makeVideo({ videoId: `v${i}`, viewCount: 0, likeCount: 0, commentCount: 0 }),
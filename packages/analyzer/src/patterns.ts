@@ -1,25 +1,85 @@
-import type { ContentCategory, PatternFinding, YouTubeVideoInfo } from '@kidsvid/shared';
+import { DAY_NAMES, KIDS_CONTENT_RULES } from '@kidsvid/shared';
+import type {
+  ContentCategory,
+  PatternFinding,
+  VideoFormat,
+  YouTubeChannelInfo,
+  YouTubeVideoInfo,
+} from '@kidsvid/shared';
 import type { CategorizeResult } from './categorizer.js';
-
-/** Detect patterns across kids YouTube videos */
+import { profileUploadCadence, rankUploadSlots, recommendUploadSlots } from './cadence.js';
+import { detectCompilationPatterns } from './compilations.js';
+import type { ThumbnailFeatures } from './thumbnails.js';
+import { parseTitleTemplates, type ParsedTitle } from './title-templates.js';
+import {
+  compareGroups,
+  compareRates,
+  estimateMean,
+  formatNumber,
+  median,
+  relativeViewScores,
+  round,
+  type GroupComparison,
+  type RateComparison,
+} from './stats.js';
+
+/** Detect patterns across kids YouTube videos.
+ * Performance comparisons use views relative to each channel's median and a rank test, so a
+ * single mega-hit can't decide a finding; confidences come from the test (or, for descriptive
+ * findings, from how tightly the sample pins the estimate). Shorts and long-form videos are
+ * different products, so each format gets its own suite, with views relative to the channel's
+ * median for that format, and its findings are tagged with the format. */
 
 export interface PatternDetectorInput {
   videos: YouTubeVideoInfo[];
   categories: Map<string, CategorizeResult>;
+  /** The videos' channels, whose countries place their upload times in local time */
+  channels?: YouTubeChannelInfo[];
+  /** Image features of the thumbnails that could be analyzed, by video id */
+  thumbnails?: Map<string, ThumbnailFeatures>;
 }
 
+/** Per-video log views relative to the channel median */
+type Scores = Map<string, number>;
+
 export function detectPatterns(input: PatternDetectorInput): PatternFinding[] {
-  const { videos, categories } = input;
+  const { videos, thumbnails = new Map() } = input;
+  if (videos.length === 0) return [];
+
+  const shorts = videos.filter((v) => videoFormat(v) === 'short');
+  const longForm = videos.filter((v) => videoFormat(v) === 'long_form');
+  const tag = (format: VideoFormat, findings: PatternFinding[]) =>
+    findings.map((f) => ({ ...f, format }));
+
+  return [
+    ...tag('long_form', detectLongFormPatterns({ ...input, videos: longForm })),
+    ...tag('short', detectShortsPatterns(shorts, videos, thumbnails)),
+  ];
+}
+
+/** Shorts are the videos under a minute */
+export function videoFormat(video: Pick<YouTubeVideoInfo, 'duration'>): VideoFormat {
+  return video.duration > 0 && video.duration < KIDS_CONTENT_RULES.shortsMaxDuration
+    ? 'short'
+    : 'long_form';
+}
+
+/** Titles, durations, schedule, tags, thumbnails and engagement of episodes and compilations */
+function detectLongFormPatterns(input: PatternDetectorInput): PatternFinding[] {
+  const { videos, categories, channels = [], thumbnails = new Map() } = input;
   if (videos.length === 0) return [];
 
   const patterns: PatternFinding[] = [];
+  const scores = relativeViewScores(videos);
 
-  patterns.push(...detectTitlePatterns(videos, categories));
-  patterns.push(...detectDurationPatterns(videos, categories));
-  patterns.push(...detectUploadTimePatterns(videos));
-  patterns.push(...detectTagPatterns(videos, categories));
-  patterns.push(...detectThumbnailPatterns(videos));
-  patterns.push(...detectEngagementCorrelations(videos, categories));
+  patterns.push(...detectTitlePatterns(videos, categories, scores));
+  patterns.push(...detectTitleTemplates(videos, categories, scores));
+  patterns.push(...detectDurationPatterns(videos, categories, scores));
+  patterns.push(...detectUploadTimePatterns(videos, scores, channels));
+  patterns.push(...detectTagPatterns(videos, categories, scores));
+  patterns.push(...detectThumbnailPatterns(videos, scores, thumbnails));
+  patterns.push(...detectEngagementCorrelations(videos, categories, scores));
+  patterns.push(...detectCompilationPatterns(videos, scores));
 
   return patterns;
 }
@@ -27,6 +87,7 @@ export function detectPatterns(input: PatternDetectorInput): PatternFinding[] {
 function detectTitlePatterns(
   videos: YouTubeVideoInfo[],
   categories: Map<string, CategorizeResult>,
+  scores: Scores,
 ): PatternFinding[] {
   const findings: PatternFinding[] = [];
 
@@ -37,44 +98,42 @@ function detectTitlePatterns(
   // Correlate title length with views
   const shortTitles = videos.filter((v) => v.title.length <= 40);
   const longTitles = videos.filter((v) => v.title.length > 40);
-  const shortAvgViews = shortTitles.length > 0
-    ? shortTitles.reduce((s, v) => s + v.viewCount, 0) / shortTitles.length
-    : 0;
-  const longAvgViews = longTitles.length > 0
-    ? longTitles.reduce((s, v) => s + v.viewCount, 0) / longTitles.length
-    : 0;
+  const shortAvgViews = averageViews(shortTitles);
+  const longAvgViews = averageViews(longTitles);
+  const lengthTest = compare(shortTitles, longTitles, scores);
 
   findings.push({
     patternType: 'title_length',
     category: null,
-    finding: `Average title length: ${Math.round(avgLength)} chars. Short titles (<=40) avg ${formatNumber(shortAvgViews)} views vs long titles (>40) avg ${formatNumber(longAvgViews)} views.`,
-    confidence: 0.8,
+    finding: `Average title length: ${Math.round(avgLength)} chars. Short titles (<=40) get ${lengthTest.relativeViewsA}x their channel's median views vs ${lengthTest.relativeViewsB}x for long titles (>40)${describeTest(lengthTest)}.`,
+    confidence: lengthTest.confidence,
     sampleSize: videos.length,
-    metadata: { avgLength: Math.round(avgLength), shortAvgViews, longAvgViews },
+    metadata: {
+      avgLength: Math.round(avgLength),
+      shortAvgViews,
+      longAvgViews,
+      ...testMetadata(lengthTest),
+    },
   });
 
   // Emoji in titles
   const withEmoji = videos.filter((v) => hasEmoji(v.title));
   const withoutEmoji = videos.filter((v) => !hasEmoji(v.title));
-  const emojiAvgViews = withEmoji.length > 0
-    ? withEmoji.reduce((s, v) => s + v.viewCount, 0) / withEmoji.length
-    : 0;
-  const noEmojiAvgViews = withoutEmoji.length > 0
-    ? withoutEmoji.reduce((s, v) => s + v.viewCount, 0) / withoutEmoji.length
-    : 0;
 
   if (withEmoji.length >= 5) {
+    const emojiTest = compare(withEmoji, withoutEmoji, scores);
     findings.push({
       patternType: 'title_emoji',
       category: null,
-      finding: `${withEmoji.length}/${videos.length} videos use emoji in title. Emoji avg ${formatNumber(emojiAvgViews)} views vs no-emoji avg ${formatNumber(noEmojiAvgViews)} views.`,
-      confidence: withEmoji.length / videos.length > 0.1 ? 0.7 : 0.5,
+      finding: `${withEmoji.length}/${videos.length} videos use emoji in title. Emoji titles get ${emojiTest.relativeViewsA}x their channel's median views vs ${emojiTest.relativeViewsB}x without${describeTest(emojiTest)}.`,
+      confidence: emojiTest.confidence,
       sampleSize: videos.length,
       metadata: {
         emojiCount: withEmoji.length,
         emojiPct: Math.round((withEmoji.length / videos.length) * 100),
-        emojiAvgViews,
-        noEmojiAvgViews,
+        emojiAvgViews: averageViews(withEmoji),
+        noEmojiAvgViews: averageViews(withoutEmoji),
+        ...testMetadata(emojiTest),
       },
     });
   }
@@ -82,24 +141,30 @@ function detectTitlePatterns(
   // Numbers in titles
   const withNumbers = videos.filter((v) => /\d/.test(v.title));
   if (withNumbers.length >= 5) {
-    const numAvgViews = withNumbers.reduce((s, v) => s + v.viewCount, 0) / withNumbers.length;
+    const numAvgViews = averageViews(withNumbers);
+    const numbersTest = compare(
+      withNumbers,
+      videos.filter((v) => !/\d/.test(v.title)),
+      scores,
+    );
     findings.push({
       patternType: 'title_numbers',
       category: null,
-      finding: `${withNumbers.length}/${videos.length} videos have numbers in title. Avg views: ${formatNumber(numAvgViews)}.`,
-      confidence: 0.6,
+      finding: `${withNumbers.length}/${videos.length} videos have numbers in title, getting ${numbersTest.relativeViewsA}x their channel's median views vs ${numbersTest.relativeViewsB}x without${describeTest(numbersTest)}.`,
+      confidence: numbersTest.confidence,
       sampleSize: withNumbers.length,
-      metadata: { count: withNumbers.length, avgViews: numAvgViews },
+      metadata: { count: withNumbers.length, avgViews: numAvgViews, ...testMetadata(numbersTest) },
     });
   }
 
-  // Common title words (top performing)
-  const topVideosByViews = [...videos].sort((a, b) => b.viewCount - a.viewCount).slice(0, Math.ceil(videos.length * 0.2));
+  // Common title words among the top 20% of videos relative to their own channel
+  const topCount = Math.ceil(videos.length * 0.2);
+  const topVideosByViews = [...videos]
+    .sort((a, b) => (scores.get(b.videoId) ?? 0) - (scores.get(a.videoId) ?? 0))
+    .slice(0, topCount);
   const wordFreq = new Map<string, number>();
   for (const v of topVideosByViews) {
-    const words = v.title.toLowerCase().split(/\s+/).filter((w) => w.length > 3);
-    const unique = new Set(words);
-    for (const w of unique) {
+    for (const w of titleWords(v.title)) {
       wordFreq.set(w, (wordFreq.get(w) || 0) + 1);
     }
   }
@@ -110,13 +175,21 @@ function detectTitlePatterns(
     .map(([word, count]) => ({ word, count }));
 
   if (topWords.length > 0) {
+    const keywords = new Set(topWords.map((w) => w.word));
+    const hasKeyword = (v: YouTubeVideoInfo) =>
+      [...titleWords(v.title)].some((w) => keywords.has(w));
+    const keywordTest = compare(
+      videos.filter(hasKeyword),
+      videos.filter((v) => !hasKeyword(v)),
+      scores,
+    );
     findings.push({
       patternType: 'title_keywords',
       category: null,
       finding: `Top performing title words: ${topWords.slice(0, 10).map((w) => `"${w.word}" (${w.count}x)`).join(', ')}.`,
-      confidence: 0.7,
+      confidence: keywordTest.confidence,
       sampleSize: topVideosByViews.length,
-      metadata: { topWords },
+      metadata: { topWords, ...testMetadata(keywordTest) },
     });
   }
 
@@ -124,14 +197,96 @@ function detectTitlePatterns(
   const byCategory = groupByCategory(videos, categories);
   for (const [cat, catVideos] of byCategory) {
     if (catVideos.length < 5) continue;
-    const catAvgLen = catVideos.reduce((s, v) => s + v.title.length, 0) / catVideos.length;
+    const catLength = estimateMean(catVideos.map((v) => v.title.length));
     findings.push({
       patternType: 'title_length',
       category: cat,
-      finding: `[${cat}] Average title length: ${Math.round(catAvgLen)} chars across ${catVideos.length} videos.`,
-      confidence: 0.7,
+      finding: `[${cat}] Average title length: ${Math.round(catLength.mean)} chars across ${catVideos.length} videos.`,
+      confidence: catLength.confidence,
       sampleSize: catVideos.length,
-      metadata: { avgLength: Math.round(catAvgLen) },
+      metadata: { avgLength: Math.round(catLength.mean), interval: catLength.interval },
+    });
+  }
+
+  return findings;
+}
+
+/** Title structures ranked by channel-relative views, across all videos and per category */
+function detectTitleTemplates(
+  videos: YouTubeVideoInfo[],
+  categories: Map<string, CategorizeResult>,
+  scores: Scores,
+): PatternFinding[] {
+  const findings: PatternFinding[] = [];
+  const parsed = parseTitleTemplates(videos);
+  const scopes: Array<[ContentCategory | null, YouTubeVideoInfo[]]> = [
+    [null, videos],
+    ...groupByCategory(videos, categories),
+  ];
+
+  for (const [category, scoped] of scopes) {
+    if (scoped.length < 10) continue;
+    const byTemplate = new Map<string, YouTubeVideoInfo[]>();
+    for (const v of scoped) {
+      const { template } = parsed.get(v.videoId)!;
+      byTemplate.set(template, [...(byTemplate.get(template) ?? []), v]);
+    }
+
+    const templates = [...byTemplate]
+      .filter(([, list]) => list.length >= 5 && scoped.length - list.length >= 5)
+      .map(([template, list]) => {
+        const { slots, separators } = parsed.get(list[0].videoId)!;
+        const test = compare(
+          list,
+          scoped.filter((v) => parsed.get(v.videoId)!.template !== template),
+          scores,
+        );
+        return {
+          template,
+          slots,
+          separators,
+          count: list.length,
+          channels: new Set(list.map((v) => v.channelId)).size,
+          relativeViews: relativeViews(list, scores),
+          effectSize: test.effectSize,
+          interval: test.interval,
+          pValue: test.pValue,
+          confidence: test.confidence,
+          examples: list.slice(0, 3).map((v) => v.title),
+        };
+      })
+      .sort((a, b) => b.relativeViews - a.relativeViews);
+    if (templates.length === 0) continue;
+
+    const share = (match: (title: ParsedTitle) => boolean) =>
+      round(scoped.filter((v) => match(parsed.get(v.videoId)!)).length / scoped.length);
+    const leads = Object.fromEntries(
+      (['question', 'count', 'character', 'keyword', 'phrase'] as const).map((slot) => [
+        slot,
+        share((t) => t.slots[0] === slot),
+      ]),
+    );
+    const prefix = category ? `[${category}] ` : '';
+
+    findings.push({
+      patternType: 'title_template',
+      category,
+      finding: `${prefix}Best performing title templates: ${templates
+        .slice(0, 3)
+        .map((t) => `"${t.template}" (${t.relativeViews}x median, ${t.count} titles)`)
+        .join(', ')}. ${Math.round(share((t) => t.slots.includes('brand')) * 100)}% of titles end in channel branding.`,
+      confidence: round(templates.reduce((s, t) => s + t.confidence, 0) / templates.length),
+      sampleSize: scoped.length,
+      metadata: {
+        templates,
+        separators: {
+          '|': share((t) => t.separators.includes('|')),
+          '-': share((t) => t.separators.includes('-')),
+          none: share((t) => t.separators.length === 0),
+        },
+        brandedShare: share((t) => t.slots.includes('brand')),
+        leads,
+      },
     });
   }
 
@@ -141,6 +296,7 @@ function detectTitlePatterns(
 function detectDurationPatterns(
   videos: YouTubeVideoInfo[],
   categories: Map<string, CategorizeResult>,
+  scores: Scores,
 ): PatternFinding[] {
   const findings: PatternFinding[] = [];
 
@@ -148,7 +304,8 @@ function detectDurationPatterns(
   const durations = videos.filter((v) => v.duration > 0).map((v) => v.duration);
   if (durations.length === 0) return findings;
 
-  const avgDuration = durations.reduce((a, b) => a + b, 0) / durations.length;
+  const duration = estimateMean(durations);
+  const avgDuration = duration.mean;
   const medianDuration = median(durations);
 
   // Duration buckets and views
@@ -159,40 +316,46 @@ function detectDurationPatterns(
     { label: 'very_long (>10min)', min: 600, max: Infinity },
   ];
 
-  const bucketStats = buckets.map((b) => {
-    const bVideos = videos.filter((v) => v.duration >= b.min && v.duration < b.max);
-    return {
-      label: b.label,
-      count: bVideos.length,
-      avgViews: bVideos.length > 0
-        ? bVideos.reduce((s, v) => s + v.viewCount, 0) / bVideos.length
-        : 0,
-    };
-  });
+  const bucketVideos = buckets.map((b) =>
+    videos.filter((v) => v.duration >= b.min && v.duration < b.max),
+  );
+  const bucketStats = buckets.map((b, i) => ({
+    label: b.label,
+    count: bucketVideos[i].length,
+    avgViews: averageViews(bucketVideos[i]),
+    relativeViews: relativeViews(bucketVideos[i], scores),
+  }));
 
   findings.push({
     patternType: 'duration',
     category: null,
-    finding: `Average duration: ${formatDuration(avgDuration)}, Median: ${formatDuration(medianDuration)}. Distribution: ${bucketStats.map((b) => `${b.label}: ${b.count} videos, avg ${formatNumber(b.avgViews)} views`).join('; ')}.`,
-    confidence: 0.85,
+    finding: `Average duration: ${formatDuration(avgDuration)}, Median: ${formatDuration(medianDuration)}. Distribution: ${bucketStats.map((b) => `${b.label}: ${b.count} videos, ${b.relativeViews}x channel median views`).join('; ')}.`,
+    confidence: duration.confidence,
     sampleSize: durations.length,
-    metadata: { avgDuration, medianDuration, buckets: bucketStats },
+    metadata: { avgDuration, medianDuration, interval: duration.interval, buckets: bucketStats },
   });
 
-  // Best performing duration range
-  const bestBucket = bucketStats.reduce((best, b) =>
-    b.avgViews > best.avgViews && b.count >= 5 ? b : best,
-    bucketStats[0],
+  // Best performing duration range, tested against every other range
+  const bestIndex = bucketStats.reduce(
+    (best, b, i) =>
+      b.count >= 5 && (best < 0 || b.relativeViews > bucketStats[best].relativeViews) ? i : best,
+    -1,
   );
 
-  if (bestBucket.count >= 5) {
+  if (bestIndex >= 0) {
+    const bestBucket = bucketStats[bestIndex];
+    const bucketTest = compare(
+      bucketVideos[bestIndex],
+      bucketVideos.filter((_, i) => i !== bestIndex).flat(),
+      scores,
+    );
     findings.push({
       patternType: 'duration_optimal',
       category: null,
-      finding: `Best performing duration range: ${bestBucket.label} with avg ${formatNumber(bestBucket.avgViews)} views (${bestBucket.count} videos).`,
-      confidence: 0.8,
+      finding: `Best performing duration range: ${bestBucket.label} at ${bestBucket.relativeViews}x channel median views (${bestBucket.count} videos) vs ${bucketTest.relativeViewsB}x for other lengths${describeTest(bucketTest)}.`,
+      confidence: bucketTest.confidence,
       sampleSize: bestBucket.count,
-      metadata: { bestBucket },
+      metadata: { bestBucket, ...testMetadata(bucketTest) },
     });
   }
 
@@ -201,86 +364,86 @@ function detectDurationPatterns(
   for (const [cat, catVideos] of byCategory) {
     const catDurations = catVideos.filter((v) => v.duration > 0).map((v) => v.duration);
     if (catDurations.length < 5) continue;
-    const catAvg = catDurations.reduce((a, b) => a + b, 0) / catDurations.length;
+    const catDuration = estimateMean(catDurations);
     findings.push({
       patternType: 'duration',
       category: cat,
-      finding: `[${cat}] Average duration: ${formatDuration(catAvg)} across ${catDurations.length} videos.`,
-      confidence: 0.75,
+      finding: `[${cat}] Average duration: ${formatDuration(catDuration.mean)} across ${catDurations.length} videos.`,
+      confidence: catDuration.confidence,
       sampleSize: catDurations.length,
-      metadata: { avgDuration: catAvg },
+      metadata: { avgDuration: catDuration.mean, interval: catDuration.interval },
     });
   }
 
   return findings;
 }
 
-function detectUploadTimePatterns(videos: YouTubeVideoInfo[]): PatternFinding[] {
+function detectUploadTimePatterns(
+  videos: YouTubeVideoInfo[],
+  scores: Scores,
+  channels: YouTubeChannelInfo[],
+): PatternFinding[] {
   const findings: PatternFinding[] = [];
   const withDates = videos.filter((v) => v.publishedAt);
 
   if (withDates.length < 10) return findings;
 
-  // Day of week analysis
-  const dayStats = new Map<number, { count: number; totalViews: number }>();
-  for (let d = 0; d < 7; d++) {
-    dayStats.set(d, { count: 0, totalViews: 0 });
-  }
-
-  for (const v of withDates) {
-    const date = new Date(v.publishedAt);
-    const day = date.getUTCDay();
-    const stats = dayStats.get(day)!;
-    stats.count++;
-    stats.totalViews += v.viewCount;
-  }
-
-  const dayNames = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
-  const dayEntries = [...dayStats.entries()]
-    .map(([day, stats]) => ({
-      day: dayNames[day],
-      count: stats.count,
-      avgViews: stats.count > 0 ? stats.totalViews / stats.count : 0,
-    }))
-    .sort((a, b) => b.avgViews - a.avgViews);
-
-  findings.push({
-    patternType: 'upload_day',
-    category: null,
-    finding: `Best upload days by avg views: ${dayEntries.slice(0, 3).map((d) => `${d.day} (${formatNumber(d.avgViews)} avg, ${d.count} uploads)`).join(', ')}.`,
-    confidence: 0.65,
-    sampleSize: withDates.length,
-    metadata: { dayStats: dayEntries },
-  });
+  // Days and hours ranked with every channel weighing the same, so the most prolific
+  // uploader's schedule doesn't decide them
+  const byDay = groupBy(withDates, (v) => new Date(v.publishedAt).getUTCDay());
+  const dayEntries = rankUploadSlots(withDates, scores, (d) => d.getUTCDay()).map((slot) => ({
+    day: DAY_NAMES[slot.key],
+    count: slot.uploads,
+    channels: slot.channels,
+    avgViews: averageViews(byDay.get(slot.key)!),
+    relativeViews: slot.boost,
+  }));
 
-  // Hour of day analysis
-  const hourStats = new Map<number, { count: number; totalViews: number }>();
-  for (const v of withDates) {
-    const hour = new Date(v.publishedAt).getUTCHours();
-    const stats = hourStats.get(hour) || { count: 0, totalViews: 0 };
-    stats.count++;
-    stats.totalViews += v.viewCount;
-    hourStats.set(hour, stats);
+  if (dayEntries.length > 0) {
+    const bestDay = DAY_NAMES.indexOf(dayEntries[0].day);
+    const dayTest = compare(
+      byDay.get(bestDay)!,
+      withDates.filter((v) => new Date(v.publishedAt).getUTCDay() !== bestDay),
+      scores,
+    );
+    findings.push({
+      patternType: 'upload_day',
+      category: null,
+      finding: `Best upload days by channel-weighted relative views: ${dayEntries
+        .slice(0, 3)
+        .map((d) => `${d.day} (${d.relativeViews}x median, ${d.channels} channels)`)
+        .join(', ')}${describeTest(dayTest)}.`,
+      confidence: dayTest.confidence,
+      sampleSize: withDates.length,
+      metadata: { dayStats: dayEntries, ...testMetadata(dayTest) },
+    });
   }
 
-  const topHours = [...hourStats.entries()]
-    .map(([hour, stats]) => ({
-      hour,
-      count: stats.count,
-      avgViews: stats.count > 0 ? stats.totalViews / stats.count : 0,
-    }))
-    .filter((h) => h.count >= 3)
-    .sort((a, b) => b.avgViews - a.avgViews)
-    .slice(0, 5);
+  const byHour = groupBy(withDates, (v) => new Date(v.publishedAt).getUTCHours());
+  const topHours = rankUploadSlots(withDates, scores, (d) => d.getUTCHours())
+    .slice(0, 5)
+    .map((slot) => ({
+      hour: slot.key,
+      count: slot.uploads,
+      channels: slot.channels,
+      avgViews: averageViews(byHour.get(slot.key)!),
+      relativeViews: slot.boost,
+    }));
 
   if (topHours.length > 0) {
+    const bestHour = topHours[0].hour;
+    const hourTest = compare(
+      byHour.get(bestHour)!,
+      withDates.filter((v) => new Date(v.publishedAt).getUTCHours() !== bestHour),
+      scores,
+    );
     findings.push({
       patternType: 'upload_hour',
       category: null,
-      finding: `Best upload hours (UTC): ${topHours.map((h) => `${h.hour}:00 (${formatNumber(h.avgViews)} avg, ${h.count} uploads)`).join(', ')}.`,
-      confidence: 0.6,
+      finding: `Best upload hours (UTC) by channel-weighted relative views: ${topHours.map((h) => `${h.hour}:00 (${h.relativeViews}x median, ${h.channels} channels)`).join(', ')}${describeTest(hourTest)}.`,
+      confidence: hourTest.confidence,
       sampleSize: withDates.length,
-      metadata: { topHours },
+      metadata: { topHours, ...testMetadata(hourTest) },
     });
   }
 
@@ -295,23 +458,62 @@ function detectUploadTimePatterns(videos: YouTubeVideoInfo[]): PatternFinding[]
     const weeks = (lastDate - firstDate) / (7 * 24 * 3600_000);
     if (weeks > 0) {
       const freq = recent.length / weeks;
+      // The gaps between uploads say how steady that rate is
+      const gaps = recent
+        .slice(1)
+        .map((v, i) => Date.parse(recent[i].publishedAt) - Date.parse(v.publishedAt));
+      const gapEstimate = estimateMean(gaps);
       findings.push({
         patternType: 'upload_frequency',
         category: null,
         finding: `Estimated upload frequency: ${freq.toFixed(1)} videos/week (from ${recent.length} most recent videos).`,
-        confidence: 0.7,
+        confidence: gapEstimate.confidence,
         sampleSize: recent.length,
         metadata: { videosPerWeek: Math.round(freq * 10) / 10 },
       });
     }
   }
 
+  // Each channel's routine in its own local time, and the best days crossed with the best hours
+  const cadences = profileUploadCadence(withDates, channels);
+  const recommendations = recommendUploadSlots(withDates, scores);
+  if (cadences.length > 0 && recommendations.length > 0) {
+    const days = new Set(recommendations.map((r) => r.day));
+    const hours = new Set(recommendations.map((r) => r.hourUtc));
+    const inSlot = (v: YouTubeVideoInfo) => {
+      const date = new Date(v.publishedAt);
+      return days.has(DAY_NAMES[date.getUTCDay()]) && hours.has(date.getUTCHours());
+    };
+    const slotTest = compare(withDates.filter(inSlot), withDates.filter((v) => !inSlot(v)), scores);
+    const names = new Map(channels.map((c) => [c.channelId, c.name]));
+    const bursty = cadences.filter((c) => c.release === 'burst').length;
+
+    findings.push({
+      patternType: 'upload_cadence',
+      category: null,
+      finding: `Upload cadence of ${cadences.length} channels (${cadences.length - bursty} steady, ${bursty} in bursts): ${cadences
+        .slice(0, 3)
+        .map(
+          (c) =>
+            `${names.get(c.channelId) ?? c.channelId} ${c.videosPerWeek}/week, ${c.weekdays.length === 7 ? 'daily' : c.weekdays.slice(0, 2).join('/')} ${c.localHours[0]}:00 UTC${formatOffset(c.utcOffset)}`,
+        )
+        .join('; ')}. Best slots by channel-weighted relative views: ${recommendations
+        .slice(0, 3)
+        .map((r) => `${r.day} ${r.hourUtc}:00 UTC (${r.expectedEngagementBoost}x)`)
+        .join(', ')}${describeTest(slotTest)}.`,
+      confidence: slotTest.confidence,
+      sampleSize: withDates.length,
+      metadata: { channels: cadences, recommendations, ...testMetadata(slotTest) },
+    });
+  }
+
   return findings;
 }
 
 function detectTagPatterns(
   videos: YouTubeVideoInfo[],
   categories: Map<string, CategorizeResult>,
+  scores: Scores,
 ): PatternFinding[] {
   const findings: PatternFinding[] = [];
   const videosWithTags = videos.filter((v) => v.tags.length > 0);
@@ -319,69 +521,84 @@ function detectTagPatterns(
   if (videosWithTags.length < 5) return findings;
 
   // Tag frequency across all videos
-  const tagFreq = new Map<string, { count: number; totalViews: number }>();
+  const tagVideos = new Map<string, YouTubeVideoInfo[]>();
   for (const v of videosWithTags) {
-    for (const tag of v.tags) {
-      const lower = tag.toLowerCase();
-      const entry = tagFreq.get(lower) || { count: 0, totalViews: 0 };
-      entry.count++;
-      entry.totalViews += v.viewCount;
-      tagFreq.set(lower, entry);
+    for (const tag of new Set(v.tags.map((t) => t.toLowerCase()))) {
+      tagVideos.set(tag, [...(tagVideos.get(tag) ?? []), v]);
     }
   }
+  const hasTag = (v: YouTubeVideoInfo, tag: string) => v.tags.some((t) => t.toLowerCase() === tag);
 
-  const topTags = [...tagFreq.entries()]
-    .filter(([, stats]) => stats.count >= 3)
-    .map(([tag, stats]) => ({
+  const topTags = [...tagVideos.entries()]
+    .filter(([, list]) => list.length >= 3)
+    .map(([tag, list]) => ({
       tag,
-      count: stats.count,
-      avgViews: stats.totalViews / stats.count,
+      count: list.length,
+      avgViews: averageViews(list),
     }))
     .sort((a, b) => b.count - a.count)
     .slice(0, 30);
 
   if (topTags.length > 0) {
+    // How precisely the sample measures the share of videos using the leading tag
+    const share = estimateMean(videosWithTags.map((v) => (hasTag(v, topTags[0].tag) ? 1 : 0)));
     findings.push({
       patternType: 'tags_popular',
       category: null,
       finding: `Most used tags: ${topTags.slice(0, 15).map((t) => `"${t.tag}" (${t.count}x, avg ${formatNumber(t.avgViews)} views)`).join(', ')}.`,
-      confidence: 0.75,
+      confidence: share.confidence,
       sampleSize: videosWithTags.length,
-      metadata: { topTags },
+      metadata: { topTags, topTagShare: share.interval },
     });
   }
 
-  // Tags with highest avg views
-  const highPerformingTags = [...tagFreq.entries()]
-    .filter(([, stats]) => stats.count >= 5)
-    .map(([tag, stats]) => ({
-      tag,
-      count: stats.count,
-      avgViews: stats.totalViews / stats.count,
-    }))
-    .sort((a, b) => b.avgViews - a.avgViews)
-    .slice(0, 15);
+  // Tags whose videos beat their channel's median, each tested against untagged videos
+  const highPerformingTags = [...tagVideos.entries()]
+    .filter(([, list]) => list.length >= 5)
+    .map(([tag, list]) => ({ tag, list, relativeViews: relativeViews(list, scores) }))
+    .sort((a, b) => b.relativeViews - a.relativeViews)
+    .slice(0, 15)
+    .map(({ tag, list, relativeViews: rel }) => {
+      const test = compare(list, videosWithTags.filter((v) => !hasTag(v, tag)), scores);
+      return {
+        tag,
+        count: list.length,
+        avgViews: averageViews(list),
+        relativeViews: rel,
+        effectSize: test.effectSize,
+        interval: test.interval,
+        pValue: test.pValue,
+        confidence: test.confidence,
+      };
+    });
 
   if (highPerformingTags.length > 0) {
     findings.push({
       patternType: 'tags_high_performing',
       category: null,
-      finding: `Highest performing tags (by avg views): ${highPerformingTags.slice(0, 10).map((t) => `"${t.tag}" (${formatNumber(t.avgViews)} avg, ${t.count}x)`).join(', ')}.`,
-      confidence: 0.7,
+      finding: `Highest performing tags (by channel-relative views): ${highPerformingTags.slice(0, 10).map((t) => `"${t.tag}" (${t.relativeViews}x median, ${t.count}x)`).join(', ')}.`,
+      confidence: round(
+        highPerformingTags.reduce((s, t) => s + t.confidence, 0) / highPerformingTags.length,
+      ),
       sampleSize: highPerformingTags.reduce((s, t) => s + t.count, 0),
       metadata: { highPerformingTags },
     });
   }
 
   // Avg tags per video
-  const avgTagCount = videosWithTags.reduce((s, v) => s + v.tags.length, 0) / videosWithTags.length;
+  const tagCount = estimateMean(videosWithTags.map((v) => v.tags.length));
+  const avgTagCount = tagCount.mean;
   findings.push({
     patternType: 'tags_count',
     category: null,
     finding: `Average ${Math.round(avgTagCount)} tags per video. ${videosWithTags.length}/${videos.length} videos have tags.`,
-    confidence: 0.8,
+    confidence: tagCount.confidence,
     sampleSize: videosWithTags.length,
-    metadata: { avgTagCount: Math.round(avgTagCount), videosWithTags: videosWithTags.length },
+    metadata: {
+      avgTagCount: Math.round(avgTagCount),
+      videosWithTags: videosWithTags.length,
+      interval: tagCount.interval,
+    },
   });
 
   // Per-category tags
@@ -399,49 +616,290 @@ function detectTagPatterns(
       .sort(([, a], [, b]) => b - a)
       .slice(0, 10)
       .map(([tag, count]) => ({ tag, count }));
+    const catShare = estimateMean(catVideos.map((v) => (hasTag(v, catTopTags[0].tag) ? 1 : 0)));
 
     findings.push({
       patternType: 'tags_popular',
       category: cat,
       finding: `[${cat}] Top tags: ${catTopTags.map((t) => `"${t.tag}" (${t.count}x)`).join(', ')}.`,
-      confidence: 0.7,
+      confidence: catShare.confidence,
       sampleSize: catVideos.length,
-      metadata: { topTags: catTopTags },
+      metadata: { topTags: catTopTags, topTagShare: catShare.interval },
+    });
+  }
+
+  return findings;
+}
+
+/** Thumbnail image features compared on channel-relative views */
+const THUMBNAIL_FEATURES: Array<{
+  feature: Exclude<keyof ThumbnailFeatures, 'palette'>;
+  patternType: string;
+  label: string;
+  /** Shares of the frame read better as percentages */
+  share: boolean;
+}> = [
+  { feature: 'saturation', patternType: 'thumbnail_saturation', label: 'saturation', share: false },
+  { feature: 'brightness', patternType: 'thumbnail_brightness', label: 'brightness', share: false },
+  { feature: 'contrast', patternType: 'thumbnail_contrast', label: 'contrast', share: false },
+  { feature: 'textCoverage', patternType: 'thumbnail_text', label: 'text coverage', share: true },
+  { feature: 'subjectSize', patternType: 'thumbnail_subject', label: 'subject size', share: true },
+  { feature: 'faceSize', patternType: 'thumbnail_face', label: 'face size', share: true },
+];
+/** A colour is part of a thumbnail's look once it covers this share of the frame */
+const PALETTE_PRESENCE_SHARE = 0.1;
+const MIN_THUMBNAILS = 10;
+
+function detectThumbnailPatterns(
+  videos: YouTubeVideoInfo[],
+  scores: Scores,
+  thumbnails: Map<string, ThumbnailFeatures>,
+): PatternFinding[] {
+  const findings: PatternFinding[] = [];
+  const analyzed = videos.filter((v) => thumbnails.has(v.videoId));
+
+  if (analyzed.length < MIN_THUMBNAILS) {
+    // Without enough images, ALL CAPS title words are the only hint of thumbnail text
+    const withCaps = videos.filter((v) => /[A-Z]{3,}/.test(v.title));
+    if (withCaps.length >= 5) {
+      const withoutCaps = videos.filter((v) => !/[A-Z]{3,}/.test(v.title));
+      const capsTest = compare(withCaps, withoutCaps, scores);
+
+      findings.push({
+        patternType: 'thumbnail_caps',
+        category: null,
+        finding: `${withCaps.length} videos use ALL CAPS in title (thumbnail text proxy). Caps titles get ${capsTest.relativeViewsA}x their channel's median views vs ${capsTest.relativeViewsB}x without${describeTest(capsTest)}.`,
+        confidence: capsTest.confidence,
+        sampleSize: videos.length,
+        metadata: {
+          capsCount: withCaps.length,
+          capsAvgViews: averageViews(withCaps),
+          noCapsAvgViews: averageViews(withoutCaps),
+          ...testMetadata(capsTest),
+        },
+      });
+    }
+    return findings;
+  }
+
+  // Each feature: thumbnails above the median against those at or below it
+  for (const { feature, patternType, label, share } of THUMBNAIL_FEATURES) {
+    const valueOf = (v: YouTubeVideoInfo) => thumbnails.get(v.videoId)![feature];
+    const threshold = median(analyzed.map(valueOf));
+    const high = analyzed.filter((v) => valueOf(v) > threshold);
+    const low = analyzed.filter((v) => valueOf(v) <= threshold);
+    if (high.length < 5 || low.length < 5) continue;
+
+    const test = compare(high, low, scores);
+    const format = (n: number) => (share ? `${Math.round(n * 100)}% of the frame` : `${round(n)}`);
+    const mean = (list: YouTubeVideoInfo[]) => round(estimateMean(list.map(valueOf)).mean);
+    findings.push({
+      patternType,
+      category: null,
+      finding: `Thumbnails with ${label} above ${format(threshold)} get ${test.relativeViewsA}x their channel's median views vs ${test.relativeViewsB}x at or below${describeTest(test)}.`,
+      confidence: test.confidence,
+      sampleSize: analyzed.length,
+      metadata: {
+        feature,
+        threshold: round(threshold),
+        highMean: mean(high),
+        lowMean: mean(low),
+        ...testMetadata(test),
+      },
+    });
+  }
+
+  // Palette: thumbnails featuring each colour against those without it
+  const hasColor = (v: YouTubeVideoInfo, color: string) =>
+    thumbnails
+      .get(v.videoId)!
+      .palette.some((p) => p.color === color && p.share >= PALETTE_PRESENCE_SHARE);
+  const present = new Set(
+    analyzed.flatMap((v) => thumbnails.get(v.videoId)!.palette.map((p) => p.color)),
+  );
+  const colors = [...present]
+    .map((color) => ({
+      color,
+      withColor: analyzed.filter((v) => hasColor(v, color)),
+      without: analyzed.filter((v) => !hasColor(v, color)),
+    }))
+    .filter(({ withColor, without }) => withColor.length >= 5 && without.length >= 5)
+    .map(({ color, withColor, without }) => {
+      const test = compare(withColor, without, scores);
+      return {
+        color,
+        count: withColor.length,
+        relativeViews: test.relativeViewsA,
+        effectSize: test.effectSize,
+        interval: test.interval,
+        pValue: test.pValue,
+        confidence: test.confidence,
+      };
+    })
+    .sort((a, b) => b.effectSize - a.effectSize);
+
+  if (colors.length > 0) {
+    const describe = (c: (typeof colors)[number]) =>
+      `${c.color} (${c.relativeViews}x median, ${c.count} thumbnails)`;
+    const strongest = colors.filter((c) => c.effectSize > 0).slice(0, 3);
+    const weakest = colors
+      .filter((c) => c.effectSize < 0)
+      .reverse()
+      .slice(0, 3);
+    const parts = [
+      strongest.length > 0 && `strongest ${strongest.map(describe).join(', ')}`,
+      weakest.length > 0 && `weakest ${weakest.map(describe).join(', ')}`,
+    ].filter(Boolean);
+    findings.push({
+      patternType: 'thumbnail_palette',
+      category: null,
+      finding: `Thumbnail colors by channel-relative views: ${parts.length > 0 ? parts.join('; ') : 'no color stands out'}.`,
+      confidence: round(colors.reduce((s, c) => s + c.confidence, 0) / colors.length),
+      sampleSize: analyzed.length,
+      metadata: { colors },
     });
   }
 
   return findings;
 }
 
-function detectThumbnailPatterns(videos: YouTubeVideoInfo[]): PatternFinding[] {
-  // We can't analyze actual thumbnail images without vision, but we can correlate
-  // metadata patterns
+// ─── Shorts ───
+
+const MIN_SHORTS = 10;
+/** Title openings that promise a payoff within the first second: a question, a dare or
+ * tease, or an emoji */
+const HOOK_OPENING =
+  /^(\p{Extended_Pictographic}|(how|what|why|who|can|did|guess|wait|watch|look|omg|wow|surprise|pov|try|don't|never)\b)/iu;
+/** Words in a Short's title or tags that invite watching it again */
+const LOOP_KEYWORDS = [
+  'loop',
+  'again',
+  'repeat',
+  'on repeat',
+  'replay',
+  'satisfying',
+  'wait for it',
+  'till the end',
+  'endless',
+  'forever',
+  'one more time',
+];
+
+/** Hooks, loopability, vertical thumbnails and posting frequency of Shorts */
+function detectShortsPatterns(
+  shorts: YouTubeVideoInfo[],
+  allVideos: YouTubeVideoInfo[],
+  thumbnails: Map<string, ThumbnailFeatures>,
+): PatternFinding[] {
   const findings: PatternFinding[] = [];
+  if (shorts.length < MIN_SHORTS) return findings;
+  const scores = relativeViewScores(shorts);
+
+  // Hook in the first second: what the title opens on is what the first frame delivers
+  const hooked = shorts.filter((v) => hasHook(v.title));
+  const hookTest = compare(hooked, shorts.filter((v) => !hasHook(v.title)), scores);
+  findings.push({
+    patternType: 'shorts_hook',
+    category: null,
+    finding: `[Shorts] ${percent(hooked.length / shorts.length)} of Shorts titles open on a hook (question, dare, tease or emoji). Hooked Shorts get ${hookTest.relativeViewsA}x their channel's median Shorts views vs ${hookTest.relativeViewsB}x without${describeTest(hookTest)}.`,
+    confidence: hookTest.confidence,
+    sampleSize: shorts.length,
+    metadata: {
+      hookedShare: round(hooked.length / shorts.length),
+      examples: hooked.slice(0, 3).map((v) => v.title),
+      ...testMetadata(hookTest),
+    },
+  });
 
-  // Title has ALL CAPS words — often correlates with eye-catching thumbnails
-  const withCaps = videos.filter((v) => /[A-Z]{3,}/.test(v.title));
-  if (withCaps.length >= 5) {
-    const capsAvgViews = withCaps.reduce((s, v) => s + v.viewCount, 0) / withCaps.length;
-    const noCapsAvgViews =
-      videos.filter((v) => !/[A-Z]{3,}/.test(v.title)).reduce((s, v) => s + v.viewCount, 0) /
-      Math.max(videos.length - withCaps.length, 1);
+  // Loopability: Shorts replay automatically, and replays count as views
+  const loopWords = (v: YouTubeVideoInfo) => {
+    const text = [v.title, ...v.tags].join(' ').toLowerCase();
+    return LOOP_KEYWORDS.filter((k) => new RegExp(`\\b${k}\\b`).test(text));
+  };
+  const looping = shorts.filter((v) => loopWords(v).length > 0);
+  if (looping.length >= 3) {
+    const loopTest = compare(looping, shorts.filter((v) => loopWords(v).length === 0), scores);
+    const keywords = LOOP_KEYWORDS.map((keyword) => ({
+      keyword,
+      count: shorts.filter((v) => loopWords(v).includes(keyword)).length,
+    }))
+      .filter((k) => k.count > 0)
+      .sort((a, b) => b.count - a.count);
+    findings.push({
+      patternType: 'shorts_loop',
+      category: null,
+      finding: `[Shorts] ${looping.length} Shorts use loop keywords (${keywords
+        .slice(0, 3)
+        .map((k) => `"${k.keyword}"`)
+        .join(', ')}): ${loopTest.relativeViewsA}x channel median Shorts views vs ${loopTest.relativeViewsB}x without${describeTest(loopTest)}.`,
+      confidence: loopTest.confidence,
+      sampleSize: shorts.length,
+      metadata: { keywords, ...testMetadata(loopTest) },
+    });
+  }
 
+  // Vertical thumbnails: a 9:16 frame inside the pillarboxed thumbnail
+  const analyzed = shorts.filter((v) => thumbnails.has(v.videoId));
+  if (analyzed.length >= MIN_SHORTS) {
+    const isVertical = (v: YouTubeVideoInfo) => thumbnails.get(v.videoId)!.aspectRatio < 1;
+    const vertical = analyzed.filter(isVertical);
+    const verticalTest = compare(vertical, analyzed.filter((v) => !isVertical(v)), scores);
     findings.push({
-      patternType: 'thumbnail_caps',
+      patternType: 'shorts_thumbnail',
       category: null,
-      finding: `${withCaps.length} videos use ALL CAPS in title (thumbnail text proxy). Caps avg ${formatNumber(capsAvgViews)} views vs no-caps avg ${formatNumber(noCapsAvgViews)} views.`,
-      confidence: 0.5,
-      sampleSize: videos.length,
-      metadata: { capsCount: withCaps.length, capsAvgViews, noCapsAvgViews },
+      finding: `[Shorts] ${percent(vertical.length / analyzed.length)} of Shorts thumbnails are vertical. Vertical thumbnails get ${verticalTest.relativeViewsA}x channel median Shorts views vs ${verticalTest.relativeViewsB}x for landscape${describeTest(verticalTest)}.`,
+      confidence: verticalTest.confidence,
+      sampleSize: analyzed.length,
+      metadata: { verticalShare: round(vertical.length / analyzed.length), ...testMetadata(verticalTest) },
+    });
+  }
+
+  // Posting frequency of the channels that post Shorts
+  const byChannel = new Map<string, number[]>();
+  for (const v of shorts) {
+    const time = Date.parse(v.publishedAt);
+    if (!Number.isNaN(time)) byChannel.set(v.channelId, [...(byChannel.get(v.channelId) ?? []), time]);
+  }
+  const channelRates = [...byChannel]
+    .filter(([, times]) => times.length >= 3)
+    .map(([channelId, times]) => {
+      const weeks = (Math.max(...times) - Math.min(...times)) / (7 * 24 * 3600_000);
+      return { channelId, shorts: times.length, shortsPerWeek: round((times.length - 1) / Math.max(weeks, 1 / 7)) };
+    })
+    .sort((a, b) => b.shortsPerWeek - a.shortsPerWeek);
+  if (channelRates.length > 0) {
+    const rate = estimateMean(channelRates.map((c) => c.shortsPerWeek));
+    const perWeek = round(median(channelRates.map((c) => c.shortsPerWeek)));
+    findings.push({
+      patternType: 'shorts_frequency',
+      category: null,
+      finding: `[Shorts] Channels posting Shorts publish a median of ${perWeek} Shorts/week (${channelRates.length} channels); Shorts are ${percent(shorts.length / allVideos.length)} of sampled uploads.`,
+      confidence: rate.confidence,
+      sampleSize: shorts.length,
+      metadata: {
+        shortsPerWeek: perWeek,
+        shortsShare: round(shorts.length / allVideos.length),
+        channels: channelRates,
+      },
     });
   }
 
   return findings;
 }
 
+function hasHook(title: string): boolean {
+  const opening = title.trim().split(/\s+/).slice(0, 4).join(' ');
+  return HOOK_OPENING.test(opening) || /[!?]/.test(opening);
+}
+
+function percent(share: number): string {
+  return `${Math.round(share * 100)}%`;
+}
+
 function detectEngagementCorrelations(
   videos: YouTubeVideoInfo[],
   categories: Map<string, CategorizeResult>,
+  scores: Scores,
 ): PatternFinding[] {
   const findings: PatternFinding[] = [];
 
@@ -449,42 +907,48 @@ function detectEngagementCorrelations(
   const withViews = videos.filter((v) => v.viewCount > 0);
   if (withViews.length === 0) return findings;
 
-  const engagementRates = withViews.map((v) => ({
-    rate: (v.likeCount + v.commentCount) / v.viewCount,
-    views: v.viewCount,
-    videoId: v.videoId,
-  }));
-
-  const avgEngagement =
-    engagementRates.reduce((s, e) => s + e.rate, 0) / engagementRates.length;
+  const rateOf = (v: YouTubeVideoInfo) => (v.likeCount + v.commentCount) / Math.max(v.viewCount, 1);
+  const engagement = estimateMean(withViews.map(rateOf));
+  const avgEngagement = engagement.mean;
 
   findings.push({
     patternType: 'engagement_rate',
     category: null,
     finding: `Average engagement rate (likes+comments/views): ${(avgEngagement * 100).toFixed(2)}% across ${withViews.length} videos.`,
-    confidence: 0.85,
+    confidence: engagement.confidence,
     sampleSize: withViews.length,
-    metadata: { avgEngagementRate: avgEngagement },
+    metadata: {
+      avgEngagementRate: avgEngagement,
+      medianEngagementRate: median(withViews.map(rateOf)),
+      interval: engagement.interval,
+    },
   });
 
-  // Per-category engagement
+  // Per-category engagement, ranked against every other category
   const byCategory = groupByCategory(withViews, categories);
   for (const [cat, catVideos] of byCategory) {
     if (catVideos.length < 5) continue;
-    const catRate =
-      catVideos.reduce(
-        (s, v) => s + (v.likeCount + v.commentCount) / Math.max(v.viewCount, 1),
-        0,
-      ) / catVideos.length;
-    const catAvgViews = catVideos.reduce((s, v) => s + v.viewCount, 0) / catVideos.length;
+    const catRate = catVideos.reduce((s, v) => s + rateOf(v), 0) / catVideos.length;
+    const catAvgViews = averageViews(catVideos);
+    const others = withViews.filter(
+      (v) => (categories.get(v.videoId)?.category || 'other') !== cat,
+    );
+    const rateTest = compareRates(catVideos.map(rateOf), others.map(rateOf));
 
     findings.push({
       patternType: 'engagement_rate',
       category: cat,
-      finding: `[${cat}] Engagement rate: ${(catRate * 100).toFixed(2)}%, avg views: ${formatNumber(catAvgViews)} (${catVideos.length} videos).`,
-      confidence: 0.75,
+      finding: `[${cat}] Engagement rate: ${(catRate * 100).toFixed(2)}% vs ${(rateTest.rateB * 100).toFixed(2)}% for other categories, ${relativeViews(catVideos, scores)}x channel median views (${catVideos.length} videos)${describeTest(rateTest)}.`,
+      confidence: rateTest.confidence,
       sampleSize: catVideos.length,
-      metadata: { engagementRate: catRate, avgViews: catAvgViews },
+      metadata: {
+        engagementRate: catRate,
+        otherEngagementRate: rateTest.rateB,
+        avgViews: catAvgViews,
+        effectSize: rateTest.effectSize,
+        interval: rateTest.interval,
+        pValue: rateTest.pValue,
+      },
     });
   }
 
@@ -507,16 +971,58 @@ function groupByCategory(
   return groups;
 }
 
-function median(arr: number[]): number {
-  const sorted = [...arr].sort((a, b) => a - b);
-  const mid = Math.floor(sorted.length / 2);
-  return sorted.length % 2 !== 0 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+function groupBy<K>(
+  videos: YouTubeVideoInfo[],
+  keyOf: (video: YouTubeVideoInfo) => K,
+): Map<K, YouTubeVideoInfo[]> {
+  const groups = new Map<K, YouTubeVideoInfo[]>();
+  for (const v of videos) {
+    const key = keyOf(v);
+    const list = groups.get(key) || [];
+    list.push(v);
+    groups.set(key, list);
+  }
+  return groups;
+}
+
+/** Compare two groups of videos on their channel-relative views */
+function compare(a: YouTubeVideoInfo[], b: YouTubeVideoInfo[], scores: Scores): GroupComparison {
+  const scoresOf = (list: YouTubeVideoInfo[]) => list.map((v) => scores.get(v.videoId) ?? 0);
+  return compareGroups(scoresOf(a), scoresOf(b));
+}
+
+function testMetadata(test: GroupComparison): Record<string, unknown> {
+  return {
+    effectSize: test.effectSize,
+    interval: test.interval,
+    pValue: test.pValue,
+    relativeViews: [test.relativeViewsA, test.relativeViewsB],
+  };
+}
+
+function describeTest(test: GroupComparison | RateComparison): string {
+  return test.sizeA >= 2 && test.sizeB >= 2 ? ` (p=${test.pValue}, effect ${test.effectSize})` : '';
+}
+
+/** Median views of the videos as a multiple of their channels' medians */
+function relativeViews(videos: YouTubeVideoInfo[], scores: Scores): number {
+  if (videos.length === 0) return 0;
+  return round(Math.exp(median(videos.map((v) => scores.get(v.videoId) ?? 0))));
+}
+
+function formatOffset(hours: number): string {
+  if (hours === 0) return '';
+  const sign = hours > 0 ? '+' : '-';
+  const minutes = Math.round((Math.abs(hours) % 1) * 60);
+  return `${sign}${Math.floor(Math.abs(hours))}${minutes ? `:${minutes}` : ''}`;
+}
+
+function averageViews(videos: YouTubeVideoInfo[]): number {
+  return videos.length > 0 ? videos.reduce((s, v) => s + v.viewCount, 0) / videos.length : 0;
 }
 
-function formatNumber(n: number): string {
-  if (n >= 1_000_000) return `${(n / 1_000_000).toFixed(1)}M`;
-  if (n >= 1_000) return `${(n / 1_000).toFixed(1)}K`;
-  return Math.round(n).toString();
+function titleWords(title: string): Set<string> {
+  return new Set(title.toLowerCase().split(/\s+/).filter((w) => w.length > 3));
 }
 
 function formatDuration(seconds: number): string {
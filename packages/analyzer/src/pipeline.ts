@@ -1,12 +1,14 @@
 import {
+  Watchlist,
   type YouTubeClient,
   type AnalysisResult,
   type Logger,
 } from '@kidsvid/shared';
 import type { Database } from '@kidsvid/shared';
 import { analysisRuns, analysisPatterns, eq } from '@kidsvid/shared/db';
-import { ChannelScraper, type ScraperOptions } from './scraper.js';
+import { ChannelScraper, createScrapePlan, type ScraperOptions } from './scraper.js';
 import { detectPatterns } from './patterns.js';
+import { ThumbnailAnalyzer } from './thumbnails.js';
 import {
   computeEngagementStats,
   buildChannelAnalysis,
@@ -14,10 +16,21 @@ import {
   findViralOutliers,
 } from './engagement.js';
 import { categorizeChannel } from './categorizer.js';
+import { loadActiveCategoryModel } from './category-models.js';
+import { loadVideoSnapshots, computeVideoVelocities, aggregateVelocity } from './velocity.js';
+import { detectTrends } from './trends.js';
+import { classifyVideoTopics, summarizeTopicCoverage } from './topic-classifier.js';
+import { detectMarketPatterns } from './markets.js';
+import { detectSeriesPatterns } from './series.js';
+import { StrategyEngine } from './strategy-engine.js';
 
 export interface AnalysisPipelineOptions extends ScraperOptions {
   /** Run the full pipeline: scrape → categorize → detect patterns → store */
   storePatterns?: boolean;
+  /** Continue the run paused on quota with this id instead of starting a new one */
+  resume?: number;
+  /** Download and measure competitor thumbnails for the thumbnail findings (default true) */
+  analyzeThumbnails?: boolean;
 }
 
 export class AnalysisPipeline {
@@ -25,22 +38,32 @@ export class AnalysisPipeline {
     private youtube: YouTubeClient,
     private db: Database,
     private logger: Logger,
+    private thumbnails = new ThumbnailAnalyzer(logger),
   ) {}
 
   async run(options: AnalysisPipelineOptions = {}): Promise<AnalysisResult> {
-    const { storePatterns = true, ...scraperOptions } = options;
-
-    // Create analysis run record
-    const [run] = await this.db.insert(analysisRuns).values({
-      startedAt: new Date(),
-      status: 'running',
-    }).returning();
+    const { storePatterns = true, resume, analyzeThumbnails = true, ...scraperOptions } = options;
+    const categorizer = await loadActiveCategoryModel(this.db);
+    const categoryModel = categorizer?.model ?? null;
+    this.logger.info(
+      { categorizer: categorizer ? `${categorizer.algorithm} v${categorizer.id}` : 'keywords' },
+      'Categorizer selected',
+    );
+    const run =
+      resume !== undefined ? await this.resumeRun(resume) : await this.startRun(scraperOptions);
 
     try {
       // Step 1: Scrape channels and videos
       this.logger.info('Step 1: Scraping channels...');
       const scraper = new ChannelScraper(this.youtube, this.db, this.logger);
-      const scrapeResult = await scraper.scrape(scraperOptions);
+      const scrapeResult = await scraper.scrape({
+        plan: run.plan ?? createScrapePlan(scraperOptions),
+        categoryModel,
+        onProgress: async (plan) => {
+          await this.db.update(analysisRuns).set({ plan }).where(eq(analysisRuns.id, run.id));
+        },
+      });
+      const apiQuotaUsed = (run.apiQuotaUsed ?? 0) + scrapeResult.quotaUsed;
 
       this.logger.info(
         {
@@ -50,11 +73,43 @@ export class AnalysisPipeline {
         'Scrape complete',
       );
 
+      // Patterns need the full sample: park the run until the quota allows the rest
+      if (scrapeResult.paused) {
+        await this.db
+          .update(analysisRuns)
+          .set({
+            channelsAnalyzed: scrapeResult.channels.length,
+            videosAnalyzed: scrapeResult.videos.length,
+            apiQuotaUsed,
+            status: 'paused_quota',
+            plan: scrapeResult.plan,
+          })
+          .where(eq(analysisRuns.id, run.id));
+        this.logger.warn(
+          { runId: run.id, resumeAt: scrapeResult.resumeAt },
+          'Analysis run paused on YouTube quota',
+        );
+        return {
+          channelsAnalyzed: scrapeResult.channels.length,
+          videosAnalyzed: scrapeResult.videos.length,
+          patterns: [],
+          apiQuotaUsed,
+          runId: run.id,
+          status: 'paused_quota',
+          resumeAt: scrapeResult.resumeAt,
+        };
+      }
+
       // Step 2: Detect patterns
       this.logger.info('Step 2: Detecting patterns...');
+      const thumbnails = analyzeThumbnails
+        ? await this.thumbnails.analyze(scrapeResult.videos)
+        : undefined;
       const patterns = detectPatterns({
         videos: scrapeResult.videos,
         categories: scrapeResult.categories,
+        channels: scrapeResult.channels,
+        thumbnails,
       });
 
       this.logger.info({ patterns: patterns.length }, 'Patterns detected');
@@ -74,14 +129,53 @@ export class AnalysisPipeline {
 
       for (const channel of scrapeResult.channels) {
         const channelVids = videosByChannel.get(channel.channelId) || [];
-        const channelCat = categorizeChannel(channelVids);
+        const channelCat = categorizeChannel(channelVids, categoryModel);
         channelAnalyses.push(
           buildChannelAnalysis(channel.channelId, channel.name, channelVids, channelCat),
         );
       }
 
       const ranked = rankChannels(channelAnalyses);
-      const outliers = findViralOutliers(scrapeResult.videos, scrapeResult.categories);
+      const snapshots = await loadVideoSnapshots(this.db, new Date(Date.now() - 30 * 86400_000));
+      const velocities = computeVideoVelocities(snapshots);
+      const velocityMap = new Map(velocities.map((v) => [v.videoId, v]));
+      const outliers = findViralOutliers(
+        scrapeResult.videos,
+        scrapeResult.categories,
+        velocityMap,
+      );
+      const trends = detectTrends({
+        videos: scrapeResult.videos,
+        categories: scrapeResult.categories,
+        velocities: velocityMap,
+      });
+      patterns.push(...trends);
+      patterns.push(
+        ...detectSeriesPatterns(scrapeResult.playlists, [
+          ...scrapeResult.videos,
+          ...scrapeResult.playlistVideos,
+        ]),
+      );
+      patterns.push(
+        ...detectMarketPatterns({
+          videos: scrapeResult.videos,
+          categories: scrapeResult.categories,
+          channels: scrapeResult.channels,
+        }),
+      );
+
+      const topicCoverage = summarizeTopicCoverage(
+        scrapeResult.videos,
+        classifyVideoTopics(scrapeResult.videos),
+      );
+      const strategy = new StrategyEngine(this.logger);
+      const contentGaps = strategy.findContentGaps(
+        channelAnalyses,
+        patterns,
+        aggregateVelocity(velocities, 'category'),
+        topicCoverage,
+      );
+      const localization = strategy.findLocalizationGaps(patterns);
 
       this.logger.info(
         {
@@ -89,6 +183,9 @@ export class AnalysisPipeline {
           avgEngagement: (engagementStats.avgEngagementRate * 100).toFixed(2) + '%',
           topChannel: ranked[0]?.name,
           viralOutliers: outliers.length,
+          breakouts: velocities.filter((v) => v.breakout).length,
+          trends: trends.length,
+          topicsCovered: topicCoverage.length,
         },
         'Engagement analysis complete',
       );
@@ -98,8 +195,10 @@ export class AnalysisPipeline {
         this.logger.info('Step 4: Storing patterns...');
         for (const pattern of patterns) {
           await this.db.insert(analysisPatterns).values({
+            runId: run.id,
             patternType: pattern.patternType,
             category: pattern.category,
+            format: pattern.format ?? null,
             finding: pattern.finding,
             confidence: pattern.confidence,
             sampleSize: pattern.sampleSize,
@@ -116,7 +215,7 @@ export class AnalysisPipeline {
           channelsAnalyzed: scrapeResult.channels.length,
           videosAnalyzed: scrapeResult.videos.length,
           patternsFound: patterns.length,
-          apiQuotaUsed: scrapeResult.quotaUsed,
+          apiQuotaUsed,
           status: 'completed',
         })
         .where(eq(analysisRuns.id, run.id));
@@ -126,7 +225,7 @@ export class AnalysisPipeline {
       this.logger.info(`Channels analyzed: ${scrapeResult.channels.length}`);
       this.logger.info(`Videos analyzed: ${scrapeResult.videos.length}`);
       this.logger.info(`Patterns found: ${patterns.length}`);
-      this.logger.info(`API quota used: ${scrapeResult.quotaUsed}`);
+      this.logger.info(`API quota used: ${apiQuotaUsed}`);
       this.logger.info(`Top channels:`);
       for (const ch of ranked.slice(0, 5)) {
         this.logger.info(
@@ -138,12 +237,48 @@ export class AnalysisPipeline {
         channelsAnalyzed: scrapeResult.channels.length,
         videosAnalyzed: scrapeResult.videos.length,
         patterns,
-        apiQuotaUsed: scrapeResult.quotaUsed,
+        apiQuotaUsed,
+        runId: run.id,
+        status: 'completed',
+        contentGaps,
+        localization,
       };
     } catch (err) {
       // Update run as failed
       this.logger.error({ err }, 'Analysis pipeline failed');
+      await this.db
+        .update(analysisRuns)
+        .set({ status: 'failed', error: err instanceof Error ? err.message : String(err) })
+        .where(eq(analysisRuns.id, run.id));
       throw err;
     }
   }
+
+  /** New run over the given channels, or the active watchlist when none are given */
+  private async startRun(scraperOptions: ScraperOptions) {
+    const channelIds =
+      scraperOptions.channelIds ?? (await new Watchlist(this.db, this.logger).activeChannelIds());
+    const [run] = await this.db
+      .insert(analysisRuns)
+      .values({
+        startedAt: new Date(),
+        status: 'running',
+        plan: createScrapePlan({ ...scraperOptions, channelIds }),
+      })
+      .returning();
+    return run;
+  }
+
+  private async resumeRun(runId: number) {
+    const run = await this.db.query.analysisRuns.findFirst({ where: eq(analysisRuns.id, runId) });
+    if (!run) throw new Error(`Analysis run ${runId} not found`);
+    if (run.status !== 'paused_quota' || !run.plan) {
+      throw new Error(`Analysis run ${runId} is ${run.status}, not paused on quota`);
+    }
+
+    const pending = run.plan.channels.filter((c) => c.status === 'pending').length;
+    this.logger.info({ runId, pending }, 'Resuming analysis run');
+    await this.db.update(analysisRuns).set({ status: 'running' }).where(eq(analysisRuns.id, runId));
+    return run;
+  }
 }
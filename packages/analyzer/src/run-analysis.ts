@@ -5,7 +5,13 @@
  * analysis pipeline: scrape → categorize → detect patterns → engagement analysis.
  */
 
-import { createLogger, YouTubeClient, getDb } from '@kidsvid/shared';
+import {
+  createLogger,
+  createQuotaLedger,
+  loadAnalyzerConfig,
+  YouTubeClient,
+  getDb,
+} from '@kidsvid/shared';
 import { config } from 'dotenv';
 import { resolve } from 'path';
 import { ChannelScraper } from './scraper.js';
@@ -47,8 +53,13 @@ async function main() {
   }
 
   const logger = createLogger('analysis-runner', 'info');
-  const youtube = new YouTubeClient({ apiKey, maxQuotaPerRun: 9000 });
   const db = getDb(dbUrl);
+  const youtube = new YouTubeClient({
+    apiKey,
+    maxQuotaPerRun: 9000,
+    ledger: createQuotaLedger(db, logger, loadAnalyzerConfig()),
+    consumer: 'analyzer',
+  });
 
   const channelIds = TARGET_CHANNELS.map((c) => c.channelId);
   const videosPerChannel = 30; // 30 videos per channel to stay within quota
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import type { PatternFinding } from '@kidsvid/shared';
+import { diffRuns, findingKey, formatRunDiff } from './run-diff.js';
+
+function finding(
+  patternType: string,
+  metadata: Record<string, unknown> = {},
+  overrides: Partial<PatternFinding> = {},
+): PatternFinding {
+  return {
+    patternType,
+    category: null,
+    finding: `${patternType} finding`,
+    confidence: 0.9,
+    sampleSize: 100,
+    metadata,
+    ...overrides,
+  };
+}
+
+describe('findingKey', () => {
+  it('tells trend findings apart by topic', () => {
+    expect(findingKey(finding('trend_rising', { topic: 'dinosaurs' }))).toBe(
+      'trend_rising:*:dinosaurs',
+    );
+    expect(findingKey(finding('duration', {}, { category: 'educational' }))).toBe(
+      'duration:educational',
+    );
+  });
+});
+
+describe('diffRuns', () => {
+  it('reports new and disappeared findings', () => {
+    const diff = diffRuns(
+      [finding('duration'), finding('trend_rising', { topic: 'slime' })],
+      [finding('duration'), finding('trend_rising', { topic: 'dinosaurs' })],
+    );
+
+    expect(diff.added.map((f) => f.metadata.topic)).toEqual(['dinosaurs']);
+    expect(diff.removed.map((f) => f.metadata.topic)).toEqual(['slime']);
+    expect(diff.unchanged).toBe(1);
+  });
+
+  it('reports a material shift in a headline value', () => {
+    const diff = diffRuns(
+      [finding('duration', { optimalDuration: 180, bestBucket: { label: '2-4min' } })],
+      [finding('duration', { optimalDuration: 240, bestBucket: { label: '4-6min' } })],
+    );
+
+    expect(diff.changed).toHaveLength(1);
+    expect(diff.changed[0].changes).toEqual([
+      { field: 'optimalDuration', before: 180, after: 240 },
+      { field: 'bestBucket', before: '2-4min', after: '4-6min' },
+    ]);
+    expect(formatRunDiff(diff)[0]).toBe(
+      '~ [duration:*] optimalDuration 3m0s → 4m0s; bestBucket 2-4min → 4-6min',
+    );
+  });
+
+  it('ignores small moves, p-values and raw view averages', () => {
+    const diff = diffRuns(
+      [
+        finding(
+          'title_keywords',
+          { pValue: 0.01, avgViews: 100_000, topWords: [{ word: 'kids' }, { word: 'fun' }] },
+          { confidence: 0.95 },
+        ),
+      ],
+      [
+        finding(
+          'title_keywords',
+          { pValue: 0.002, avgViews: 400_000, topWords: [{ word: 'fun' }, { word: 'kids' }] },
+          { confidence: 0.99 },
+        ),
+      ],
+    );
+
+    expect(diff.changed).toEqual([]);
+    expect(diff.unchanged).toBe(1);
+  });
+});
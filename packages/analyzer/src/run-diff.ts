@@ -0,0 +1,182 @@
+import type { PatternFinding } from '@kidsvid/shared';
+
+/** Compare the findings of two analysis runs.
+ * Findings are matched on pattern type, category and (for trends) topic or (for market
+ * profiles) language; a matched pair only
+ * counts as changed when a headline value moved materially, not on every re-sampled number. */
+
+export interface FindingChange {
+  field: string;
+  before: number | string;
+  after: number | string;
+}
+
+export interface ChangedFinding {
+  key: string;
+  before: PatternFinding;
+  after: PatternFinding;
+  changes: FindingChange[];
+}
+
+export interface RunDiff {
+  added: PatternFinding[];
+  removed: PatternFinding[];
+  changed: ChangedFinding[];
+  unchanged: number;
+}
+
+export interface DiffOptions {
+  /** Relative change in a numeric value that counts as material */
+  relativeThreshold?: number;
+  /** Absolute change in confidence or effect size that counts as material */
+  absoluteThreshold?: number;
+}
+
+const DEFAULT_RELATIVE_THRESHOLD = 0.2;
+const DEFAULT_ABSOLUTE_THRESHOLD = 0.2;
+
+/** Bounded values compared by absolute difference rather than ratio */
+const ABSOLUTE_FIELDS = new Set(['confidence', 'effectSize']);
+/** Values that move on every run without meaning anything on their own: p-values, and raw
+ * view averages that a single mega-hit swings */
+const IGNORED_FIELD = /^pValue$|avgViews$/i;
+/** How many leading entries of a ranked list are compared, ignoring their order */
+const TOP_N = 5;
+
+/** Identity of a finding across runs */
+export function findingKey(finding: PatternFinding): string {
+  const parts = [finding.patternType, finding.category ?? '*'];
+  if (finding.metadata.topic) parts.push(String(finding.metadata.topic));
+  if (finding.metadata.language) parts.push(String(finding.metadata.language));
+  return parts.join(':');
+}
+
+/** Values of a finding worth comparing between runs: its confidence, scalar metadata, and
+ * the leader of each ranked list (best duration bucket, best day, top keywords, ...) */
+export function headlineValues(finding: PatternFinding): Record<string, number | string> {
+  const values: Record<string, number | string> = { confidence: finding.confidence };
+  const m = finding.metadata;
+
+  for (const [field, value] of Object.entries(m)) {
+    if (IGNORED_FIELD.test(field)) continue;
+    if (typeof value === 'number' || typeof value === 'string') values[field] = value;
+  }
+
+  const bestBucket = m.bestBucket as { label?: string } | undefined;
+  if (bestBucket?.label) values.bestBucket = bestBucket.label;
+
+  const leaders: Array<[string, string, string]> = [
+    ['dayStats', 'day', 'bestDay'],
+    ['topHours', 'hour', 'bestHour'],
+  ];
+  for (const [list, field, name] of leaders) {
+    const first = (m[list] as Array<Record<string, unknown>> | undefined)?.[0];
+    if (first && first[field] !== undefined) values[name] = String(first[field]);
+  }
+
+  const ranked: Array<[string, string]> = [
+    ['topWords', 'word'],
+    ['topTags', 'tag'],
+    ['highPerformingTags', 'tag'],
+  ];
+  for (const [list, field] of ranked) {
+    const entries = m[list] as Array<Record<string, unknown>> | undefined;
+    if (!entries?.length) continue;
+    values[list] = entries
+      .slice(0, TOP_N)
+      .map((e) => String(e[field]))
+      .sort()
+      .join(', ');
+  }
+
+  return values;
+}
+
+function materialChanges(
+  before: PatternFinding,
+  after: PatternFinding,
+  relativeThreshold: number,
+  absoluteThreshold: number,
+): FindingChange[] {
+  const a = headlineValues(before);
+  const b = headlineValues(after);
+  const changes: FindingChange[] = [];
+
+  for (const field of Object.keys(b)) {
+    if (!(field in a)) continue;
+    const was = a[field];
+    const now = b[field];
+    if (typeof was === 'number' && typeof now === 'number') {
+      const diff = Math.abs(now - was);
+      const material = ABSOLUTE_FIELDS.has(field)
+        ? diff >= absoluteThreshold
+        : diff > 0 && diff / Math.max(Math.abs(was), Math.abs(now)) >= relativeThreshold;
+      if (material) changes.push({ field, before: was, after: now });
+    } else if (was !== now) {
+      changes.push({ field, before: was, after: now });
+    }
+  }
+
+  return changes;
+}
+
+/** New, disappeared and materially changed findings going from run `a` to run `b` */
+export function diffRuns(
+  a: PatternFinding[],
+  b: PatternFinding[],
+  options: DiffOptions = {},
+): RunDiff {
+  const relativeThreshold = options.relativeThreshold ?? DEFAULT_RELATIVE_THRESHOLD;
+  const absoluteThreshold = options.absoluteThreshold ?? DEFAULT_ABSOLUTE_THRESHOLD;
+  const before = new Map(a.map((f) => [findingKey(f), f]));
+  const after = new Map(b.map((f) => [findingKey(f), f]));
+
+  const diff: RunDiff = { added: [], removed: [], changed: [], unchanged: 0 };
+  for (const [key, finding] of after) {
+    const previous = before.get(key);
+    if (!previous) {
+      diff.added.push(finding);
+      continue;
+    }
+    const changes = materialChanges(previous, finding, relativeThreshold, absoluteThreshold);
+    if (changes.length > 0) diff.changed.push({ key, before: previous, after: finding, changes });
+    else diff.unchanged++;
+  }
+  for (const [key, finding] of before) {
+    if (!after.has(key)) diff.removed.push(finding);
+  }
+
+  return diff;
+}
+
+/** Human-readable lines for the analyzer CLI */
+export function formatRunDiff(diff: RunDiff): string[] {
+  const lines: string[] = [];
+  const label = (f: PatternFinding) => `[${findingKey(f)}]`;
+
+  for (const f of diff.added) lines.push(`+ ${label(f)} ${f.finding}`);
+  for (const f of diff.removed) lines.push(`- ${label(f)} ${f.finding}`);
+  for (const c of diff.changed) {
+    const moved = c.changes
+      .map(
+        (ch) =>
+          `${ch.field} ${formatValue(ch.field, ch.before)} → ${formatValue(ch.field, ch.after)}`,
+      )
+      .join('; ');
+    lines.push(`~ [${c.key}] ${moved}`);
+  }
+  lines.push(
+    `${diff.added.length} new, ${diff.removed.length} gone, ${diff.changed.length} changed, ${diff.unchanged} unchanged`,
+  );
+  return lines;
+}
+
+function formatValue(field: string, value: number | string): string {
+  if (typeof value === 'string') return value;
+  if (/duration/i.test(field)) {
+    const m = Math.floor(value / 60);
+    const s = Math.round(value % 60);
+    return `${m}m${s}s`;
+  }
+  return Number.isInteger(value) ? String(value) : value.toFixed(2);
+}
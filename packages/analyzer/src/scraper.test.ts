@@ -0,0 +1,188 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  QuotaExhaustedError,
+  type Database,
+  type Logger,
+  type YouTubeClient,
+  type YouTubeVideoInfo,
+} from '@kidsvid/shared';
+import { competitorVideoSnapshots } from '@kidsvid/shared/db';
+import { ChannelScraper, createScrapePlan } from './scraper.js';
+
+const mockLogger = {
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+  debug: vi.fn(),
+} as unknown as Logger;
+
+function video(videoId: string, channelId: string): YouTubeVideoInfo {
+  return {
+    videoId,
+    channelId,
+    title: `Counting song ${videoId}`,
+    description: '',
+    publishedAt: '2026-09-01T00:00:00Z',
+    duration: 180,
+    viewCount: 1000,
+    likeCount: 10,
+    commentCount: 1,
+    tags: [],
+    thumbnailUrl: '',
+    defaultLanguage: 'en',
+    categoryId: '27',
+  };
+}
+
+/** Two videos per page, two pages per channel; `failOn` pages run out of quota */
+function createMockYouTube(failOn: string[] = []) {
+  const resetAt = new Date('2026-10-19T07:00:00Z');
+  const youtube = {
+    quotaRemaining: 100,
+    totalQuotaUsed: 10,
+    getChannelsBatch: vi.fn(async (ids: string[]) =>
+      ids.map((channelId) => ({ channelId, name: channelId })),
+    ),
+    getUploadsPlaylistId: vi.fn(async (channelId: string) => `uploads-${channelId}`),
+    getPlaylistVideoIds: vi.fn(async (playlistId: string, _max: number, pageToken?: string) => {
+      const channelId = playlistId.replace('uploads-', '');
+      const page = pageToken ? 2 : 1;
+      if (failOn.includes(`${channelId}:${page}`)) {
+        throw new QuotaExhaustedError('YouTube quota exhausted', resetAt);
+      }
+      return {
+        videoIds: [`${channelId}-${page}a`, `${channelId}-${page}b`],
+        nextPageToken: page === 1 ? 'page-2' : undefined,
+      };
+    }),
+    getVideosBatch: vi.fn(async (ids: string[]) => ids.map((id) => video(id, id.split('-')[0]))),
+    // One series per channel: its first upload and an episode older than the scraped uploads
+    getChannelPlaylists: vi.fn(async (channelId: string) => [
+      {
+        playlistId: `series-${channelId}`,
+        channelId,
+        title: 'Counting Songs',
+        description: '',
+        publishedAt: '2026-01-01T00:00:00Z',
+        itemCount: 2,
+        videoIds: [`${channelId}-old`, `${channelId}-1a`],
+      },
+    ]),
+  };
+  return { youtube, resetAt };
+}
+
+function createMockDb(storedVideos: YouTubeVideoInfo[] = []) {
+  const write = { values: vi.fn().mockResolvedValue(undefined) };
+  return {
+    query: {
+      channels: {
+        findFirst: vi.fn().mockResolvedValue({ id: 1, name: 'Stored channel' }),
+      },
+      videos: {
+        findFirst: vi.fn().mockResolvedValue(undefined),
+        findMany: vi
+          .fn()
+          .mockResolvedValue(
+            storedVideos.map((v) => ({ ...v, youtubeVideoId: v.videoId, publishedAt: null })),
+          ),
+      },
+    },
+    insert: vi.fn().mockReturnValue(write),
+    update: vi.fn().mockReturnValue({
+      set: vi.fn().mockReturnValue({ where: vi.fn().mockResolvedValue(undefined) }),
+    }),
+  } as unknown as Database;
+}
+
+describe('ChannelScraper', () => {
+  it('pauses on quota and records the page each channel stopped at', async () => {
+    const { youtube, resetAt } = createMockYouTube(['B:2']);
+    const onProgress = vi.fn().mockResolvedValue(undefined);
+    const scraper = new ChannelScraper(
+      youtube as unknown as YouTubeClient,
+      createMockDb(),
+      mockLogger,
+    );
+
+    const result = await scraper.scrape({
+      channelIds: ['A', 'B', 'C'],
+      videosPerChannel: 4,
+      onProgress,
+    });
+
+    expect(result.paused).toBe(true);
+    expect(result.resumeAt).toBe(resetAt);
+    expect(result.videos.map((v) => v.videoId)).toEqual(['A-1a', 'A-1b', 'A-2a', 'A-2b']);
+    expect(result.plan.channels).toMatchObject([
+      { channelId: 'A', status: 'done', pagesFetched: 2 },
+      {
+        channelId: 'B',
+        status: 'pending',
+        pagesFetched: 1,
+        nextPageToken: 'page-2',
+        videoIds: ['B-1a', 'B-1b'],
+      },
+      { channelId: 'C', status: 'pending', pagesFetched: 0 },
+    ]);
+    expect(onProgress).toHaveBeenLastCalledWith(result.plan);
+    expect(youtube.getChannelPlaylists).not.toHaveBeenCalled();
+    expect(result.playlists).toEqual([]);
+  });
+
+  it('resumes a paused plan from the next page and returns the full sample', async () => {
+    const paused = createScrapePlan({ channelIds: ['A', 'B', 'C'], videosPerChannel: 4 });
+    paused.channels[0] = {
+      ...paused.channels[0],
+      status: 'done',
+      pagesFetched: 2,
+      videoIds: ['A-1a', 'A-1b', 'A-2a', 'A-2b'],
+    };
+    paused.channels[1] = {
+      ...paused.channels[1],
+      uploadsPlaylistId: 'uploads-B',
+      pagesFetched: 1,
+      nextPageToken: 'page-2',
+      videoIds: ['B-1a', 'B-1b'],
+    };
+    const { youtube } = createMockYouTube();
+    const stored = ['A-1a', 'A-1b', 'A-2a', 'A-2b'].map((id) => video(id, 'A'));
+    const scraper = new ChannelScraper(
+      youtube as unknown as YouTubeClient,
+      createMockDb(stored),
+      mockLogger,
+    );
+
+    const result = await scraper.scrape({ plan: paused });
+
+    expect(result.paused).toBe(false);
+    expect(youtube.getChannelsBatch).toHaveBeenCalledWith(['B', 'C']);
+    expect(youtube.getUploadsPlaylistId).not.toHaveBeenCalledWith('B');
+    expect(youtube.getPlaylistVideoIds).toHaveBeenCalledWith('uploads-B', 2, 'page-2');
+    expect(result.channels.map((c) => c.channelId)).toEqual(['A', 'B', 'C']);
+    expect(result.videos).toHaveLength(12);
+    expect(result.categories.size).toBe(12);
+    expect(result.plan.channels.every((c) => c.status === 'done')).toBe(true);
+    expect(result.playlists.map((p) => p.playlistId)).toEqual(['series-A', 'series-B', 'series-C']);
+    expect(youtube.getChannelPlaylists).toHaveBeenCalledWith('A', 10);
+    expect(result.playlistVideos.map((v) => v.videoId)).toEqual(['A-old', 'B-old', 'C-old']);
+  });
+
+  it('stamps snapshots with when YouTube served the statistics', async () => {
+    const { youtube } = createMockYouTube();
+    const fetchedAt = '2026-10-18T03:00:00.000Z';
+    youtube.getVideosBatch.mockImplementation(async (ids: string[]) =>
+      ids.map((id) => ({ ...video(id, 'A'), fetchedAt })),
+    );
+    const db = createMockDb();
+    const scraper = new ChannelScraper(youtube as unknown as YouTubeClient, db, mockLogger);
+
+    await scraper.scrape({ channelIds: ['A'], videosPerChannel: 2, playlistsPerChannel: 0 });
+
+    const rows = vi
+      .mocked(db.insert(competitorVideoSnapshots).values)
+      .mock.calls.map(([values]) => values)
+      .find(Array.isArray) as Array<{ capturedAt: Date }>;
+    expect(rows.map((r) => r.capturedAt.toISOString())).toEqual([fetchedAt, fetchedAt]);
+  });
+});
@@ -1,26 +1,69 @@
 import {
   type YouTubeClient,
   type YouTubeChannelInfo,
+  type YouTubePlaylistInfo,
   type YouTubeVideoInfo,
+  type AnalysisRunPlan,
+  type AnalysisPlanChannel,
+  type CategoryModel,
   QuotaExhaustedError,
   TOP_KIDS_CHANNELS,
   type Logger,
 } from '@kidsvid/shared';
 import type { Database } from '@kidsvid/shared';
-import { channels, videos, eq } from '@kidsvid/shared/db';
+import { channels, videos, competitorVideoSnapshots, eq, inArray } from '@kidsvid/shared/db';
 import { categorizeVideo, categorizeChannel, type CategorizeResult } from './categorizer.js';
+import { classifyEducationalTopics } from './topic-classifier.js';
+import { videoFormat } from './patterns.js';
 
 export interface ScraperOptions {
   videosPerChannel?: number;
+  /** Playlists listed per channel for series analysis; 0 skips them */
+  playlistsPerChannel?: number;
   channelIds?: string[];
   skipExisting?: boolean;
+  /** Plan of a paused run to continue; without one a plan is made from the options above */
+  plan?: AnalysisRunPlan;
+  /** Called whenever the plan advances, so progress survives the process */
+  onProgress?: (plan: AnalysisRunPlan) => Promise<void>;
+  /** Trained categorizer for the videos; keywords when unset */
+  categoryModel?: CategoryModel | null;
 }
 
 export interface ScraperResult {
   channels: YouTubeChannelInfo[];
   videos: YouTubeVideoInfo[];
   categories: Map<string, CategorizeResult>;
+  playlists: YouTubePlaylistInfo[];
+  /** Details of playlist videos that aren't among the scraped uploads, e.g. older episodes */
+  playlistVideos: YouTubeVideoInfo[];
   quotaUsed: number;
+  plan: AnalysisRunPlan;
+  /** The quota ran out before every planned channel was collected */
+  paused: boolean;
+  /** When the exhausted daily quota resets; unset when a per-run cap was hit */
+  resumeAt?: Date;
+}
+
+/** One pending entry per (deduplicated) channel */
+export function createScrapePlan(options: ScraperOptions = {}): AnalysisRunPlan {
+  const {
+    videosPerChannel = 50,
+    playlistsPerChannel = 10,
+    channelIds = TOP_KIDS_CHANNELS.map((c) => c.channelId),
+    skipExisting = false,
+  } = options;
+  return {
+    videosPerChannel,
+    playlistsPerChannel,
+    skipExisting,
+    channels: [...new Set(channelIds)].map((channelId) => ({
+      channelId,
+      status: 'pending',
+      pagesFetched: 0,
+      videoIds: [],
+    })),
+  };
 }
 
 export class ChannelScraper {
@@ -30,44 +73,68 @@ export class ChannelScraper {
     private logger: Logger,
   ) {}
 
+  /** Collect every channel in the plan. Stops early, with `paused` set, when the quota runs
+   * out; passing the returned plan back in continues from the page it stopped at. */
   async scrape(options: ScraperOptions = {}): Promise<ScraperResult> {
-    const {
-      videosPerChannel = 50,
-      channelIds = TOP_KIDS_CHANNELS.map((c) => c.channelId),
-      skipExisting = false,
-    } = options;
-
-    // Deduplicate channel IDs
-    const uniqueIds = [...new Set(channelIds)];
+    const plan = options.plan ?? createScrapePlan(options);
+    const model = options.categoryModel;
+    const saveProgress = async () => {
+      await options.onProgress?.(plan);
+    };
+    const pending = plan.channels.filter((c) => c.status === 'pending');
 
     this.logger.info(
-      { channelCount: uniqueIds.length, videosPerChannel },
+      {
+        channelCount: plan.channels.length,
+        pending: pending.length,
+        videosPerChannel: plan.videosPerChannel,
+      },
       'Starting channel scrape',
     );
 
     const allChannels: YouTubeChannelInfo[] = [];
     const allVideos: YouTubeVideoInfo[] = [];
     const allCategories = new Map<string, CategorizeResult>();
+    let quotaError: QuotaExhaustedError | undefined;
+
+    // Channels collected by earlier passes of a resumed run come back from the database
+    for (const entry of plan.channels.filter((c) => c.status === 'done')) {
+      const stored = await this.loadStoredChannel(entry);
+      if (!stored) continue;
+      allChannels.push(stored.channel);
+      allVideos.push(...stored.videos);
+      for (const video of stored.videos) {
+        allCategories.set(video.videoId, categorizeVideo(video, model));
+      }
+    }
 
     // Fetch channel info in batch
-    let channelInfos: YouTubeChannelInfo[];
+    let channelInfos: YouTubeChannelInfo[] = [];
     try {
-      channelInfos = await this.youtube.getChannelsBatch(uniqueIds);
-    } catch (err) {
-      if (err instanceof QuotaExhaustedError) {
-        this.logger.warn('Quota exhausted during channel fetch');
-        return { channels: allChannels, videos: allVideos, categories: allCategories, quotaUsed: this.youtube.totalQuotaUsed };
+      if (pending.length > 0) {
+        channelInfos = await this.youtube.getChannelsBatch(pending.map((c) => c.channelId));
       }
-      throw err;
+    } catch (err) {
+      if (!(err instanceof QuotaExhaustedError)) throw err;
+      this.logger.warn('Quota exhausted during channel fetch');
+      quotaError = err;
     }
 
-    this.logger.info({ fetched: channelInfos.length }, 'Fetched channel info');
+    if (!quotaError) {
+      this.logger.info({ fetched: channelInfos.length }, 'Fetched channel info');
+      const fetched = new Set(channelInfos.map((c) => c.channelId));
+      for (const entry of pending) {
+        if (!fetched.has(entry.channelId)) entry.status = 'failed';
+      }
+    }
 
     // Process each channel
+    const entries = new Map(plan.channels.map((c) => [c.channelId, c]));
     for (const channelInfo of channelInfos) {
+      const entry = entries.get(channelInfo.channelId)!;
       try {
         // Check if we should skip
-        if (skipExisting) {
+        if (plan.skipExisting) {
           const existing = await this.db.query.channels.findFirst({
             where: eq(channels.youtubeChannelId, channelInfo.channelId),
           });
@@ -79,6 +146,8 @@ export class ChannelScraper {
                 { channel: channelInfo.name },
                 'Skipping recently analyzed channel',
               );
+              entry.status = 'skipped';
+              await saveProgress();
               continue;
             }
           }
@@ -92,27 +161,27 @@ export class ChannelScraper {
         // Fetch videos
         let channelVideos: YouTubeVideoInfo[];
         try {
-          channelVideos = await this.youtube.getChannelVideos(
-            channelInfo.channelId,
-            videosPerChannel,
-          );
+          channelVideos = await this.fetchChannelVideos(entry, plan.videosPerChannel, saveProgress);
         } catch (err) {
           if (err instanceof QuotaExhaustedError) {
             this.logger.warn({ channel: channelInfo.name }, 'Quota exhausted during video fetch');
+            quotaError = err;
             break;
           }
           this.logger.error({ channel: channelInfo.name, err }, 'Failed to fetch videos');
+          entry.status = 'failed';
+          await saveProgress();
           continue;
         }
 
         // Categorize videos
         for (const video of channelVideos) {
-          const catResult = categorizeVideo(video);
+          const catResult = categorizeVideo(video, model);
           allCategories.set(video.videoId, catResult);
         }
 
         // Categorize channel
-        const channelCat = categorizeChannel(channelVideos);
+        const channelCat = categorizeChannel(channelVideos, model);
 
         // Store channel in DB
         await this.upsertChannel(channelInfo, channelCat, channelVideos);
@@ -122,9 +191,12 @@ export class ChannelScraper {
         for (const video of channelVideos) {
           await this.upsertVideo(video, channelDbId, allCategories.get(video.videoId)!);
         }
+        await this.recordSnapshots(channelVideos, allCategories);
 
         allChannels.push(channelInfo);
         allVideos.push(...channelVideos);
+        entry.status = 'done';
+        await saveProgress();
 
         this.logger.info(
           {
@@ -136,26 +208,180 @@ export class ChannelScraper {
         );
       } catch (err) {
         this.logger.error({ channel: channelInfo.name, err }, 'Error processing channel');
+        entry.status = 'failed';
+        await saveProgress();
       }
     }
 
+    const paused = plan.channels.some((c) => c.status === 'pending');
+    if (paused) await saveProgress();
+
+    // Playlists only come once every channel's uploads are in, so they never cost a pause
+    const { playlists, playlistVideos } =
+      paused || !plan.playlistsPerChannel
+        ? { playlists: [], playlistVideos: [] }
+        : await this.fetchPlaylists(allChannels, allVideos, plan.playlistsPerChannel);
+
     this.logger.info(
       {
         channels: allChannels.length,
         videos: allVideos.length,
+        playlists: playlists.length,
         quotaUsed: this.youtube.totalQuotaUsed,
+        paused,
       },
-      'Scrape complete',
+      paused ? 'Scrape paused until quota is available' : 'Scrape complete',
     );
 
     return {
       channels: allChannels,
       videos: allVideos,
       categories: allCategories,
+      playlists,
+      playlistVideos,
       quotaUsed: this.youtube.totalQuotaUsed,
+      plan,
+      paused,
+      resumeAt: paused ? quotaError?.resetAt : undefined,
     };
   }
 
+  /** Walk a channel's uploads playlist page by page, recording each page in the plan entry,
+   * then fetch details for the listed videos */
+  private async fetchChannelVideos(
+    entry: AnalysisPlanChannel,
+    videosPerChannel: number,
+    saveProgress: () => Promise<void>,
+  ): Promise<YouTubeVideoInfo[]> {
+    if (!entry.uploadsPlaylistId) {
+      entry.uploadsPlaylistId = await this.youtube.getUploadsPlaylistId(entry.channelId);
+      await saveProgress();
+    }
+
+    while (
+      entry.videoIds.length < videosPerChannel &&
+      (entry.pagesFetched === 0 || entry.nextPageToken)
+    ) {
+      const page = await this.youtube.getPlaylistVideoIds(
+        entry.uploadsPlaylistId,
+        videosPerChannel - entry.videoIds.length,
+        entry.nextPageToken,
+      );
+      entry.videoIds.push(...page.videoIds);
+      entry.pagesFetched++;
+      entry.nextPageToken = page.nextPageToken;
+      await saveProgress();
+    }
+
+    if (entry.videoIds.length === 0) return [];
+    return this.youtube.getVideosBatch(entry.videoIds);
+  }
+
+  /** List each channel's playlists and fetch the listed videos that weren't scraped as uploads.
+   * Running out of quota here keeps what was listed so far. */
+  private async fetchPlaylists(
+    scrapedChannels: YouTubeChannelInfo[],
+    scrapedVideos: YouTubeVideoInfo[],
+    playlistsPerChannel: number,
+  ): Promise<{ playlists: YouTubePlaylistInfo[]; playlistVideos: YouTubeVideoInfo[] }> {
+    const playlists: YouTubePlaylistInfo[] = [];
+    let playlistVideos: YouTubeVideoInfo[] = [];
+    try {
+      for (const channel of scrapedChannels) {
+        try {
+          playlists.push(
+            ...(await this.youtube.getChannelPlaylists(channel.channelId, playlistsPerChannel)),
+          );
+        } catch (err) {
+          if (err instanceof QuotaExhaustedError) throw err;
+          this.logger.error({ channel: channel.name, err }, 'Failed to fetch playlists');
+        }
+      }
+
+      const scraped = new Set(scrapedVideos.map((v) => v.videoId));
+      const missing = [...new Set(playlists.flatMap((p) => p.videoIds))].filter(
+        (id) => !scraped.has(id),
+      );
+      if (missing.length > 0) playlistVideos = await this.youtube.getVideosBatch(missing);
+    } catch (err) {
+      if (!(err instanceof QuotaExhaustedError)) throw err;
+      this.logger.warn({ playlists: playlists.length }, 'Quota exhausted during playlist fetch');
+    }
+
+    this.logger.info(
+      { playlists: playlists.length, playlistVideos: playlistVideos.length },
+      'Fetched competitor playlists',
+    );
+    return { playlists, playlistVideos };
+  }
+
+  /** Rebuild a channel collected by an earlier pass from what that pass stored */
+  private async loadStoredChannel(
+    entry: AnalysisPlanChannel,
+  ): Promise<{ channel: YouTubeChannelInfo; videos: YouTubeVideoInfo[] } | null> {
+    const row = await this.db.query.channels.findFirst({
+      where: eq(channels.youtubeChannelId, entry.channelId),
+    });
+    if (!row) return null;
+
+    const videoRows =
+      entry.videoIds.length > 0
+        ? await this.db.query.videos.findMany({
+            where: inArray(videos.youtubeVideoId, entry.videoIds),
+          })
+        : [];
+
+    return {
+      channel: {
+        channelId: entry.channelId,
+        name: row.name,
+        description: row.description ?? '',
+        subscriberCount: row.subscriberCount ?? 0,
+        videoCount: row.videoCount ?? 0,
+        viewCount: row.viewCount ?? 0,
+        country: row.country ?? '',
+        thumbnailUrl: row.thumbnailUrl ?? '',
+        customUrl: row.customUrl ?? '',
+        publishedAt: '',
+      },
+      videos: videoRows.map((v) => ({
+        videoId: v.youtubeVideoId,
+        channelId: entry.channelId,
+        title: v.title,
+        description: v.description ?? '',
+        publishedAt: v.publishedAt?.toISOString() ?? '',
+        duration: v.duration ?? 0,
+        viewCount: v.viewCount ?? 0,
+        likeCount: v.likeCount ?? 0,
+        commentCount: v.commentCount ?? 0,
+        tags: v.tags ?? [],
+        thumbnailUrl: v.thumbnailUrl ?? '',
+        defaultLanguage: v.defaultLanguage ?? '',
+        categoryId: '',
+      })),
+    };
+  }
+
+  private async recordSnapshots(
+    fetched: YouTubeVideoInfo[],
+    categories: Map<string, CategorizeResult>,
+  ): Promise<void> {
+    if (fetched.length === 0) return;
+    // Stamped with when YouTube served the counts: a cached response is hours older than now
+    const now = new Date();
+    await this.db.insert(competitorVideoSnapshots).values(
+      fetched.map((video) => ({
+        youtubeVideoId: video.videoId,
+        youtubeChannelId: video.channelId,
+        category: categories.get(video.videoId)?.category ?? 'other',
+        viewCount: video.viewCount,
+        likeCount: video.likeCount,
+        commentCount: video.commentCount,
+        capturedAt: video.fetchedAt ? new Date(video.fetchedAt) : now,
+      })),
+    );
+  }
+
   private async upsertChannel(
     info: YouTubeChannelInfo,
     category: CategorizeResult,
@@ -227,6 +453,7 @@ export class ChannelScraper {
     category: CategorizeResult,
   ): Promise<void> {
     const viewCount = video.viewCount;
+    const topics = classifyEducationalTopics(video);
     const values = {
       youtubeVideoId: video.videoId,
       channelId: channelDbId,
@@ -252,7 +479,11 @@ export class ChannelScraper {
         /[\u{1F600}-\u{1F64F}\u{1F300}-\u{1F5FF}\u{1F680}-\u{1F6FF}\u{1F1E0}-\u{1F1FF}\u{2600}-\u{26FF}\u{2700}-\u{27BF}]/u.test(
           video.title,
         ),
-      isShort: video.duration > 0 && video.duration < 60,
+      isShort: videoFormat(video) === 'short',
+      educationalCategory: topics.educationalCategory,
+      educationalTopics: topics.topics,
+      topicConfidence: topics.confidence,
+      ageBracket: topics.ageBracket,
     };
 
     const existing = await this.db.query.videos.findFirst({
@@ -0,0 +1,203 @@
+import { describe, it, expect } from 'vitest';
+import type { YouTubePlaylistInfo, YouTubeVideoInfo } from '@kidsvid/shared';
+import { detectSeriesPatterns, profilePlaylists } from './series.js';
+
+function video(
+  videoId: string,
+  channelId: string,
+  overrides: Partial<YouTubeVideoInfo> = {},
+): YouTubeVideoInfo {
+  return {
+    videoId,
+    channelId,
+    title: `Video ${videoId}`,
+    description: '',
+    publishedAt: '2026-09-01T00:00:00Z',
+    duration: 180,
+    viewCount: 1000,
+    likeCount: 10,
+    commentCount: 1,
+    tags: [],
+    thumbnailUrl: '',
+    defaultLanguage: 'en',
+    categoryId: '27',
+    ...overrides,
+  };
+}
+
+function playlist(playlistId: string, channelId: string, title: string, videoIds: string[]) {
+  return {
+    playlistId,
+    channelId,
+    title,
+    description: '',
+    publishedAt: '2026-01-01T00:00:00Z',
+    itemCount: videoIds.length,
+    videoIds,
+  } satisfies YouTubePlaylistInfo;
+}
+
+/** A numbered series on its own channel, next to enough other uploads to hold the channel
+ * median at 1000 views */
+function numberedSeries(channelId: string, views: number[]) {
+  const episodes = views.map((viewCount, i) =>
+    video(`${channelId}-ep${i + 1}`, channelId, { title: `Show Ep. ${i + 1}`, viewCount }),
+  );
+  const others = Array.from({ length: 15 }, (_, i) => video(`${channelId}-v${i}`, channelId));
+  return {
+    playlist: playlist(
+      `pl-${channelId}`,
+      channelId,
+      'Show',
+      episodes.map((v) => v.videoId),
+    ),
+    videos: [...episodes, ...others],
+  };
+}
+
+describe('profilePlaylists', () => {
+  it('orders episodes by their numbers and measures the fall-off from the first', () => {
+    const videos = [
+      video('a3', 'A', { title: 'Counting Fun Ep. 3: Ten', viewCount: 250, duration: 175 }),
+      video('a1', 'A', { title: 'Counting Fun Ep. 1: One', viewCount: 1000, duration: 180 }),
+      video('a2', 'A', { title: 'Counting Fun Ep. 2: Five', viewCount: 500, duration: 185 }),
+      video('b1', 'B', { title: 'Somebody else’s video' }),
+    ];
+    const { series } = profilePlaylists(
+      [playlist('pl', 'A', 'Counting Fun', ['a3', 'a1', 'b1', 'a2'])],
+      videos,
+    );
+
+    expect(series).toHaveLength(1);
+    expect(series[0]).toMatchObject({
+      episodes: 3,
+      naming: 'numbered',
+      medianDuration: 180,
+      durationSpread: 0.02,
+      episodeViews: [1, 0.5, 0.25],
+      retention: 0.5,
+    });
+  });
+
+  it('tells how episode titles mark the series', () => {
+    const titled = (channelId: string, titles: string[]) =>
+      titles.map((title, i) => video(`${channelId}${i}`, channelId, { title }));
+    const videos = [
+      ...titled('P', [
+        "Bea's Feelings: Sharing",
+        "Bea's Feelings: Being Brave",
+        "Bea's Feelings: Sorry",
+      ]),
+      ...titled('S', [
+        'Sharing Is Caring | Kind Club',
+        'Taking Turns | Kind Club',
+        'Hello | Kind Club',
+      ]),
+      ...titled('N', ['The Bath Song', 'Wash Your Hands', 'Yes Yes Vegetables']),
+    ];
+    const { series } = profilePlaylists(
+      ['P', 'S', 'N'].map((c) =>
+        playlist(
+          c,
+          c,
+          c,
+          [0, 1, 2].map((i) => `${c}${i}`),
+        ),
+      ),
+      videos,
+    );
+
+    expect(series.map((s) => s.naming)).toEqual(['series_prefix', 'series_suffix', 'standalone']);
+  });
+
+  it('reads playlists listing the newest upload first backwards', () => {
+    const videos = [
+      video('n3', 'N', { publishedAt: '2026-03-01T00:00:00Z', viewCount: 100 }),
+      video('n2', 'N', { publishedAt: '2026-02-01T00:00:00Z', viewCount: 200 }),
+      video('n1', 'N', { publishedAt: '2026-01-01T00:00:00Z', viewCount: 400 }),
+    ];
+    const { series } = profilePlaylists(
+      [playlist('pl', 'N', 'Stories', ['n3', 'n2', 'n1'])],
+      videos,
+    );
+
+    expect(series[0].episodeViews).toEqual([1, 0.5, 0.25]);
+  });
+
+  it('profiles compilations apart from series', () => {
+    const videos = [
+      video('c1', 'C', { duration: 3600 }),
+      video('c2', 'C', { duration: 2400 }),
+      video('s1', 'C'),
+      video('s2', 'C'),
+      video('s3', 'C'),
+    ];
+    const { series, compilations } = profilePlaylists(
+      [
+        playlist('long', 'C', 'Bedtime Stories', ['c1', 'c2']),
+        playlist('named', 'C', 'Nursery Rhymes Compilation', ['s1', 's2', 's3']),
+      ],
+      videos,
+    );
+
+    expect(series).toEqual([]);
+    expect(compilations.map((c) => [c.playlistId, c.videos, c.medianDuration])).toEqual([
+      ['long', 2, 3000],
+      ['named', 3, 180],
+    ]);
+  });
+});
+
+describe('detectSeriesPatterns', () => {
+  const series = [
+    numberedSeries('c1', [4000, 3000, 2000]),
+    numberedSeries('c2', [3000, 2500, 2000, 1500]),
+    numberedSeries('c3', Array(10).fill(500)),
+    numberedSeries('c4', Array(12).fill(400)),
+  ];
+  const compilationVideos = [
+    video('mix1', 'c1', { duration: 1800, viewCount: 5000 }),
+    video('mix2', 'c1', { duration: 1800, viewCount: 5000 }),
+  ];
+  const playlists = [
+    ...series.map((s) => s.playlist),
+    playlist('mix', 'c1', 'Best Songs Compilation', ['mix1', 'mix2']),
+  ];
+  const videos = [...series.flatMap((s) => s.videos), ...compilationVideos];
+
+  it('reports series length, consistency, naming, fall-off and compilations', () => {
+    const findings = detectSeriesPatterns(playlists, videos);
+    const byType = new Map(findings.map((f) => [f.patternType, f]));
+
+    expect([...byType.keys()]).toEqual([
+      'series_length',
+      'series_consistency',
+      'series_naming',
+      'series_decay',
+      'compilation_playlists',
+    ]);
+    expect(byType.get('series_length')!.metadata).toMatchObject({
+      series: 4,
+      medianEpisodes: 7,
+      recommendedEpisodes: 4,
+    });
+    expect(byType.get('series_naming')!.metadata.recommended).toBe('numbered');
+    expect(byType.get('series_decay')!.metadata.positions).toContainEqual({
+      episode: 1,
+      series: 4,
+      relativeViews: 1,
+    });
+    expect(byType.get('compilation_playlists')!.finding).toMatch(
+      /^1 of 5 profiled playlists \(1 channel\) are compilations, median 30 min per video/,
+    );
+  });
+
+  it('leaves series structure out with too few series', () => {
+    const findings = detectSeriesPatterns(
+      series.slice(0, 2).map((s) => s.playlist),
+      series.slice(0, 2).flatMap((s) => s.videos),
+    );
+
+    expect(findings).toEqual([]);
+  });
+});
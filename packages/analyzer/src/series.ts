@@ -0,0 +1,351 @@
+import type {
+  EpisodeNaming,
+  PatternFinding,
+  YouTubePlaylistInfo,
+  YouTubeVideoInfo,
+} from '@kidsvid/shared';
+import { COMPILATION_DURATION, COMPILATION_TITLE } from './compilations.js';
+import { compareGroups, estimateMean, median, relativeViewScores, round } from './stats.js';
+
+/** Series structure.
+ * Reads competitors' own playlists as series: how many episodes they run, how evenly long the
+ * episodes are, how episode titles mark the series, and how views fall off from the first
+ * episode to later ones. Playlists stitching long videos together are compilations and are
+ * profiled apart. Earlier episodes have had longer to collect views, so the fall-off includes
+ * their age as well as viewers dropping out. */
+
+export interface SeriesProfile {
+  playlistId: string;
+  channelId: string;
+  title: string;
+  /** Episodes with details, in episode order */
+  episodes: number;
+  naming: EpisodeNaming;
+  medianDuration: number;
+  /** Spread of episode running times: standard deviation over the mean */
+  durationSpread: number;
+  /** Median views of the episodes as a multiple of their channel's median */
+  relativeViews: number;
+  /** Views of each episode relative to the first, in episode order */
+  episodeViews: number[];
+  /** Share of the previous episode's views a typical next episode gets */
+  retention: number | null;
+}
+
+export interface CompilationProfile {
+  playlistId: string;
+  channelId: string;
+  title: string;
+  videos: number;
+  medianDuration: number;
+  relativeViews: number;
+}
+
+/** Series need this many episodes with details */
+const MIN_SERIES_EPISODES = 3;
+/** Fewer series than this say nothing about how competitors structure them */
+const MIN_SERIES = 3;
+/** `Ep. 3`, `Episode 3`, `Part 3`, `#3` */
+const EPISODE_NUMBER = /(?:\b(?:ep(?:isode)?|part|pt|chapter)\.?\s*|#)(\d{1,3})\b/i;
+const SEPARATOR = /\s*[|:]\s*|\s+[-–—]+\s+/;
+/** Share of a series' episode titles that must follow a naming convention */
+const NAMING_SHARE = 0.6;
+/** Running-time spread under which a series counts as consistent */
+const CONSISTENT_SPREAD = 0.25;
+/** Episode positions the view fall-off is reported for */
+const DECAY_POSITIONS = 10;
+const LENGTH_BUCKETS: Array<{ label: string; min: number; max: number }> = [
+  { label: '3-5 episodes', min: 3, max: 5 },
+  { label: '6-10 episodes', min: 6, max: 10 },
+  { label: '11-20 episodes', min: 11, max: 20 },
+  { label: '21+ episodes', min: 21, max: Infinity },
+];
+
+/** Series and compilation profiles of competitor playlists. `videos` must hold the details of
+ * the playlists' videos; videos from other channels (curated playlists) are left out. */
+export function profilePlaylists(
+  playlists: YouTubePlaylistInfo[],
+  videos: YouTubeVideoInfo[],
+): { series: SeriesProfile[]; compilations: CompilationProfile[] } {
+  const byId = new Map(videos.map((v) => [v.videoId, v]));
+  const scores = relativeViewScores(videos);
+  const series: SeriesProfile[] = [];
+  const compilations: CompilationProfile[] = [];
+
+  for (const playlist of playlists) {
+    const items = playlist.videoIds
+      .map((id) => byId.get(id))
+      .filter((v): v is YouTubeVideoInfo => v?.channelId === playlist.channelId);
+    if (items.length === 0) continue;
+
+    const medianDuration = median(items.map((v) => v.duration));
+    const relativeViews = round(Math.exp(median(items.map((v) => scores.get(v.videoId) ?? 0))));
+    if (COMPILATION_TITLE.test(playlist.title) || medianDuration >= COMPILATION_DURATION) {
+      compilations.push({
+        playlistId: playlist.playlistId,
+        channelId: playlist.channelId,
+        title: playlist.title,
+        videos: items.length,
+        medianDuration,
+        relativeViews,
+      });
+      continue;
+    }
+    if (items.length < MIN_SERIES_EPISODES) continue;
+
+    const episodes = episodeOrder(items);
+    const first = episodes[0].viewCount + 1;
+    const durations = episodes.map((v) => v.duration);
+    const meanDuration = durations.reduce((s, d) => s + d, 0) / durations.length;
+    const sd = Math.sqrt(
+      durations.reduce((s, d) => s + (d - meanDuration) ** 2, 0) / durations.length,
+    );
+
+    series.push({
+      playlistId: playlist.playlistId,
+      channelId: playlist.channelId,
+      title: playlist.title,
+      episodes: episodes.length,
+      naming: episodeNaming(episodes.map((v) => v.title)),
+      medianDuration,
+      durationSpread: meanDuration > 0 ? round(sd / meanDuration) : 0,
+      relativeViews,
+      episodeViews: episodes.map((v) => round((v.viewCount + 1) / first)),
+      retention: retention(episodes.map((v) => v.viewCount)),
+    });
+  }
+
+  return { series, compilations };
+}
+
+/** Series length, episode length consistency, naming, view fall-off and compilation findings */
+export function detectSeriesPatterns(
+  playlists: YouTubePlaylistInfo[],
+  videos: YouTubeVideoInfo[],
+): PatternFinding[] {
+  const findings: PatternFinding[] = [];
+  const { series, compilations } = profilePlaylists(playlists, videos);
+
+  if (series.length >= MIN_SERIES) {
+    findings.push(
+      seriesLength(series),
+      seriesConsistency(series),
+      seriesNaming(series),
+      seriesDecay(series),
+    );
+  }
+
+  if (compilations.length > 0) {
+    const scores = relativeViewScores(videos);
+    const byId = new Map(videos.map((v) => [v.videoId, v]));
+    const compilationIds = new Set(
+      playlists
+        .filter((p) => compilations.some((c) => c.playlistId === p.playlistId))
+        .flatMap((p) => p.videoIds)
+        .filter((id) => byId.has(id)),
+    );
+    const test = compareGroups(
+      [...compilationIds].map((id) => scores.get(id) ?? 0),
+      videos.filter((v) => !compilationIds.has(v.videoId)).map((v) => scores.get(v.videoId) ?? 0),
+    );
+    const channels = new Set(compilations.map((c) => c.channelId)).size;
+    findings.push({
+      patternType: 'compilation_playlists',
+      category: null,
+      finding:
+        `${compilations.length} of ${compilations.length + series.length} profiled playlists ` +
+        `(${channels} channel${channels === 1 ? '' : 's'}) are compilations, median ${formatDuration(median(compilations.map((c) => c.medianDuration)))} ` +
+        `per video; their videos get ${test.relativeViewsA}x vs ${test.relativeViewsB}x channel median views` +
+        (test.sizeA >= 2 && test.sizeB >= 2
+          ? ` (p=${test.pValue}, effect ${test.effectSize})`
+          : ''),
+      confidence: test.confidence,
+      sampleSize: test.sizeA + test.sizeB,
+      metadata: {
+        compilations: compilations.sort((a, b) => b.relativeViews - a.relativeViews).slice(0, 10),
+        share: round(compilations.length / (compilations.length + series.length)),
+        effectSize: test.effectSize,
+        interval: test.interval,
+        pValue: test.pValue,
+        relativeViews: [test.relativeViewsA, test.relativeViewsB],
+      },
+    });
+  }
+
+  return findings;
+}
+
+// ─── Findings ───
+
+/** How long series run, and how long the better-performing half run */
+function seriesLength(series: SeriesProfile[]): PatternFinding {
+  const ranked = [...series].sort((a, b) => b.relativeViews - a.relativeViews);
+  const better = ranked.slice(0, Math.ceil(ranked.length / 2));
+  const medianEpisodes = Math.round(median(series.map((s) => s.episodes)));
+  const recommendedEpisodes = Math.round(median(better.map((s) => s.episodes)));
+  const buckets = LENGTH_BUCKETS.map((b) => {
+    const inBucket = series.filter((s) => s.episodes >= b.min && s.episodes <= b.max);
+    return {
+      label: b.label,
+      series: inBucket.length,
+      relativeViews:
+        inBucket.length > 0 ? round(median(inBucket.map((s) => s.relativeViews))) : null,
+    };
+  }).filter((b) => b.series > 0);
+
+  return {
+    patternType: 'series_length',
+    category: null,
+    finding:
+      `Competitor series run a median ${medianEpisodes} episodes; the better-performing half ` +
+      `run ${recommendedEpisodes} (${series.length} series)`,
+    confidence: estimateMean(series.map((s) => s.episodes)).confidence,
+    sampleSize: series.length,
+    metadata: { series: series.length, medianEpisodes, recommendedEpisodes, buckets },
+  };
+}
+
+/** Whether series keep their episodes to one running time, and whether it pays */
+function seriesConsistency(series: SeriesProfile[]): PatternFinding {
+  const consistent = series.filter((s) => s.durationSpread <= CONSISTENT_SPREAD);
+  const varied = series.filter((s) => s.durationSpread > CONSISTENT_SPREAD);
+  const logViews = (list: SeriesProfile[]) =>
+    list.map((s) => Math.log(Math.max(s.relativeViews, 0.01)));
+  const test = compareGroups(logViews(consistent), logViews(varied));
+  const medianSpread = round(median(series.map((s) => s.durationSpread)));
+
+  return {
+    patternType: 'series_consistency',
+    category: null,
+    finding:
+      `${consistent.length} of ${series.length} series keep episodes within ` +
+      `${CONSISTENT_SPREAD * 100}% of one running time (median spread ${Math.round(medianSpread * 100)}%); ` +
+      `consistent series get ${test.relativeViewsA}x vs ${test.relativeViewsB}x channel median views` +
+      (test.sizeA >= 2 && test.sizeB >= 2 ? ` (p=${test.pValue}, effect ${test.effectSize})` : ''),
+    confidence: test.confidence,
+    sampleSize: series.length,
+    metadata: {
+      medianSpread,
+      consistentShare: round(consistent.length / series.length),
+      effectSize: test.effectSize,
+      interval: test.interval,
+      pValue: test.pValue,
+      relativeViews: [test.relativeViewsA, test.relativeViewsB],
+    },
+  };
+}
+
+/** How episode titles mark the series, and which convention does best */
+function seriesNaming(series: SeriesProfile[]): PatternFinding {
+  const conventions = [...groupBy(series, (s) => s.naming)]
+    .map(([naming, list]) => ({
+      naming,
+      series: list.length,
+      share: round(list.length / series.length),
+      relativeViews: round(median(list.map((s) => s.relativeViews))),
+      example: list[0].title,
+    }))
+    .sort((a, b) => b.series - a.series);
+  // A convention only one series uses can't be told apart from that series' own success
+  const recommended =
+    [...conventions]
+      .filter((c) => c.series >= 2)
+      .sort((a, b) => b.relativeViews - a.relativeViews)[0] ?? conventions[0];
+
+  return {
+    patternType: 'series_naming',
+    category: null,
+    finding: `Episode titles: ${conventions
+      .map(
+        (c) => `${c.naming.replace('_', ' ')} ${Math.round(c.share * 100)}% (${c.relativeViews}x)`,
+      )
+      .join(', ')}; ${recommended.naming.replace('_', ' ')} series do best`,
+    confidence: round(recommended.share),
+    sampleSize: series.length,
+    metadata: { conventions, recommended: recommended.naming },
+  };
+}
+
+/** Views of later episodes against the first */
+function seriesDecay(series: SeriesProfile[]): PatternFinding {
+  const positions = Array.from({ length: DECAY_POSITIONS }, (_, i) => {
+    const ratios = series.filter((s) => s.episodeViews.length > i).map((s) => s.episodeViews[i]);
+    return { episode: i + 1, series: ratios.length, relativeViews: round(median(ratios)) };
+  }).filter((p) => p.series >= 2);
+  const retentions = series.map((s) => s.retention).filter((r): r is number => r !== null);
+  const typical = round(median(retentions));
+  const halfLife = typical > 0 && typical < 1 ? round(Math.log(0.5) / Math.log(typical), 1) : null;
+  const last = positions[positions.length - 1];
+
+  return {
+    patternType: 'series_decay',
+    category: null,
+    finding:
+      `Each episode keeps a median ${Math.round(typical * 100)}% of the previous one's views` +
+      (halfLife !== null ? `, halving every ${halfLife} episodes` : '') +
+      `; episode ${last.episode} gets ${last.relativeViews}x the first's views`,
+    confidence: estimateMean(retentions).confidence,
+    sampleSize: retentions.length,
+    metadata: { positions, retention: typical, halfLife },
+  };
+}
+
+// ─── Helpers ───
+
+/** Episodes ordered by their title numbers when every one has a number, else in playlist
+ * order, flipped when the playlist lists the newest upload first */
+function episodeOrder(items: YouTubeVideoInfo[]): YouTubeVideoInfo[] {
+  const numbers = items.map((v) => v.title.match(EPISODE_NUMBER)?.[1]);
+  if (numbers.every(Boolean)) {
+    return items
+      .map((v, i) => ({ v, n: parseInt(numbers[i]!, 10) }))
+      .sort((a, b) => a.n - b.n)
+      .map(({ v }) => v);
+  }
+
+  const times = items.map((v) => Date.parse(v.publishedAt));
+  let newerFirst = 0;
+  for (let i = 1; i < times.length; i++) if (times[i] < times[i - 1]) newerFirst++;
+  return newerFirst > (times.length - 1) / 2 ? [...items].reverse() : items;
+}
+
+function episodeNaming(titles: string[]): EpisodeNaming {
+  const share = (count: number) => count / titles.length >= NAMING_SHARE;
+  if (share(titles.filter((t) => EPISODE_NUMBER.test(t)).length)) return 'numbered';
+
+  const split = titles.map((t) => t.split(SEPARATOR).map((part) => part.trim().toLowerCase()));
+  const mostCommon = (parts: string[]) =>
+    Math.max(...[...groupBy(parts, (p) => p).values()].map((list) => list.length));
+  const multi = split.filter((parts) => parts.length > 1);
+  if (multi.length > 0 && share(mostCommon(multi.map((parts) => parts[0])))) return 'series_prefix';
+  if (multi.length > 0 && share(mostCommon(multi.map((parts) => parts[parts.length - 1])))) {
+    return 'series_suffix';
+  }
+  return 'standalone';
+}
+
+/** exp of the least-squares slope of log views over episode number */
+function retention(views: number[]): number | null {
+  if (views.length < 2) return null;
+  const ys = views.map((v) => Math.log(v + 1));
+  const meanX = (views.length - 1) / 2;
+  const meanY = ys.reduce((s, y) => s + y, 0) / ys.length;
+  let num = 0;
+  let den = 0;
+  ys.forEach((y, x) => {
+    num += (x - meanX) * (y - meanY);
+    den += (x - meanX) ** 2;
+  });
+  return round(Math.exp(num / den));
+}
+
+function groupBy<T, K>(items: T[], key: (item: T) => K): Map<K, T[]> {
+  const groups = new Map<K, T[]>();
+  for (const item of items) groups.set(key(item), [...(groups.get(key(item)) ?? []), item]);
+  return groups;
+}
+
+function formatDuration(seconds: number): string {
+  const minutes = Math.round(seconds / 60);
+  return minutes >= 60 ? `${Math.floor(minutes / 60)}h${minutes % 60 || ''}` : `${minutes} min`;
+}
@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import type { YouTubeVideoInfo } from '@kidsvid/shared';
+import { compareGroups, compareRates, estimateMean, relativeViewScores } from './stats.js';
+
+function video(videoId: string, channelId: string, viewCount: number): YouTubeVideoInfo {
+  return {
+    videoId,
+    channelId,
+    title: videoId,
+    description: '',
+    publishedAt: '2026-01-01T00:00:00Z',
+    duration: 180,
+    viewCount,
+    likeCount: 0,
+    commentCount: 0,
+    tags: [],
+    thumbnailUrl: '',
+    defaultLanguage: 'en',
+    categoryId: '27',
+  };
+}
+
+describe('relativeViewScores', () => {
+  it("scores views against the channel's own median", () => {
+    const scores = relativeViewScores([
+      video('big-typical', 'big', 50_000_000),
+      video('big-hit', 'big', 100_000_000),
+      video('big-flop', 'big', 25_000_000),
+      video('small-typical', 'small', 10_000),
+      video('small-hit', 'small', 20_000),
+      video('small-flop', 'small', 5_000),
+    ]);
+
+    expect(scores.get('big-typical')).toBe(0);
+    expect(scores.get('small-typical')).toBe(0);
+    // A small channel's 2x hit counts the same as a mega channel's
+    expect(scores.get('small-hit')).toBeCloseTo(scores.get('big-hit')!, 3);
+  });
+});
+
+describe('compareGroups', () => {
+  it('reports a strong effect with a tight interval for separated groups', () => {
+    const a = Array.from({ length: 20 }, (_, i) => 1 + i * 0.01);
+    const b = Array.from({ length: 20 }, (_, i) => -1 - i * 0.01);
+
+    const test = compareGroups(a, b);
+
+    expect(test.effectSize).toBe(1);
+    expect(test.pValue).toBeLessThan(0.001);
+    expect(test.confidence).toBeGreaterThan(0.99);
+    expect(test.interval[0]).toBeGreaterThan(1.5);
+    expect(test.interval[1]).toBeLessThan(2.5);
+  });
+
+  it('matches the Mann-Whitney normal approximation', () => {
+    const test = compareGroups([1, 2, 3], [4, 5, 6]);
+
+    expect(test.effectSize).toBe(-1);
+    expect(test.pValue).toBeCloseTo(0.081, 2);
+  });
+
+  it('gives no confidence when the groups are indistinguishable', () => {
+    const test = compareGroups([0, 0, 0, 0], [0, 0, 0, 0]);
+
+    expect(test.effectSize).toBe(0);
+    expect(test.pValue).toBe(1);
+    expect(test.confidence).toBe(0);
+  });
+
+  it('gives no confidence with fewer than two videos on a side', () => {
+    expect(compareGroups([5], [1, 2, 3]).confidence).toBe(0);
+  });
+});
+
+describe('compareRates', () => {
+  it('reports mean rates and their difference in percentage points', () => {
+    const a = Array.from({ length: 20 }, (_, i) => 0.05 + i * 0.0001);
+    const b = Array.from({ length: 20 }, (_, i) => 0.02 + i * 0.0001);
+
+    const test = compareRates(a, b);
+
+    expect(test.rateA).toBeCloseTo(0.051, 3);
+    expect(test.rateB).toBeCloseTo(0.021, 3);
+    expect(test.effectSize).toBe(1);
+    expect(test.confidence).toBeGreaterThan(0.99);
+    // 3 points apart, not exp-transformed into a views multiple
+    expect(test.interval[0]).toBeGreaterThan(2.9);
+    expect(test.interval[1]).toBeLessThan(3.1);
+  });
+
+  it('gives no confidence with fewer than two videos on a side', () => {
+    expect(compareRates([0.05], [0.01, 0.02, 0.03]).confidence).toBe(0);
+  });
+});
+
+describe('estimateMean', () => {
+  it('is confident about a tight sample and not about a noisy one', () => {
+    const tight = estimateMean([100, 101, 99, 100, 100, 101, 99]);
+    const noisy = estimateMean([10, 300, 5, 90, 400]);
+
+    expect(tight.confidence).toBeGreaterThan(0.95);
+    expect(tight.interval[0]).toBeLessThan(100);
+    expect(tight.interval[1]).toBeGreaterThan(100);
+    expect(noisy.confidence).toBeLessThan(0.5);
+  });
+
+  it('gives no confidence for a single value', () => {
+    expect(estimateMean([42]).confidence).toBe(0);
+  });
+});
@@ -0,0 +1,233 @@
+import type { YouTubeVideoInfo } from '@kidsvid/shared';
+
+/** Statistics for pattern detection.
+ * View counts are heavy-tailed and dominated by a few huge channels, so comparisons run on
+ * log views relative to each channel's median, use ranks rather than means, and report an
+ * effect size with a bootstrap interval next to the test's p-value. */
+
+export interface GroupComparison {
+  sizeA: number;
+  sizeB: number;
+  /** Median views of each group as a multiple of their channel's median */
+  relativeViewsA: number;
+  relativeViewsB: number;
+  /** Rank-biserial correlation in [-1, 1]; positive when group A tends to do better */
+  effectSize: number;
+  /** 95% bootstrap interval for the difference in mean log relative views (A − B) */
+  interval: [number, number];
+  /** Two-sided Mann-Whitney U p-value */
+  pValue: number;
+  /** 1 − p, the confidence stored on the finding */
+  confidence: number;
+}
+
+/** Like GroupComparison, for rates (engagement and the like) rather than views */
+export interface RateComparison {
+  sizeA: number;
+  sizeB: number;
+  /** Mean rate of each group */
+  rateA: number;
+  rateB: number;
+  /** Rank-biserial correlation in [-1, 1]; positive when group A tends to have higher rates */
+  effectSize: number;
+  /** 95% bootstrap interval for the difference in mean rate (A − B), in percentage points */
+  interval: [number, number];
+  /** Two-sided Mann-Whitney U p-value */
+  pValue: number;
+  /** 1 − p, the confidence stored on the finding */
+  confidence: number;
+}
+
+export interface MeanEstimate {
+  mean: number;
+  /** 95% normal interval for the mean */
+  interval: [number, number];
+  /** How tightly the sample pins the mean down: 1 − interval half-width / |mean| */
+  confidence: number;
+}
+
+const BOOTSTRAP_ITERATIONS = 500;
+const BOOTSTRAP_SEED = 0x6b1d5;
+const Z_95 = 1.96;
+
+/** Log of each video's views over its channel's median views (0 = a typical video for the
+ * channel), so one mega-hit channel can't carry a comparison on its own */
+export function relativeViewScores(videos: YouTubeVideoInfo[]): Map<string, number> {
+  const byChannel = new Map<string, number[]>();
+  for (const v of videos) {
+    const list = byChannel.get(v.channelId) ?? [];
+    list.push(v.viewCount);
+    byChannel.set(v.channelId, list);
+  }
+  const channelMedians = new Map([...byChannel].map(([id, views]) => [id, median(views)]));
+
+  return new Map(
+    videos.map((v) => [
+      v.videoId,
+      Math.log((v.viewCount + 1) / ((channelMedians.get(v.channelId) ?? 0) + 1)),
+    ]),
+  );
+}
+
+/** Mann-Whitney U test (normal approximation with tie correction) plus effect size and a
+ * bootstrap interval, comparing scores of group A against group B */
+export function compareGroups(a: number[], b: number[]): GroupComparison {
+  const base = {
+    sizeA: a.length,
+    sizeB: b.length,
+    relativeViewsA: round(Math.exp(median(a))),
+    relativeViewsB: round(Math.exp(median(b))),
+  };
+  if (a.length < 2 || b.length < 2) {
+    return { ...base, effectSize: 0, interval: [0, 0], pValue: 1, confidence: 0 };
+  }
+
+  const { u, pValue } = mannWhitney(a, b);
+  return {
+    ...base,
+    effectSize: round((2 * u) / (a.length * b.length) - 1),
+    interval: bootstrapMeanDifference(a, b),
+    pValue: round(pValue, 4),
+    confidence: round(1 - pValue),
+  };
+}
+
+/** Mann-Whitney U test, effect size and a bootstrap interval for the difference in mean rate,
+ * comparing rates (fractions such as engagement) of group A against group B. Rates aren't
+ * views, so unlike compareGroups nothing is taken relative to a channel or exponentiated. */
+export function compareRates(a: number[], b: number[]): RateComparison {
+  const base = {
+    sizeA: a.length,
+    sizeB: b.length,
+    rateA: round(mean(a), 4),
+    rateB: round(mean(b), 4),
+  };
+  if (a.length < 2 || b.length < 2) {
+    return { ...base, effectSize: 0, interval: [0, 0], pValue: 1, confidence: 0 };
+  }
+
+  const { u, pValue } = mannWhitney(a, b);
+  const points = (rates: number[]) => rates.map((r) => r * 100);
+  return {
+    ...base,
+    effectSize: round((2 * u) / (a.length * b.length) - 1),
+    interval: bootstrapMeanDifference(points(a), points(b)),
+    pValue: round(pValue, 4),
+    confidence: round(1 - pValue),
+  };
+}
+
+/** Mean of a sample with its 95% interval, for descriptive findings */
+export function estimateMean(values: number[]): MeanEstimate {
+  const n = values.length;
+  const m = mean(values);
+  if (n < 2) return { mean: m, interval: [m, m], confidence: 0 };
+
+  const variance = values.reduce((s, v) => s + (v - m) ** 2, 0) / (n - 1);
+  const halfWidth = (Z_95 * Math.sqrt(variance)) / Math.sqrt(n);
+  const confidence = m === 0 ? (halfWidth === 0 ? 0.99 : 0) : 1 - halfWidth / Math.abs(m);
+  return {
+    mean: m,
+    interval: [round(m - halfWidth), round(m + halfWidth)],
+    confidence: round(Math.min(0.99, Math.max(0, confidence))),
+  };
+}
+
+/** U statistic of group A and its two-sided p-value */
+function mannWhitney(a: number[], b: number[]): { u: number; pValue: number } {
+  const pooled = [
+    ...a.map((value) => ({ value, group: 0 })),
+    ...b.map((value) => ({ value, group: 1 })),
+  ].sort((x, y) => x.value - y.value);
+
+  // Average ranks over ties, collecting the tie correction term as we go
+  const ranks = new Array<number>(pooled.length);
+  let tieTerm = 0;
+  for (let i = 0; i < pooled.length; ) {
+    let j = i;
+    while (j + 1 < pooled.length && pooled[j + 1].value === pooled[i].value) j++;
+    const rank = (i + j) / 2 + 1;
+    for (let k = i; k <= j; k++) ranks[k] = rank;
+    const t = j - i + 1;
+    tieTerm += t ** 3 - t;
+    i = j + 1;
+  }
+
+  const n1 = a.length;
+  const n2 = b.length;
+  const n = n1 + n2;
+  const rankSumA = pooled.reduce((s, p, i) => (p.group === 0 ? s + ranks[i] : s), 0);
+  const u = rankSumA - (n1 * (n1 + 1)) / 2;
+
+  const variance = ((n1 * n2) / 12) * (n + 1 - tieTerm / (n * (n - 1)));
+  if (variance <= 0) return { u, pValue: 1 };
+
+  // Continuity-corrected z
+  const z = (Math.abs(u - (n1 * n2) / 2) - 0.5) / Math.sqrt(variance);
+  return { u, pValue: Math.min(1, 2 * (1 - normalCdf(Math.max(0, z)))) };
+}
+
+/** Percentile bootstrap for mean(A) − mean(B); seeded so stored findings are reproducible */
+function bootstrapMeanDifference(a: number[], b: number[]): [number, number] {
+  const random = mulberry32(BOOTSTRAP_SEED);
+  const resampleMean = (values: number[]) => {
+    let sum = 0;
+    for (let i = 0; i < values.length; i++) sum += values[Math.floor(random() * values.length)];
+    return sum / values.length;
+  };
+
+  const diffs: number[] = [];
+  for (let i = 0; i < BOOTSTRAP_ITERATIONS; i++) diffs.push(resampleMean(a) - resampleMean(b));
+  diffs.sort((x, y) => x - y);
+  return [
+    round(diffs[Math.floor(0.025 * BOOTSTRAP_ITERATIONS)]),
+    round(diffs[Math.ceil(0.975 * BOOTSTRAP_ITERATIONS) - 1]),
+  ];
+}
+
+function mulberry32(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Standard normal CDF (Abramowitz & Stegun 7.1.26 erf approximation) */
+function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf =
+    1 -
+    ((((1.061405429 * t - 1.453152027) * t + 1.421413741) * t - 0.284496736) * t + 0.254829592) *
+      t *
+      Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+// ─── Shared numeric helpers ───
+
+export function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 !== 0 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+export function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((s, v) => s + v, 0) / values.length : 0;
+}
+
+export function round(n: number, digits = 2): number {
+  const f = 10 ** digits;
+  return Math.round(n * f) / f;
+}
+
+/** Compact count for finding text: 1.2M, 45.3K, 950 */
+export function formatNumber(n: number): string {
+  if (n >= 1_000_000) return `${(n / 1_000_000).toFixed(1)}M`;
+  if (n >= 1_000) return `${(n / 1_000).toFixed(1)}K`;
+  return Math.round(n).toString();
+}
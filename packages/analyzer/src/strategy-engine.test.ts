@@ -129,6 +129,34 @@ describe('StrategyEngine', () => {
         expect(gap.recommendation.length).toBeGreaterThan(10);
       }
     });
+
+    it('measures demand in recent views per day when category velocity is given', () => {
+      const engine = new StrategyEngine(mockLogger);
+      const velocity = [
+        { key: 'song', videos: 4, velocity7d: 12000, velocity30d: 9000, acceleration: 0, breakouts: 0 },
+      ];
+      const gaps = engine.findContentGaps(mockCompetitors, [], velocity);
+
+      const song = gaps.find(g => g.category === 'song');
+      expect(song?.recommendation).toContain('12K views/day');
+    });
+
+    it('reports educational topics few competitors teach an age bracket despite high views', () => {
+      const engine = new StrategyEngine(mockLogger);
+      const coverage = [
+        { topic: 'counting', educationalCategory: 'early_math' as const, ageBracket: '4-6' as const, channels: 4, videos: 30, avgViews: 900000 },
+        { topic: 'subtraction', educationalCategory: 'early_math' as const, ageBracket: '4-6' as const, channels: 1, videos: 3, avgViews: 1200000 },
+        { topic: 'shapes', educationalCategory: 'early_math' as const, ageBracket: null, channels: 1, videos: 2, avgViews: 40000 },
+      ];
+      const gaps = engine.findContentGaps(mockCompetitors, [], undefined, coverage);
+
+      const topicGaps = gaps.filter(g => g.educationalCategory);
+      expect(topicGaps).toHaveLength(1);
+      expect(topicGaps[0]).toMatchObject({ topic: 'subtraction', ageBracket: '4-6', supply: 1 });
+      expect(topicGaps[0].recommendation).toBe(
+        'Few competitors teach "subtraction" to 4-6 year olds (1 channel) despite 1.2M avg views',
+      );
+    });
   });
 
   describe('optimizeUploadSchedule', () => {
@@ -158,6 +186,176 @@ describe('StrategyEngine', () => {
         expect(rec.expectedEngagementBoost).toBeGreaterThan(1);
       }
     });
+
+    it('uses the recommendations from upload cadence findings', () => {
+      const engine = new StrategyEngine(mockLogger);
+      const ranked = [
+        { day: 'Saturday', hourUtc: 8, reason: 'cadence', expectedEngagementBoost: 1.8 },
+      ];
+      const recs = engine.optimizeUploadSchedule([
+        {
+          patternType: 'upload_cadence',
+          category: null,
+          finding: '',
+          confidence: 0.9,
+          sampleSize: 120,
+          metadata: { recommendations: ranked },
+        },
+      ]);
+
+      expect(recs).toEqual(ranked);
+    });
+  });
+
+  describe('recommendByFormat', () => {
+    const finding = (
+      patternType: string,
+      format: 'short' | 'long_form',
+      metadata: Record<string, unknown>,
+    ) => ({
+      patternType,
+      format,
+      category: null,
+      finding: '',
+      confidence: 0.9,
+      sampleSize: 40,
+      metadata,
+    });
+
+    it('advises Shorts and episodes from their own findings', () => {
+      const engine = new StrategyEngine(mockLogger);
+      const recs = engine.recommendByFormat([
+        finding('shorts_hook', 'short', { effectSize: 0.6, relativeViews: [1.8, 0.7] }),
+        finding('shorts_thumbnail', 'short', { effectSize: -0.2, relativeViews: [0.9, 1.1] }),
+        finding('shorts_frequency', 'short', { shortsPerWeek: 9.5 }),
+        finding('duration_optimal', 'long_form', {
+          bestBucket: { label: 'long (5-10min)', relativeViews: 1.4 },
+          effectSize: 0.3,
+          relativeViews: [1.4, 0.9],
+        }),
+        finding('upload_frequency', 'long_form', { videosPerWeek: 1.2 }),
+      ]);
+
+      expect(recs.short.map((r) => [r.area, r.source])).toEqual([
+        ['hook', 'analysis'],
+        ['loop', 'default'],
+        ['thumbnail', 'default'],
+        ['frequency', 'analysis'],
+      ]);
+      expect(recs.short[0].recommendation).toContain('1.8x vs 0.7x');
+      expect(recs.short[3].recommendation).toContain('Post 10 Shorts a week');
+      expect(recs.long_form.find((r) => r.area === 'duration')!.recommendation).toBe(
+        'Make episodes long (5-10min) (1.4x vs 0.9x channel median views)',
+      );
+      // Never fewer than the minimum, whatever competitors do
+      expect(recs.long_form.find((r) => r.area === 'frequency')!.recommendation).toContain(
+        'Publish 3 episodes a week',
+      );
+    });
+
+    it('falls back to defaults without findings', () => {
+      const engine = new StrategyEngine(mockLogger);
+      const recs = engine.recommendByFormat([]);
+
+      expect(recs.short.every((r) => r.source === 'default')).toBe(true);
+      expect(recs.long_form.every((r) => r.source === 'default')).toBe(true);
+      expect(recs.long_form[0].recommendation).toBe('Make episodes 2-5 minutes long');
+      expect(recs.compilation.every((r) => r.source === 'default')).toBe(true);
+      expect(recs.compilation[1].recommendation).toBe('Make compilations 30-60 minutes long');
+    });
+
+    it('plans compilations from compilation findings', () => {
+      const engine = new StrategyEngine(mockLogger);
+      const recs = engine.recommendByFormat([
+        finding('compilation_share', 'long_form', { effectSize: 0.4, relativeViews: [2, 1] }),
+        finding('compilation_length', 'long_form', {
+          bestBucket: { label: '30-45min', count: 12, relativeViews: 2.6 },
+          effectSize: 0.3,
+          relativeViews: [2.6, 1.4],
+        }),
+        finding('compilation_reuse', 'long_form', { effectSize: -0.3, relativeViews: [1.2, 2.1] }),
+      ]);
+
+      expect(recs.compilation.map((r) => [r.area, r.source])).toEqual([
+        ['format', 'analysis'],
+        ['duration', 'analysis'],
+        ['segments', 'default'],
+        ['reuse', 'analysis'],
+      ]);
+      expect(recs.compilation[1].recommendation).toBe(
+        'Make compilations 30-45min long (2.6x vs 1.4x channel median views)',
+      );
+      expect(recs.compilation[3].recommendation).toContain('Mix new segments in');
+    });
+  });
+
+  describe('findLocalizationGaps', () => {
+    const market = (
+      language: string,
+      medianViews: number,
+      channels: number,
+      countries: string[],
+    ) => ({
+      language,
+      videos: 40,
+      channels,
+      countries,
+      medianViews,
+      engagementRate: 0.01,
+    });
+    const edition = (language: string, relativeReach: number) => ({
+      source: { channelId: 'src', name: 'Source', language: 'en' },
+      edition: { channelId: `ed-${relativeReach}`, name: 'Edition', language },
+      matchedVideos: 12,
+      relativeReach,
+      evidence: ['durations'],
+    });
+    const patterns = [
+      {
+        patternType: 'market_share',
+        category: null,
+        finding: '',
+        confidence: 0.9,
+        sampleSize: 200,
+        metadata: {
+          markets: [
+            market('en', 2_000_000, 8, ['US', 'GB']),
+            market('es', 900_000, 3, ['MX', 'ES', 'AR']),
+            market('pt', 600_000, 1, ['BR']),
+            market('und', 5_000_000, 1, []),
+          ],
+        },
+      },
+      {
+        patternType: 'language_editions',
+        category: null,
+        finding: '',
+        confidence: 1,
+        sampleSize: 36,
+        metadata: { editions: [edition('es', 0.5), edition('es', 0.9), edition('es', 0.7)] },
+      },
+    ];
+
+    it('ranks other languages by views per competitor channel, scaled by edition reach', () => {
+      const engine = new StrategyEngine(mockLogger);
+      const gaps = engine.findLocalizationGaps(patterns);
+
+      expect(gaps.map((g) => [g.language, g.opportunity, g.editionReach])).toEqual([
+        ['pt', 600_000, null],
+        ['es', 210_000, 0.7],
+      ]);
+      expect(gaps[1].recommendation).toBe(
+        "Localize episodes into Spanish (MX, ES, AR): 900K median views across 3 competitor channels; competitors' Spanish editions get 0.7x their originals' views",
+      );
+    });
+
+    it('leaves out our own language', () => {
+      const engine = new StrategyEngine(mockLogger);
+      const gaps = engine.findLocalizationGaps(patterns, 'pt');
+
+      expect(gaps.map((g) => g.language)).toEqual(['en', 'es']);
+      expect(engine.findLocalizationGaps([])).toEqual([]);
+    });
   });
 
   describe('generateTitleRecommendations', () => {
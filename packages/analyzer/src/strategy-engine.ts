@@ -4,9 +4,16 @@ import type {
   GrowthProjection,
   ChannelAnalysis,
   PatternFinding,
+  LocalizationOpportunity,
   Logger,
+  UploadRecommendation,
+  VideoFormat,
 } from '@kidsvid/shared';
 import { CONTENT_CATEGORIES, KIDS_CONTENT_RULES } from '@kidsvid/shared';
+import type { GroupVelocity } from './velocity.js';
+import type { TopicCoverage } from './topic-classifier.js';
+import { languageName, type LanguageEdition, type MarketSummary } from './markets.js';
+import { median } from './stats.js';
 
 /** Channel Strategy Engine.
  * Turns analysis insights into actionable strategy: competitive analysis,
@@ -31,13 +38,6 @@ export interface CompetitivePosition {
   recommendation: string;
 }
 
-export interface UploadRecommendation {
-  day: string;
-  hourUtc: number;
-  reason: string;
-  expectedEngagementBoost: number; // multiplier vs average
-}
-
 export interface TitleRecommendation {
   template: string;
   example: string;
@@ -45,6 +45,28 @@ export interface TitleRecommendation {
   expectedCtrBoost: number;
 }
 
+/** What the content plan makes: Shorts, long-form episodes, or compilations of episodes */
+export type ContentPlanFormat = VideoFormat | 'compilation';
+
+/** One piece of advice for a format in the content plan */
+export interface FormatRecommendation {
+  area:
+    | 'hook'
+    | 'loop'
+    | 'thumbnail'
+    | 'frequency'
+    | 'duration'
+    | 'title'
+    | 'schedule'
+    | 'format'
+    | 'segments'
+    | 'reuse';
+  recommendation: string;
+  /** From this run's findings, or a kids content default when they had too little to go on */
+  source: 'analysis' | 'default';
+  confidence: number;
+}
+
 export class StrategyEngine {
   constructor(private logger: Logger) {}
 
@@ -120,12 +142,21 @@ export class StrategyEngine {
     return positions;
   }
 
-  /** Find underserved content categories/topics */
+  /** Find underserved content categories/topics.
+   * Demand is competitors' lifetime average views, or recent views per day when per-category
+   * velocity from competitor snapshots is given. With topic coverage from the educational
+   * topic classifier, topics few competitors teach an age bracket despite high views are
+   * reported too. */
   findContentGaps(
     competitorAnalyses: ChannelAnalysis[],
     patterns: PatternFinding[],
+    categoryVelocity?: GroupVelocity[],
+    topicCoverage?: TopicCoverage[],
   ): ContentGap[] {
     const gaps: ContentGap[] = [];
+    const useVelocity = !!categoryVelocity?.length;
+    const threshold = useVelocity ? 50_000 : 1_000_000; // views/day vs lifetime views
+    const unit = useVelocity ? 'views/day' : 'avg views';
 
     // Count how many competitors cover each category
     const categoryCounts = new Map<ContentCategory, number>();
@@ -134,7 +165,12 @@ export class StrategyEngine {
     for (const analysis of competitorAnalyses) {
       const cat = analysis.primaryCategory;
       categoryCounts.set(cat, (categoryCounts.get(cat) ?? 0) + 1);
-      categoryViews.set(cat, (categoryViews.get(cat) ?? 0) + analysis.avgViews);
+      if (!useVelocity) {
+        categoryViews.set(cat, (categoryViews.get(cat) ?? 0) + analysis.avgViews);
+      }
+    }
+    for (const group of categoryVelocity ?? []) {
+      categoryViews.set(group.key as ContentCategory, group.velocity7d);
     }
 
     // Find categories with high demand (views) but low supply (competitors)
@@ -146,7 +182,7 @@ export class StrategyEngine {
       const demand = supply > 0 ? totalViews / supply : 0;
       const opportunity = supply > 0 ? demand / supply : demand > 0 ? 10 : 0;
 
-      if (supply <= 2 || opportunity > 1000000) {
+      if (supply <= 2 || opportunity > threshold) {
         const topicSuggestion = this.getTopicSuggestion(category, patterns);
 
         gaps.push({
@@ -158,12 +194,16 @@ export class StrategyEngine {
           recommendation: supply === 0
             ? `No competitors in "${category}" — first-mover advantage opportunity`
             : supply <= 2
-              ? `Low competition in "${category}" with ${this.formatNumber(demand)} avg views — strong opportunity`
+              ? `Low competition in "${category}" with ${this.formatNumber(Math.round(demand))} ${unit} — strong opportunity`
               : `High demand vs supply ratio in "${category}" — explore "${topicSuggestion}"`,
         });
       }
     }
 
+    if (topicCoverage?.length) {
+      gaps.push(...this.findTopicGaps(topicCoverage, competitorAnalyses.length));
+    }
+
     // Sort by opportunity descending
     gaps.sort((a, b) => b.opportunity - a.opportunity);
 
@@ -171,10 +211,55 @@ export class StrategyEngine {
     return gaps;
   }
 
+  /** Rank the languages our existing episodes could be dubbed into by the reach they'd add:
+   * views per competitor channel in each language market, scaled by how competitors' parallel
+   * language editions there perform against the edition they were localized from */
+  findLocalizationGaps(patterns: PatternFinding[], ourLanguage = 'en'): LocalizationOpportunity[] {
+    const markets = (patterns.find(p => p.patternType === 'market_share')?.metadata.markets ??
+      []) as MarketSummary[];
+    const editions = (patterns.find(p => p.patternType === 'language_editions')?.metadata
+      .editions ?? []) as LanguageEdition[];
+
+    const opportunities = markets
+      .filter(m => m.language !== ourLanguage && m.language !== 'und')
+      .map(m => {
+        const reaches = editions
+          .filter(e => e.edition.language === m.language)
+          .map(e => e.relativeReach);
+        const editionReach = reaches.length > 0 ? Math.round(median(reaches) * 100) / 100 : null;
+        const supply = m.channels;
+        const opportunity = Math.round((m.medianViews / Math.max(supply, 1)) * (editionReach ?? 1));
+        const countries = m.countries.length > 0 ? ` (${m.countries.slice(0, 3).join(', ')})` : '';
+        return {
+          language: m.language,
+          countries: m.countries,
+          demand: m.medianViews,
+          supply,
+          editionReach,
+          opportunity,
+          recommendation:
+            `Localize episodes into ${languageName(m.language)}${countries}: ` +
+            `${this.formatNumber(m.medianViews)} median views across ${supply} competitor channel${supply === 1 ? '' : 's'}` +
+            (editionReach !== null
+              ? `; competitors' ${languageName(m.language)} editions get ${editionReach}x their originals' views`
+              : ''),
+        };
+      })
+      .sort((a, b) => b.opportunity - a.opportunity);
+
+    this.logger.info({ languages: opportunities.length }, 'Localization opportunities ranked');
+    return opportunities;
+  }
+
   /** Generate optimized upload schedule based on analysis patterns */
   optimizeUploadSchedule(patterns: PatternFinding[]): UploadRecommendation[] {
     const recommendations: UploadRecommendation[] = [];
 
+    // Slots ranked from competitors' cadence, when the analysis had enough of it
+    const cadencePattern = patterns.find(p => p.patternType === 'upload_cadence');
+    const ranked = cadencePattern?.metadata?.recommendations as UploadRecommendation[] | undefined;
+    if (ranked && ranked.length > 0) return ranked.slice(0, 10);
+
     // Extract upload time patterns
     const dayPattern = patterns.find(p => p.patternType === 'upload_day');
     const hourPattern = patterns.find(p => p.patternType === 'upload_hour');
@@ -281,6 +366,192 @@ export class StrategyEngine {
     return recommendations;
   }
 
+  /** Separate recommendations for Shorts, long-form episodes and compilations, each from its
+   * own format's findings */
+  recommendByFormat(patterns: PatternFinding[]): Record<ContentPlanFormat, FormatRecommendation[]> {
+    // Findings stored before formats were told apart describe mostly long-form videos
+    const shorts = patterns.filter(p => p.format === 'short');
+    const episodes = patterns.filter(p => p.format !== 'short');
+    const find = (list: PatternFinding[], type: string) =>
+      list.find(p => p.patternType === type && !p.category);
+    const positive = (p?: PatternFinding) => ((p?.metadata.effectSize as number) ?? 0) > 0;
+    const views = (p: PatternFinding) => {
+      const [a, b] = (p.metadata.relativeViews as number[] | undefined) ?? [];
+      return `${a}x vs ${b}x channel median views`;
+    };
+    const fromAnalysis = (
+      area: FormatRecommendation['area'],
+      finding: PatternFinding,
+      recommendation: string,
+    ): FormatRecommendation => ({
+      area,
+      recommendation,
+      source: 'analysis',
+      confidence: finding.confidence,
+    });
+    const byDefault = (
+      area: FormatRecommendation['area'],
+      recommendation: string,
+    ): FormatRecommendation => ({
+      area,
+      recommendation,
+      source: 'default',
+      confidence: 0,
+    });
+
+    // ─── Shorts ───
+    const hook = find(shorts, 'shorts_hook');
+    const loop = find(shorts, 'shorts_loop');
+    const thumbnail = find(shorts, 'shorts_thumbnail');
+    const shortsFrequency = find(shorts, 'shorts_frequency');
+    const loopKeywords = (loop?.metadata.keywords as Array<{ keyword: string }> | undefined) ?? [];
+    const shortsPerWeek = Math.max(
+      KIDS_CONTENT_RULES.shortsFrequency.min,
+      Math.round((shortsFrequency?.metadata.shortsPerWeek as number | undefined) ?? 0),
+    );
+
+    const shortRecommendations = [
+      hook && positive(hook)
+        ? fromAnalysis(
+            'hook',
+            hook,
+            `Open the title on a hook — a question, dare or tease — that the first second pays off (${views(hook)})`,
+          )
+        : byDefault(
+            'hook',
+            'Open on a hook in the first second — a question or a surprise — before viewers swipe away',
+          ),
+      loop && positive(loop)
+        ? fromAnalysis(
+            'loop',
+            loop,
+            `End where the Short began so it replays, and say so ("${loopKeywords[0]?.keyword}") (${views(loop)})`,
+          )
+        : byDefault('loop', 'End where the Short began so it replays seamlessly'),
+      thumbnail && positive(thumbnail)
+        ? fromAnalysis(
+            'thumbnail',
+            thumbnail,
+            `Use a vertical 9:16 cover frame (${views(thumbnail)})`,
+          )
+        : byDefault('thumbnail', 'Keep the cover frame vertical with one bright, centered subject'),
+      shortsFrequency
+        ? fromAnalysis(
+            'frequency',
+            shortsFrequency,
+            `Post ${shortsPerWeek} Shorts a week — competitors post a median of ${shortsFrequency.metadata.shortsPerWeek}`,
+          )
+        : byDefault('frequency', `Post ${KIDS_CONTENT_RULES.shortsFrequency.ideal} Shorts a week`),
+    ];
+
+    // ─── Episodes ───
+    const duration = find(episodes, 'duration_optimal');
+    const template = find(episodes, 'title_template');
+    const cadence = find(episodes, 'upload_cadence');
+    const frequency = find(episodes, 'upload_frequency');
+    const bestBucket = duration?.metadata.bestBucket as
+      | { label: string; relativeViews: number }
+      | undefined;
+    const bestTemplate = (
+      template?.metadata.templates as
+        | Array<{ template: string; effectSize: number; relativeViews: number }>
+        | undefined
+    )?.[0];
+    const slot = this.optimizeUploadSchedule(patterns)[0];
+    const episodesPerWeek = Math.max(
+      KIDS_CONTENT_RULES.uploadFrequency.min,
+      Math.round((frequency?.metadata.videosPerWeek as number | undefined) ?? 0),
+    );
+
+    const episodeRecommendations = [
+      duration && bestBucket
+        ? fromAnalysis(
+            'duration',
+            duration,
+            `Make episodes ${bestBucket.label} (${views(duration)})`,
+          )
+        : byDefault(
+            'duration',
+            `Make episodes ${KIDS_CONTENT_RULES.targetDuration.min / 60}-${KIDS_CONTENT_RULES.targetDuration.max / 60} minutes long`,
+          ),
+      template && bestTemplate && bestTemplate.effectSize > 0
+        ? fromAnalysis(
+            'title',
+            template,
+            `Title episodes as "${bestTemplate.template}" (${bestTemplate.relativeViews}x channel median views)`,
+          )
+        : byDefault(
+            'title',
+            `Lead titles with the topic or character and keep them under ${KIDS_CONTENT_RULES.titleMaxLength} characters`,
+          ),
+      cadence && slot
+        ? fromAnalysis(
+            'schedule',
+            cadence,
+            `Publish on ${slot.day} at ${slot.hourUtc}:00 UTC (${slot.expectedEngagementBoost}x)`,
+          )
+        : byDefault('schedule', `Publish on ${slot.day} at ${slot.hourUtc}:00 UTC`),
+      frequency
+        ? fromAnalysis(
+            'frequency',
+            frequency,
+            `Publish ${episodesPerWeek} episodes a week — competitors average ${frequency.metadata.videosPerWeek}`,
+          )
+        : byDefault(
+            'frequency',
+            `Publish ${KIDS_CONTENT_RULES.uploadFrequency.ideal} episodes a week`,
+          ),
+    ];
+
+    // ─── Compilations ───
+    const compilationShare = find(episodes, 'compilation_share');
+    const compilationLength = find(episodes, 'compilation_length');
+    const segments = find(episodes, 'compilation_segments');
+    const reuse = find(episodes, 'compilation_reuse');
+    const bestLength = compilationLength?.metadata.bestBucket as { label: string } | undefined;
+    const bestSegments = segments?.metadata.bestBucket as { label: string } | undefined;
+    const { min, max } = KIDS_CONTENT_RULES.compilationDuration;
+
+    const compilationRecommendations = [
+      compilationShare && positive(compilationShare)
+        ? fromAnalysis(
+            'format',
+            compilationShare,
+            `Stitch finished episodes into compilations (${views(compilationShare)})`,
+          )
+        : byDefault('format', 'Stitch a series into a compilation once it has enough episodes'),
+      compilationLength && bestLength
+        ? fromAnalysis(
+            'duration',
+            compilationLength,
+            `Make compilations ${bestLength.label} long (${views(compilationLength)})`,
+          )
+        : byDefault('duration', `Make compilations ${min / 60}-${max / 60} minutes long`),
+      segments && bestSegments
+        ? fromAnalysis(
+            'segments',
+            segments,
+            `Stitch ${bestSegments.label} segments, each listed as a 00:00 chapter (${views(segments)})`,
+          )
+        : byDefault('segments', 'List every segment as a 00:00 chapter in the description'),
+      reuse
+        ? fromAnalysis(
+            'reuse',
+            reuse,
+            positive(reuse)
+              ? `Build compilations mostly from published episodes (${views(reuse)})`
+              : `Mix new segments in with published episodes (${views(reuse)} for mostly reused ones)`,
+          )
+        : byDefault('reuse', 'Build compilations from published episodes of one series'),
+    ];
+
+    return {
+      short: shortRecommendations,
+      long_form: episodeRecommendations,
+      compilation: compilationRecommendations,
+    };
+  }
+
   /** Project growth based on current metrics and content plan */
   projectGrowth(params: {
     currentSubscribers: number;
@@ -364,6 +635,31 @@ export class StrategyEngine {
     return topicMap[category] ?? 'educational kids content';
   }
 
+  /** Topics taught by at most a fifth of competitors (or two channels) whose videos still
+   * draw at least the median topic's average views */
+  private findTopicGaps(coverage: TopicCoverage[], competitorCount: number): ContentGap[] {
+    const maxSupply = Math.max(2, Math.floor(competitorCount / 5));
+    const views = coverage.map((c) => c.avgViews).sort((a, b) => a - b);
+    const medianViews = views[Math.floor(views.length / 2)];
+
+    return coverage
+      .filter((c) => c.channels <= maxSupply && c.avgViews > 0 && c.avgViews >= medianViews)
+      .map((c) => {
+        const audience = c.ageBracket ? ` to ${c.ageBracket} year olds` : '';
+        const channels = `${c.channels} channel${c.channels === 1 ? '' : 's'}`;
+        return {
+          category: 'educational' as const,
+          topic: c.topic,
+          educationalCategory: c.educationalCategory,
+          ageBracket: c.ageBracket,
+          demand: c.avgViews,
+          supply: c.channels,
+          opportunity: Math.round(c.avgViews / c.channels),
+          recommendation: `Few competitors teach "${c.topic}"${audience} (${channels}) despite ${this.formatNumber(c.avgViews)} avg views`,
+        };
+      });
+  }
+
   private formatNumber(n: number): string {
     if (n >= 1_000_000) return `${(n / 1_000_000).toFixed(1)}M`;
     if (n >= 1_000) return `${(n / 1_000).toFixed(0)}K`;
@@ -0,0 +1,147 @@
+import { describe, it, expect } from 'vitest';
+import type { ContentCategory } from '@kidsvid/shared';
+import {
+  crossValidate,
+  evaluateCategorizer,
+  extractFeatures,
+  formatEvaluation,
+  predictCategory,
+  trainCategoryModel,
+  type LabeledVideo,
+} from './text-classifier.js';
+import { categorizeByKeywords, categorizeVideo } from './categorizer.js';
+
+function labeled(
+  videoId: string,
+  category: ContentCategory,
+  title: string,
+  tags: string[] = [],
+): LabeledVideo {
+  return { video: { videoId, title, description: '', tags }, category };
+}
+
+/** "learn" appears in stories and songs too, which trips the keyword categorizer up */
+const LABELS: LabeledVideo[] = [
+  labeled('s1', 'story', 'Sleepy Bear Learns to Share | Good Night Friends', ['good night']),
+  labeled('s2', 'story', 'Little Fox Learns Patience | Good Night Friends', ['good night']),
+  labeled('s3', 'story', 'The Brave Little Owl | Good Night Friends', ['good night']),
+  labeled('s4', 'story', 'Bunny Learns Kindness | Good Night Friends', ['good night']),
+  labeled('e1', 'educational', 'Learn Colors with Balloons', ['learn colors']),
+  labeled('e2', 'educational', 'Learn Shapes with Blocks', ['learn shapes']),
+  labeled('e3', 'educational', 'Learn Numbers 1 to 10', ['learn numbers']),
+  labeled('e4', 'educational', 'Learn Colors with Crayons', ['learn colors']),
+  labeled('u1', 'unboxing', 'Giant Surprise Egg Unboxing', ['surprise eggs']),
+  labeled('u2', 'unboxing', 'Surprise Egg Unboxing: Toy Cars', ['surprise eggs']),
+  labeled('u3', 'unboxing', 'Mystery Surprise Egg Unboxing', ['surprise eggs']),
+  labeled('u4', 'unboxing', 'Rainbow Surprise Egg Unboxing', ['surprise eggs']),
+];
+
+describe('extractFeatures', () => {
+  it('weights title words over tags over description, without crossing tags', () => {
+    const features = extractFeatures({
+      title: 'Counting Song',
+      description: 'A counting video',
+      tags: ['kids', 'song'],
+    });
+
+    expect(features.get('counting')).toBe(3 + 1);
+    expect(features.get('song')).toBe(3 + 2);
+    expect(features.get('counting song')).toBe(3);
+    expect(features.has('kids song')).toBe(false);
+    expect(features.has('a')).toBe(false);
+  });
+});
+
+describe('trainCategoryModel', () => {
+  it('learns categories from labeled titles and tags', () => {
+    const model = trainCategoryModel(LABELS);
+
+    expect(model.categories).toEqual(['story', 'educational', 'unboxing']);
+    const story = predictCategory(model, {
+      title: 'Kitten Learns to Listen | Good Night Friends',
+      description: '',
+      tags: ['good night'],
+    });
+    expect(story.category).toBe('story');
+    expect(story.confidence).toBeGreaterThan(0.5);
+    expect(story.scores.song).toBe(0);
+  });
+
+  it('drives categorizeVideo when passed in', () => {
+    const video = {
+      title: 'Panda Learns to Count | Good Night Friends',
+      description: '',
+      tags: ['good night'],
+    };
+    expect(categorizeVideo(video).category).toBe('educational');
+
+    expect(categorizeVideo(video, trainCategoryModel(LABELS)).category).toBe('story');
+  });
+
+  it('does not take words naming Object.prototype members for vocabulary', () => {
+    // Seen once, "constructor" stays out of the vocabulary
+    const model = trainCategoryModel([
+      ...LABELS,
+      labeled('u5', 'unboxing', 'Toy Constructor Set Unboxing', ['surprise eggs']),
+    ]);
+    const prediction = predictCategory(model, {
+      title: 'Surprise Egg Unboxing: Constructor Set',
+      description: 'constructor',
+      tags: ['constructor'],
+    });
+
+    expect(Object.keys(model.idf)).not.toContain('constructor');
+    expect(prediction.category).toBe('unboxing');
+    expect(Object.values(prediction.scores).every(Number.isFinite)).toBe(true);
+  });
+
+  it('refuses to train without labels', () => {
+    expect(() => trainCategoryModel([])).toThrow('without labeled videos');
+  });
+});
+
+describe('evaluateCategorizer', () => {
+  it('reports accuracy and per-category precision and recall', () => {
+    const examples = [
+      labeled('a', 'song', 'a'),
+      labeled('b', 'song', 'b'),
+      labeled('c', 'story', 'c'),
+      labeled('d', 'story', 'd'),
+    ];
+    const predicted: Record<string, ContentCategory> = {
+      a: 'song',
+      b: 'story',
+      c: 'story',
+      d: 'story',
+    };
+
+    const evaluation = evaluateCategorizer(examples, (v) => predicted[v.videoId]);
+
+    expect(evaluation.accuracy).toBe(0.75);
+    expect(evaluation.perCategory.song).toEqual({
+      precision: 1,
+      recall: 0.5,
+      f1: 0.67,
+      support: 2,
+    });
+    expect(evaluation.perCategory.story).toEqual({
+      precision: 0.67,
+      recall: 1,
+      f1: 0.8,
+      support: 2,
+    });
+  });
+});
+
+describe('crossValidate', () => {
+  it('scores the model and the keyword baseline on the same held-out labels', () => {
+    const result = crossValidate(LABELS, (v) => categorizeByKeywords(v).category, 3, {
+      minDocumentFrequency: 1,
+    });
+
+    expect(result.model.sampleSize).toBe(LABELS.length);
+    expect(result.keywords.sampleSize).toBe(LABELS.length);
+    expect(result.model.accuracy).toBeGreaterThan(result.keywords.accuracy);
+    expect(formatEvaluation(result).at(-1)).toMatch(/^accuracy: model \d+%, keywords \d+% over 12/);
+  });
+});
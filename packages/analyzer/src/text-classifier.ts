@@ -0,0 +1,276 @@
+import {
+  CONTENT_CATEGORIES,
+  type CategorizerEvaluation,
+  type CategoryMetrics,
+  type CategoryModel,
+  type ContentCategory,
+  type YouTubeVideoInfo,
+} from '@kidsvid/shared';
+import type { CategorizeResult } from './categorizer.js';
+import { round } from './stats.js';
+
+/** Trainable ContentCategory classifier.
+ * Multinomial naive Bayes over TF-IDF weighted unigrams and bigrams of a video's title, tags
+ * and description, trained on hand-labeled videos. The trained model is plain JSON so it can
+ * be stored and versioned like any other artifact. */
+
+export type CategorizerInput = Pick<YouTubeVideoInfo, 'title' | 'description' | 'tags'>;
+
+export interface LabeledVideo {
+  video: CategorizerInput & { videoId: string };
+  category: ContentCategory;
+}
+
+export interface TrainOptions {
+  /** Laplace smoothing (default 1) */
+  alpha?: number;
+  /** Labeled videos a feature must appear in to enter the vocabulary (default 2) */
+  minDocumentFrequency?: number;
+}
+
+export interface CrossValidation {
+  model: CategorizerEvaluation;
+  keywords: CategorizerEvaluation;
+}
+
+/** Title words count most, as in the keyword categorizer */
+const FIELD_WEIGHTS = { title: 3, tags: 2, description: 1 } as const;
+const MAX_DESCRIPTION_CHARS = 1000;
+
+const STOPWORDS = new Set(
+  'a an and are at be by for from in is it of on or the this to with you your our we i'.split(' '),
+);
+
+/** Weighted term counts: unigrams and bigrams per field, scaled by the field's weight */
+export function extractFeatures(video: CategorizerInput): Map<string, number> {
+  const features = new Map<string, number>();
+  // Each tag is its own segment so bigrams don't run across tags
+  const fields = {
+    title: [video.title],
+    tags: video.tags,
+    description: [(video.description ?? '').slice(0, MAX_DESCRIPTION_CHARS)],
+  };
+
+  for (const [field, weight] of Object.entries(FIELD_WEIGHTS) as Array<
+    [keyof typeof fields, number]
+  >) {
+    for (const segment of fields[field]) {
+      const tokens = tokenize(segment);
+      for (let i = 0; i < tokens.length; i++) {
+        const grams = [tokens[i]];
+        if (i + 1 < tokens.length) grams.push(`${tokens[i]} ${tokens[i + 1]}`);
+        for (const gram of grams) features.set(gram, (features.get(gram) ?? 0) + weight);
+      }
+    }
+  }
+
+  return features;
+}
+
+export function trainCategoryModel(
+  examples: LabeledVideo[],
+  options: TrainOptions = {},
+): CategoryModel {
+  const { alpha = 1, minDocumentFrequency = 2 } = options;
+  if (examples.length === 0) throw new Error('Cannot train a categorizer without labeled videos');
+
+  const docs = examples.map((e) => ({ features: extractFeatures(e.video), category: e.category }));
+
+  const documentFrequency = new Map<string, number>();
+  for (const { features } of docs) {
+    for (const feature of features.keys()) {
+      documentFrequency.set(feature, (documentFrequency.get(feature) ?? 0) + 1);
+    }
+  }
+  // fromEntries defines own keys, so tokens like "__proto__" are features like any other
+  const idf: Record<string, number> = Object.fromEntries(
+    [...documentFrequency]
+      .filter(([, df]) => df >= minDocumentFrequency)
+      .map(([feature, df]) => [feature, Math.log((docs.length + 1) / (df + 1)) + 1]),
+  );
+  const vocabulary = Object.keys(idf);
+
+  const categories = CONTENT_CATEGORIES.filter((c) => docs.some((d) => d.category === c));
+  const index = new Map(categories.map((c, i) => [c, i]));
+  const counts = new Map(vocabulary.map((f) => [f, new Array<number>(categories.length).fill(0)]));
+  const totals = new Array<number>(categories.length).fill(0);
+  const docCounts = new Array<number>(categories.length).fill(0);
+
+  for (const { features, category } of docs) {
+    const c = index.get(category)!;
+    docCounts[c]++;
+    for (const [feature, weight] of weigh(features, idf)) {
+      counts.get(feature)![c] += weight;
+      totals[c] += weight;
+    }
+  }
+
+  const likelihoods: Record<string, number[]> = Object.fromEntries(
+    [...counts].map(([feature, perCategory]) => [
+      feature,
+      perCategory.map((count, c) =>
+        Math.log((count + alpha) / (totals[c] + alpha * vocabulary.length)),
+      ),
+    ]),
+  );
+
+  return {
+    algorithm: 'tfidf_naive_bayes',
+    categories,
+    priors: docCounts.map((n) => Math.log(n / docs.length)),
+    idf,
+    likelihoods,
+  };
+}
+
+/** Posterior probability per category; `confidence` is the winner's probability */
+export function predictCategory(model: CategoryModel, video: CategorizerInput): CategorizeResult {
+  const logScores = [...model.priors];
+  for (const [feature, weight] of weigh(extractFeatures(video), model.idf)) {
+    const likelihood = model.likelihoods[feature];
+    for (let c = 0; c < logScores.length; c++) logScores[c] += weight * likelihood[c];
+  }
+
+  const max = Math.max(...logScores);
+  const exp = logScores.map((s) => Math.exp(s - max));
+  const sum = exp.reduce((a, b) => a + b, 0);
+
+  const scores = Object.fromEntries(CONTENT_CATEGORIES.map((c) => [c, 0])) as Record<
+    ContentCategory,
+    number
+  >;
+  let best = 0;
+  model.categories.forEach((category, c) => {
+    scores[category] = exp[c] / sum;
+    if (exp[c] > exp[best]) best = c;
+  });
+
+  return {
+    category: model.categories[best],
+    confidence: Math.round((exp[best] / sum) * 100) / 100,
+    scores,
+  };
+}
+
+/** Accuracy plus per-category precision and recall of predictions against labels */
+export function evaluateCategorizer(
+  examples: LabeledVideo[],
+  predict: (video: LabeledVideo['video']) => ContentCategory,
+): CategorizerEvaluation {
+  const tally = new Map<ContentCategory, { tp: number; fp: number; fn: number }>();
+  const entry = (c: ContentCategory) => {
+    if (!tally.has(c)) tally.set(c, { tp: 0, fp: 0, fn: 0 });
+    return tally.get(c)!;
+  };
+
+  let correct = 0;
+  for (const { video, category } of examples) {
+    const predicted = predict(video);
+    if (predicted === category) {
+      correct++;
+      entry(category).tp++;
+    } else {
+      entry(category).fn++;
+      entry(predicted).fp++;
+    }
+  }
+
+  const perCategory: Partial<Record<ContentCategory, CategoryMetrics>> = {};
+  for (const category of CONTENT_CATEGORIES) {
+    const t = tally.get(category);
+    if (!t) continue;
+    const precision = t.tp + t.fp > 0 ? t.tp / (t.tp + t.fp) : 0;
+    const recall = t.tp + t.fn > 0 ? t.tp / (t.tp + t.fn) : 0;
+    perCategory[category] = {
+      precision: round(precision),
+      recall: round(recall),
+      f1: precision + recall > 0 ? round((2 * precision * recall) / (precision + recall)) : 0,
+      support: t.tp + t.fn,
+    };
+  }
+
+  return {
+    accuracy: examples.length > 0 ? round(correct / examples.length) : 0,
+    sampleSize: examples.length,
+    perCategory,
+  };
+}
+
+/** k-fold cross-validation of the trained classifier next to the keyword categorizer on the
+ * same labels. Folds are assigned by video id, so reruns on the same labels agree. */
+export function crossValidate(
+  examples: LabeledVideo[],
+  keywordCategorizer: (video: LabeledVideo['video']) => ContentCategory,
+  folds = 5,
+  options: TrainOptions = {},
+): CrossValidation {
+  const fold = (e: LabeledVideo) => hash(e.video.videoId) % folds;
+  const predictions = new Map<string, ContentCategory>();
+
+  for (let k = 0; k < folds; k++) {
+    const held = examples.filter((e) => fold(e) === k);
+    const training = examples.filter((e) => fold(e) !== k);
+    if (held.length === 0 || training.length === 0) continue;
+    const model = trainCategoryModel(training, options);
+    for (const e of held)
+      predictions.set(e.video.videoId, predictCategory(model, e.video).category);
+  }
+
+  const scored = examples.filter((e) => predictions.has(e.video.videoId));
+  return {
+    model: evaluateCategorizer(scored, (v) => predictions.get(v.videoId)!),
+    keywords: evaluateCategorizer(scored, keywordCategorizer),
+  };
+}
+
+/** Per-category comparison lines for the analyzer CLI */
+export function formatEvaluation({ model, keywords }: CrossValidation): string[] {
+  const pct = (n: number | undefined) => `${Math.round((n ?? 0) * 100)}%`.padStart(4);
+  const lines = [
+    `${'category'.padEnd(14)} ${'model P/R'.padEnd(11)} ${'keywords P/R'.padEnd(13)} n`,
+  ];
+  for (const category of CONTENT_CATEGORIES) {
+    const m = model.perCategory[category];
+    const k = keywords.perCategory[category];
+    if (!m && !k) continue;
+    lines.push(
+      `${category.padEnd(14)} ${pct(m?.precision)} ${pct(m?.recall)}   ` +
+        `${pct(k?.precision)} ${pct(k?.recall)}    ${m?.support ?? k?.support ?? 0}`,
+    );
+  }
+  lines.push(
+    `accuracy: model ${pct(model.accuracy).trim()}, keywords ${pct(keywords.accuracy).trim()} ` +
+      `over ${model.sampleSize} labeled videos`,
+  );
+  return lines;
+}
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((t) => t.length >= 2 && !STOPWORDS.has(t));
+}
+
+/** Sublinear, IDF-scaled, L2-normalized feature weights, restricted to the vocabulary.
+ * Only own keys are vocabulary: "constructor" or "toString" must not find Object.prototype. */
+function weigh(features: Map<string, number>, idf: Record<string, number>): Map<string, number> {
+  const weights = new Map<string, number>();
+  let norm = 0;
+  for (const [feature, count] of features) {
+    if (!Object.hasOwn(idf, feature)) continue;
+    const w = idf[feature];
+    const weight = (1 + Math.log(count)) * w;
+    weights.set(feature, weight);
+    norm += weight * weight;
+  }
+  norm = Math.sqrt(norm);
+  if (norm > 0) for (const [feature, weight] of weights) weights.set(feature, weight / norm);
+  return weights;
+}
+
+function hash(value: string): number {
+  let h = 5381;
+  for (let i = 0; i < value.length; i++) h = ((h << 5) + h + value.charCodeAt(i)) >>> 0;
+  return h;
+}
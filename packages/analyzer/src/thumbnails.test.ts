@@ -0,0 +1,149 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import jpeg from 'jpeg-js';
+import type { Logger, YouTubeVideoInfo } from '@kidsvid/shared';
+import { ThumbnailAnalyzer, computeThumbnailFeatures, type RgbaImage } from './thumbnails.js';
+
+const mockLogger = {
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+  debug: vi.fn(),
+} as unknown as Logger;
+
+type Rgb = [number, number, number];
+
+function image(width: number, height: number, paint: (x: number, y: number) => Rgb): RgbaImage {
+  const data = new Uint8Array(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      [data[i], data[i + 1], data[i + 2]] = paint(x, y);
+      data[i + 3] = 255;
+    }
+  }
+  return { width, height, data };
+}
+
+const inRect = (x: number, y: number, [left, top, w, h]: number[]) =>
+  x >= left && x < left + w && y >= top && y < top + h;
+
+describe('computeThumbnailFeatures', () => {
+  it('measures palette, saturation and the subject against its background', () => {
+    const features = computeThumbnailFeatures(
+      image(160, 96, (x, y) => (inRect(x, y, [40, 24, 80, 48]) ? [255, 220, 0] : [0, 0, 255])),
+    );
+
+    expect(features.palette).toEqual([
+      { color: 'blue', share: 0.75 },
+      { color: 'yellow', share: 0.25 },
+    ]);
+    expect(features.saturation).toBe(1);
+    expect(features.subjectSize).toBe(0.25);
+    expect(features.faceSize).toBe(0);
+    expect(features.textCoverage).toBe(0);
+  });
+
+  it('ignores letterbox bars above and below the picture', () => {
+    const features = computeThumbnailFeatures(
+      image(480, 360, (_, y) => (y < 45 || y >= 315 ? [0, 0, 0] : [250, 250, 250])),
+    );
+
+    expect(features.palette).toEqual([{ color: 'white', share: 1 }]);
+    expect(features.brightness).toBe(0.98);
+    expect(features.contrast).toBe(0);
+  });
+
+  it('measures vertical frames inside pillarbox bars', () => {
+    const features = computeThumbnailFeatures(
+      image(480, 360, (x) => (x < 139 || x >= 341 ? [0, 0, 0] : [40, 160, 60])),
+    );
+
+    expect(features.palette).toEqual([{ color: 'green', share: 1 }]);
+    expect(features.aspectRatio).toBeLessThan(0.6);
+  });
+
+  it('finds text as dense, sharp edges', () => {
+    const features = computeThumbnailFeatures(
+      image(320, 180, (x, y) => {
+        if (!inRect(x, y, [0, 0, 160, 90])) return [128, 128, 128];
+        return Math.floor(x / 2) % 2 === 0 ? [0, 0, 0] : [255, 255, 255];
+      }),
+    );
+
+    expect(features.textCoverage).toBeCloseTo(0.25, 1);
+    expect(features.contrast).toBeGreaterThan(0.2);
+  });
+
+  it('sizes skin-toned regions as faces', () => {
+    const features = computeThumbnailFeatures(
+      image(320, 180, (x, y) =>
+        inRect(x, y, [96, 54, 128, 72]) ? [224, 172, 105] : [40, 160, 60],
+      ),
+    );
+
+    expect(features.faceSize).toBe(0.16);
+    expect(features.subjectSize).toBe(0.16);
+  });
+});
+
+describe('ThumbnailAnalyzer', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    vi.restoreAllMocks();
+    dir = await mkdtemp(join(tmpdir(), 'thumbnails-'));
+  });
+
+  afterEach(async () => {
+    vi.unstubAllGlobals();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  function video(videoId: string, thumbnailUrl: string): YouTubeVideoInfo {
+    return {
+      videoId,
+      channelId: 'UC1',
+      title: videoId,
+      description: '',
+      publishedAt: '2026-09-01T00:00:00Z',
+      duration: 180,
+      viewCount: 1000,
+      likeCount: 10,
+      commentCount: 1,
+      tags: [],
+      thumbnailUrl,
+      defaultLanguage: 'en',
+      categoryId: '27',
+    };
+  }
+
+  it('downloads each thumbnail once and skips the ones it cannot get', async () => {
+    const red = jpeg.encode(
+      image(64, 36, () => [230, 20, 20]),
+      90,
+    ).data;
+    const fetchMock = vi.fn(async (url: string) =>
+      url.endsWith('missing.jpg')
+        ? { ok: false, status: 404 }
+        : { ok: true, status: 200, arrayBuffer: async () => red },
+    );
+    vi.stubGlobal('fetch', fetchMock);
+    const videos = [
+      video('v1', 'https://i.ytimg.com/vi/v1/hqdefault.jpg'),
+      video('v2', 'https://i.ytimg.com/vi/v2/missing.jpg'),
+      video('v3', ''),
+    ];
+
+    const first = await new ThumbnailAnalyzer(mockLogger, { cacheDir: dir }).analyze(videos);
+    const second = await new ThumbnailAnalyzer(mockLogger, { cacheDir: dir }).analyze(videos);
+
+    expect([...first.keys()]).toEqual(['v1']);
+    expect(first.get('v1')!.palette).toEqual([{ color: 'red', share: 1 }]);
+    expect(second).toEqual(first);
+    // v1 comes from the cache the second time; v2 is retried
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,407 @@
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { join } from 'path';
+import jpeg from 'jpeg-js';
+import type { Logger, YouTubeVideoInfo } from '@kidsvid/shared';
+import { round } from './stats.js';
+
+/** Competitor thumbnail analysis.
+ * Downloads each video's thumbnail once into a disk cache and measures it locally: the
+ * named colours it is made of, how saturated, bright and contrasty it is, and rough
+ * estimates of how much of the frame text, the main subject and faces take up. No vision
+ * model is involved, so the size estimates are heuristics meant for comparing thumbnails
+ * against each other, not for describing any single one. */
+
+export type ThumbnailColor =
+  | 'red'
+  | 'orange'
+  | 'yellow'
+  | 'green'
+  | 'blue'
+  | 'purple'
+  | 'pink'
+  | 'brown'
+  | 'black'
+  | 'white'
+  | 'gray';
+
+export interface RgbaImage {
+  width: number;
+  height: number;
+  /** 4 bytes per pixel, row by row */
+  data: Uint8Array;
+}
+
+export interface ThumbnailFeatures {
+  /** Colours covering at least 5% of the frame, largest share first */
+  palette: Array<{ color: ThumbnailColor; share: number }>;
+  /** Mean HSV saturation, 0-1 */
+  saturation: number;
+  /** Mean luma, 0-1 */
+  brightness: number;
+  /** RMS contrast: standard deviation of luma, 0-0.5 */
+  contrast: number;
+  /** Share of the frame in blocks of dense, high-contrast edges, which is what text looks like */
+  textCoverage: number;
+  /** Share of the frame taken by the largest region that stands out from the background */
+  subjectSize: number;
+  /** Share of the frame taken by the largest skin-toned region: the face or character size */
+  faceSize: number;
+  /** Width over height of the picture inside any bars; below 1 for vertical (Shorts) frames */
+  aspectRatio: number;
+}
+
+export interface ThumbnailAnalyzerOptions {
+  /** Where downloaded thumbnails are kept between runs (default .cache/thumbnails) */
+  cacheDir?: string;
+  /** Parallel downloads (default 8) */
+  concurrency?: number;
+}
+
+/** Thumbnails are measured at this width; finer detail doesn't change the features */
+const ANALYSIS_WIDTH = 160;
+const MIN_PALETTE_SHARE = 0.05;
+/** Rows and columns at most this dark count as bars (`hqdefault` pads 16:9 frames to 4:3,
+ * and vertical Shorts frames at the sides) */
+const LETTERBOX_LUMA = 24;
+/** Pillarbox bars beside a 9:16 frame take up to this share of the width each */
+const PILLARBOX_MAX_SHARE = 0.35;
+const TEXT_BLOCK = 8;
+/** Luma step between neighbouring pixels that counts as an edge */
+const EDGE_STEP = 48;
+/** Text blocks: at least this share of neighbour pairs are edges, spanning this luma range */
+const TEXT_EDGE_DENSITY = 0.25;
+const TEXT_LUMA_RANGE = 120;
+/** RGB distance from the background colour at which a pixel counts as foreground */
+const FOREGROUND_DISTANCE = 80;
+
+export class ThumbnailAnalyzer {
+  private cacheDir: string;
+  private concurrency: number;
+
+  constructor(
+    private logger: Logger,
+    options: ThumbnailAnalyzerOptions = {},
+  ) {
+    this.cacheDir = options.cacheDir ?? '.cache/thumbnails';
+    this.concurrency = options.concurrency ?? 8;
+  }
+
+  /** Features of every video whose thumbnail could be loaded and decoded, by video id.
+   * Missing or broken thumbnails are skipped; they never fail the analysis. */
+  async analyze(videos: YouTubeVideoInfo[]): Promise<Map<string, ThumbnailFeatures>> {
+    const features = new Map<string, ThumbnailFeatures>();
+    const withThumbnails = videos.filter((v) => v.thumbnailUrl);
+    let failed = 0;
+
+    for (let i = 0; i < withThumbnails.length; i += this.concurrency) {
+      const batch = withThumbnails.slice(i, i + this.concurrency);
+      await Promise.all(
+        batch.map(async (video) => {
+          try {
+            const image = await this.load(video);
+            if (image) features.set(video.videoId, computeThumbnailFeatures(image));
+            else failed++;
+          } catch (err) {
+            failed++;
+            this.logger.debug({ err, videoId: video.videoId }, 'Could not analyze thumbnail');
+          }
+        }),
+      );
+    }
+
+    this.logger.info(
+      { analyzed: features.size, failed, withoutThumbnail: videos.length - withThumbnails.length },
+      'Thumbnails analyzed',
+    );
+    return features;
+  }
+
+  /** Decoded thumbnail, from the cache when it was downloaded before */
+  private async load(video: YouTubeVideoInfo): Promise<RgbaImage | null> {
+    const file = join(this.cacheDir, `${video.videoId}.jpg`);
+    let bytes: Buffer;
+    try {
+      bytes = await readFile(file);
+    } catch {
+      const response = await fetch(video.thumbnailUrl);
+      if (!response.ok) {
+        this.logger.debug(
+          { videoId: video.videoId, status: response.status },
+          'Thumbnail download failed',
+        );
+        return null;
+      }
+      bytes = Buffer.from(await response.arrayBuffer());
+      await mkdir(this.cacheDir, { recursive: true });
+      await writeFile(file, bytes);
+    }
+    return jpeg.decode(bytes, { useTArray: true, formatAsRGBA: true, maxResolutionInMP: 4 });
+  }
+}
+
+export function computeThumbnailFeatures(image: RgbaImage): ThumbnailFeatures {
+  const grid = cropBars(downsample(image));
+  const { width, height, rgb, luma } = grid;
+  const size = width * height;
+  if (size === 0) {
+    return {
+      palette: [],
+      saturation: 0,
+      brightness: 0,
+      contrast: 0,
+      textCoverage: 0,
+      subjectSize: 0,
+      faceSize: 0,
+      aspectRatio: 0,
+    };
+  }
+
+  const colorCounts = new Map<ThumbnailColor, number>();
+  const skin = new Uint8Array(size);
+  let saturation = 0;
+  let brightness = 0;
+  for (let p = 0; p < size; p++) {
+    const [r, g, b] = [rgb[p * 3], rgb[p * 3 + 1], rgb[p * 3 + 2]];
+    const max = Math.max(r, g, b);
+    const min = Math.min(r, g, b);
+    saturation += max > 0 ? (max - min) / max : 0;
+    brightness += luma[p];
+    const color = colorName(r, g, b);
+    colorCounts.set(color, (colorCounts.get(color) ?? 0) + 1);
+    if (isSkin(r, g, b)) skin[p] = 1;
+  }
+  brightness /= size;
+  let variance = 0;
+  for (let p = 0; p < size; p++) variance += (luma[p] - brightness) ** 2;
+
+  const palette = [...colorCounts]
+    .map(([color, count]) => ({ color, share: round(count / size) }))
+    .filter((c) => c.share >= MIN_PALETTE_SHARE)
+    .sort((a, b) => b.share - a.share);
+
+  return {
+    palette,
+    saturation: round(saturation / size),
+    brightness: round(brightness / 255),
+    contrast: round(Math.sqrt(variance / size) / 255),
+    textCoverage: round(textCoverage(grid)),
+    subjectSize: round(largestRegion(foregroundMask(grid), width, height) / size),
+    faceSize: round(largestRegion(skin, width, height) / size),
+    aspectRatio: round(width / height),
+  };
+}
+
+// ─── Helpers ───
+
+interface Grid {
+  width: number;
+  height: number;
+  /** 3 channels per pixel, 0-255 */
+  rgb: Float32Array;
+  luma: Float32Array;
+}
+
+/** Box-filter the image down to ANALYSIS_WIDTH (never up) */
+function downsample(image: RgbaImage): Grid {
+  const scale = Math.max(1, image.width / ANALYSIS_WIDTH);
+  const width = Math.max(1, Math.round(image.width / scale));
+  const height = Math.max(1, Math.round(image.height / scale));
+  const rgb = new Float32Array(width * height * 3);
+  const counts = new Uint32Array(width * height);
+
+  for (let y = 0; y < image.height; y++) {
+    const gy = Math.min(height - 1, Math.floor(y / scale));
+    for (let x = 0; x < image.width; x++) {
+      const gx = Math.min(width - 1, Math.floor(x / scale));
+      const cell = gy * width + gx;
+      const i = (y * image.width + x) * 4;
+      rgb[cell * 3] += image.data[i];
+      rgb[cell * 3 + 1] += image.data[i + 1];
+      rgb[cell * 3 + 2] += image.data[i + 2];
+      counts[cell]++;
+    }
+  }
+
+  const luma = new Float32Array(width * height);
+  for (let cell = 0; cell < counts.length; cell++) {
+    const n = counts[cell] || 1;
+    for (let c = 0; c < 3; c++) rgb[cell * 3 + c] /= n;
+    luma[cell] = 0.299 * rgb[cell * 3] + 0.587 * rgb[cell * 3 + 1] + 0.114 * rgb[cell * 3 + 2];
+  }
+  return { width, height, rgb, luma };
+}
+
+/** Drop near-black bars around the picture: letterboxing above and below, up to a quarter of
+ * the height each, and pillarboxing beside a vertical frame */
+function cropBars(grid: Grid): Grid {
+  const { width, height, luma } = grid;
+  const isDark = (x: number, y: number) => luma[y * width + x] <= LETTERBOX_LUMA;
+  const isRowBar = (y: number) => {
+    for (let x = 0; x < width; x++) if (!isDark(x, y)) return false;
+    return true;
+  };
+  const rowLimit = Math.floor(height / 4);
+  let top = 0;
+  while (top < rowLimit && isRowBar(top)) top++;
+  let bottom = height;
+  while (height - bottom < rowLimit && bottom > top && isRowBar(bottom - 1)) bottom--;
+
+  const isColumnBar = (x: number) => {
+    for (let y = top; y < bottom; y++) if (!isDark(x, y)) return false;
+    return true;
+  };
+  const columnLimit = Math.floor(width * PILLARBOX_MAX_SHARE);
+  let left = 0;
+  while (left < columnLimit && isColumnBar(left)) left++;
+  let right = width;
+  while (width - right < columnLimit && right > left && isColumnBar(right - 1)) right--;
+  if (top === 0 && bottom === height && left === 0 && right === width) return grid;
+
+  const cropped = { width: right - left, height: bottom - top };
+  const rgb = new Float32Array(cropped.width * cropped.height * 3);
+  const croppedLuma = new Float32Array(cropped.width * cropped.height);
+  for (let y = 0; y < cropped.height; y++) {
+    const from = (y + top) * width + left;
+    croppedLuma.set(luma.subarray(from, from + cropped.width), y * cropped.width);
+    rgb.set(grid.rgb.subarray(from * 3, (from + cropped.width) * 3), y * cropped.width * 3);
+  }
+  return { ...cropped, rgb, luma: croppedLuma };
+}
+
+function colorName(r: number, g: number, b: number): ThumbnailColor {
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  if (max < 50) return 'black';
+  if ((max - min) / max < 0.2) return max > 200 ? 'white' : 'gray';
+
+  const hue = hueOf(r, g, b, max, min);
+  // Dark oranges and yellows read as brown
+  if (hue >= 15 && hue < 70 && max < 150) return 'brown';
+  if (hue < 15 || hue >= 345) return 'red';
+  if (hue < 45) return 'orange';
+  if (hue < 70) return 'yellow';
+  if (hue < 160) return 'green';
+  if (hue < 250) return 'blue';
+  if (hue < 290) return 'purple';
+  return 'pink';
+}
+
+function hueOf(r: number, g: number, b: number, max: number, min: number): number {
+  const d = max - min;
+  let hue: number;
+  if (max === r) hue = ((g - b) / d) % 6;
+  else if (max === g) hue = (b - r) / d + 2;
+  else hue = (r - g) / d + 4;
+  return (hue * 60 + 360) % 360;
+}
+
+/** The common RGB skin rule; cartoon skin tones mostly pass it too */
+function isSkin(r: number, g: number, b: number): boolean {
+  return (
+    r > 95 &&
+    g > 40 &&
+    b > 20 &&
+    Math.max(r, g, b) - Math.min(r, g, b) > 15 &&
+    Math.abs(r - g) > 15 &&
+    r > g &&
+    r > b
+  );
+}
+
+/** Share of TEXT_BLOCK-sized blocks whose edges are dense and sharp enough to be lettering */
+function textCoverage({ width, height, luma }: Grid): number {
+  let blocks = 0;
+  let textBlocks = 0;
+  for (let by = 0; by + TEXT_BLOCK <= height; by += TEXT_BLOCK) {
+    for (let bx = 0; bx + TEXT_BLOCK <= width; bx += TEXT_BLOCK) {
+      blocks++;
+      let edges = 0;
+      let pairs = 0;
+      let min = 255;
+      let max = 0;
+      for (let y = by; y < by + TEXT_BLOCK; y++) {
+        for (let x = bx; x < bx + TEXT_BLOCK; x++) {
+          const value = luma[y * width + x];
+          min = Math.min(min, value);
+          max = Math.max(max, value);
+          if (x + 1 < bx + TEXT_BLOCK) {
+            pairs++;
+            if (Math.abs(value - luma[y * width + x + 1]) > EDGE_STEP) edges++;
+          }
+          if (y + 1 < by + TEXT_BLOCK) {
+            pairs++;
+            if (Math.abs(value - luma[(y + 1) * width + x]) > EDGE_STEP) edges++;
+          }
+        }
+      }
+      if (edges / pairs >= TEXT_EDGE_DENSITY && max - min >= TEXT_LUMA_RANGE) textBlocks++;
+    }
+  }
+  return blocks > 0 ? textBlocks / blocks : 0;
+}
+
+/** Pixels far from the background, taken as the most common colour around the border */
+function foregroundMask({ width, height, rgb }: Grid): Uint8Array {
+  const bins = new Map<number, { count: number; sum: [number, number, number] }>();
+  const addBorderPixel = (p: number) => {
+    const [r, g, b] = [rgb[p * 3], rgb[p * 3 + 1], rgb[p * 3 + 2]];
+    const key = ((r >> 5) << 6) | ((g >> 5) << 3) | (b >> 5);
+    const bin = bins.get(key) ?? { count: 0, sum: [0, 0, 0] };
+    bin.count++;
+    bin.sum[0] += r;
+    bin.sum[1] += g;
+    bin.sum[2] += b;
+    bins.set(key, bin);
+  };
+  for (let x = 0; x < width; x++) {
+    addBorderPixel(x);
+    addBorderPixel((height - 1) * width + x);
+  }
+  for (let y = 1; y < height - 1; y++) {
+    addBorderPixel(y * width);
+    addBorderPixel(y * width + width - 1);
+  }
+  const [background] = [...bins.values()].sort((a, b) => b.count - a.count);
+  const [br, bg, bb] = background.sum.map((s) => s / background.count);
+
+  const mask = new Uint8Array(width * height);
+  for (let p = 0; p < mask.length; p++) {
+    const distance = Math.hypot(rgb[p * 3] - br, rgb[p * 3 + 1] - bg, rgb[p * 3 + 2] - bb);
+    if (distance > FOREGROUND_DISTANCE) mask[p] = 1;
+  }
+  return mask;
+}
+
+/** Pixel count of the largest 4-connected region in the mask */
+function largestRegion(mask: Uint8Array, width: number, height: number): number {
+  const seen = new Uint8Array(mask.length);
+  const stack: number[] = [];
+  let largest = 0;
+
+  for (let start = 0; start < mask.length; start++) {
+    if (!mask[start] || seen[start]) continue;
+    let size = 0;
+    seen[start] = 1;
+    stack.push(start);
+    while (stack.length > 0) {
+      const p = stack.pop()!;
+      size++;
+      const x = p % width;
+      const y = (p - x) / width;
+      const neighbours = [
+        x > 0 ? p - 1 : -1,
+        x + 1 < width ? p + 1 : -1,
+        y > 0 ? p - width : -1,
+        y + 1 < height ? p + width : -1,
+      ];
+      for (const n of neighbours) {
+        if (n >= 0 && mask[n] && !seen[n]) {
+          seen[n] = 1;
+          stack.push(n);
+        }
+      }
+    }
+    largest = Math.max(largest, size);
+  }
+  return largest;
+}
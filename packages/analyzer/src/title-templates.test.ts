@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import type { YouTubeVideoInfo } from '@kidsvid/shared';
+import { formatTemplate, parseTitleTemplates } from './title-templates.js';
+
+function video(videoId: string, channelId: string, title: string): YouTubeVideoInfo {
+  return {
+    videoId,
+    channelId,
+    title,
+    description: '',
+    publishedAt: '2026-09-01T00:00:00Z',
+    duration: 180,
+    viewCount: 1000,
+    likeCount: 10,
+    commentCount: 1,
+    tags: [],
+    thumbnailUrl: '',
+    defaultLanguage: 'en',
+    categoryId: '27',
+  };
+}
+
+describe('parseTitleTemplates', () => {
+  it('recognises a channel’s suffix branding and lead character', () => {
+    const titles = [
+      'Blippi Visits a Farm | Educational Videos for Kids',
+      'Blippi Learns Colors | Educational Videos for Kids',
+      'Blippi at the Zoo - Animals for Toddlers',
+      'Wheels on the Bus | Educational Videos for Kids',
+    ];
+    const parsed = parseTitleTemplates(titles.map((t, i) => video(`b${i}`, 'blippi', t)));
+
+    expect(parsed.get('b0')).toEqual({
+      template: '[character] | [brand]',
+      slots: ['character', 'brand'],
+      separators: ['|'],
+      segments: ['Blippi Visits a Farm', 'Educational Videos for Kids'],
+    });
+    expect(parsed.get('b2')!.template).toBe('[character] - [phrase]');
+    expect(parsed.get('b3')!.template).toBe('[phrase] | [brand]');
+  });
+
+  it('tells question, count and keyword leads apart', () => {
+    const parsed = parseTitleTemplates([
+      video('q', 'ch', 'What Color Is It? | Learning Game'),
+      video('n', 'ch', '10 Little Ducks'),
+      video('k', 'ch', 'Learn Shapes with Blocks - Preschool Video'),
+      video('p', 'ch', 'The Brave Little Owl'),
+    ]);
+
+    expect(parsed.get('q')!.template).toBe('[question] | [phrase]');
+    expect(parsed.get('n')!.template).toBe('[count]');
+    expect(parsed.get('k')!.template).toBe('[keyword] - [phrase]');
+    expect(parsed.get('p')!.template).toBe('[phrase]');
+  });
+
+  it('does not take branding from other channels', () => {
+    const parsed = parseTitleTemplates([
+      video('a1', 'a', 'Bath Song | Kids Songs'),
+      video('b1', 'b', 'Bus Song | Kids Songs'),
+      video('c1', 'c', 'Farm Song | Kids Songs'),
+    ]);
+
+    expect(parsed.get('a1')!.template).toBe('[phrase] | [phrase]');
+  });
+});
+
+describe('formatTemplate', () => {
+  it('writes slots with the separators between them', () => {
+    expect(formatTemplate(['keyword', 'phrase', 'brand'], ['-', '|'])).toBe(
+      '[keyword] - [phrase] | [brand]',
+    );
+  });
+});
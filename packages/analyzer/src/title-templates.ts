@@ -0,0 +1,129 @@
+import type { TitleSlot, TitleTemplate, YouTubeVideoInfo } from '@kidsvid/shared';
+import { TOPIC_TERMS } from './trends.js';
+
+/** Title template mining.
+ * Splits competitor titles at their separators (`|`, ` - `) and names what each segment is,
+ * so "Wheels on the Bus | Nursery Rhymes & Kids Songs" and "Old MacDonald | Super Simple
+ * Songs" both read as `[phrase] | [brand]`. Brands and characters are recognised by recurring on a
+ * channel, which is how a channel's suffix branding and its lead characters show up. */
+
+export interface ParsedTitle extends TitleTemplate {
+  segments: string[];
+}
+
+/** A segment repeated in this many titles of a channel (and this share) is the channel's */
+const MIN_RECURRING_TITLES = 3;
+const MIN_RECURRING_SHARE = 0.2;
+
+const SEPARATOR = /\s*\|\s*|\s+[-–—]+\s+/g;
+const QUESTION = /\?|^(how|what|why|where|who|which|can|do|does|is|are|will)\b/i;
+const COUNT = /^\d+\b/;
+/** Words that open a title about what it teaches, beyond the topic names */
+const LEAD_KEYWORDS = [
+  'learn',
+  'learning',
+  "let's learn",
+  'educational',
+  'nursery rhymes',
+  'kids songs',
+  'baby songs',
+  'phonics song',
+  'abc song',
+];
+const KEYWORD_LEAD = new RegExp(
+  `^(the |a )?(${[...LEAD_KEYWORDS, ...Object.values(TOPIC_TERMS).flatMap((t) => t.terms)]
+    .map(escapeRegExp)
+    .join('|')})\\b`,
+  'i',
+);
+/** A capitalized name of one or two words at the start of a title */
+const NAME_LEAD = /^([A-Z][\p{L}']+)(\s[A-Z][\p{L}']+)?/u;
+/** Capitalized title openers that are never a character's name */
+const NOT_NAMES = new Set(
+  "the a an my our this new fun super best top let's lets kids children toddlers".split(' '),
+);
+
+/** Templates of every title, by video id. Channels are read as a whole so their recurring
+ * brand suffixes and lead characters can be told apart from one-off phrases. */
+export function parseTitleTemplates(videos: YouTubeVideoInfo[]): Map<string, ParsedTitle> {
+  const byChannel = new Map<string, YouTubeVideoInfo[]>();
+  for (const v of videos) byChannel.set(v.channelId, [...(byChannel.get(v.channelId) ?? []), v]);
+
+  const parsed = new Map<string, ParsedTitle>();
+  for (const channelVideos of byChannel.values()) {
+    const split = channelVideos.map((v) => ({ video: v, ...splitTitle(v.title) }));
+    const recurring = (values: string[]) => {
+      const counts = new Map<string, number>();
+      for (const value of values) counts.set(value, (counts.get(value) ?? 0) + 1);
+      const min = Math.max(MIN_RECURRING_TITLES, channelVideos.length * MIN_RECURRING_SHARE);
+      return new Set([...counts].filter(([, n]) => n >= min).map(([value]) => value));
+    };
+
+    const brands = recurring(split.flatMap((s) => s.segments.slice(1).map(normalize)));
+    const characters = recurring(split.flatMap((s) => leadNames(s.segments[0])));
+
+    for (const { video, segments, separators } of split) {
+      const slots = segments.map((segment, i): TitleSlot => {
+        if (i > 0) return brands.has(normalize(segment)) ? 'brand' : 'phrase';
+        return leadSlot(segment, characters);
+      });
+      parsed.set(video.videoId, {
+        template: formatTemplate(slots, separators),
+        slots,
+        separators,
+        segments,
+      });
+    }
+  }
+  return parsed;
+}
+
+/** `[character] | [phrase] | [brand]` */
+export function formatTemplate(slots: TitleSlot[], separators: string[]): string {
+  return slots.map((slot, i) => (i > 0 ? `${separators[i - 1]} [${slot}]` : `[${slot}]`)).join(' ');
+}
+
+function splitTitle(title: string): { segments: string[]; separators: string[] } {
+  const segments: string[] = [];
+  const separators: string[] = [];
+  let separator = '-';
+  const push = (segment: string) => {
+    if (!segment) return;
+    if (segments.length > 0) separators.push(separator);
+    segments.push(segment);
+  };
+
+  let start = 0;
+  for (const match of title.matchAll(SEPARATOR)) {
+    push(title.slice(start, match.index).trim());
+    separator = match[0].includes('|') ? '|' : '-';
+    start = match.index! + match[0].length;
+  }
+  push(title.slice(start).trim());
+  return { segments, separators };
+}
+
+function leadSlot(segment: string, characters: Set<string>): TitleSlot {
+  if (QUESTION.test(segment)) return 'question';
+  if (COUNT.test(segment)) return 'count';
+  if (KEYWORD_LEAD.test(segment)) return 'keyword';
+  if (leadNames(segment).some((name) => characters.has(name))) return 'character';
+  return 'phrase';
+}
+
+/** Candidate character names a segment starts with: its first capitalized word, and the
+ * first two when both are capitalized ("Baby Shark", "Peppa Pig") */
+function leadNames(segment: string): string[] {
+  if (KEYWORD_LEAD.test(segment) || QUESTION.test(segment)) return [];
+  const match = segment.match(NAME_LEAD);
+  if (!match || NOT_NAMES.has(match[1].toLowerCase())) return [];
+  return match[2] ? [match[1], match[1] + match[2]] : [match[1]];
+}
+
+function normalize(segment: string): string {
+  return segment.toLowerCase().replace(/\s+/g, ' ');
+}
+
+function escapeRegExp(term: string): string {
+  return term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
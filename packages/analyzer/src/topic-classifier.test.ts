@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import type { YouTubeVideoInfo } from '@kidsvid/shared';
+import {
+  classifyEducationalTopics,
+  classifyVideoTopics,
+  summarizeTopicCoverage,
+} from './topic-classifier.js';
+
+function video(
+  videoId: string,
+  title: string,
+  overrides: Partial<YouTubeVideoInfo> = {},
+): YouTubeVideoInfo {
+  return {
+    videoId,
+    channelId: 'ch-1',
+    title,
+    description: '',
+    publishedAt: '2026-09-01T00:00:00Z',
+    duration: 180,
+    viewCount: 1000,
+    likeCount: 10,
+    commentCount: 1,
+    tags: [],
+    thumbnailUrl: '',
+    defaultLanguage: 'en',
+    categoryId: '27',
+    ...overrides,
+  };
+}
+
+describe('classifyEducationalTopics', () => {
+  it('maps a video to educational topics and their category', () => {
+    const result = classifyEducationalTopics(
+      video('v1', 'Subtraction for Kindergarten | Take Away Song', {
+        tags: ['subtraction', 'math for kids'],
+      }),
+    );
+
+    expect(result.educationalCategory).toBe('early_math');
+    expect(result.topics[0]).toEqual({
+      topic: 'subtraction',
+      educationalCategory: 'early_math',
+      confidence: 1,
+    });
+    expect(result.ageBracket).toBe('4-6');
+  });
+
+  it('picks out a single letter as its own topic', () => {
+    const result = classifyEducationalTopics(
+      video('v2', 'The Letter B Song | Phonics for Toddlers'),
+    );
+
+    expect(result.topics.map((t) => t.topic)).toEqual(['letter B', 'phonics']);
+    expect(result.educationalCategory).toBe('phonics_reading');
+    expect(result.ageBracket).toBe('2-4');
+  });
+
+  it('is less confident about topics only the description mentions', () => {
+    const strong = classifyEducationalTopics(
+      video('v3', 'Weather for Kids', { tags: ['weather'] }),
+    );
+    const weak = classifyEducationalTopics(
+      video('v4', 'Fun Day at the Park', { description: 'Watch out for the weather!' }),
+    );
+
+    expect(strong.confidence).toBe(1);
+    expect(weak.topics).toEqual([
+      { topic: 'weather', educationalCategory: 'science', confidence: 0.2 },
+    ]);
+    expect(weak.confidence).toBeLessThan(strong.confidence);
+  });
+
+  it('returns no category for videos that teach nothing known', () => {
+    const result = classifyEducationalTopics(video('v5', 'Giant Surprise Egg Unboxing'));
+
+    expect(result).toEqual({
+      educationalCategory: null,
+      confidence: 0,
+      topics: [],
+      ageBracket: null,
+    });
+  });
+});
+
+describe('summarizeTopicCoverage', () => {
+  it('counts channels and average views per topic and age bracket', () => {
+    const videos = [
+      video('a', 'Counting to 10 for Toddlers', { channelId: 'ch-1', viewCount: 1000 }),
+      video('b', 'Counting Song for Toddlers', { channelId: 'ch-2', viewCount: 3000 }),
+      video('c', 'Counting for Kindergarten', { channelId: 'ch-1', viewCount: 500 }),
+    ];
+
+    const coverage = summarizeTopicCoverage(videos, classifyVideoTopics(videos));
+
+    expect(coverage).toEqual([
+      {
+        topic: 'counting',
+        educationalCategory: 'early_math',
+        ageBracket: '2-4',
+        channels: 2,
+        videos: 2,
+        avgViews: 2000,
+      },
+      {
+        topic: 'counting',
+        educationalCategory: 'early_math',
+        ageBracket: '4-6',
+        channels: 1,
+        videos: 1,
+        avgViews: 500,
+      },
+    ]);
+  });
+});
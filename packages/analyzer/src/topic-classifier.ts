@@ -0,0 +1,217 @@
+import type {
+  AgeBracket,
+  EducationalCategory,
+  VideoTopic,
+  YouTubeVideoInfo,
+} from '@kidsvid/shared';
+import { round } from './stats.js';
+import { TOPIC_TERMS } from './trends.js';
+
+/** Educational topic classifier.
+ * A second pass next to `categorizeVideo`: where that names a video's format (song, story,
+ * unboxing), this names what it teaches, as concrete topics with the educational category
+ * the generator plans by, plus the age bracket the video says it is for. */
+
+export interface TopicClassification {
+  /** Category of the strongest topics; null when no known topic is taught */
+  educationalCategory: EducationalCategory | null;
+  confidence: number;
+  /** Topics taught, most confident first */
+  topics: VideoTopic[];
+  ageBracket: AgeBracket | null;
+}
+
+/** How widely competitors teach a topic to an age bracket */
+export interface TopicCoverage {
+  topic: string;
+  educationalCategory: EducationalCategory;
+  /** Null groups videos that don't say which ages they're for */
+  ageBracket: AgeBracket | null;
+  channels: number;
+  videos: number;
+  avgViews: number;
+}
+
+/** Topics beyond the trend list that the generator's categories cover */
+const EXTRA_TOPICS: Record<string, { educationalCategory: EducationalCategory; terms: string[] }> =
+  {
+    addition: { educationalCategory: 'early_math', terms: ['addition', 'adding', 'plus'] },
+    subtraction: {
+      educationalCategory: 'early_math',
+      terms: ['subtraction', 'subtract', 'subtracting', 'minus', 'take away'],
+    },
+    'telling time': {
+      educationalCategory: 'early_math',
+      terms: ['telling time', 'tell time', 'clock'],
+    },
+    'sight words': { educationalCategory: 'phonics_reading', terms: ['sight words'] },
+    'rhyming words': { educationalCategory: 'phonics_reading', terms: ['rhyming words'] },
+    dinosaurs: { educationalCategory: 'science', terms: ['dinosaur', 'dinosaurs'] },
+    space: { educationalCategory: 'science', terms: ['planets', 'solar system', 'space'] },
+    plants: { educationalCategory: 'science', terms: ['plants', 'seeds', 'how plants grow'] },
+    feelings: {
+      educationalCategory: 'social_emotional',
+      terms: ['feelings', 'emotions', 'happy and sad'],
+    },
+    sharing: { educationalCategory: 'social_emotional', terms: ['sharing', 'take turns'] },
+    manners: {
+      educationalCategory: 'social_emotional',
+      terms: ['manners', 'please and thank you', 'say sorry'],
+    },
+    'healthy habits': {
+      educationalCategory: 'social_emotional',
+      terms: ['brush teeth', 'brushing teeth', 'wash hands', 'healthy habits'],
+    },
+    'days and months': {
+      educationalCategory: 'world_knowledge',
+      terms: ['days of the week', 'months of the year'],
+    },
+    opposites: { educationalCategory: 'world_knowledge', terms: ['opposites', 'big and small'] },
+    patterns: { educationalCategory: 'problem_solving', terms: ['patterns', 'what comes next'] },
+    sorting: { educationalCategory: 'problem_solving', terms: ['sorting', 'matching game'] },
+    puzzles: { educationalCategory: 'problem_solving', terms: ['puzzle', 'puzzles', 'maze'] },
+    instruments: {
+      educationalCategory: 'music_rhythm',
+      terms: ['instruments', 'rhythm', 'drums', 'piano'],
+    },
+  };
+
+const TOPICS = { ...TOPIC_TERMS, ...EXTRA_TOPICS };
+
+const TOPIC_PATTERNS = Object.entries(TOPICS).map(([topic, { educationalCategory, terms }]) => ({
+  topic,
+  educationalCategory,
+  pattern: new RegExp(`\\b(${terms.map(escapeRegExp).join('|')})\\b`, 'i'),
+}));
+
+/** "Letter B", "the letter b song": a topic of its own, finer than ABCs */
+const LETTER_PATTERN = /\bletter ([a-z])\b/i;
+
+const AGE_PATTERNS: Array<[AgeBracket, RegExp]> = [
+  ['2-4', /\b(toddlers?|babies|baby|infants?|[123][ -]?(years?|yr)[ -]?olds?|ages? [12]-[34])\b/i],
+  [
+    '4-6',
+    /\b(preschool(ers)?|pre-?k|kindergarten|[45][ -]?(years?|yr)[ -]?olds?|ages? [34]-[56])\b/i,
+  ],
+  [
+    '6-8',
+    /\b((first|1st|second|2nd) grade|grade [12]|[678][ -]?(years?|yr)[ -]?olds?|ages? [56]-[78])\b/i,
+  ],
+];
+
+/** Same weights as the format categorizer: title 3, tags 2, description 1 */
+const FIELD_WEIGHTS = { title: 3, tags: 2, description: 1 } as const;
+/** Score at which a topic counts as certain (a title mention backed by a tag) */
+const FULL_CONFIDENCE_SCORE = 5;
+
+export function classifyEducationalTopics(
+  video: Pick<YouTubeVideoInfo, 'title' | 'description' | 'tags'>,
+): TopicClassification {
+  const fields = {
+    title: video.title,
+    tags: video.tags.join(' | '),
+    description: video.description ?? '',
+  };
+
+  const topicScores = new Map<
+    string,
+    { educationalCategory: EducationalCategory; score: number }
+  >();
+  const addScore = (topic: string, educationalCategory: EducationalCategory, score: number) => {
+    const entry = topicScores.get(topic) ?? { educationalCategory, score: 0 };
+    entry.score += score;
+    topicScores.set(topic, entry);
+  };
+
+  const ageScores = new Map<AgeBracket, number>();
+  for (const [field, weight] of Object.entries(FIELD_WEIGHTS) as Array<
+    [keyof typeof fields, number]
+  >) {
+    const text = fields[field];
+    if (!text) continue;
+    for (const { topic, educationalCategory, pattern } of TOPIC_PATTERNS) {
+      if (pattern.test(text)) addScore(topic, educationalCategory, weight);
+    }
+    const letter = text.match(LETTER_PATTERN);
+    if (letter) addScore(`letter ${letter[1].toUpperCase()}`, 'phonics_reading', weight);
+    for (const [bracket, pattern] of AGE_PATTERNS) {
+      if (pattern.test(text)) ageScores.set(bracket, (ageScores.get(bracket) ?? 0) + weight);
+    }
+  }
+
+  const topics: VideoTopic[] = [...topicScores]
+    .map(([topic, { educationalCategory, score }]) => ({
+      topic,
+      educationalCategory,
+      confidence: round(Math.min(score / FULL_CONFIDENCE_SCORE, 1)),
+    }))
+    .sort((a, b) => b.confidence - a.confidence || a.topic.localeCompare(b.topic));
+
+  // Category confidence: its share of all topic evidence, scaled by how strong that evidence is
+  const categoryScores = new Map<EducationalCategory, number>();
+  let total = 0;
+  for (const { educationalCategory, score } of topicScores.values()) {
+    categoryScores.set(educationalCategory, (categoryScores.get(educationalCategory) ?? 0) + score);
+    total += score;
+  }
+  const [best] = [...categoryScores].sort(([, a], [, b]) => b - a);
+
+  return {
+    educationalCategory: best?.[0] ?? null,
+    confidence: best ? round((best[1] / total) * Math.min(best[1] / FULL_CONFIDENCE_SCORE, 1)) : 0,
+    topics,
+    ageBracket: mostLikely(ageScores),
+  };
+}
+
+export function classifyVideoTopics(videos: YouTubeVideoInfo[]): Map<string, TopicClassification> {
+  return new Map(videos.map((v) => [v.videoId, classifyEducationalTopics(v)]));
+}
+
+/** Channels, videos and average views per (topic, age bracket) across competitor uploads */
+export function summarizeTopicCoverage(
+  videos: YouTubeVideoInfo[],
+  classifications: Map<string, TopicClassification>,
+): TopicCoverage[] {
+  const groups = new Map<
+    string,
+    { coverage: Omit<TopicCoverage, 'channels' | 'avgViews'>; channels: Set<string>; views: number }
+  >();
+
+  for (const video of videos) {
+    const classification = classifications.get(video.videoId);
+    if (!classification) continue;
+    for (const { topic, educationalCategory } of classification.topics) {
+      const key = `${topic}|${classification.ageBracket ?? '*'}`;
+      const group = groups.get(key) ?? {
+        coverage: { topic, educationalCategory, ageBracket: classification.ageBracket, videos: 0 },
+        channels: new Set<string>(),
+        views: 0,
+      };
+      group.coverage.videos++;
+      group.channels.add(video.channelId);
+      group.views += video.viewCount;
+      groups.set(key, group);
+    }
+  }
+
+  return [...groups.values()]
+    .map(({ coverage, channels, views }) => ({
+      ...coverage,
+      channels: channels.size,
+      avgViews: Math.round(views / coverage.videos),
+    }))
+    .sort((a, b) => b.avgViews - a.avgViews);
+}
+
+function mostLikely(scores: Map<AgeBracket, number>): AgeBracket | null {
+  let best: AgeBracket | null = null;
+  for (const [bracket, score] of scores) {
+    if (best === null || score > scores.get(best)!) best = bracket;
+  }
+  return best;
+}
+
+function escapeRegExp(term: string): string {
+  return term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest';
+import type { YouTubeVideoInfo } from '@kidsvid/shared';
+import { detectTrends, extractTopicPhrases } from './trends.js';
+import type { VideoVelocity } from './velocity.js';
+
+const NOW = new Date('2026-06-30T00:00:00Z');
+const DAY = 86400_000;
+
+let seq = 0;
+function upload(
+  title: string,
+  daysAgo: number,
+  viewCount: number,
+  overrides: Partial<YouTubeVideoInfo> = {},
+): YouTubeVideoInfo {
+  return {
+    videoId: `v${seq++}`,
+    channelId: 'ch1',
+    title,
+    description: '',
+    publishedAt: new Date(NOW.getTime() - daysAgo * DAY).toISOString(),
+    duration: 180,
+    viewCount,
+    likeCount: 0,
+    commentCount: 0,
+    tags: [],
+    thumbnailUrl: '',
+    defaultLanguage: 'en',
+    categoryId: '27',
+    ...overrides,
+  };
+}
+
+/** One upload titled `title` per entry in `days` (days ago), each at `viewsPerDay` lifetime views per day */
+function batch(title: string, days: number[], viewsPerDay: number, channelId = 'ch1') {
+  return days.map((d) => upload(title, d, viewsPerDay * d, { channelId }));
+}
+
+const options = { now: NOW };
+
+describe('extractTopicPhrases', () => {
+  it('matches known topics in titles and tags', () => {
+    const { topics } = extractTopicPhrases({
+      title: 'Learn Colours with Balloons!',
+      tags: ['counting song', 'fruits for kids'],
+    });
+
+    expect(topics.sort()).toEqual(['colors', 'counting', 'fruits and vegetables']);
+  });
+
+  it('offers non-stopword phrases as discovery candidates', () => {
+    const { candidates } = extractTopicPhrases({ title: 'Dinosaur Dance for Kids', tags: [] });
+
+    expect(candidates).toContain('dinosaur dance');
+    expect(candidates).not.toContain('kids');
+    expect(candidates).not.toContain('dance for');
+  });
+});
+
+describe('detectTrends', () => {
+  it('flags a topic whose share of recent velocity grew as rising', () => {
+    const videos = [
+      ...batch('Counting to 10', [40, 45, 50], 1000),
+      ...batch('Counting Apples', [5, 10, 15], 5000),
+      ...batch('Colors of the Rainbow', [40, 45, 50], 1000),
+      ...batch('Colors Everywhere', [5, 10, 15], 1000),
+    ];
+
+    const trends = detectTrends({ videos, options });
+
+    const counting = trends.find((t) => t.metadata.topic === 'counting');
+    expect(counting?.patternType).toBe('trend_rising');
+    expect(counting?.metadata.educationalCategory).toBe('early_math');
+    expect((counting?.metadata.videos as unknown[]).length).toBe(3);
+  });
+
+  it('flags a topic losing share as fading', () => {
+    const videos = [
+      ...batch('Shapes Song', [40, 45, 50], 4000),
+      ...batch('Shapes Hunt', [5, 10, 15], 1000),
+      ...batch('Animal Sounds', [40, 45, 50], 1000),
+      ...batch('Animal Friends', [5, 10, 15], 4000),
+    ];
+
+    const trends = detectTrends({ videos, options });
+
+    expect(trends.find((t) => t.metadata.topic === 'shapes')?.patternType).toBe('trend_fading');
+    expect(trends.find((t) => t.metadata.topic === 'animals')?.patternType).toBe('trend_rising');
+  });
+
+  it('prefers snapshot velocity over lifetime views per day', () => {
+    const videos = [
+      ...batch('Vehicles on the Road', [5, 10, 15], 1000),
+      ...batch('Weather Report', [5, 10, 15], 1000),
+    ];
+    const velocities = new Map<string, VideoVelocity>(
+      videos
+        .filter((v) => v.title.startsWith('Vehicles'))
+        .map((v) => [
+          v.videoId,
+          {
+            videoId: v.videoId,
+            channelId: v.channelId,
+            category: 'educational',
+            velocity7d: 20_000,
+            velocity30d: null,
+            acceleration: null,
+            breakout: false,
+          },
+        ]),
+    );
+
+    const trends = detectTrends({ videos, velocities, options });
+
+    expect(trends.map((t) => t.metadata.topic)).toEqual(['vehicles']);
+  });
+
+  it('only reports discovered terms that recur across channels', () => {
+    const videos = [
+      ...batch('Dinosaur Dance Party', [5, 10], 5000, 'ch1'),
+      upload('Dinosaur Dance Remix', 12, 60_000, { channelId: 'ch2' }),
+      ...batch('Cosmo Adventures', [5, 10, 15], 5000, 'ch3'),
+      ...batch('Bedtime Stories', [5, 10, 15, 20], 500, 'ch4'),
+    ];
+
+    const topics = detectTrends({ videos, options }).map((t) => t.metadata.topic);
+
+    expect(topics).toContain('dinosaur dance');
+    expect(topics).not.toContain('cosmo adventures');
+  });
+
+  it('ignores uploads outside both windows', () => {
+    expect(detectTrends({ videos: batch('Counting', [90, 100, 120], 9000), options })).toEqual([]);
+  });
+});
@@ -0,0 +1,284 @@
+import type {
+  ContentCategory,
+  EducationalCategory,
+  PatternFinding,
+  YouTubeVideoInfo,
+} from '@kidsvid/shared';
+import { KIDS_CONTENT_RULES } from '@kidsvid/shared';
+import type { CategorizeResult } from './categorizer.js';
+import type { VideoVelocity } from './velocity.js';
+import { formatNumber, mean, round } from './stats.js';
+
+/** Trending topic detection.
+ * Topic phrases are pulled from competitor titles and tags, then each topic's share of
+ * recent-upload view velocity is compared with the window before it. */
+
+export interface TrendOptions {
+  /** Length of each rolling window in days */
+  windowDays?: number;
+  /** Uploads a topic needs inside a window before it can trend */
+  minVideos?: number;
+  /** Share ratio between windows that counts as rising (its inverse counts as fading) */
+  minChange?: number;
+  now?: Date;
+}
+
+export interface TrendVideo {
+  videoId: string;
+  channelId: string;
+  title: string;
+  publishedAt: string;
+  /** Views per day: last-week velocity from snapshots, else lifetime views per day */
+  velocity: number;
+}
+
+const DAY_MS = 86400_000;
+const DEFAULT_WINDOW_DAYS = 30;
+const DEFAULT_MIN_VIDEOS = 3;
+const DEFAULT_MIN_CHANGE = 1.5;
+const MAX_SUPPORTING_VIDEOS = 10;
+
+/** Phrases that name each of KIDS_CONTENT_RULES.educationalTopics in titles and tags */
+export const TOPIC_TERMS: Record<
+  (typeof KIDS_CONTENT_RULES.educationalTopics)[number],
+  { educationalCategory: EducationalCategory; terms: string[] }
+> = {
+  colors: { educationalCategory: 'science', terms: ['color', 'colors', 'colour', 'colours'] },
+  numbers: { educationalCategory: 'early_math', terms: ['number', 'numbers', '123'] },
+  shapes: { educationalCategory: 'early_math', terms: ['shape', 'shapes'] },
+  ABCs: { educationalCategory: 'phonics_reading', terms: ['abc', 'abcs', 'alphabet', 'letters'] },
+  animals: { educationalCategory: 'science', terms: ['animal', 'animals'] },
+  counting: { educationalCategory: 'early_math', terms: ['count', 'counting'] },
+  phonics: { educationalCategory: 'phonics_reading', terms: ['phonics', 'letter sounds'] },
+  weather: { educationalCategory: 'science', terms: ['weather', 'rain', 'rainy day'] },
+  seasons: { educationalCategory: 'science', terms: ['season', 'seasons'] },
+  'body parts': { educationalCategory: 'science', terms: ['body parts', 'head shoulders'] },
+  'fruits and vegetables': {
+    educationalCategory: 'science',
+    terms: ['fruit', 'fruits', 'vegetable', 'vegetables'],
+  },
+  vehicles: {
+    educationalCategory: 'world_knowledge',
+    terms: ['vehicle', 'vehicles', 'car', 'cars', 'truck', 'trucks'],
+  },
+  professions: {
+    educationalCategory: 'world_knowledge',
+    terms: ['profession', 'professions', 'jobs', 'community helpers'],
+  },
+};
+
+const TERM_TO_TOPIC = new Map<string, string>(
+  Object.entries(TOPIC_TERMS).flatMap(([topic, { terms }]) =>
+    terms.map((term) => [term, topic] as const),
+  ),
+);
+
+/** Words that say nothing about the topic of a kids video */
+const STOPWORDS = new Set(
+  [
+    'a an and are at for from in is it of on or the to with you your my we our let lets learn',
+    'learning song songs kids kid children baby babies toddler toddlers nursery rhyme rhymes',
+    'video videos cartoon cartoons episode full new more best fun hour hours min minutes',
+    'compilation official shorts preschool educational education english hd',
+  ]
+    .join(' ')
+    .split(' '),
+);
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean);
+}
+
+function ngrams(tokens: string[], maxN: number): string[] {
+  const grams: string[] = [];
+  for (let n = 1; n <= maxN; n++) {
+    for (let i = 0; i + n <= tokens.length; i++) {
+      grams.push(tokens.slice(i, i + n).join(' '));
+    }
+  }
+  return grams;
+}
+
+/** Candidate phrase for discovery: no stopword at either end, no bare numbers */
+function isDiscoverable(gram: string): boolean {
+  const words = gram.split(' ');
+  const first = words[0];
+  const last = words[words.length - 1];
+  return (
+    !STOPWORDS.has(first) &&
+    !STOPWORDS.has(last) &&
+    words.every((w) => w.length >= 3 && !/^\d+$/.test(w))
+  );
+}
+
+/** Known educational topics named in a video's title and tags, plus candidate phrases for
+ * discovering topics outside the known list */
+export function extractTopicPhrases(video: Pick<YouTubeVideoInfo, 'title' | 'tags'>): {
+  topics: string[];
+  candidates: string[];
+} {
+  const grams = new Set<string>();
+  for (const text of [video.title, ...video.tags]) {
+    for (const gram of ngrams(tokenize(text), 3)) grams.add(gram);
+  }
+
+  const topics = new Set<string>();
+  const candidates = new Set<string>();
+  for (const gram of grams) {
+    const topic = TERM_TO_TOPIC.get(gram);
+    if (topic) topics.add(topic);
+    else if (gram.split(' ').length <= 2 && isDiscoverable(gram)) candidates.add(gram);
+  }
+  return { topics: [...topics], candidates: [...candidates] };
+}
+
+/** Educational category of a known topic; null for discovered terms */
+export function topicEducationalCategory(topic: string): EducationalCategory | null {
+  return TOPIC_TERMS[topic as keyof typeof TOPIC_TERMS]?.educationalCategory ?? null;
+}
+
+function videoVelocity(
+  video: YouTubeVideoInfo,
+  velocities: Map<string, VideoVelocity> | undefined,
+  now: number,
+): number {
+  const measured = velocities?.get(video.videoId)?.velocity7d;
+  if (measured != null) return measured;
+  const ageDays = Math.max(1, (now - new Date(video.publishedAt).getTime()) / DAY_MS);
+  return video.viewCount / ageDays;
+}
+
+interface TopicWindows {
+  recent: TrendVideo[];
+  prior: TrendVideo[];
+  discovered: boolean;
+}
+
+/** Find topics whose recent uploads are pulling a growing (or shrinking) share of view
+ * velocity, comparing the last `windowDays` of uploads with the `windowDays` before */
+export function detectTrends(input: {
+  videos: YouTubeVideoInfo[];
+  categories?: Map<string, CategorizeResult>;
+  velocities?: Map<string, VideoVelocity>;
+  options?: TrendOptions;
+}): PatternFinding[] {
+  const { videos, categories, velocities, options = {} } = input;
+  const windowDays = options.windowDays ?? DEFAULT_WINDOW_DAYS;
+  const minVideos = options.minVideos ?? DEFAULT_MIN_VIDEOS;
+  const minChange = options.minChange ?? DEFAULT_MIN_CHANGE;
+  const now = (options.now ?? new Date()).getTime();
+  const recentStart = now - windowDays * DAY_MS;
+  const priorStart = recentStart - windowDays * DAY_MS;
+
+  const topics = new Map<string, TopicWindows>();
+  const candidateChannels = new Map<string, Set<string>>();
+  const allRecent: number[] = [];
+  const allPrior: number[] = [];
+
+  for (const video of videos) {
+    const published = new Date(video.publishedAt).getTime();
+    if (Number.isNaN(published) || published < priorStart || published > now) continue;
+
+    const bucket = published >= recentStart ? 'recent' : 'prior';
+    const entry: TrendVideo = {
+      videoId: video.videoId,
+      channelId: video.channelId,
+      title: video.title,
+      publishedAt: video.publishedAt,
+      velocity: videoVelocity(video, velocities, now),
+    };
+    (bucket === 'recent' ? allRecent : allPrior).push(entry.velocity);
+
+    const { topics: known, candidates } = extractTopicPhrases(video);
+    for (const [phrases, discovered] of [
+      [known, false],
+      [candidates, true],
+    ] as const) {
+      for (const phrase of phrases) {
+        const windows = topics.get(phrase) ?? { recent: [], prior: [], discovered };
+        windows[bucket].push(entry);
+        topics.set(phrase, windows);
+        if (discovered) {
+          const channels = candidateChannels.get(phrase) ?? new Set<string>();
+          channels.add(video.channelId);
+          candidateChannels.set(phrase, channels);
+        }
+      }
+    }
+  }
+
+  const recentBaseline = mean(allRecent);
+  const priorBaseline = mean(allPrior);
+  if (recentBaseline === 0) return [];
+
+  const findings: PatternFinding[] = [];
+  for (const [topic, { recent, prior, discovered }] of topics) {
+    // A discovered term has to recur across channels, not just one channel's series title
+    if (discovered && (candidateChannels.get(topic)?.size ?? 0) < 2) continue;
+
+    const recentVelocity = mean(recent.map((v) => v.velocity));
+    const priorVelocity = mean(prior.map((v) => v.velocity));
+    const recentShare = recentVelocity / recentBaseline;
+    const priorShare = priorBaseline > 0 ? priorVelocity / priorBaseline : 0;
+
+    let direction: 'rising' | 'fading' | null = null;
+    let change: number;
+    if (prior.length < minVideos) {
+      // New topic: rising if it already outpaces the typical recent upload
+      change = recentShare;
+      if (recent.length >= minVideos && recentShare >= minChange) direction = 'rising';
+    } else {
+      change = priorShare > 0 ? recentShare / priorShare : recentShare;
+      if (recent.length >= minVideos && change >= minChange) direction = 'rising';
+      else if (change <= 1 / minChange) direction = 'fading';
+    }
+    if (!direction) continue;
+
+    const supporting = (direction === 'rising' ? recent : prior)
+      .slice()
+      .sort((a, b) => b.velocity - a.velocity);
+    const sampleSize = recent.length + prior.length;
+
+    findings.push({
+      patternType: `trend_${direction}`,
+      category: dominantCategory(supporting, categories),
+      finding: `"${topic}" is ${direction}: ${recent.length} uploads in the last ${windowDays} days average ${formatNumber(recentVelocity)} views/day, ${change.toFixed(1)}x ${prior.length >= minVideos ? 'its share of the previous window' : 'the typical recent upload'}.`,
+      confidence: Math.min(0.9, Math.round((0.3 + 0.05 * sampleSize) * 100) / 100),
+      sampleSize,
+      metadata: {
+        topic,
+        educationalCategory: discovered ? null : topicEducationalCategory(topic),
+        discovered,
+        windowDays,
+        recentUploads: recent.length,
+        priorUploads: prior.length,
+        recentVelocity: Math.round(recentVelocity),
+        priorVelocity: Math.round(priorVelocity),
+        change: round(change),
+        videos: supporting.slice(0, MAX_SUPPORTING_VIDEOS).map((v) => ({
+          ...v,
+          velocity: Math.round(v.velocity),
+        })),
+      },
+    });
+  }
+
+  return findings.sort((a, b) => (b.metadata.change as number) - (a.metadata.change as number));
+}
+
+function dominantCategory(
+  videos: TrendVideo[],
+  categories: Map<string, CategorizeResult> | undefined,
+): ContentCategory | null {
+  if (!categories) return null;
+  const counts = new Map<ContentCategory, number>();
+  for (const v of videos) {
+    const cat = categories.get(v.videoId)?.category;
+    if (cat) counts.set(cat, (counts.get(cat) ?? 0) + 1);
+  }
+  return [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] ?? null;
+}
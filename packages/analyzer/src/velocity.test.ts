@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import { computeVideoVelocities, aggregateVelocity, type VideoSnapshot } from './velocity.js';
+
+const NOW = new Date('2026-05-20T12:00:00Z');
+const DAY = 86400_000;
+
+function snap(
+  videoId: string,
+  daysAgo: number,
+  viewCount: number,
+  overrides: Partial<VideoSnapshot> = {},
+): VideoSnapshot {
+  return {
+    videoId,
+    channelId: 'ch1',
+    category: 'song',
+    viewCount,
+    capturedAt: new Date(NOW.getTime() - daysAgo * DAY),
+    ...overrides,
+  };
+}
+
+/** Snapshots for a video gaining `perDay` views every day over the last `days` days */
+function steady(videoId: string, perDay: number, days = 7, overrides: Partial<VideoSnapshot> = {}) {
+  return [snap(videoId, days, 0, overrides), snap(videoId, 0, perDay * days, overrides)];
+}
+
+describe('computeVideoVelocities', () => {
+  it('measures views gained per day over the last 7 and 30 days', () => {
+    const [v] = computeVideoVelocities(
+      [snap('a', 30, 1000), snap('a', 7, 10_000), snap('a', 0, 24_000)],
+      NOW,
+    );
+
+    expect(v.velocity7d).toBe(2000);
+    expect(v.velocity30d).toBeCloseTo(23_000 / 30);
+  });
+
+  it('leaves velocity null without two snapshots at least a day apart', () => {
+    const [single, sameDay] = computeVideoVelocities(
+      [snap('a', 0, 100), snap('b', 0.5, 100), snap('b', 0, 200)],
+      NOW,
+    );
+
+    expect(single.velocity7d).toBeNull();
+    expect(sameDay.velocity7d).toBeNull();
+    expect(sameDay.acceleration).toBeNull();
+  });
+
+  it('computes acceleration from the prior week to the last week', () => {
+    const [v] = computeVideoVelocities(
+      [snap('a', 14, 0), snap('a', 7, 7000), snap('a', 0, 21_000)],
+      NOW,
+    );
+
+    // 1000/day the week before, 2000/day last week
+    expect(v.acceleration).toBeCloseTo(1000 / 7);
+  });
+
+  it("flags videos far above their channel's median as breakouts", () => {
+    const velocities = computeVideoVelocities(
+      [...steady('a', 1000), ...steady('b', 1200), ...steady('c', 900), ...steady('hit', 8000)],
+      NOW,
+    );
+
+    const breakouts = velocities.filter((v) => v.breakout).map((v) => v.videoId);
+    expect(breakouts).toEqual(['hit']);
+  });
+
+  it('ignores fast risers below the minimum velocity', () => {
+    const velocities = computeVideoVelocities(
+      [...steady('a', 10), ...steady('b', 12), ...steady('c', 9), ...steady('hit', 500)],
+      NOW,
+    );
+
+    expect(velocities.some((v) => v.breakout)).toBe(false);
+  });
+});
+
+describe('aggregateVelocity', () => {
+  it('sums velocity per category, fastest first', () => {
+    const velocities = computeVideoVelocities(
+      [
+        ...steady('a', 1000),
+        ...steady('b', 500),
+        ...steady('c', 3000, 7, { category: 'educational' }),
+      ],
+      NOW,
+    );
+
+    const groups = aggregateVelocity(velocities, 'category');
+
+    expect(groups.map((g) => [g.key, g.videos, g.velocity7d])).toEqual([
+      ['educational', 1, 3000],
+      ['song', 2, 1500],
+    ]);
+  });
+});
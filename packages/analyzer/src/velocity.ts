@@ -0,0 +1,164 @@
+import type { ContentCategory, Database } from '@kidsvid/shared';
+import { competitorVideoSnapshots, gte, asc } from '@kidsvid/shared/db';
+import { median } from './stats.js';
+
+/** View velocity from competitor_video_snapshots.
+ * Lifetime views per day flatters old hits; the views gained between two snapshots show what
+ * is being watched now. */
+
+export interface VideoSnapshot {
+  videoId: string;
+  channelId: string;
+  category: ContentCategory;
+  viewCount: number;
+  capturedAt: Date;
+}
+
+export interface VideoVelocity {
+  videoId: string;
+  channelId: string;
+  category: ContentCategory;
+  /** Views per day over the last 7 / 30 days; null without two snapshots a day apart */
+  velocity7d: number | null;
+  velocity30d: number | null;
+  /** Change in views per day from the week before to the last week, per day */
+  acceleration: number | null;
+  /** Last-week velocity far above the channel's typical video */
+  breakout: boolean;
+}
+
+export interface GroupVelocity {
+  /** Channel id or content category */
+  key: string;
+  videos: number;
+  /** Summed views per day across the group's videos */
+  velocity7d: number;
+  velocity30d: number;
+  /** Mean acceleration of videos that have one */
+  acceleration: number;
+  breakouts: number;
+}
+
+const DAY_MS = 86400_000;
+const MIN_SPAN_DAYS = 1;
+
+/** A video breaks out at this multiple of its channel's median 7-day velocity... */
+export const BREAKOUT_MULTIPLIER = 3;
+/** ...and at least this many views per day, so tiny channels don't flag noise */
+export const BREAKOUT_MIN_VELOCITY = 1000;
+
+/** Snapshots captured since `since`, oldest first */
+export async function loadVideoSnapshots(db: Database, since: Date): Promise<VideoSnapshot[]> {
+  const rows = await db.query.competitorVideoSnapshots.findMany({
+    where: gte(competitorVideoSnapshots.capturedAt, since),
+    orderBy: [asc(competitorVideoSnapshots.capturedAt)],
+  });
+  return rows.map((row) => ({
+    videoId: row.youtubeVideoId,
+    channelId: row.youtubeChannelId,
+    category: row.category ?? 'other',
+    viewCount: row.viewCount,
+    capturedAt: row.capturedAt,
+  }));
+}
+
+/** Views per day between the first and last snapshot inside [start, end] */
+function velocityBetween(snapshots: VideoSnapshot[], start: number, end: number): number | null {
+  const inWindow = snapshots.filter((s) => {
+    const t = s.capturedAt.getTime();
+    return t >= start && t <= end;
+  });
+  if (inWindow.length < 2) return null;
+
+  const first = inWindow[0];
+  const last = inWindow[inWindow.length - 1];
+  const days = (last.capturedAt.getTime() - first.capturedAt.getTime()) / DAY_MS;
+  if (days < MIN_SPAN_DAYS) return null;
+  return Math.max(0, last.viewCount - first.viewCount) / days;
+}
+
+/** Velocity, acceleration and breakout flag for every video with snapshots */
+export function computeVideoVelocities(
+  snapshots: VideoSnapshot[],
+  now = new Date(),
+): VideoVelocity[] {
+  const byVideo = new Map<string, VideoSnapshot[]>();
+  for (const snapshot of snapshots) {
+    const list = byVideo.get(snapshot.videoId) ?? [];
+    list.push(snapshot);
+    byVideo.set(snapshot.videoId, list);
+  }
+
+  const end = now.getTime();
+  const velocities: VideoVelocity[] = [];
+  for (const [videoId, list] of byVideo) {
+    list.sort((a, b) => a.capturedAt.getTime() - b.capturedAt.getTime());
+    const latest = list[list.length - 1];
+    const velocity7d = velocityBetween(list, end - 7 * DAY_MS, end);
+    const priorWeek = velocityBetween(list, end - 14 * DAY_MS, end - 7 * DAY_MS);
+
+    velocities.push({
+      videoId,
+      channelId: latest.channelId,
+      category: latest.category,
+      velocity7d,
+      velocity30d: velocityBetween(list, end - 30 * DAY_MS, end),
+      acceleration: velocity7d !== null && priorWeek !== null ? (velocity7d - priorWeek) / 7 : null,
+      breakout: false,
+    });
+  }
+
+  markBreakouts(velocities);
+  return velocities;
+}
+
+/** Compare each video with its channel's median; channels with too few measured videos are
+ * compared with the median across all channels */
+function markBreakouts(velocities: VideoVelocity[]): void {
+  const measured = velocities.filter((v) => v.velocity7d !== null);
+  const overall = median(measured.map((v) => v.velocity7d!));
+
+  const byChannel = new Map<string, number[]>();
+  for (const v of measured) {
+    const list = byChannel.get(v.channelId) ?? [];
+    list.push(v.velocity7d!);
+    byChannel.set(v.channelId, list);
+  }
+
+  for (const v of measured) {
+    const peers = byChannel.get(v.channelId)!;
+    const baseline = peers.length >= 3 ? median(peers) : overall;
+    v.breakout =
+      v.velocity7d! >= BREAKOUT_MIN_VELOCITY && v.velocity7d! >= baseline * BREAKOUT_MULTIPLIER;
+  }
+}
+
+/** Roll video velocities up per channel or per content category, fastest first */
+export function aggregateVelocity(
+  velocities: VideoVelocity[],
+  by: 'channelId' | 'category',
+): GroupVelocity[] {
+  const groups = new Map<string, VideoVelocity[]>();
+  for (const v of velocities) {
+    const list = groups.get(v[by]) ?? [];
+    list.push(v);
+    groups.set(v[by], list);
+  }
+
+  return [...groups.entries()]
+    .map(([key, list]) => {
+      const accelerations = list.map((v) => v.acceleration).filter((a): a is number => a !== null);
+      return {
+        key,
+        videos: list.length,
+        velocity7d: Math.round(list.reduce((s, v) => s + (v.velocity7d ?? 0), 0)),
+        velocity30d: Math.round(list.reduce((s, v) => s + (v.velocity30d ?? 0), 0)),
+        acceleration:
+          accelerations.length > 0
+            ? Math.round(accelerations.reduce((s, a) => s + a, 0) / accelerations.length)
+            : 0,
+        breakouts: list.filter((v) => v.breakout).length,
+      };
+    })
+    .sort((a, b) => b.velocity7d - a.velocity7d);
+}
@@ -21,6 +21,7 @@ function createMockDb(options?: {
   snapshots?: Array<Record<string, unknown>>;
   strategies?: Array<Record<string, unknown>>;
   published?: Array<Record<string, unknown>>;
+  costs?: Array<Record<string, unknown>>;
 }) {
   return {
     query: {
@@ -33,6 +34,9 @@ function createMockDb(options?: {
       generatedVideos: {
         findMany: vi.fn().mockResolvedValue(options?.published ?? []),
       },
+      providerCosts: {
+        findMany: vi.fn().mockResolvedValue(options?.costs ?? []),
+      },
     },
   } as unknown as Database;
 }
@@ -174,6 +178,56 @@ describe('ReportGenerator', () => {
       );
       expect(dayUpdate?.suggestedValue).toBe('Wednesday');
     });
+
+    it('reports provider spend for the period', async () => {
+      const db = createMockDb({
+        snapshots: [
+          { youtubeVideoId: 'yt-1', viewCount: 1000, likeCount: 50, snapshotAt: new Date() },
+          { youtubeVideoId: 'yt-2', viewCount: 2000, likeCount: 80, snapshotAt: new Date() },
+          // Still tracked, but published long before the period
+          { youtubeVideoId: 'yt-old', viewCount: 9000, likeCount: 90, snapshotAt: new Date() },
+        ],
+        published: [
+          { youtubeVideoId: 'yt-1', status: 'published', publishedAt: new Date() },
+          { youtubeVideoId: 'yt-2', status: 'published', publishedAt: new Date() },
+          {
+            youtubeVideoId: 'yt-old',
+            status: 'published',
+            publishedAt: new Date('2025-01-01T00:00:00Z'),
+          },
+        ],
+        costs: [
+          { provider: 'veo', estimatedUsd: 6.4 },
+          { provider: 'veo', estimatedUsd: 3.2 },
+          { provider: 'anthropic', estimatedUsd: 0.1 },
+        ],
+      });
+
+      const reporter = new ReportGenerator(db, mockLogger);
+      const report = await reporter.generateWeeklyReport();
+
+      expect(report.costs).toEqual({
+        totalUsd: 9.7,
+        byProvider: { veo: 9.6, anthropic: 0.1 },
+        calls: 3,
+        perPublishedVideoUsd: 4.85,
+      });
+      expect(reporter.formatReport(report)).toContain('Total: $9.70 over 3 calls');
+    });
+
+    it('reports no per-video spend when nothing was published in the period', async () => {
+      const db = createMockDb({
+        snapshots: [
+          { youtubeVideoId: 'yt-old', viewCount: 9000, likeCount: 90, snapshotAt: new Date() },
+        ],
+        costs: [{ provider: 'anthropic', estimatedUsd: 0.4 }],
+      });
+
+      const report = await new ReportGenerator(db, mockLogger).generateWeeklyReport();
+
+      expect(report.costs.totalUsd).toBe(0.4);
+      expect(report.costs.perPublishedVideoUsd).toBe(0);
+    });
   });
 
   describe('feedBackToGenerator', () => {
@@ -1,6 +1,14 @@
-import type { Logger, StrategyEvaluation } from '@kidsvid/shared';
+import type { Logger, StrategyEvaluation, CostBreakdown } from '@kidsvid/shared';
 import type { Database } from '@kidsvid/shared';
-import { performanceSnapshots, generatedVideos, strategyScores, desc } from '@kidsvid/shared/db';
+import { summarizeCosts } from '@kidsvid/shared';
+import {
+  performanceSnapshots,
+  generatedVideos,
+  strategyScores,
+  providerCosts,
+  desc,
+  gte,
+} from '@kidsvid/shared/db';
 import * as fs from 'fs';
 import * as path from 'path';
 
@@ -25,6 +33,8 @@ export interface WeeklyReport {
   }>;
   recommendations: string[];
   generatorUpdates: GeneratorConfigUpdate[];
+  /** Provider spend during the period, and per video published in it (0 when none was) */
+  costs: CostBreakdown & { perPublishedVideoUsd: number };
 }
 
 export interface GeneratorConfigUpdate {
@@ -61,6 +71,16 @@ export class ReportGenerator {
       where: (gv, { eq: eqOp }) => eqOp(gv.status, 'published'),
     });
 
+    // Provider spend for the period
+    const costRows = await this.db.query.providerCosts.findMany({
+      where: gte(providerCosts.createdAt, start),
+      columns: { provider: true, estimatedUsd: true },
+    });
+    const costs = summarizeCosts(costRows);
+    const publishedInPeriod = published.filter(
+      (v) => v.publishedAt && v.publishedAt >= start && v.publishedAt <= end,
+    ).length;
+
     const totalViews = snapshots.reduce((s, p) => s + (p.viewCount ?? 0), 0);
     const totalLikes = snapshots.reduce((s, p) => s + (p.likeCount ?? 0), 0);
     const uniqueVideos = new Set(snapshots.map((s) => s.youtubeVideoId));
@@ -130,6 +150,11 @@ export class ReportGenerator {
       categoryBreakdown,
       recommendations,
       generatorUpdates,
+      costs: {
+        ...costs,
+        perPublishedVideoUsd:
+          publishedInPeriod > 0 ? Math.round((costs.totalUsd / publishedInPeriod) * 100) / 100 : 0,
+      },
     };
 
     this.logger.info(
@@ -139,6 +164,7 @@ export class ReportGenerator {
         avgViews: report.avgViewsPerVideo,
         recommendations: recommendations.length,
         configUpdates: generatorUpdates.length,
+        costUsd: costs.totalUsd,
       },
       'Weekly report generated',
     );
@@ -207,6 +233,16 @@ export class ReportGenerator {
       lines.push('');
     }
 
+    if (report.costs.calls > 0) {
+      lines.push('─── Provider Costs ───');
+      lines.push(`  Total: $${report.costs.totalUsd.toFixed(2)} over ${report.costs.calls} calls`);
+      lines.push(`  Per published video: $${report.costs.perPublishedVideoUsd.toFixed(2)}`);
+      for (const [provider, usd] of Object.entries(report.costs.byProvider)) {
+        lines.push(`  ${provider}: $${usd.toFixed(2)}`);
+      }
+      lines.push('');
+    }
+
     if (report.recommendations.length > 0) {
       lines.push('─── Recommendations ───');
       for (const rec of report.recommendations) {
@@ -1,6 +1,8 @@
-import { loadConfig, createLogger } from '@kidsvid/shared';
-import type { ScriptRequest } from '@kidsvid/shared';
+import { loadConfig, createLogger, getDb, loadLatestRunPatterns } from '@kidsvid/shared';
+import type { EducationalCategory, PatternFinding, ScriptRequest } from '@kidsvid/shared';
 import { ScriptGenerator } from './script-generator.js';
+import { SeriesGenerator } from './series-generator.js';
+import { createLLMProviderFromConfig, getLLMApiKey } from './providers/llm.js';
 
 async function main() {
   const args = process.argv.slice(2);
@@ -18,6 +20,9 @@ Options:
   --topic <topic>      Topic for the content (e.g., "counting to 10", "letter B")
   --age <bracket>      Age bracket: 2-4, 4-6, 6-8 (default: 4-6)
   --character <name>   Character name from bible (default: Cosmo)
+  --trending           List topics rising among competitors in the latest analysis run
+                       for the category and use the strongest one when --topic is not given
+  --insights           Brief the script with findings from the latest analysis run
   --help, -h           Show this help
     `);
     process.exit(0);
@@ -26,29 +31,61 @@ Options:
   const config = loadConfig();
   const logger = createLogger('generator', config.logLevel);
 
-  if (!config.anthropicApiKey) {
-    logger.error('ANTHROPIC_API_KEY is required for content generation');
+  const needsKey = config.llmProvider !== 'mock' && config.llmProvider !== 'openai-compatible';
+  if (needsKey && !getLLMApiKey(config)) {
+    logger.error(`An API key for LLM_PROVIDER=${config.llmProvider} is required for content generation`);
     process.exit(1);
   }
 
   const generator = new ScriptGenerator(
-    { anthropicApiKey: config.anthropicApiKey },
+    { llm: createLLMProviderFromConfig(config) },
     logger,
   );
 
   const categoryIdx = args.indexOf('--category');
   const topicIdx = args.indexOf('--topic');
   const ageIdx = args.indexOf('--age');
+  const educationalCategory = (
+    categoryIdx >= 0 ? args[categoryIdx + 1] : 'early_math'
+  ) as EducationalCategory;
+
+  let insights: PatternFinding[] | undefined;
+  let trendingTopic: string | undefined;
+  if (args.includes('--trending') || args.includes('--insights')) {
+    const latest = await loadLatestRunPatterns(getDb(config.databaseUrl));
+    if (!latest) logger.warn('No completed analysis run with findings — run the analyzer first');
+    else logger.info({ runId: latest.run.id }, 'Using findings from the latest analysis run');
+    if (args.includes('--insights')) insights = latest?.patterns;
+
+    if (args.includes('--trending')) {
+      const rising = new SeriesGenerator(logger).getTrendingTopics(latest?.patterns ?? [], {
+        category: educationalCategory,
+      });
+      if (rising.length === 0) {
+        logger.warn({ category: educationalCategory }, 'No rising topics in the latest analysis run');
+      }
+      for (const t of rising) {
+        logger.info({ topic: t.topic, change: t.change, viewsPerDay: t.recentVelocity }, t.finding);
+      }
+      trendingTopic = rising[0]?.topic;
+    }
+  }
 
   const request: ScriptRequest = {
     category: 'educational',
-    educationalCategory: (categoryIdx >= 0 ? args[categoryIdx + 1] : 'early_math') as any,
-    educationalObjective: topicIdx >= 0 ? args[topicIdx + 1] : 'Learn to count to 10',
+    educationalCategory,
+    educationalObjective:
+      topicIdx >= 0
+        ? args[topicIdx + 1]
+        : trendingTopic
+          ? `Learn about ${trendingTopic}`
+          : 'Learn to count to 10',
     engagementHooks: ['call_response', 'reward_loop', 'mystery_reveal', 'direct_address'],
     targetDuration: 180,
     ageBracket: (ageIdx >= 0 ? args[ageIdx + 1] : '4-6') as any,
     characterIds: [0], // Cosmo by default
-    topic: topicIdx >= 0 ? args[topicIdx + 1] : undefined,
+    topic: topicIdx >= 0 ? args[topicIdx + 1] : trendingTopic,
+    insights,
   };
 
   try {
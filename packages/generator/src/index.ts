@@ -1,4 +1,16 @@
-export { ScriptGenerator, type ScriptGeneratorOptions } from './script-generator.js';
+export {
+  ScriptGenerator,
+  failedScriptUsage,
+  type ScriptGeneratorOptions,
+} from './script-generator.js';
+export {
+  ScriptParseError,
+  scriptResponseSchema,
+  parseScriptResponse,
+  SCRIPT_OUTPUT_SCHEMA,
+  type ScriptResponse,
+  type ScriptParseResult,
+} from './script-schema.js';
 export { scoreContent, checkAntiBrainRotRules, PASSING_THRESHOLD, type ScoreableContent } from './quality-scorer.js';
 export { DEFAULT_CHARACTERS, getCharacterByName, getCharactersForAge } from './character-bible.js';
 export {
@@ -13,10 +25,14 @@ export {
   SeriesGenerator,
   SERIES_TEMPLATES,
   type SeriesRequest,
+  type SeriesConventions,
+  type TrendingTopic,
 } from './series-generator.js';
 export {
   ThumbnailIntelligence,
   THUMBNAIL_PATTERNS,
+  deriveThumbnailPatterns,
+  type ThumbnailPatterns,
 } from './thumbnail-intelligence.js';
 export { ContentDeduplicator, type DedupCheck, type DedupResult } from './dedup.js';
 export * from './providers/index.js';
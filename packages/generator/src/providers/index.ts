@@ -33,3 +33,16 @@ export {
   type NanoBananaOptions,
   type VideoProviderName,
 } from './video.js';
+export {
+  AnthropicLLMProvider,
+  OpenAILLMProvider,
+  OpenAICompatibleLLMProvider,
+  GeminiLLMProvider,
+  MockLLMProvider,
+  MOCK_SCRIPT_FIXTURE,
+  createLLMProvider,
+  createLLMProviderFromConfig,
+  getLLMApiKey,
+  type LLMProviderOptions,
+  type LLMProviderName,
+} from './llm.js';
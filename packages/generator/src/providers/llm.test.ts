@@ -0,0 +1,271 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderSceneScript, type Config, type EpisodeStructure } from '@kidsvid/shared';
+import {
+  AnthropicLLMProvider,
+  OpenAILLMProvider,
+  OpenAICompatibleLLMProvider,
+  GeminiLLMProvider,
+  MockLLMProvider,
+  MOCK_SCRIPT_FIXTURE,
+  createLLMProvider,
+  createLLMProviderFromConfig,
+} from './llm.js';
+import { parseScriptResponse, SCRIPT_OUTPUT_SCHEMA } from '../script-schema.js';
+import { scoreContent } from '../quality-scorer.js';
+
+const generateContent = vi.fn();
+
+vi.mock('@google/genai', () => ({
+  GoogleGenAI: class {
+    models = { generateContent };
+  },
+}));
+
+function mockFetch(body: unknown) {
+  const fetchMock = vi.fn().mockResolvedValue({
+    ok: true,
+    json: () => Promise.resolve(body),
+  });
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+const schema = {
+  name: 'answer',
+  schema: { type: 'object', properties: { n: { type: 'number' } }, required: ['n'] },
+};
+
+describe('AnthropicLLMProvider', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('forces a tool call for structured output and returns its input', async () => {
+    const fetchMock = mockFetch({
+      content: [{ type: 'tool_use', id: 'toolu_1', name: 'answer', input: { n: 3 } }],
+      usage: { input_tokens: 12, output_tokens: 5 },
+    });
+    const provider = new AnthropicLLMProvider({ apiKey: 'test-key' });
+
+    const res = await provider.complete({
+      system: 'Count things',
+      messages: [{ role: 'user', content: 'How many?' }],
+      jsonSchema: schema,
+    });
+
+    expect(fetchMock.mock.calls[0][0]).toBe('https://api.anthropic.com/v1/messages');
+    const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+    expect(body.system).toBe('Count things');
+    expect(body.tools[0]).toMatchObject({ name: 'answer', input_schema: schema.schema });
+    expect(body.tool_choice).toEqual({ type: 'tool', name: 'answer' });
+    expect(res.json).toEqual({ n: 3 });
+    expect(res.text).toBe('{"n":3}');
+    expect(res.usage).toEqual({ inputTokens: 12, outputTokens: 5 });
+  });
+
+  it('sends images as base64 blocks on the last message', async () => {
+    const fetchMock = mockFetch({ content: [{ type: 'text', text: 'A robot' }] });
+    const provider = new AnthropicLLMProvider({ apiKey: 'test-key' });
+
+    const res = await provider.complete({
+      messages: [{ role: 'user', content: 'What is this?' }],
+      images: [{ mimeType: 'image/png', data: 'abc' }],
+    });
+
+    const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+    expect(body.messages[0].content[0]).toEqual({
+      type: 'image',
+      source: { type: 'base64', media_type: 'image/png', data: 'abc' },
+    });
+    expect(res.text).toBe('A robot');
+    expect(res.json).toBeUndefined();
+  });
+
+  it('throws on API errors', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi
+        .fn()
+        .mockResolvedValue({ ok: false, status: 429, text: () => Promise.resolve('slow down') }),
+    );
+    const provider = new AnthropicLLMProvider({ apiKey: 'test-key' });
+
+    await expect(
+      provider.complete({ messages: [{ role: 'user', content: 'Hi' }] }),
+    ).rejects.toThrow('Anthropic API error 429: slow down');
+  });
+});
+
+describe('OpenAILLMProvider', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('uses the json_schema response format and a bearer token', async () => {
+    const fetchMock = mockFetch({
+      choices: [{ message: { content: '{"n":4}' } }],
+      usage: { prompt_tokens: 9, completion_tokens: 3 },
+    });
+    const provider = new OpenAILLMProvider({ apiKey: 'sk-test' });
+
+    const res = await provider.complete({
+      system: 'Count things',
+      messages: [{ role: 'user', content: 'How many?' }],
+      jsonSchema: schema,
+    });
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('https://api.openai.com/v1/chat/completions');
+    expect(init.headers.Authorization).toBe('Bearer sk-test');
+    const body = JSON.parse(init.body);
+    expect(body.messages[0]).toEqual({ role: 'system', content: 'Count things' });
+    expect(body.response_format).toEqual({
+      type: 'json_schema',
+      json_schema: { name: 'answer', schema: schema.schema },
+    });
+    expect(res.text).toBe('{"n":4}');
+    expect(res.usage).toEqual({ inputTokens: 9, outputTokens: 3 });
+  });
+});
+
+describe('OpenAICompatibleLLMProvider', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('calls the configured endpoint in JSON mode with the schema in the system prompt', async () => {
+    const fetchMock = mockFetch({ choices: [{ message: { content: '{"n":5}' } }] });
+    const provider = new OpenAICompatibleLLMProvider({
+      apiKey: '',
+      baseUrl: 'http://localhost:11434/v1',
+      model: 'llama3.1',
+    });
+
+    await provider.complete({
+      messages: [{ role: 'user', content: 'How many?' }],
+      jsonSchema: schema,
+    });
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('http://localhost:11434/v1/chat/completions');
+    expect(init.headers.Authorization).toBeUndefined();
+    const body = JSON.parse(init.body);
+    expect(body.model).toBe('llama3.1');
+    expect(body.response_format).toEqual({ type: 'json_object' });
+    expect(body.messages[0].role).toBe('system');
+    expect(body.messages[0].content).toContain('"required":["n"]');
+  });
+});
+
+describe('GeminiLLMProvider', () => {
+  beforeEach(() => {
+    generateContent.mockReset();
+  });
+
+  it('maps roles, images and the response schema onto generateContent', async () => {
+    generateContent.mockResolvedValue({
+      text: '{"n":6}',
+      usageMetadata: { promptTokenCount: 20, candidatesTokenCount: 4 },
+    });
+    const provider = new GeminiLLMProvider({ apiKey: 'test-key' });
+
+    const res = await provider.complete({
+      system: 'Count things',
+      messages: [
+        { role: 'user', content: 'How many?' },
+        { role: 'assistant', content: 'Five?' },
+        { role: 'user', content: 'Look again' },
+      ],
+      images: [{ mimeType: 'image/jpeg', data: 'frame' }],
+      jsonSchema: schema,
+    });
+
+    const args = generateContent.mock.calls[0][0];
+    expect(args.model).toBe('gemini-2.5-flash');
+    expect(args.contents.map((c: { role: string }) => c.role)).toEqual(['user', 'model', 'user']);
+    expect(args.contents[2].parts[1]).toEqual({
+      inlineData: { mimeType: 'image/jpeg', data: 'frame' },
+    });
+    expect(args.config).toMatchObject({
+      systemInstruction: 'Count things',
+      responseMimeType: 'application/json',
+      responseJsonSchema: schema.schema,
+    });
+    expect(res.text).toBe('{"n":6}');
+    expect(res.usage).toEqual({ inputTokens: 20, outputTokens: 4 });
+  });
+});
+
+describe('MockLLMProvider', () => {
+  it('returns the script fixture for script requests and records them', async () => {
+    const provider = new MockLLMProvider();
+
+    const res = await provider.complete({
+      messages: [{ role: 'user', content: 'Write a script' }],
+      jsonSchema: SCRIPT_OUTPUT_SCHEMA,
+    });
+
+    expect(res.json).toEqual(MOCK_SCRIPT_FIXTURE);
+    expect(provider.requests).toHaveLength(1);
+  });
+
+  it('serves registered fixtures by schema name and text otherwise', async () => {
+    const provider = new MockLLMProvider({ answer: { n: 7 }, text: 'Hello!' });
+
+    const structured = await provider.complete({ messages: [], jsonSchema: schema });
+    const plain = await provider.complete({ messages: [{ role: 'user', content: 'Hi' }] });
+
+    expect(structured.json).toEqual({ n: 7 });
+    expect(plain.text).toBe('Hello!');
+  });
+
+  it('ships a script fixture that validates and passes the quality gate', () => {
+    const parsed = parseScriptResponse(MOCK_SCRIPT_FIXTURE);
+    if (!parsed.success) throw new Error(parsed.issues.join('; '));
+
+    const script = parsed.data;
+    const score = scoreContent({
+      title: script.title,
+      script: renderSceneScript({ scenes: script.scenes }),
+      educationalObjective: script.educationalObjective,
+      learningTakeaways: script.learningTakeaways,
+      engagementHooks: script.engagementHooks,
+      episodeStructure: script.episodeStructure as EpisodeStructure,
+      ageBracket: '2-4',
+      estimatedDuration: script.estimatedDuration ?? 180,
+    });
+    expect(score.passed).toBe(true);
+  });
+});
+
+describe('createLLMProvider', () => {
+  it('creates each provider by name', () => {
+    expect(createLLMProvider('anthropic', { apiKey: 'k' }).name).toBe('anthropic');
+    expect(createLLMProvider('openai', { apiKey: 'k' }).name).toBe('openai');
+    expect(createLLMProvider('gemini', { apiKey: 'k' }).name).toBe('gemini');
+    expect(createLLMProvider('mock', { apiKey: '' }).name).toBe('mock');
+  });
+
+  it('requires a base URL and model for openai-compatible', () => {
+    expect(() => createLLMProvider('openai-compatible', { apiKey: '' })).toThrow(
+      'needs a base URL and a model',
+    );
+  });
+
+  it('throws for unknown providers', () => {
+    expect(() => createLLMProvider('palm' as never, { apiKey: '' })).toThrow(
+      'Unknown LLM provider: palm',
+    );
+  });
+
+  it('builds the provider selected in config', () => {
+    const provider = createLLMProviderFromConfig({
+      llmProvider: 'openai-compatible',
+      llmModel: 'qwen2.5',
+      llmBaseUrl: 'http://localhost:8000/v1',
+      llmApiKey: '',
+    } as Config);
+
+    expect(provider).toBeInstanceOf(OpenAICompatibleLLMProvider);
+  });
+});
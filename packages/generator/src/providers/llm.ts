@@ -0,0 +1,405 @@
+import type { Config, LLMProvider, LLMRequest, LLMResponse } from '@kidsvid/shared';
+import { GoogleGenAI } from '@google/genai';
+
+// ─── Anthropic (Default) ───
+
+export interface LLMProviderOptions {
+  apiKey: string;
+  model?: string;
+  baseUrl?: string;
+}
+
+type AnthropicBlock =
+  | { type: 'text'; text: string }
+  | { type: 'tool_use'; id: string; name: string; input: unknown };
+
+/** Anthropic Messages API. Structured output uses a forced tool call. */
+export class AnthropicLLMProvider implements LLMProvider {
+  readonly name = 'anthropic';
+  private apiKey: string;
+  private model: string;
+  private baseUrl: string;
+
+  constructor(options: LLMProviderOptions) {
+    this.apiKey = options.apiKey;
+    this.model = options.model ?? 'claude-sonnet-4-5-20250929';
+    this.baseUrl = options.baseUrl ?? 'https://api.anthropic.com/v1';
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const messages = request.messages.map((m, i) => {
+      const isLast = i === request.messages.length - 1;
+      if (!isLast || !request.images?.length) return m;
+      return {
+        role: m.role,
+        content: [
+          ...request.images.map((img) => ({
+            type: 'image',
+            source: { type: 'base64', media_type: img.mimeType, data: img.data },
+          })),
+          { type: 'text', text: m.content },
+        ],
+      };
+    });
+
+    const response = await fetch(`${this.baseUrl}/messages`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': this.apiKey,
+        'anthropic-version': '2023-06-01',
+      },
+      body: JSON.stringify({
+        model: this.model,
+        max_tokens: request.maxTokens ?? 4096,
+        system: request.system,
+        temperature: request.temperature,
+        messages,
+        ...(request.jsonSchema && {
+          tools: [
+            {
+              name: request.jsonSchema.name,
+              description: request.jsonSchema.description ?? 'Submit the result.',
+              input_schema: request.jsonSchema.schema,
+            },
+          ],
+          tool_choice: { type: 'tool', name: request.jsonSchema.name },
+        }),
+      }),
+    });
+
+    if (!response.ok) {
+      const body = await response.text();
+      throw new Error(`Anthropic API error ${response.status}: ${body}`);
+    }
+
+    const data = (await response.json()) as {
+      content?: AnthropicBlock[];
+      usage?: { input_tokens: number; output_tokens: number };
+    };
+    const content = data.content ?? [];
+    const toolUse = content.find((block) => block.type === 'tool_use');
+    const text = content.map((block) => (block.type === 'text' ? block.text : '')).join('');
+
+    return {
+      text: toolUse ? JSON.stringify(toolUse.input) : text,
+      json: toolUse?.input,
+      model: this.model,
+      usage: data.usage && {
+        inputTokens: data.usage.input_tokens,
+        outputTokens: data.usage.output_tokens,
+      },
+    };
+  }
+}
+
+// ─── OpenAI ───
+
+/** OpenAI Chat Completions. Structured output uses the json_schema response format. */
+export class OpenAILLMProvider implements LLMProvider {
+  readonly name: string = 'openai';
+  protected apiKey: string;
+  protected model: string;
+  protected baseUrl: string;
+
+  constructor(options: LLMProviderOptions) {
+    this.apiKey = options.apiKey;
+    this.model = options.model ?? 'gpt-4o';
+    this.baseUrl = options.baseUrl ?? 'https://api.openai.com/v1';
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const messages: Array<{ role: string; content: unknown }> = [];
+    if (request.system) messages.push({ role: 'system', content: request.system });
+    request.messages.forEach((m, i) => {
+      const isLast = i === request.messages.length - 1;
+      if (!isLast || !request.images?.length) {
+        messages.push(m);
+        return;
+      }
+      messages.push({
+        role: m.role,
+        content: [
+          { type: 'text', text: m.content },
+          ...request.images.map((img) => ({
+            type: 'image_url',
+            image_url: { url: `data:${img.mimeType};base64,${img.data}` },
+          })),
+        ],
+      });
+    });
+
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey && { Authorization: `Bearer ${this.apiKey}` }),
+      },
+      body: JSON.stringify({
+        model: this.model,
+        max_tokens: request.maxTokens ?? 4096,
+        temperature: request.temperature,
+        messages,
+        ...(request.jsonSchema && { response_format: this.responseFormat(request) }),
+      }),
+    });
+
+    if (!response.ok) {
+      const body = await response.text();
+      throw new Error(`${this.name} API error ${response.status}: ${body}`);
+    }
+
+    const data = (await response.json()) as {
+      choices?: { message?: { content?: string | null } }[];
+      usage?: { prompt_tokens: number; completion_tokens: number };
+    };
+
+    return {
+      text: data.choices?.[0]?.message?.content ?? '',
+      model: this.model,
+      usage: data.usage && {
+        inputTokens: data.usage.prompt_tokens,
+        outputTokens: data.usage.completion_tokens,
+      },
+    };
+  }
+
+  protected responseFormat(request: LLMRequest): Record<string, unknown> {
+    return {
+      type: 'json_schema',
+      json_schema: { name: request.jsonSchema!.name, schema: request.jsonSchema!.schema },
+    };
+  }
+}
+
+// ─── OpenAI-compatible (Ollama, vLLM, LM Studio) ───
+
+/** Local or self-hosted endpoints speaking the OpenAI chat API.
+ * Most only support plain JSON mode, so the schema goes into the system prompt instead. */
+export class OpenAICompatibleLLMProvider extends OpenAILLMProvider {
+  readonly name = 'openai-compatible';
+
+  constructor(options: LLMProviderOptions & { baseUrl: string; model: string }) {
+    super(options);
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    if (!request.jsonSchema) return super.complete(request);
+    const schemaHint = `Respond with a single JSON object matching this JSON schema:\n${JSON.stringify(request.jsonSchema.schema)}`;
+    return super.complete({
+      ...request,
+      system: request.system ? `${request.system}\n\n${schemaHint}` : schemaHint,
+    });
+  }
+
+  protected responseFormat(): Record<string, unknown> {
+    return { type: 'json_object' };
+  }
+}
+
+// ─── Google Gemini ───
+
+/** Gemini via @google/genai. Structured output uses JSON mode with a response schema. */
+export class GeminiLLMProvider implements LLMProvider {
+  readonly name = 'gemini';
+  private client: GoogleGenAI;
+  private model: string;
+
+  constructor(options: LLMProviderOptions) {
+    this.client = new GoogleGenAI({ apiKey: options.apiKey });
+    this.model = options.model ?? 'gemini-2.5-flash';
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    const contents = request.messages.map((m, i) => {
+      const isLast = i === request.messages.length - 1;
+      const images = isLast ? (request.images ?? []) : [];
+      return {
+        role: m.role === 'assistant' ? 'model' : 'user',
+        parts: [
+          { text: m.content },
+          ...images.map((img) => ({ inlineData: { mimeType: img.mimeType, data: img.data } })),
+        ],
+      };
+    });
+
+    const response = await this.client.models.generateContent({
+      model: this.model,
+      contents,
+      config: {
+        systemInstruction: request.system,
+        maxOutputTokens: request.maxTokens,
+        temperature: request.temperature,
+        ...(request.jsonSchema && {
+          responseMimeType: 'application/json',
+          responseJsonSchema: request.jsonSchema.schema,
+        }),
+      },
+    });
+
+    return {
+      text: response.text ?? '',
+      model: this.model,
+      usage: response.usageMetadata && {
+        inputTokens: response.usageMetadata.promptTokenCount ?? 0,
+        outputTokens: response.usageMetadata.candidatesTokenCount ?? 0,
+      },
+    };
+  }
+}
+
+// ─── Mock ───
+
+/** Fixture script that passes validation and the quality gate */
+export const MOCK_SCRIPT_FIXTURE = {
+  title: 'Count to 5 with Cosmo!',
+  description:
+    'Join Cosmo the robot as he counts apples from 1 to 5. Sing along, count with your fingers, and learn numbers!',
+  scenes: [
+    {
+      section: 'hook',
+      duration: 15,
+      visual: 'Cosmo discovers a mystery basket under an apple tree',
+      lines: [{ speaker: 'Cosmo', text: 'Hey friends! What could be inside this basket?' }],
+      onScreenText: [],
+      sfx: ['rustle'],
+    },
+    {
+      section: 'problem',
+      duration: 30,
+      visual: 'Red apples tumble out of the basket',
+      lines: [
+        { speaker: 'Cosmo', text: 'So many apples! How many are there? Can you count with me?' },
+      ],
+      onScreenText: [],
+      sfx: ['boing'],
+    },
+    {
+      section: 'exploration',
+      duration: 90,
+      visual: 'Each apple glows as it is counted, with a big number beside it',
+      lines: [
+        { speaker: 'Cosmo', text: 'One apple, two apples, three apples, four apples, five!' },
+        { speaker: 'Cosmo', text: 'Hold up your fingers and count with me! 1, 2, 3, 4, 5!' },
+        {
+          speaker: 'Cosmo',
+          text: 'Let us sing the counting song! One, two, three, four, five!',
+          delivery: 'singing',
+        },
+      ],
+      onScreenText: ['1', '2', '3', '4', '5'],
+      sfx: ['ding'],
+      learningObjective: 'Count from 1 to 5',
+    },
+    {
+      section: 'resolution',
+      duration: 30,
+      visual: 'Confetti and stars as Cosmo dances',
+      lines: [{ speaker: 'Cosmo', text: 'You did it! Great job! We learned to count to 5!' }],
+      onScreenText: ['5'],
+      sfx: ['cheer'],
+      learningObjective: 'Match numbers to quantities',
+    },
+    {
+      section: 'nextPreview',
+      duration: 15,
+      visual: 'A circle peeks out from behind the tree',
+      lines: [{ speaker: 'Cosmo', text: 'Next time: shapes! Can you guess what this is?' }],
+      onScreenText: [],
+      sfx: [],
+    },
+  ],
+  tags: ['counting', 'numbers', 'kids', 'educational', 'learn to count'],
+  estimatedDuration: 180,
+  educationalObjective: 'Learn to count objects from 1 to 5',
+  learningTakeaways: ['Count from 1 to 5', 'Match numbers to quantities'],
+  engagementHooks: ['call_response', 'reward_loop', 'mystery_reveal', 'direct_address'],
+  episodeStructure: {
+    hook: { duration: 15, description: 'Cosmo discovers a mystery basket of apples' },
+    problem: { duration: 30, description: 'How many apples are there? Let us count!' },
+    exploration: {
+      duration: 90,
+      description:
+        'Count together using apples, then fingers, then sing the counting song to learn numbers',
+    },
+    resolution: { duration: 30, description: 'Celebration! We learned to count to 5!' },
+    nextPreview: { duration: 15, description: 'Next time: shapes! Can you find a circle?' },
+  },
+};
+
+/** Deterministic offline provider. Structured requests get the fixture registered under the
+ * schema name; plain text requests get fixtures.text. Requests are recorded for assertions. */
+export class MockLLMProvider implements LLMProvider {
+  readonly name = 'mock';
+  readonly requests: LLMRequest[] = [];
+  private fixtures: Record<string, unknown>;
+
+  constructor(fixtures: Record<string, unknown> = {}) {
+    this.fixtures = { submit_script: MOCK_SCRIPT_FIXTURE, ...fixtures };
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    this.requests.push(request);
+    if (request.jsonSchema) {
+      const fixture = this.fixtures[request.jsonSchema.name] ?? {};
+      return { text: JSON.stringify(fixture), json: fixture, model: 'mock' };
+    }
+    return { text: String(this.fixtures.text ?? 'Mock response'), model: 'mock' };
+  }
+}
+
+// ─── Factory ───
+
+export type LLMProviderName = 'anthropic' | 'openai' | 'gemini' | 'openai-compatible' | 'mock';
+
+export function createLLMProvider(
+  provider: LLMProviderName,
+  options: LLMProviderOptions,
+): LLMProvider {
+  switch (provider) {
+    case 'anthropic':
+      return new AnthropicLLMProvider(options);
+    case 'openai':
+      return new OpenAILLMProvider(options);
+    case 'gemini':
+      return new GeminiLLMProvider(options);
+    case 'openai-compatible':
+      if (!options.baseUrl || !options.model) {
+        throw new Error('openai-compatible LLM provider needs a base URL and a model');
+      }
+      return new OpenAICompatibleLLMProvider({
+        ...options,
+        baseUrl: options.baseUrl,
+        model: options.model,
+      });
+    case 'mock':
+      return new MockLLMProvider();
+    default:
+      throw new Error(`Unknown LLM provider: ${provider}`);
+  }
+}
+
+/** API key loadConfig() holds for the configured LLM provider ('' when none is needed) */
+export function getLLMApiKey(config: Config): string {
+  switch (config.llmProvider) {
+    case 'anthropic':
+      return config.anthropicApiKey;
+    case 'openai':
+      return config.openaiApiKey;
+    case 'gemini':
+      return config.googleApiKey;
+    case 'openai-compatible':
+      return config.llmApiKey;
+    case 'mock':
+      return '';
+  }
+}
+
+/** The LLM provider selected by LLM_PROVIDER, with its key, model and endpoint from config */
+export function createLLMProviderFromConfig(config: Config): LLMProvider {
+  return createLLMProvider(config.llmProvider, {
+    apiKey: getLLMApiKey(config),
+    model: config.llmModel || undefined,
+    baseUrl: config.llmProvider === 'openai-compatible' ? config.llmBaseUrl : undefined,
+  });
+}
@@ -1,4 +1,5 @@
-import type { MusicProvider } from '@kidsvid/shared';
+import type { MusicProvider, ProviderUsage } from '@kidsvid/shared';
+import { tokenUsage } from '@kidsvid/shared';
 import { GoogleGenAI } from '@google/genai';
 
 // ─── Google Gemini Music (Primary) ───
@@ -28,7 +29,7 @@ export class GeminiMusicProvider implements MusicProvider {
   async generate(
     prompt: string,
     duration: number,
-  ): Promise<{ audioUrl: string; duration: number }> {
+  ): Promise<{ audioUrl: string; duration: number; usage: ProviderUsage }> {
     const enhancedPrompt = this.buildMusicPrompt(prompt, duration);
 
     const response = await this.client.models.generateContent({
@@ -55,6 +56,10 @@ export class GeminiMusicProvider implements MusicProvider {
     return {
       audioUrl: `gemini-music://${this.model}/${Date.now()}.wav`,
       duration,
+      usage: tokenUsage('gemini', this.model, {
+        inputTokens: response.usageMetadata?.promptTokenCount ?? 0,
+        outputTokens: response.usageMetadata?.candidatesTokenCount ?? 0,
+      }),
     };
   }
 
@@ -1,4 +1,5 @@
-import type { ThumbnailProvider } from '@kidsvid/shared';
+import type { ProviderUsage, ThumbnailProvider } from '@kidsvid/shared';
+import { unitUsage } from '@kidsvid/shared';
 
 /** DALL-E thumbnail generator. Follows kids content thumbnail best practices:
  * bright saturated colors, expressive characters, bold text, minimal clutter. */
@@ -9,7 +10,7 @@ export class DalleThumbnailProvider implements ThumbnailProvider {
   async generate(
     prompt: string,
     style = 'vibrant',
-  ): Promise<{ url: string; metadata: Record<string, unknown> }> {
+  ): Promise<{ url: string; metadata: Record<string, unknown>; usage: ProviderUsage }> {
     const enhancedPrompt = this.enhancePrompt(prompt, style);
 
     const response = await fetch('https://api.openai.com/v1/images/generations', {
@@ -44,6 +45,7 @@ export class DalleThumbnailProvider implements ThumbnailProvider {
         originalPrompt: prompt,
         style,
       },
+      usage: unitUsage('openai', 'dall-e-3', 'images', 1),
     };
   }
 
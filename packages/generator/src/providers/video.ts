@@ -1,4 +1,5 @@
-import type { VideoProvider } from '@kidsvid/shared';
+import type { ProviderUsage, VideoProvider } from '@kidsvid/shared';
+import { unitUsage } from '@kidsvid/shared';
 import { GoogleGenAI } from '@google/genai';
 
 // ─── Google Veo 3.1 (Primary) ───
@@ -34,7 +35,7 @@ export class VeoVideoProvider implements VideoProvider {
   async generate(
     prompt: string,
     duration: number,
-  ): Promise<{ videoUrl: string; duration: number }> {
+  ): Promise<{ videoUrl: string; duration: number; usage: ProviderUsage }> {
     // Clamp duration to Veo's supported values (4, 6, or 8 seconds)
     const veoDuration = duration <= 5 ? 4 : duration <= 7 ? 6 : 8;
 
@@ -74,6 +75,7 @@ export class VeoVideoProvider implements VideoProvider {
     return {
       videoUrl: videoUri ?? `veo://${this.model}/${Date.now()}.mp4`,
       duration: veoDuration,
+      usage: unitUsage('veo', this.model, 'seconds', veoDuration),
     };
   }
 
@@ -106,7 +108,7 @@ export class NanoBananaVideoProvider implements VideoProvider {
   async generate(
     prompt: string,
     duration: number,
-  ): Promise<{ videoUrl: string; duration: number }> {
+  ): Promise<{ videoUrl: string; duration: number; usage: ProviderUsage }> {
     const response = await fetch(`${this.baseUrl}/generate`, {
       method: 'POST',
       headers: {
@@ -132,6 +134,7 @@ export class NanoBananaVideoProvider implements VideoProvider {
     return {
       videoUrl: data.video_url,
       duration: data.duration,
+      usage: unitUsage('nanobanana', 'nanobanana', 'seconds', data.duration),
     };
   }
 
@@ -1,4 +1,5 @@
-import type { VoiceProvider } from '@kidsvid/shared';
+import type { ProviderUsage, VoiceProvider } from '@kidsvid/shared';
+import { tokenUsage, unitUsage } from '@kidsvid/shared';
 import { GoogleGenAI } from '@google/genai';
 
 // ─── OpenAI TTS (Default) ───
@@ -45,7 +46,7 @@ export class OpenAITTSProvider implements VoiceProvider {
   async generate(
     text: string,
     voiceId?: string,
-  ): Promise<{ audioUrl: string; duration: number }> {
+  ): Promise<{ audioUrl: string; duration: number; usage: ProviderUsage }> {
     const voice = voiceId || this.defaultVoice;
 
     const response = await fetch('https://api.openai.com/v1/audio/speech', {
@@ -75,6 +76,7 @@ export class OpenAITTSProvider implements VoiceProvider {
     return {
       audioUrl: `openai-tts://${voice}/${this.model}/${Date.now()}.${this.responseFormat}`,
       duration: estimatedDuration,
+      usage: unitUsage('openai', this.model, 'characters', text.length),
     };
   }
 
@@ -148,7 +150,7 @@ export class GeminiTTSProvider implements VoiceProvider {
   async generate(
     text: string,
     voiceId?: string,
-  ): Promise<{ audioUrl: string; duration: number }> {
+  ): Promise<{ audioUrl: string; duration: number; usage: ProviderUsage }> {
     const voice = voiceId || this.voiceName;
 
     const response = await this.client.models.generateContent({
@@ -181,6 +183,10 @@ export class GeminiTTSProvider implements VoiceProvider {
     return {
       audioUrl: `gemini-tts://${voice}/${this.model}/${Date.now()}.wav`,
       duration: estimatedDuration,
+      usage: tokenUsage('gemini', this.model, {
+        inputTokens: response.usageMetadata?.promptTokenCount ?? 0,
+        outputTokens: response.usageMetadata?.candidatesTokenCount ?? 0,
+      }),
     };
   }
 
@@ -1,5 +1,7 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { ScriptGenerator } from './script-generator.js';
+import { ScriptGenerator, failedScriptUsage } from './script-generator.js';
+import { ScriptParseError } from './script-schema.js';
+import { MockLLMProvider } from './providers/llm.js';
 import type { ScriptRequest, Logger } from '@kidsvid/shared';
 
 // Mock logger
@@ -31,12 +33,45 @@ function makeRequest(overrides: Partial<ScriptRequest> = {}): ScriptRequest {
 const MOCK_LLM_RESPONSE = JSON.stringify({
   title: 'Count to 5 with Cosmo!',
   description: 'Join Cosmo the robot as he learns to count from 1 to 5 with colorful apples.',
-  script: `[Cosmo bounces in] "Hey friends! Let's count together! Can you count with me?"
-[Five apples appear] "One apple, two apples, three apples!"
-"That's right! Can you name the color? Yes, they're red!"
-[Stars appear] "Let's try with stars: one, two, three, four, five!"
-"Do you know what? Let's count one more time! 1, 2, 3, 4, 5!"
-[Confetti] "You did it! We learned to count to 5!"`,
+  scenes: [
+    {
+      section: 'hook',
+      duration: 15,
+      visual: 'Cosmo bounces in under an apple tree',
+      lines: [{ speaker: 'Cosmo', text: "Hey friends! Let's count together! Can you count with me?" }],
+      sfx: ['boing'],
+    },
+    {
+      section: 'problem',
+      duration: 30,
+      visual: 'Five red apples fall from the tree',
+      lines: [{ speaker: 'Cosmo', text: 'How many apples fell? Can you name the color? Yes, they are red!' }],
+    },
+    {
+      section: 'exploration',
+      duration: 60,
+      visual: 'Apples light up one at a time as they are counted',
+      onScreenText: ['1', '2', '3', '4', '5'],
+      lines: [
+        { speaker: 'Cosmo', text: 'One apple, two apples, three apples, four, five!' },
+        { speaker: 'Cosmo', text: "Let's count one more time! 1, 2, 3, 4, 5!", delivery: 'singing' },
+      ],
+      learningObjective: 'Count from 1 to 5',
+    },
+    {
+      section: 'resolution',
+      duration: 30,
+      visual: 'Confetti and stars',
+      lines: [{ speaker: 'Cosmo', text: 'You did it! We learned to count to 5!' }],
+      sfx: ['cheer'],
+    },
+    {
+      section: 'nextPreview',
+      duration: 15,
+      visual: 'A mystery circle peeks out from behind a box',
+      lines: [{ speaker: 'Cosmo', text: 'Next time: shapes! Can you find a circle?' }],
+    },
+  ],
   tags: ['counting', 'numbers', 'kids', 'educational'],
   estimatedDuration: 150,
   educationalObjective: 'Learn to count objects from 1 to 5',
@@ -121,6 +156,8 @@ describe('ScriptGenerator', () => {
     expect(body.messages[0].content).toContain('early_math');
     expect(body.messages[0].content).toContain('Counting apples');
     expect(body.messages[0].content).toContain('2-4');
+    expect(body.tools[0].name).toBe('submit_script');
+    expect(body.tool_choice).toEqual({ type: 'tool', name: 'submit_script' });
   });
 
   it('includes character descriptions in prompt', async () => {
@@ -143,6 +180,83 @@ describe('ScriptGenerator', () => {
     expect(body.messages[0].content).toContain('Cosmo');
   });
 
+  it('briefs the prompt with confident findings from the latest analysis', async () => {
+    const mockFetch = vi.fn().mockResolvedValue({
+      ok: true,
+      json: () => Promise.resolve({
+        content: [{ type: 'text', text: MOCK_LLM_RESPONSE }],
+      }),
+    });
+    vi.stubGlobal('fetch', mockFetch);
+
+    const finding = (patternType: string, finding: string, confidence: number) => ({
+      patternType,
+      category: null,
+      finding,
+      confidence,
+      sampleSize: 100,
+      metadata: {},
+    });
+    const gen = new ScriptGenerator(
+      { anthropicApiKey: 'test-key', maxRetries: 0 },
+      mockLogger,
+    );
+
+    await gen.generate(
+      makeRequest({
+        insights: [
+          finding('duration', 'Videos of 3-5 minutes do best', 0.97),
+          finding('title_keywords', 'Titles with "surprise" do better', 0.4),
+          finding('trend_fading', '"slime" is fading', 0.99),
+        ],
+      }),
+    );
+
+    const prompt = JSON.parse(mockFetch.mock.calls[0][1].body).messages[0].content;
+    expect(prompt).toContain('What Works for Competitors');
+    expect(prompt).toContain('Videos of 3-5 minutes do best');
+    expect(prompt).not.toContain('surprise');
+    expect(prompt).not.toContain('slime');
+  });
+
+  it('only passes findings of the requested format into the prompt', async () => {
+    const mockFetch = vi.fn().mockResolvedValue({
+      ok: true,
+      json: () => Promise.resolve({ content: [{ type: 'text', text: MOCK_LLM_RESPONSE }] }),
+    });
+    vi.stubGlobal('fetch', mockFetch);
+    const finding = (patternType: string, text: string, format: 'short' | 'long_form') => ({
+      patternType,
+      category: null,
+      finding: text,
+      confidence: 0.95,
+      sampleSize: 100,
+      metadata: {},
+      format,
+    });
+    const insights = [
+      finding('shorts_hook', 'Shorts open on the payoff', 'short'),
+      finding('shorts_loop', 'Shorts that loop get replayed', 'short'),
+      finding('duration', 'Episodes of 3-5 minutes do best', 'long_form'),
+    ];
+    const gen = new ScriptGenerator(
+      { anthropicApiKey: 'test-key', maxRetries: 0 },
+      mockLogger,
+    );
+
+    await gen.generate(makeRequest({ insights }));
+    await gen.generate(makeRequest({ insights, targetDuration: 45 }));
+
+    const [episode, short] = mockFetch.mock.calls.map(
+      (call) => JSON.parse(call[1].body).messages[0].content as string,
+    );
+    expect(episode).toContain('Episodes of 3-5 minutes do best');
+    expect(episode).not.toContain('Shorts open on the payoff');
+    expect(episode).not.toContain('Shorts that loop');
+    expect(short).toContain('Shorts open on the payoff');
+    expect(short).not.toContain('Episodes of 3-5 minutes');
+  });
+
   it('includes engagement hook descriptions in prompt', async () => {
     const mockFetch = vi.fn().mockResolvedValue({
       ok: true,
@@ -164,7 +278,7 @@ describe('ScriptGenerator', () => {
     expect(body.messages[0].content).toContain('Reward Loop');
   });
 
-  it('handles malformed LLM response gracefully', async () => {
+  it('throws ScriptParseError when the response never validates', async () => {
     const mockFetch = vi.fn().mockResolvedValue({
       ok: true,
       json: () => Promise.resolve({
@@ -173,6 +287,92 @@ describe('ScriptGenerator', () => {
     });
     vi.stubGlobal('fetch', mockFetch);
 
+    const gen = new ScriptGenerator(
+      { anthropicApiKey: 'test-key', maxRetries: 2, maxRepairAttempts: 1 },
+      mockLogger,
+    );
+
+    const error = await gen.generate(makeRequest()).catch((err) => err);
+
+    expect(error).toBeInstanceOf(ScriptParseError);
+    expect(error.issues).toEqual(['No JSON object found in response']);
+    expect(error.rawResponse).toContain('plain text about counting');
+    // One repair turn, and no quality-gate regenerations for an unreadable response
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('attaches the usage of every call to the error when generation fails', async () => {
+    const mockFetch = vi.fn().mockResolvedValue({
+      ok: true,
+      json: () => Promise.resolve({
+        content: [{ type: 'text', text: 'Not a script' }],
+        usage: { input_tokens: 1200, output_tokens: 300 },
+      }),
+    });
+    vi.stubGlobal('fetch', mockFetch);
+
+    const gen = new ScriptGenerator(
+      { anthropicApiKey: 'test-key', maxRepairAttempts: 2 },
+      mockLogger,
+    );
+
+    const error = await gen.generate(makeRequest()).catch((err) => err);
+
+    expect(error).toBeInstanceOf(ScriptParseError);
+    // The first request and both repair turns were billed
+    expect(failedScriptUsage(error)).toHaveLength(3);
+    expect(failedScriptUsage(error)[0]).toMatchObject({ unit: 'tokens', units: 1500 });
+  });
+
+  it('sends validation errors back to the model and accepts the repaired script', async () => {
+    const invalid = { ...JSON.parse(MOCK_LLM_RESPONSE), engagementHooks: ['jump_scare'] };
+    const mockFetch = vi
+      .fn()
+      .mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve({
+          content: [{ type: 'tool_use', id: 'toolu_1', name: 'submit_script', input: invalid }],
+        }),
+      })
+      .mockResolvedValueOnce({
+        ok: true,
+        json: () => Promise.resolve({
+          content: [
+            {
+              type: 'tool_use',
+              id: 'toolu_2',
+              name: 'submit_script',
+              input: JSON.parse(MOCK_LLM_RESPONSE),
+            },
+          ],
+        }),
+      });
+    vi.stubGlobal('fetch', mockFetch);
+
+    const gen = new ScriptGenerator(
+      { anthropicApiKey: 'test-key', maxRetries: 0 },
+      mockLogger,
+    );
+
+    const result = await gen.generate(makeRequest());
+
+    expect(result.title).toBe('Count to 5 with Cosmo!');
+    const repairBody = JSON.parse(mockFetch.mock.calls[1][1].body);
+    expect(repairBody.messages).toHaveLength(3);
+    expect(repairBody.messages[1]).toEqual({ role: 'assistant', content: JSON.stringify(invalid) });
+    expect(repairBody.messages[2].role).toBe('user');
+    expect(repairBody.messages[2].content).toContain('engagementHooks.0');
+  });
+
+  it('returns the validated scene script and renders it for review', async () => {
+    const mockFetch = vi.fn().mockResolvedValue({
+      ok: true,
+      json: () => Promise.resolve({
+        content: [{ type: 'text', text: MOCK_LLM_RESPONSE }],
+      }),
+    });
+    vi.stubGlobal('fetch', mockFetch);
+
     const gen = new ScriptGenerator(
       { anthropicApiKey: 'test-key', maxRetries: 0 },
       mockLogger,
@@ -180,10 +380,36 @@ describe('ScriptGenerator', () => {
 
     const result = await gen.generate(makeRequest());
 
-    // Should fall back gracefully
-    expect(result.title).toBe('Generated Script');
-    expect(result.script).toContain('counting');
-    expect(result.qualityScore.passed).toBe(false);
+    expect(result.sceneScript?.scenes.map((s) => s.section)).toEqual([
+      'hook',
+      'problem',
+      'exploration',
+      'resolution',
+      'nextPreview',
+    ]);
+    expect(result.sceneScript?.scenes[2].onScreenText).toEqual(['1', '2', '3', '4', '5']);
+    expect(result.script).toContain('SCENE 3 — EXPLORATION (0:45–1:45)');
+    expect(result.script).toContain('COSMO (singing): ');
+    expect(result.script).toContain('[SFX: boing]');
+  });
+
+  it('rejects scenes that are out of section order', async () => {
+    const response = JSON.parse(MOCK_LLM_RESPONSE);
+    response.scenes.reverse();
+    const mockFetch = vi.fn().mockResolvedValue({
+      ok: true,
+      json: () => Promise.resolve({
+        content: [{ type: 'text', text: JSON.stringify(response) }],
+      }),
+    });
+    vi.stubGlobal('fetch', mockFetch);
+
+    const gen = new ScriptGenerator(
+      { anthropicApiKey: 'test-key', maxRetries: 0, maxRepairAttempts: 0 },
+      mockLogger,
+    );
+
+    await expect(gen.generate(makeRequest())).rejects.toThrow('is out of order');
   });
 
   it('handles API error', async () => {
@@ -207,7 +433,9 @@ describe('ScriptGenerator', () => {
     const badResponse = JSON.stringify({
       title: 'Fun Video',
       description: 'A fun video',
-      script: 'Something happens.',
+      scenes: [
+        { section: 'hook', duration: 150, visual: 'Something happens', lines: [] },
+      ],
       tags: [],
       estimatedDuration: 150,
       educationalObjective: 'Learn counting',
@@ -268,4 +496,19 @@ describe('ScriptGenerator', () => {
     const result = await gen.generate(makeRequest());
     expect(result.title).toBe('Count to 5 with Cosmo!');
   });
+
+  it('generates offline through an injected LLM provider', async () => {
+    const mockFetch = vi.fn();
+    vi.stubGlobal('fetch', mockFetch);
+    const llm = new MockLLMProvider();
+
+    const gen = new ScriptGenerator({ llm, maxRetries: 0 }, mockLogger);
+    const result = await gen.generate(makeRequest());
+
+    expect(mockFetch).not.toHaveBeenCalled();
+    expect(llm.requests).toHaveLength(1);
+    expect(llm.requests[0].jsonSchema?.name).toBe('submit_script');
+    expect(result.title).toBe('Count to 5 with Cosmo!');
+    expect(result.qualityScore.passed).toBe(true);
+  });
 });
@@ -3,36 +3,81 @@ import type {
   GeneratedScript,
   EngagementHookType,
   EpisodeStructure,
+  LLMMessage,
+  LLMProvider,
   Logger,
+  PatternFinding,
+  ProviderUsage,
+  VideoFormat,
+} from '@kidsvid/shared';
+import {
+  KIDS_CONTENT_RULES,
+  renderSceneScript,
+  sceneScriptDuration,
+  tokenUsage,
 } from '@kidsvid/shared';
 import { getTemplateForAge, ENGAGEMENT_HOOK_DESCRIPTIONS } from './templates/episode-structure.js';
 import { DEFAULT_CHARACTERS } from './character-bible.js';
 import { scoreContent } from './quality-scorer.js';
+import { AnthropicLLMProvider } from './providers/llm.js';
+import {
+  SCRIPT_OUTPUT_SCHEMA,
+  ScriptParseError,
+  parseScriptResponse,
+  type ScriptResponse,
+} from './script-schema.js';
 
 /** LLM-powered script generator for kids educational content.
- * Uses Anthropic Claude API to generate scripts following the episode template structure. */
+ * Generates scripts following the episode template structure through any LLMProvider.
+ * Responses are validated against a schema; invalid ones are sent back to the model to repair. */
 
 export interface ScriptGeneratorOptions {
-  anthropicApiKey: string;
+  /** Provider to generate with. Defaults to Anthropic using anthropicApiKey and model. */
+  llm?: LLMProvider;
+  anthropicApiKey?: string;
   model?: string;
+  /** Regenerations when a script fails the quality gate */
   maxRetries?: number;
+  /** Follow-up turns asking the model to fix a response that failed validation */
+  maxRepairAttempts?: number;
+}
+
+/** Provider usage a failed generate() call had already spent; generate() attaches it to the error
+ * it throws so the caller can still bill those calls */
+export function failedScriptUsage(err: unknown): ProviderUsage[] {
+  return (err instanceof Error && (err as Error & { usage?: ProviderUsage[] }).usage) || [];
 }
 
 export class ScriptGenerator {
-  private apiKey: string;
-  private model: string;
+  private llm: LLMProvider;
   private maxRetries: number;
+  private maxRepairAttempts: number;
 
   constructor(
     private options: ScriptGeneratorOptions,
     private logger: Logger,
   ) {
-    this.apiKey = options.anthropicApiKey;
-    this.model = options.model ?? 'claude-sonnet-4-5-20250929';
+    this.llm =
+      options.llm ??
+      new AnthropicLLMProvider({ apiKey: options.anthropicApiKey ?? '', model: options.model });
     this.maxRetries = options.maxRetries ?? 2;
+    this.maxRepairAttempts = options.maxRepairAttempts ?? 2;
   }
 
   async generate(request: ScriptRequest): Promise<GeneratedScript> {
+    const usage: ProviderUsage[] = [];
+    try {
+      return await this.generateWithUsage(request, usage);
+    } catch (err) {
+      if (err instanceof Error) Object.assign(err, { usage });
+      throw err;
+    }
+  }
+
+  private async generateWithUsage(
+    request: ScriptRequest,
+    usage: ProviderUsage[],
+  ): Promise<GeneratedScript> {
     const template = getTemplateForAge(request.educationalCategory, request.ageBracket);
 
     // Resolve characters
@@ -51,8 +96,10 @@ export class ScriptGenerator {
         'Generating script',
       );
 
-      const response = await this.callLLM(currentPrompt);
-      const parsed = this.parseResponse(response, request, template);
+      // A ScriptParseError propagates: quality feedback can't help a response we can't read
+      const response = await this.requestScript(currentPrompt, usage);
+      const parsed = this.toGeneratedScript(response);
+      parsed.usage = usage;
 
       // Quality gate
       const score = scoreContent({
@@ -136,13 +183,15 @@ ${request.engagementHooks.map((h) => `- ${formatHookType(h)}`).join('\n')}
 
 ## Template Guidance
 ${template.promptGuidance}
-
+${formatInsights(request)}
 ## Rules
 - Use simple vocabulary appropriate for ${request.ageBracket} year olds
 - Include at least 2 moments where the viewer is directly addressed ("Can you count with me?")
 - Include at least 1 song or chant section
 - Every visual element must serve the learning objective
-- Include stage directions in [brackets] for animation cues
+- Break the script into scenes; every scene belongs to one episode section, in order
+- Describe what the animator should show in each scene's "visual"
+- Tag every spoken line with its speaker
 - Include a clear learning takeaway at the end
 - Minimize complex dialogue — this should work globally with minimal translation
 - NO scary content, NO conflict that doesn't resolve, NO mean characters
@@ -151,7 +200,17 @@ ${template.promptGuidance}
 {
   "title": "Engaging title with hook (max 60 chars)",
   "description": "YouTube description with keywords (150-200 words)",
-  "script": "Full script with dialogue, stage directions, and timing markers",
+  "scenes": [
+    {
+      "section": "hook" | "problem" | "exploration" | "resolution" | "nextPreview",
+      "duration": <seconds>,
+      "visual": "What is on screen",
+      "lines": [{"speaker": "Character name or Narrator", "text": "Spoken line", "delivery": "optional, e.g. singing"}],
+      "onScreenText": ["Text overlays, e.g. numbers or words being taught"],
+      "sfx": ["Sound effect cues"],
+      "learningObjective": "Which learning takeaway this scene teaches (optional)"
+    }
+  ],
   "tags": ["tag1", "tag2", ...],
   "estimatedDuration": <seconds>,
   "educationalObjective": "What the child will learn",
@@ -167,73 +226,91 @@ ${template.promptGuidance}
 }`;
   }
 
-  private async callLLM(prompt: string): Promise<string> {
-    const response = await fetch('https://api.anthropic.com/v1/messages', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-api-key': this.apiKey,
-        'anthropic-version': '2023-06-01',
-      },
-      body: JSON.stringify({
-        model: this.model,
-        max_tokens: 4096,
-        messages: [{ role: 'user', content: prompt }],
-      }),
-    });
-
-    if (!response.ok) {
-      const body = await response.text();
-      throw new Error(`Anthropic API error ${response.status}: ${body}`);
-    }
+  /** Ask for a script and repair invalid responses by sending the validation errors back */
+  private async requestScript(prompt: string, usage: ProviderUsage[]): Promise<ScriptResponse> {
+    const messages: LLMMessage[] = [{ role: 'user', content: prompt }];
+    let issues: string[] = [];
+    let raw = '';
+
+    for (let repair = 0; repair <= this.maxRepairAttempts; repair++) {
+      const response = await this.llm.complete({
+        messages,
+        jsonSchema: SCRIPT_OUTPUT_SCHEMA,
+        maxTokens: 4096,
+      });
+      raw = response.text;
+      if (response.usage) usage.push(tokenUsage(this.llm.name, response.model, response.usage));
 
-    const data = (await response.json()) as {
-      content: { type: string; text: string }[];
-    };
+      const result = parseScriptResponse(response.json ?? response.text);
+      if (result.success) return result.data;
 
-    return data.content[0]?.text || '';
-  }
+      issues = result.issues;
+      if (repair === this.maxRepairAttempts) break;
 
-  private parseResponse(
-    response: string,
-    request: ScriptRequest,
-    template: ReturnType<typeof getTemplateForAge>,
-  ): GeneratedScript {
-    try {
-      // Extract JSON from response (may be wrapped in markdown code blocks)
-      const jsonMatch = response.match(/\{[\s\S]*\}/);
-      if (!jsonMatch) throw new Error('No JSON found in response');
-
-      const parsed = JSON.parse(jsonMatch[0]);
-
-      return {
-        title: parsed.title || 'Untitled',
-        description: parsed.description || '',
-        script: parsed.script || '',
-        tags: parsed.tags || [],
-        estimatedDuration: parsed.estimatedDuration || request.targetDuration,
-        educationalObjective: parsed.educationalObjective || request.educationalObjective,
-        engagementHooks: (parsed.engagementHooks || request.engagementHooks) as EngagementHookType[],
-        episodeStructure: parsed.episodeStructure || template.structure,
-        learningTakeaways: parsed.learningTakeaways || [],
-        qualityScore: { educationalValue: 0, engagementPotential: 0, passed: false, feedback: [] },
-      };
-    } catch {
-      this.logger.error('Failed to parse LLM response, using fallback');
-      return {
-        title: 'Generated Script',
-        description: '',
-        script: response,
-        tags: [],
-        estimatedDuration: request.targetDuration,
-        educationalObjective: request.educationalObjective,
-        engagementHooks: request.engagementHooks,
-        episodeStructure: template.structure,
-        learningTakeaways: [],
-        qualityScore: { educationalValue: 0, engagementPotential: 0, passed: false, feedback: ['Failed to parse LLM response'] },
-      };
+      this.logger.warn(
+        { repair, issues, provider: this.llm.name },
+        'Script response failed validation, asking for a repair',
+      );
+      messages.push({ role: 'assistant', content: response.text });
+      messages.push({
+        role: 'user',
+        content: `The script did not match the required schema. Fix these problems and submit the complete script again:\n${issues.map((i) => `- ${i}`).join('\n')}`,
+      });
     }
+
+    this.logger.error({ issues }, 'Script response still invalid after repair attempts');
+    throw new ScriptParseError(
+      `LLM response failed validation after ${this.maxRepairAttempts} repair attempt(s): ${issues.join('; ')}`,
+      issues,
+      raw,
+    );
   }
+
+  private toGeneratedScript(response: ScriptResponse): GeneratedScript {
+    const sceneScript = { scenes: response.scenes };
+    return {
+      title: response.title,
+      description: response.description,
+      script: renderSceneScript(sceneScript),
+      sceneScript,
+      tags: response.tags,
+      estimatedDuration: response.estimatedDuration ?? sceneScriptDuration(sceneScript),
+      educationalObjective: response.educationalObjective,
+      engagementHooks: response.engagementHooks,
+      // The template pins hook/problem/resolution/preview lengths; the type mirrors that
+      episodeStructure: response.episodeStructure as EpisodeStructure,
+      learningTakeaways: response.learningTakeaways,
+      qualityScore: { educationalValue: 0, engagementPotential: 0, passed: false, feedback: [] },
+    };
+  }
+}
+
+/** Confident findings that apply to this request, at most a handful so they inform the
+ * script without crowding out the template guidance */
+const MAX_INSIGHTS = 6;
+const MIN_INSIGHT_CONFIDENCE = 0.8;
+
+function formatInsights(request: ScriptRequest): string {
+  const format = requestFormat(request);
+  const relevant = (request.insights ?? []).filter(
+    (f: PatternFinding) =>
+      f.confidence >= MIN_INSIGHT_CONFIDENCE &&
+      f.patternType !== 'trend_fading' &&
+      (f.category === null || f.category === request.category) &&
+      (!f.format || f.format === format),
+  );
+  if (relevant.length === 0) return '';
+
+  const lines = [...relevant]
+    .sort((a, b) => b.confidence - a.confidence)
+    .slice(0, MAX_INSIGHTS)
+    .map((f) => `- ${f.finding}`);
+  return `\n## What Works for Competitors (latest analysis)\n${lines.join('\n')}\n`;
+}
+
+/** Scripts under a minute are Shorts, the same split the analyzer detects patterns by */
+function requestFormat(request: ScriptRequest): VideoFormat {
+  return request.targetDuration < KIDS_CONTENT_RULES.shortsMaxDuration ? 'short' : 'long_form';
 }
 
 function formatHookType(hook: EngagementHookType): string {
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { parseScriptResponse, SCRIPT_OUTPUT_SCHEMA } from './script-schema.js';
+
+const validResponse = {
+  title: 'Shapes with Cosmo',
+  description: 'Find circles and squares!',
+  scenes: [
+    {
+      section: 'hook',
+      duration: 15,
+      visual: 'A circle rolls past Cosmo',
+      lines: [{ speaker: 'Cosmo', text: 'What was that?' }],
+    },
+  ],
+  educationalObjective: 'Recognize circles and squares',
+  learningTakeaways: ['Circles are round'],
+  engagementHooks: ['mystery_reveal'],
+  episodeStructure: {
+    hook: { duration: 15, description: 'A rolling circle' },
+    problem: { duration: 30, description: 'Which shape rolls?' },
+    exploration: { duration: 120, description: 'Test shapes' },
+    resolution: { duration: 30, description: 'Circles roll!' },
+    nextPreview: { duration: 15, description: 'Triangles next' },
+  },
+};
+
+describe('parseScriptResponse', () => {
+  it('accepts a tool-use input object and fills defaults', () => {
+    const result = parseScriptResponse(validResponse);
+
+    expect(result.success).toBe(true);
+    if (result.success) expect(result.data.tags).toEqual([]);
+  });
+
+  it('extracts JSON from text wrapped in a code block', () => {
+    const result = parseScriptResponse('```json\n' + JSON.stringify(validResponse) + '\n```');
+
+    expect(result.success).toBe(true);
+  });
+
+  it('reports invalid JSON', () => {
+    const result = parseScriptResponse('{"title": "oops",}');
+
+    expect(result.success).toBe(false);
+    if (!result.success) expect(result.issues[0]).toMatch(/^Invalid JSON/);
+  });
+
+  it('reports each schema violation with its path', () => {
+    const result = parseScriptResponse({
+      ...validResponse,
+      title: '',
+      engagementHooks: ['jump_scare'],
+      episodeStructure: { ...validResponse.episodeStructure, problem: undefined },
+    });
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.issues).toHaveLength(3);
+      expect(result.issues.some((i) => i.startsWith('title:'))).toBe(true);
+      expect(result.issues.some((i) => i.startsWith('engagementHooks.0:'))).toBe(true);
+      expect(result.issues.some((i) => i.startsWith('episodeStructure.problem:'))).toBe(true);
+    }
+  });
+});
+
+describe('SCRIPT_OUTPUT_SCHEMA', () => {
+  it('requires the same top-level fields as the zod schema', () => {
+    expect(SCRIPT_OUTPUT_SCHEMA.schema.required).toEqual(
+      expect.arrayContaining(['title', 'scenes', 'episodeStructure']),
+    );
+  });
+});
@@ -0,0 +1,147 @@
+import { z } from 'zod';
+import { ENGAGEMENT_HOOK_TYPES, SCENE_SECTIONS, sceneScriptSchema } from '@kidsvid/shared';
+import type { LLMJsonSchema } from '@kidsvid/shared';
+
+/** Schema for the script generator's LLM response.
+ * The zod schema is the source of truth; the JSON schema mirrors it for the provider's
+ * tool use / JSON mode so the model is constrained to the same shape we validate against. */
+
+const sectionSchema = z.object({
+  duration: z.number().positive(),
+  description: z.string().min(1),
+});
+
+export const scriptResponseSchema = z.object({
+  title: z.string().min(1),
+  description: z.string(),
+  scenes: sceneScriptSchema.shape.scenes,
+  tags: z.array(z.string()).default([]),
+  estimatedDuration: z.number().positive().optional(),
+  educationalObjective: z.string().min(1),
+  learningTakeaways: z.array(z.string()),
+  engagementHooks: z.array(z.enum(ENGAGEMENT_HOOK_TYPES)),
+  episodeStructure: z.object({
+    hook: sectionSchema,
+    problem: sectionSchema,
+    exploration: sectionSchema,
+    resolution: sectionSchema,
+    nextPreview: sectionSchema,
+  }),
+});
+
+export type ScriptResponse = z.infer<typeof scriptResponseSchema>;
+
+const jsonSection = {
+  type: 'object',
+  properties: { duration: { type: 'number' }, description: { type: 'string' } },
+  required: ['duration', 'description'],
+};
+
+/** Structured output schema sent with every script request */
+export const SCRIPT_OUTPUT_SCHEMA = {
+  name: 'submit_script',
+  description: 'Submit the finished episode script.',
+  schema: {
+    type: 'object',
+    properties: {
+      title: { type: 'string', description: 'Engaging title with hook (max 60 chars)' },
+      description: { type: 'string', description: 'YouTube description with keywords' },
+      scenes: {
+        type: 'array',
+        minItems: 1,
+        items: {
+          type: 'object',
+          properties: {
+            section: { type: 'string', enum: [...SCENE_SECTIONS] },
+            duration: { type: 'number', description: 'Seconds' },
+            visual: { type: 'string', description: 'What is on screen' },
+            lines: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  speaker: { type: 'string' },
+                  text: { type: 'string' },
+                  delivery: { type: 'string' },
+                },
+                required: ['speaker', 'text'],
+              },
+            },
+            onScreenText: { type: 'array', items: { type: 'string' } },
+            sfx: { type: 'array', items: { type: 'string' } },
+            learningObjective: { type: 'string' },
+          },
+          required: ['section', 'duration', 'visual', 'lines'],
+        },
+      },
+      tags: { type: 'array', items: { type: 'string' } },
+      estimatedDuration: { type: 'number' },
+      educationalObjective: { type: 'string' },
+      learningTakeaways: { type: 'array', items: { type: 'string' } },
+      engagementHooks: {
+        type: 'array',
+        items: { type: 'string', enum: [...ENGAGEMENT_HOOK_TYPES] },
+      },
+      episodeStructure: {
+        type: 'object',
+        properties: {
+          hook: jsonSection,
+          problem: jsonSection,
+          exploration: jsonSection,
+          resolution: jsonSection,
+          nextPreview: jsonSection,
+        },
+        required: ['hook', 'problem', 'exploration', 'resolution', 'nextPreview'],
+      },
+    },
+    required: [
+      'title',
+      'description',
+      'scenes',
+      'educationalObjective',
+      'learningTakeaways',
+      'engagementHooks',
+      'episodeStructure',
+    ],
+  },
+} as const satisfies LLMJsonSchema;
+
+/** The model's output could not be turned into a valid script, even after repair attempts */
+export class ScriptParseError extends Error {
+  constructor(
+    message: string,
+    public issues: string[],
+    public rawResponse: string,
+  ) {
+    super(message);
+    this.name = 'ScriptParseError';
+  }
+}
+
+export type ScriptParseResult =
+  | { success: true; data: ScriptResponse }
+  | { success: false; issues: string[] };
+
+/** Validate a tool-use input object, or a text response containing JSON
+ * (possibly wrapped in a markdown code block). */
+export function parseScriptResponse(response: unknown): ScriptParseResult {
+  let value = response;
+  if (typeof response === 'string') {
+    const jsonMatch = response.match(/\{[\s\S]*\}/);
+    if (!jsonMatch) return { success: false, issues: ['No JSON object found in response'] };
+    try {
+      value = JSON.parse(jsonMatch[0]);
+    } catch (err) {
+      return { success: false, issues: [`Invalid JSON: ${(err as Error).message}`] };
+    }
+  }
+
+  const result = scriptResponseSchema.safeParse(value);
+  if (result.success) return { success: true, data: result.data };
+  return {
+    success: false,
+    issues: result.error.issues.map((issue) =>
+      issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message,
+    ),
+  };
+}
@@ -1,6 +1,7 @@
 import { describe, it, expect, vi } from 'vitest';
 import { SeriesGenerator, SERIES_TEMPLATES } from './series-generator.js';
-import type { Logger } from '@kidsvid/shared';
+import { MockLLMProvider } from './providers/llm.js';
+import type { Logger, PatternFinding } from '@kidsvid/shared';
 
 const mockLogger: Logger = {
   info: vi.fn(), warn: vi.fn(), error: vi.fn(), debug: vi.fn(),
@@ -164,6 +165,43 @@ describe('SeriesGenerator', () => {
     });
   });
 
+  describe('planFromPrompt', () => {
+    it('uses the LLM plan when it validates', async () => {
+      const llm = new MockLLMProvider({
+        plan_series: {
+          name: 'Ocean Friends',
+          educationalCategory: 'world_knowledge',
+          topic: 'sea animals',
+          ageBracket: '4-6',
+          totalEpisodes: 6,
+        },
+      });
+      const gen = new SeriesGenerator(mockLogger, llm);
+      const series = await gen.planFromPrompt('Six short episodes about whales and crabs for preschoolers');
+
+      expect(llm.requests[0].messages[0].content).toContain('whales');
+      expect(series.name).toBe('Ocean Friends');
+      expect(series.educationalCategory).toBe('world_knowledge');
+      expect(series.episodeOutlines).toHaveLength(6);
+    });
+
+    it('falls back to keyword parsing when the plan is invalid', async () => {
+      const llm = new MockLLMProvider({ plan_series: { name: 'Oops', totalEpisodes: 0 } });
+      const gen = new SeriesGenerator(mockLogger, llm);
+      const series = await gen.planFromPrompt('Create a 5-episode series about counting for 4-year-olds');
+
+      expect(series.totalEpisodes).toBe(5);
+      expect(series.educationalCategory).toBe('early_math');
+    });
+
+    it('parses the prompt without an LLM', async () => {
+      const gen = new SeriesGenerator(mockLogger);
+      const series = await gen.planFromPrompt('Make a 26-episode alphabet series for 2-year-olds');
+
+      expect(series.educationalCategory).toBe('phonics_reading');
+    });
+  });
+
   describe('getTopicsForCategory', () => {
     it('returns topics for early_math', () => {
       const gen = new SeriesGenerator(mockLogger);
@@ -187,6 +225,103 @@ describe('SeriesGenerator', () => {
       }
     });
   });
+
+  describe('getTrendingTopics', () => {
+    const trend = (
+      direction: 'rising' | 'fading',
+      topic: string,
+      educationalCategory: string | null,
+      change: number,
+    ): PatternFinding => ({
+      patternType: `trend_${direction}`,
+      category: 'educational',
+      finding: `"${topic}" is ${direction}`,
+      confidence: 0.6,
+      sampleSize: 8,
+      metadata: { topic, educationalCategory, change, recentVelocity: 5000, recentUploads: 4 },
+    });
+
+    it('returns rising topics for a category, strongest first', () => {
+      const gen = new SeriesGenerator(mockLogger);
+      const topics = gen.getTrendingTopics(
+        [
+          trend('rising', 'shapes', 'early_math', 1.8),
+          trend('rising', 'counting', 'early_math', 2.4),
+          trend('rising', 'animals', 'science', 3.0),
+          trend('fading', 'numbers', 'early_math', 0.4),
+        ],
+        { category: 'early_math' },
+      );
+
+      expect(topics.map((t) => t.topic)).toEqual(['counting', 'shapes']);
+    });
+
+    it('uses only the latest finding per topic', () => {
+      const gen = new SeriesGenerator(mockLogger);
+      const topics = gen.getTrendingTopics([
+        trend('fading', 'shapes', 'early_math', 0.5),
+        trend('rising', 'shapes', 'early_math', 2.0),
+      ]);
+
+      expect(topics).toEqual([]);
+    });
+
+    it('opens the series with trending topics', () => {
+      const gen = new SeriesGenerator(mockLogger);
+      const series = gen.generate({
+        name: 'Shape Hunt',
+        educationalCategory: 'early_math',
+        topic: 'shapes',
+        ageBracket: '2-4',
+        totalEpisodes: 3,
+        characterIds: [4],
+        trendingTopics: ['shapes'],
+      });
+
+      expect(series.episodeOutlines.map((e) => e.topic)).toEqual([
+        'shapes',
+        'numbers 1-5',
+        'numbers 6-10',
+      ]);
+    });
+  });
+
+  describe('usePatterns', () => {
+    const finding = (patternType: string, metadata: Record<string, unknown>): PatternFinding => ({
+      patternType,
+      category: null,
+      finding: '',
+      confidence: 0.8,
+      sampleSize: 12,
+      metadata,
+    });
+
+    it('sizes prompted series and names episodes like competitor series', () => {
+      const gen = new SeriesGenerator(mockLogger);
+      gen.usePatterns([
+        finding('series_length', { medianEpisodes: 8, recommendedEpisodes: 6 }),
+        finding('series_naming', { recommended: 'series_suffix' }),
+      ]);
+
+      const series = gen.generateFromPrompt('A counting series called "Number Pals"');
+
+      expect(gen.conventions).toEqual({ totalEpisodes: 6, naming: 'series_suffix' });
+      expect(series.totalEpisodes).toBe(6);
+      expect(series.episodeOutlines[0].title).toBe('Numbers 1-5! | Number Pals');
+      // An explicit count still wins
+      expect(gen.generateFromPrompt('A 4-episode counting series').totalEpisodes).toBe(4);
+    });
+
+    it('keeps numbered episodes and the default length without series findings', () => {
+      const gen = new SeriesGenerator(mockLogger);
+      gen.usePatterns([finding('series_naming', { recommended: 'something_else' })]);
+
+      const series = gen.generateFromPrompt('A counting series called "Number Pals"');
+
+      expect(series.totalEpisodes).toBe(10);
+      expect(series.episodeOutlines[1].title).toBe('Number Pals Ep.2: Numbers 6-10!');
+    });
+  });
 });
 
 describe('SERIES_TEMPLATES', () => {
@@ -4,9 +4,19 @@ import type {
   EducationalCategory,
   AgeBracket,
   EngagementHookType,
+  EpisodeNaming,
+  LLMJsonSchema,
+  LLMProvider,
   Logger,
+  PatternFinding,
 } from '@kidsvid/shared';
-import { ENGAGEMENT_HOOK_TYPES } from '@kidsvid/shared';
+import {
+  AGE_BRACKETS,
+  EDUCATIONAL_CATEGORIES,
+  ENGAGEMENT_HOOK_TYPES,
+  EPISODE_NAMINGS,
+} from '@kidsvid/shared';
+import { z } from 'zod';
 import { DEFAULT_CHARACTERS } from './character-bible.js';
 
 /** Content Series Generator.
@@ -21,8 +31,34 @@ export interface SeriesRequest {
   totalEpisodes: number;
   characterIds: number[];
   season?: number;
+  /** Topics to open the series with ahead of the category progression, e.g. rising trends */
+  trendingTopics?: string[];
+}
+
+/** A topic from the analyzer's `trend_rising` / `trend_fading` findings */
+export interface TrendingTopic {
+  topic: string;
+  educationalCategory: EducationalCategory | null;
+  direction: 'rising' | 'fading';
+  /** Share of view velocity compared with the previous window */
+  change: number;
+  /** Average views per day of the topic's recent uploads */
+  recentVelocity: number;
+  recentUploads: number;
+  finding: string;
 }
 
+/** How competitors structure series, from the analyzer's `series_length` and `series_naming`
+ * findings */
+export interface SeriesConventions {
+  /** Episodes the better-performing competitor series run; unset without findings */
+  totalEpisodes?: number;
+  naming: EpisodeNaming;
+}
+
+/** Series length used when neither the request nor competitor findings give one */
+const DEFAULT_TOTAL_EPISODES = 10;
+
 /** Pre-built series templates for common educational themes */
 export const SERIES_TEMPLATES: Record<string, Omit<SeriesRequest, 'name' | 'totalEpisodes'>> = {
   counting_basics: {
@@ -57,6 +93,31 @@ export const SERIES_TEMPLATES: Record<string, Omit<SeriesRequest, 'name' | 'tota
   },
 };
 
+/** What the LLM extracts from a free-form series prompt */
+const seriesPlanSchema = z.object({
+  name: z.string().min(1),
+  educationalCategory: z.enum(EDUCATIONAL_CATEGORIES),
+  topic: z.string().min(1),
+  ageBracket: z.enum(AGE_BRACKETS),
+  totalEpisodes: z.number().int().min(1).max(100),
+});
+
+const SERIES_PLAN_SCHEMA = {
+  name: 'plan_series',
+  description: 'Extract the series request from the prompt.',
+  schema: {
+    type: 'object',
+    properties: {
+      name: { type: 'string' },
+      educationalCategory: { type: 'string', enum: [...EDUCATIONAL_CATEGORIES] },
+      topic: { type: 'string' },
+      ageBracket: { type: 'string', enum: [...AGE_BRACKETS] },
+      totalEpisodes: { type: 'integer' },
+    },
+    required: ['name', 'educationalCategory', 'topic', 'ageBracket', 'totalEpisodes'],
+  },
+} as const satisfies LLMJsonSchema;
+
 /** Topic progressions for each educational category */
 const TOPIC_PROGRESSIONS: Record<EducationalCategory, string[]> = {
   early_math: [
@@ -104,7 +165,34 @@ const TOPIC_PROGRESSIONS: Record<EducationalCategory, string[]> = {
 };
 
 export class SeriesGenerator {
-  constructor(private logger: Logger) {}
+  private seriesConventions: SeriesConventions = { naming: 'numbered' };
+
+  /** The LLM is optional; without one prompts are parsed with keyword rules */
+  constructor(
+    private logger: Logger,
+    private llm?: LLMProvider,
+  ) {}
+
+  /** Series length and episode naming in use */
+  get conventions(): SeriesConventions {
+    return { ...this.seriesConventions };
+  }
+
+  /** Follow competitors' series structure from an analysis run's findings: prompts without an
+   * episode count get the length better-performing series run, and episode titles mark the
+   * series the way those series do */
+  usePatterns(patterns: PatternFinding[]): void {
+    const length = patterns.find((p) => p.patternType === 'series_length');
+    const naming = patterns.find((p) => p.patternType === 'series_naming');
+    const totalEpisodes = Number(length?.metadata.recommendedEpisodes);
+    const recommended = naming?.metadata.recommended as EpisodeNaming | undefined;
+
+    this.seriesConventions = {
+      totalEpisodes: totalEpisodes > 0 ? totalEpisodes : undefined,
+      naming: recommended && EPISODE_NAMINGS.includes(recommended) ? recommended : 'numbered',
+    };
+    this.logger.info(this.seriesConventions, 'Using competitor series conventions');
+  }
 
   /** Generate a full series outline from a single request */
   generate(request: SeriesRequest): SeriesDefinition {
@@ -150,6 +238,60 @@ export class SeriesGenerator {
     return this.generate(parsed);
   }
 
+  /** Generate from a natural language prompt, letting the LLM read it.
+   * Falls back to keyword parsing when there is no LLM or its answer is unusable. */
+  async planFromPrompt(prompt: string): Promise<SeriesDefinition> {
+    if (!this.llm) return this.generateFromPrompt(prompt);
+
+    try {
+      const response = await this.llm.complete({
+        system:
+          'You plan educational YouTube series for young children. Map the request onto one of the listed categories and age brackets.',
+        messages: [{ role: 'user', content: prompt }],
+        jsonSchema: SERIES_PLAN_SCHEMA,
+        maxTokens: 512,
+      });
+      const plan = seriesPlanSchema.safeParse(response.json ?? JSON.parse(response.text));
+      if (plan.success) {
+        return this.generate({ ...plan.data, characterIds: [0] });
+      }
+      this.logger.warn({ issues: plan.error.issues }, 'Series plan failed validation, parsing prompt');
+    } catch (err) {
+      this.logger.warn({ err }, 'Series planning failed, parsing prompt');
+    }
+
+    return this.generateFromPrompt(prompt);
+  }
+
+  /** Topics competitors are trending towards (or away from), strongest first.
+   * Pass trend findings newest first; only the latest finding per topic counts. */
+  getTrendingTopics(
+    trends: PatternFinding[],
+    options: { category?: EducationalCategory; direction?: 'rising' | 'fading' } = {},
+  ): TrendingTopic[] {
+    const direction = options.direction ?? 'rising';
+    const latest = new Map<string, PatternFinding>();
+    for (const trend of trends) {
+      if (!trend.patternType.startsWith('trend_')) continue;
+      const topic = trend.metadata.topic as string | undefined;
+      if (topic && !latest.has(topic)) latest.set(topic, trend);
+    }
+
+    return [...latest.values()]
+      .filter((t) => t.patternType === `trend_${direction}`)
+      .map((t) => ({
+        topic: t.metadata.topic as string,
+        educationalCategory: (t.metadata.educationalCategory as EducationalCategory | null) ?? null,
+        direction,
+        change: Number(t.metadata.change ?? 0),
+        recentVelocity: Number(t.metadata.recentVelocity ?? 0),
+        recentUploads: Number(t.metadata.recentUploads ?? 0),
+        finding: t.finding,
+      }))
+      .filter((t) => !options.category || t.educationalCategory === options.category)
+      .sort((a, b) => (direction === 'rising' ? b.change - a.change : a.change - b.change));
+  }
+
   /** Get available topic progressions for a category */
   getTopicsForCategory(category: EducationalCategory): string[] {
     return TOPIC_PROGRESSIONS[category] ?? [];
@@ -162,7 +304,12 @@ export class SeriesGenerator {
   }
 
   private buildEpisodeOutlines(request: SeriesRequest): EpisodeOutline[] {
-    const topics = TOPIC_PROGRESSIONS[request.educationalCategory] ?? [];
+    const topics = [
+      ...new Set([
+        ...(request.trendingTopics ?? []),
+        ...(TOPIC_PROGRESSIONS[request.educationalCategory] ?? []),
+      ]),
+    ];
     const episodes: EpisodeOutline[] = [];
 
     for (let i = 0; i < request.totalEpisodes; i++) {
@@ -197,7 +344,16 @@ export class SeriesGenerator {
 
   private generateEpisodeTitle(seriesName: string, topic: string, epNum: number): string {
     const topicCapitalized = topic.charAt(0).toUpperCase() + topic.slice(1);
-    return `${seriesName} Ep.${epNum}: ${topicCapitalized}!`;
+    switch (this.seriesConventions.naming) {
+      case 'series_prefix':
+        return `${seriesName}: ${topicCapitalized}!`;
+      case 'series_suffix':
+        return `${topicCapitalized}! | ${seriesName}`;
+      case 'standalone':
+        return `${topicCapitalized}!`;
+      default:
+        return `${seriesName} Ep.${epNum}: ${topicCapitalized}!`;
+    }
   }
 
   private generateSeriesId(name: string, season?: number): string {
@@ -208,7 +364,9 @@ export class SeriesGenerator {
   private parsePrompt(prompt: string): SeriesRequest {
     // Extract episode count
     const episodeMatch = prompt.match(/(\d+)[- ]?episode/i);
-    const totalEpisodes = episodeMatch ? parseInt(episodeMatch[1], 10) : 10;
+    const totalEpisodes = episodeMatch
+      ? parseInt(episodeMatch[1], 10)
+      : (this.seriesConventions.totalEpisodes ?? DEFAULT_TOTAL_EPISODES);
 
     // Extract age
     const ageMatch = prompt.match(/(\d+)[- ]?year[- ]?old/i);
@@ -1,5 +1,9 @@
 import { describe, it, expect, vi } from 'vitest';
-import { ThumbnailIntelligence, THUMBNAIL_PATTERNS } from './thumbnail-intelligence.js';
+import {
+  ThumbnailIntelligence,
+  THUMBNAIL_PATTERNS,
+  deriveThumbnailPatterns,
+} from './thumbnail-intelligence.js';
 import type { Logger } from '@kidsvid/shared';
 
 const mockLogger: Logger = {
@@ -176,3 +180,67 @@ describe('THUMBNAIL_PATTERNS', () => {
     expect(THUMBNAIL_PATTERNS.text.rules.length).toBeGreaterThan(3);
   });
 });
+
+describe('deriveThumbnailPatterns', () => {
+  const findings = [
+    {
+      patternType: 'thumbnail_palette',
+      confidence: 0.7,
+      metadata: {
+        colors: [
+          { color: 'yellow', effectSize: 0.6, confidence: 0.95 },
+          { color: 'blue', effectSize: 0.3, confidence: 0.5 },
+          { color: 'brown', effectSize: -0.5, confidence: 0.9 },
+        ],
+      },
+    },
+    {
+      patternType: 'thumbnail_face',
+      confidence: 0.9,
+      metadata: { threshold: 0.18, effectSize: 0.4, relativeViews: [1.3, 0.8] },
+    },
+    {
+      patternType: 'thumbnail_saturation',
+      confidence: 0.85,
+      metadata: { threshold: 0.42, effectSize: -0.3, relativeViews: [0.9, 1.2] },
+    },
+    {
+      patternType: 'thumbnail_text',
+      confidence: 0.6,
+      metadata: { threshold: 0.1, effectSize: 0.2, relativeViews: [1.1, 1] },
+    },
+  ];
+
+  it('takes colors from confidently measured palette colors', () => {
+    const patterns = deriveThumbnailPatterns(findings);
+
+    expect(patterns.colors.high_performing).toEqual(['bright yellow']);
+    expect(patterns.colors.avoid).toEqual(['brown']);
+  });
+
+  it('replaces starting rules with the side of each threshold that got more views', () => {
+    const patterns = deriveThumbnailPatterns(findings);
+
+    expect(patterns.composition.rules[0]).toBe(
+      'Character face takes up more than 18% of frame — 1.3x vs 0.8x channel median views',
+    );
+    expect(patterns.colors.rules[0]).toBe(
+      'Keep colors soft (saturation at or below 0.42) — 1.2x vs 0.9x channel median views',
+    );
+    expect(patterns.text.rules).toEqual(THUMBNAIL_PATTERNS.text.rules);
+    expect(THUMBNAIL_PATTERNS.composition.rules[0]).toBe('Character face takes up 40-60% of frame');
+  });
+
+  it('keeps the starting patterns without thumbnail findings', () => {
+    expect(deriveThumbnailPatterns([])).toEqual(THUMBNAIL_PATTERNS);
+  });
+
+  it('drives prompts once a run\'s findings are in use', () => {
+    const ti = new ThumbnailIntelligence(mockLogger);
+    ti.usePatterns(findings);
+    const spec = ti.generateSpec({ title: 'Shapes Fun', category: 'educational', topic: 'shapes' });
+
+    expect(ti.buildDallePrompt(spec)).toContain('Favor bright yellow; avoid brown.');
+    expect(ti.analyzePatterns().colorRules).toContain('Top color: bright yellow');
+  });
+});
@@ -1,15 +1,36 @@
-import type { ThumbnailSpec, ThumbnailVariant, Logger, ContentCategory } from '@kidsvid/shared';
+import type {
+  ThumbnailSpec,
+  ThumbnailVariant,
+  Logger,
+  ContentCategory,
+  Database,
+  PatternFinding,
+} from '@kidsvid/shared';
+import { loadLatestRunPatterns } from '@kidsvid/shared';
 
 /** Thumbnail Intelligence Module.
- * Extracts patterns from top-performing thumbnails and generates
- * optimized DALL-E prompts for kids content thumbnails. */
+ * Turns the analyzer's measurements of competitor thumbnails into thumbnail rules and
+ * generates optimized DALL-E prompts for kids content thumbnails. */
 
-/** Thumbnail analysis patterns derived from top kids channels */
-export const THUMBNAIL_PATTERNS = {
+export interface ThumbnailPatterns {
+  colors: { high_performing: string[]; backgrounds: string[]; avoid: string[]; rules: string[] };
+  composition: { rules: string[]; best_layouts: string[] };
+  expressions: { top_performing: string[]; avoid: string[] };
+  text: { rules: string[] };
+}
+
+/** Starting patterns from top kids channels, in use until an analysis run has measured
+ * competitor thumbnails; deriveThumbnailPatterns replaces them rule by rule */
+export const THUMBNAIL_PATTERNS: ThumbnailPatterns = {
   colors: {
     high_performing: ['bright yellow', 'vivid red', 'sky blue', 'lime green', 'orange', 'pink'],
     backgrounds: ['gradient blue-purple', 'bright yellow', 'pastel rainbow', 'white clean'],
     avoid: ['dark', 'muted', 'brown', 'gray', 'black backgrounds'],
+    rules: [
+      'Use bright saturated colors (yellow, red, blue) — avg 2x CTR vs muted',
+      'Background should contrast with character',
+      'Avoid dark/muted palettes — kids scroll past them',
+    ],
   },
   composition: {
     rules: [
@@ -35,7 +56,129 @@ export const THUMBNAIL_PATTERNS = {
       'Question marks increase CTR',
     ],
   },
-} as const;
+};
+
+type ThumbnailFinding = Pick<PatternFinding, 'patternType' | 'confidence' | 'metadata'>;
+
+/** Findings less certain than this leave the starting rule in place */
+const MIN_FINDING_CONFIDENCE = 0.8;
+
+/** How the analyzer's palette colors are asked for in a prompt */
+const COLOR_DESCRIPTIONS: Record<string, string> = {
+  red: 'vivid red',
+  orange: 'orange',
+  yellow: 'bright yellow',
+  green: 'lime green',
+  blue: 'sky blue',
+  purple: 'purple',
+  pink: 'pink',
+  brown: 'brown',
+  black: 'black backgrounds',
+  white: 'white clean',
+  gray: 'gray',
+};
+
+/** The rule each measured thumbnail feature states, and the starting rule it replaces.
+ * Thresholds are shares of the frame for the size features, 0-1 levels for the rest. */
+const FEATURE_RULES: Record<
+  string,
+  {
+    section: 'colors' | 'composition' | 'text';
+    replaces: string;
+    above: (threshold: string) => string;
+    atOrBelow: (threshold: string) => string;
+    share: boolean;
+  }
+> = {
+  thumbnail_saturation: {
+    section: 'colors',
+    replaces: 'Use bright saturated colors (yellow, red, blue) — avg 2x CTR vs muted',
+    above: t => `Use saturated colors (saturation above ${t})`,
+    atOrBelow: t => `Keep colors soft (saturation at or below ${t})`,
+    share: false,
+  },
+  thumbnail_brightness: {
+    section: 'colors',
+    replaces: 'Avoid dark/muted palettes — kids scroll past them',
+    above: t => `Keep the image bright (brightness above ${t})`,
+    atOrBelow: t => `Avoid washed-out, overly bright images (brightness at or below ${t})`,
+    share: false,
+  },
+  thumbnail_contrast: {
+    section: 'composition',
+    replaces: 'High contrast between subject and background',
+    above: t => `High contrast between subject and background (contrast above ${t})`,
+    atOrBelow: t => `Gentle contrast between subject and background (contrast at or below ${t})`,
+    share: false,
+  },
+  thumbnail_subject: {
+    section: 'composition',
+    replaces: 'Background is simple and not distracting',
+    above: t => `Main subject fills more than ${t} of the frame`,
+    atOrBelow: t => `Main subject fills at most ${t} of the frame, leaving room for the scene`,
+    share: true,
+  },
+  thumbnail_face: {
+    section: 'composition',
+    replaces: 'Character face takes up 40-60% of frame',
+    above: t => `Character face takes up more than ${t} of frame`,
+    atOrBelow: t => `Character face takes up at most ${t} of frame`,
+    share: true,
+  },
+  thumbnail_text: {
+    section: 'text',
+    replaces: 'Max 3-4 words on thumbnail',
+    above: t => `Text covers more than ${t} of the thumbnail`,
+    atOrBelow: t => `Text covers at most ${t} of the thumbnail`,
+    share: true,
+  },
+};
+
+/** Thumbnail patterns from an analysis run's thumbnail findings.
+ * The palette finding picks the colors to use and avoid; each confident feature finding
+ * replaces the starting rule about that feature with the side of the threshold that got
+ * more views. Whatever the run didn't measure confidently keeps its starting rule. */
+export function deriveThumbnailPatterns(
+  findings: ThumbnailFinding[],
+  defaults: ThumbnailPatterns = THUMBNAIL_PATTERNS,
+): ThumbnailPatterns {
+  const patterns = structuredClone(defaults);
+
+  const palette = findings.find(f => f.patternType === 'thumbnail_palette');
+  const colors = ((palette?.metadata?.colors ?? []) as Array<{
+    color: string;
+    effectSize: number;
+    confidence: number;
+  }>).filter(c => c.confidence >= MIN_FINDING_CONFIDENCE);
+  const describeColor = (c: { color: string }) => COLOR_DESCRIPTIONS[c.color] ?? c.color;
+  const use = colors.filter(c => c.effectSize > 0).sort((a, b) => b.effectSize - a.effectSize);
+  const avoid = colors.filter(c => c.effectSize < 0).sort((a, b) => a.effectSize - b.effectSize);
+  if (use.length > 0) patterns.colors.high_performing = use.map(describeColor);
+  if (avoid.length > 0) patterns.colors.avoid = avoid.map(describeColor);
+
+  for (const finding of findings) {
+    const rule = FEATURE_RULES[finding.patternType];
+    if (!rule || finding.confidence < MIN_FINDING_CONFIDENCE) continue;
+    const { threshold, effectSize, relativeViews } = finding.metadata as {
+      threshold: number;
+      effectSize: number;
+      relativeViews: [number, number];
+    };
+    const t = rule.share ? `${Math.round(threshold * 100)}%` : `${threshold}`;
+    const [above, atOrBelow] = relativeViews;
+    const text =
+      effectSize > 0
+        ? `${rule.above(t)} — ${above}x vs ${atOrBelow}x channel median views`
+        : `${rule.atOrBelow(t)} — ${atOrBelow}x vs ${above}x channel median views`;
+
+    const rules = patterns[rule.section].rules;
+    const index = rules.indexOf(rule.replaces);
+    if (index >= 0) rules[index] = text;
+    else rules.push(text);
+  }
+
+  return patterns;
+}
 
 /** Category-specific thumbnail styles */
 const CATEGORY_STYLES: Record<string, {
@@ -83,8 +226,25 @@ const CATEGORY_STYLES: Record<string, {
 };
 
 export class ThumbnailIntelligence {
+  private patterns: ThumbnailPatterns = THUMBNAIL_PATTERNS;
+
   constructor(private logger: Logger) {}
 
+  /** Replace the patterns in use with ones derived from a run's findings */
+  usePatterns(findings: ThumbnailFinding[]): void {
+    this.patterns = deriveThumbnailPatterns(findings);
+  }
+
+  /** Switch to patterns from the latest completed analysis run. Returns the run id, or null
+   * when no run has stored findings yet and the current patterns stay in use. */
+  async loadLatestRun(db: Database): Promise<number | null> {
+    const latest = await loadLatestRunPatterns(db);
+    if (!latest) return null;
+    this.usePatterns(latest.patterns);
+    this.logger.info({ runId: latest.run.id }, 'Loaded analysis run patterns for thumbnails');
+    return latest.run.id;
+  }
+
   /** Generate an optimized thumbnail spec from content metadata */
   generateSpec(params: {
     title: string;
@@ -127,7 +287,7 @@ export class ThumbnailIntelligence {
       variants.push({
         prompt: this.buildCloseUpPrompt(params, categoryStyle),
         style: 'extreme close-up, character emotion focus',
-        dominantColors: [...THUMBNAIL_PATTERNS.colors.high_performing.slice(0, 3)],
+        dominantColors: this.patterns.colors.high_performing.slice(0, 3),
         textOverlay: this.generateTextOverlay(params.title),
         characterExpression: 'excited surprise with big eyes',
         composition: 'character face fills 70% of frame',
@@ -161,6 +321,8 @@ Style: ${spec.style}, ${spec.dominantColors.join(', ')} color palette.
 Composition: ${spec.composition}. Character expression: ${spec.characterExpression}.
 Requirements: Eye-catching for children ages 2-8, 3D cartoon animation style,
 bright saturated colors, high contrast, professional quality.
+Favor ${this.patterns.colors.high_performing.slice(0, 3).join(', ')}; avoid ${this.patterns.colors.avoid.join(', ')}.
+Layout: ${this.patterns.composition.rules.slice(0, 3).join('; ')}.
 NO text in the image (text will be added in post-production).
 Child-safe and friendly, no scary elements.`;
   }
@@ -174,18 +336,17 @@ Child-safe and friendly, no scary elements.`;
   } {
     return {
       colorRules: [
-        'Use bright saturated colors (yellow, red, blue) — avg 2x CTR vs muted',
-        'Background should contrast with character',
-        'Avoid dark/muted palettes — kids scroll past them',
-        ...THUMBNAIL_PATTERNS.colors.high_performing.map(c => `Top color: ${c}`),
+        ...this.patterns.colors.rules,
+        ...this.patterns.colors.high_performing.map(c => `Top color: ${c}`),
+        ...this.patterns.colors.avoid.map(c => `Avoid: ${c}`),
       ],
-      compositionRules: THUMBNAIL_PATTERNS.composition.rules,
+      compositionRules: this.patterns.composition.rules,
       expressionRules: [
         'Characters with excited/surprised expressions get 40% more clicks',
-        ...THUMBNAIL_PATTERNS.expressions.top_performing.map(e => `Use: ${e}`),
-        ...THUMBNAIL_PATTERNS.expressions.avoid.map(e => `Avoid: ${e}`),
+        ...this.patterns.expressions.top_performing.map(e => `Use: ${e}`),
+        ...this.patterns.expressions.avoid.map(e => `Avoid: ${e}`),
       ],
-      textRules: THUMBNAIL_PATTERNS.text.rules,
+      textRules: this.patterns.text.rules,
     };
   }
 
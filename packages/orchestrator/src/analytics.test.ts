@@ -12,6 +12,7 @@ function createMockDb(opts: {
   series?: Array<Record<string, unknown>>;
   runs?: Array<Record<string, unknown>>;
   snapshots?: Array<Record<string, unknown>>;
+  costs?: Array<Record<string, unknown>>;
 } = {}) {
   return {
     query: {
@@ -27,6 +28,9 @@ function createMockDb(opts: {
       performanceSnapshots: {
         findMany: vi.fn().mockResolvedValue(opts.snapshots ?? []),
       },
+      providerCosts: {
+        findMany: vi.fn().mockResolvedValue(opts.costs ?? []),
+      },
     },
   } as unknown as Database;
 }
@@ -39,6 +43,25 @@ describe('AnalyticsEngine', () => {
       expect(stats.totalScripts).toBe(0);
       expect(stats.passRate).toBe(0);
       expect(stats.totalSeries).toBe(0);
+      expect(stats.totalCostUsd).toBe(0);
+      expect(stats.avgCostPerEpisodeUsd).toBe(0);
+    });
+
+    it('totals provider costs overall and per episode', async () => {
+      const db = createMockDb({
+        costs: [
+          { provider: 'veo', estimatedUsd: 3.2, generatedVideoId: 1 },
+          { provider: 'anthropic', estimatedUsd: 0.05, generatedVideoId: 1 },
+          { provider: 'veo', estimatedUsd: 3.2, generatedVideoId: 2 },
+          { provider: 'gemini', estimatedUsd: 0.01, generatedVideoId: null },
+        ],
+      });
+      const analytics = new AnalyticsEngine(db, mockLogger);
+      const stats = await analytics.getSummaryStats();
+
+      expect(stats.totalCostUsd).toBe(6.46);
+      expect(stats.costByProvider).toEqual({ veo: 6.4, anthropic: 0.05, gemini: 0.01 });
+      expect(stats.avgCostPerEpisodeUsd).toBe(3.23);
     });
 
     it('computes correct stats from videos', async () => {
@@ -1,4 +1,4 @@
-import type { Logger } from '@kidsvid/shared';
+import { summarizeCosts, type Logger } from '@kidsvid/shared';
 import type { Database } from '@kidsvid/shared';
 import { generatedVideos, contentSeries, performanceSnapshots, analysisRuns, desc, sql, count, eq } from '@kidsvid/shared/db';
 
@@ -13,6 +13,9 @@ export interface SummaryStats {
   statusBreakdown: Record<string, number>;
   totalSeries: number;
   totalAnalysisRuns: number;
+  totalCostUsd: number;
+  costByProvider: Record<string, number>;
+  avgCostPerEpisodeUsd: number; // over episodes with at least one recorded call
 }
 
 export interface VideoOverTime {
@@ -70,6 +73,13 @@ export class AnalyticsEngine {
 
     const seriesRows = await this.db.query.contentSeries.findMany({ columns: { id: true } });
     const runRows = await this.db.query.analysisRuns.findMany({ columns: { id: true } });
+    const costRows = await this.db.query.providerCosts.findMany({
+      columns: { provider: true, estimatedUsd: true, generatedVideoId: true },
+    });
+    const costs = summarizeCosts(costRows);
+    const episodeCosts = costRows.filter((c) => c.generatedVideoId !== null);
+    const costedEpisodes = new Set(episodeCosts.map((c) => c.generatedVideoId)).size;
+    const episodeSpend = episodeCosts.reduce((s, c) => s + c.estimatedUsd, 0);
 
     return {
       totalScripts: allVideos.length,
@@ -80,6 +90,10 @@ export class AnalyticsEngine {
       statusBreakdown: perStatus,
       totalSeries: seriesRows.length,
       totalAnalysisRuns: runRows.length,
+      totalCostUsd: costs.totalUsd,
+      costByProvider: costs.byProvider,
+      avgCostPerEpisodeUsd:
+        costedEpisodes > 0 ? Math.round((episodeSpend / costedEpisodes) * 100) / 100 : 0,
     };
   }
 
@@ -0,0 +1,202 @@
+import { Queue, Worker, FlowProducer, DelayedError, type Job, type FlowJob } from 'bullmq';
+import type { Logger } from '@kidsvid/shared';
+import { JOB_NAMES, DeferJobError, type JobName, type JobData } from '../jobs.js';
+import type {
+  QueueBackend,
+  QueueCounts,
+  JobState,
+  JobStatus,
+  JobOptions,
+  JobProcessor,
+  FlowNode,
+} from './types.js';
+
+/** BullMQ + Redis backend. Each job type gets its own queue and worker, so a stage can
+ * only ever pick up its own jobs and concurrency is limited per stage. */
+
+const QUEUE_PREFIX = 'kidsvid-pipeline';
+
+export class BullMQBackend implements QueueBackend {
+  private queues = new Map<JobName, Queue>();
+  private flowProducer: FlowProducer;
+  private workers: Worker[] = [];
+  private connection: { host: string; port: number };
+
+  constructor(
+    redisUrl: string,
+    private logger: Logger,
+  ) {
+    this.connection = parseRedisUrl(redisUrl);
+    for (const name of Object.values(JOB_NAMES)) {
+      this.queues.set(name, new Queue(queueNameFor(name), { connection: this.connection }));
+    }
+    this.flowProducer = new FlowProducer({ connection: this.connection });
+  }
+
+  async add(name: JobName, data: JobData, options: JobOptions): Promise<string> {
+    const job = await this.queueFor(name).add(name, data, options);
+    return job.id!;
+  }
+
+  async addFlow(root: FlowNode): Promise<string[]> {
+    const flow = await this.flowProducer.add(toFlowJob(root));
+    return collectFlowJobIds(flow);
+  }
+
+  process(name: JobName, processor: JobProcessor, concurrency: number): void {
+    const worker = new Worker(
+      queueNameFor(name),
+      async (job, token) => {
+        this.logger.info({ jobId: job.id, name: job.name }, 'Processing job');
+        try {
+          return await processor(job);
+        } catch (err) {
+          if (err instanceof DeferJobError) {
+            // Park the job until it can progress; approve/reject promote review jobs early
+            await job.moveToDelayed(Date.now() + err.retryAfterMs, token);
+            throw new DelayedError();
+          }
+          throw err;
+        }
+      },
+      { connection: this.connection, concurrency },
+    );
+
+    worker.on('completed', (job) => {
+      this.logger.info({ jobId: job.id, name: job.name }, 'Job completed');
+    });
+
+    worker.on('failed', (job, err) => {
+      this.logger.error({ jobId: job?.id, name: job?.name, err: err.message }, 'Job failed');
+    });
+
+    this.workers.push(worker);
+  }
+
+  async getCounts(): Promise<QueueCounts> {
+    const perQueue = await Promise.all(
+      [...this.queues.values()].map((queue) =>
+        Promise.all([
+          queue.getWaitingCount(),
+          queue.getActiveCount(),
+          queue.getCompletedCount(),
+          queue.getFailedCount(),
+          queue.getDelayedCount(),
+        ]),
+      ),
+    );
+
+    const total = (i: number) => perQueue.reduce((sum, counts) => sum + counts[i], 0);
+    return {
+      waiting: total(0),
+      active: total(1),
+      completed: total(2),
+      failed: total(3),
+      delayed: total(4),
+    };
+  }
+
+  async getJobs(states: JobState[], limit: number, name?: JobName): Promise<JobStatus[]> {
+    const queues = name ? [this.queueFor(name)] : [...this.queues.values()];
+    const fetchers: Record<JobState, (queue: Queue) => Promise<Job[]>> = {
+      waiting: (queue) => queue.getWaiting(0, limit),
+      active: (queue) => queue.getActive(0, limit),
+      delayed: (queue) => queue.getDelayed(0, limit),
+      completed: (queue) => queue.getCompleted(0, limit),
+      failed: (queue) => queue.getFailed(0, limit),
+    };
+
+    const lists = await Promise.all(
+      queues.flatMap((queue) =>
+        states.map(async (state) =>
+          (await fetchers[state](queue)).map((job) => toJobStatus(job, state)),
+        ),
+      ),
+    );
+
+    return lists
+      .flat()
+      .sort((a, b) => b.timestamp - a.timestamp)
+      .slice(0, limit);
+  }
+
+  async getJob(name: JobName, id: string): Promise<JobStatus | undefined> {
+    const job = await this.queueFor(name).getJob(id);
+    if (!job) return undefined;
+    return toJobStatus(job, (await job.getState()) as JobState);
+  }
+
+  async updateJobData(name: JobName, id: string, data: JobData): Promise<void> {
+    const job = await this.queueFor(name).getJob(id);
+    if (!job) throw new Error(`Job ${id} not found`);
+    await job.updateData(data);
+  }
+
+  async promoteJob(name: JobName, id: string): Promise<void> {
+    const job = await this.queueFor(name).getJob(id);
+    if (job && (await job.isDelayed())) await job.promote();
+  }
+
+  /** Jobs live in Redis and are picked up by whichever worker is running, so nothing to wait for */
+  async drain(): Promise<void> {}
+
+  async close(): Promise<void> {
+    await Promise.all(this.workers.map((w) => w.close()));
+    await Promise.all([...this.queues.values()].map((q) => q.close()));
+    await this.flowProducer.close();
+  }
+
+  private queueFor(name: JobName): Queue {
+    return this.queues.get(name)!;
+  }
+}
+
+function toFlowJob(node: FlowNode): FlowJob {
+  return {
+    name: node.name,
+    queueName: queueNameFor(node.name),
+    data: node.data,
+    opts: { failParentOnFailure: true },
+    children: node.children?.map(toFlowJob),
+  };
+}
+
+function toJobStatus(job: Job, state: JobState): JobStatus {
+  return {
+    id: job.id ?? '',
+    name: job.name,
+    state,
+    progress: typeof job.progress === 'number' ? job.progress : 0,
+    attempts: job.attemptsMade,
+    timestamp: job.timestamp ?? 0,
+    finishedOn: job.finishedOn ?? undefined,
+    failedReason: job.failedReason ?? undefined,
+    data: job.data as Record<string, unknown>,
+  };
+}
+
+function collectFlowJobIds(flow: {
+  job: { id?: string };
+  children?: Array<{ job: { id?: string }; children?: unknown[] }>;
+}): string[] {
+  const ids: string[] = [];
+  if (flow.job.id) ids.push(flow.job.id);
+  if (flow.children) {
+    for (const child of flow.children) {
+      ids.push(...collectFlowJobIds(child as typeof flow));
+    }
+  }
+  return ids;
+}
+
+function queueNameFor(name: JobName): string {
+  return `${QUEUE_PREFIX}-${name}`;
+}
+
+function parseRedisUrl(url: string): { host: string; port: number } {
+  const parsed = new URL(url);
+  return {
+    host: parsed.hostname,
+    port: parseInt(parsed.port || '6379', 10),
+  };
+}
@@ -0,0 +1,35 @@
+import type { Logger } from '@kidsvid/shared';
+import { BullMQBackend } from './bullmq.js';
+import { MemoryBackend } from './memory.js';
+import type { QueueBackend, QueueBackendName } from './types.js';
+
+export { BullMQBackend } from './bullmq.js';
+export { MemoryBackend } from './memory.js';
+export type {
+  QueueBackend,
+  QueueBackendName,
+  QueueCounts,
+  JobState,
+  JobStatus,
+  JobOptions,
+  JobProcessor,
+  PipelineJob,
+  FlowNode,
+} from './types.js';
+
+// ─── Factory ───
+
+export function createQueueBackend(
+  backend: QueueBackendName,
+  redisUrl: string,
+  logger: Logger,
+): QueueBackend {
+  switch (backend) {
+    case 'bullmq':
+      return new BullMQBackend(redisUrl, logger);
+    case 'memory':
+      return new MemoryBackend(logger);
+    default:
+      throw new Error(`Unknown queue backend: ${backend}`);
+  }
+}
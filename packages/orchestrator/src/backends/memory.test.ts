@@ -0,0 +1,325 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { UnrecoverableError } from 'bullmq';
+import type { Logger } from '@kidsvid/shared';
+import { MemoryBackend } from './memory.js';
+import { QueueManager } from '../queue.js';
+import { AwaitingReviewError, QuotaWaitError, type JobData, type ReviewJobData } from '../jobs.js';
+import type { PipelineJob } from './types.js';
+
+const mockLogger = {
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+  debug: vi.fn(),
+} as unknown as Logger;
+
+const analyzeData: JobData = { type: 'analyze' };
+
+describe('MemoryBackend', () => {
+  let backend: MemoryBackend;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    backend = new MemoryBackend(mockLogger);
+  });
+
+  afterEach(async () => {
+    await backend.close();
+    vi.useRealTimers();
+  });
+
+  it('runs jobs and records the result in history', async () => {
+    backend.process('analyze', async () => ({ type: 'analyze', patternsFound: 3 }), 1);
+    const id = await backend.add('analyze', analyzeData, {});
+
+    await backend.drain();
+
+    const [job] = await backend.getJobs(['completed'], 10);
+    expect(job).toMatchObject({ id, name: 'analyze', state: 'completed' });
+    expect(await backend.getCounts()).toMatchObject({ completed: 1, waiting: 0, active: 0 });
+  });
+
+  it('runs flow children first and passes their return values up', async () => {
+    const order: string[] = [];
+    let parentSaw: Record<string, unknown> = {};
+    backend.process(
+      'generate-script',
+      async () => {
+        order.push('generate-script');
+        return { type: 'generate-script', generatedVideoId: 7 };
+      },
+      1,
+    );
+    backend.process(
+      'generate-media',
+      async (job: PipelineJob) => {
+        order.push('generate-media');
+        parentSaw = await job.getChildrenValues();
+        return { type: 'generate-media', generatedVideoId: 7 };
+      },
+      1,
+    );
+
+    const ids = await backend.addFlow({
+      name: 'generate-media',
+      data: {
+        type: 'generate-media',
+        generateThumbnail: false,
+        generateVoice: false,
+        generateMusic: false,
+        generateVideo: false,
+      },
+      children: [
+        {
+          name: 'generate-script',
+          data: {
+            type: 'generate-script',
+            educationalCategory: 'early_math',
+            topic: 'counting',
+            ageBracket: '4-6',
+            characterIds: [0],
+          },
+        },
+      ],
+    });
+    await backend.drain();
+
+    expect(ids).toHaveLength(2);
+    expect(order).toEqual(['generate-script', 'generate-media']);
+    expect(Object.values(parentSaw)).toEqual([{ type: 'generate-script', generatedVideoId: 7 }]);
+  });
+
+  it('fails the parent when a child fails', async () => {
+    const parentRan = vi.fn();
+    backend.process(
+      'analyze',
+      async () => {
+        throw new Error('quota exhausted');
+      },
+      1,
+    );
+    backend.process('generate-script', parentRan, 1);
+
+    const [parentId, childId] = await backend.addFlow({
+      name: 'generate-script',
+      data: {
+        type: 'generate-script',
+        educationalCategory: 'early_math',
+        topic: 'counting',
+        ageBracket: '4-6',
+        characterIds: [0],
+      },
+      children: [{ name: 'analyze', data: analyzeData }],
+    });
+    await backend.drain();
+
+    expect(parentRan).not.toHaveBeenCalled();
+    expect(await backend.getJob('analyze', childId)).toMatchObject({
+      state: 'failed',
+      failedReason: 'quota exhausted',
+    });
+    expect(await backend.getJob('generate-script', parentId)).toMatchObject({
+      state: 'failed',
+      failedReason: `child analyze:${childId} failed`,
+    });
+  });
+
+  it('holds delayed jobs until the delay elapses', async () => {
+    vi.useFakeTimers();
+    const processor = vi.fn().mockResolvedValue({});
+    backend.process('analyze', processor, 1);
+
+    await backend.add('analyze', analyzeData, { delay: 10_000 });
+    expect(await backend.getCounts()).toMatchObject({ delayed: 1 });
+
+    await vi.advanceTimersByTimeAsync(9_999);
+    expect(processor).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(processor).toHaveBeenCalledTimes(1);
+  });
+
+  it('processes unprioritized jobs first, then by priority', async () => {
+    const order: number[] = [];
+    await backend.add('analyze', { type: 'analyze', videosPerChannel: 5 }, { priority: 5 });
+    await backend.add('analyze', { type: 'analyze', videosPerChannel: 1 }, { priority: 1 });
+    await backend.add('analyze', { type: 'analyze', videosPerChannel: 0 }, {});
+
+    backend.process(
+      'analyze',
+      async (job) => {
+        order.push((job.data as { videosPerChannel: number }).videosPerChannel);
+        return {};
+      },
+      1,
+    );
+    await backend.drain();
+
+    expect(order).toEqual([0, 1, 5]);
+  });
+
+  it('respects the stage concurrency limit', async () => {
+    let running = 0;
+    let peak = 0;
+    backend.process(
+      'track-performance',
+      async () => {
+        running++;
+        peak = Math.max(peak, running);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        running--;
+        return {};
+      },
+      2,
+    );
+
+    for (let i = 0; i < 5; i++) {
+      await backend.add('track-performance', { type: 'track-performance' }, {});
+    }
+    await backend.drain();
+
+    expect(peak).toBe(2);
+    expect(await backend.getCounts()).toMatchObject({ completed: 5 });
+  });
+
+  it('retries failed jobs with exponential backoff', async () => {
+    vi.useFakeTimers();
+    const processor = vi
+      .fn()
+      .mockRejectedValueOnce(new Error('timeout'))
+      .mockRejectedValueOnce(new Error('timeout'))
+      .mockResolvedValue({});
+    backend.process('publish', processor, 1);
+
+    const id = await backend.add(
+      'publish',
+      { type: 'publish', generatedVideoId: 1 },
+      { attempts: 3, backoff: { type: 'exponential', delay: 1000 } },
+    );
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(processor).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(processor).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(processor).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(processor).toHaveBeenCalledTimes(3);
+
+    expect(await backend.getJob('publish', id)).toMatchObject({ state: 'completed', attempts: 2 });
+  });
+
+  it('does not retry unrecoverable errors', async () => {
+    const processor = vi.fn().mockRejectedValue(new UnrecoverableError('not approved'));
+    backend.process('publish', processor, 1);
+
+    const id = await backend.add(
+      'publish',
+      { type: 'publish', generatedVideoId: 1 },
+      { attempts: 3, backoff: { type: 'fixed', delay: 10 } },
+    );
+    await backend.drain();
+
+    expect(processor).toHaveBeenCalledTimes(1);
+    expect(await backend.getJob('publish', id)).toMatchObject({ state: 'failed' });
+  });
+
+  it('parks jobs until the quota resets without spending an attempt', async () => {
+    vi.useFakeTimers();
+    const processor = vi
+      .fn()
+      .mockRejectedValueOnce(new QuotaWaitError(new Date(Date.now() + 60_000)))
+      .mockResolvedValue({});
+    backend.process('analyze', processor, 1);
+
+    const id = await backend.add('analyze', analyzeData, { attempts: 1 });
+    await backend.drain();
+    expect(await backend.getJob('analyze', id)).toMatchObject({ state: 'delayed', attempts: 0 });
+
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(processor).toHaveBeenCalledTimes(2);
+    expect(await backend.getJob('analyze', id)).toMatchObject({ state: 'completed' });
+  });
+});
+
+describe('QueueManager with the memory backend', () => {
+  let qm: QueueManager;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    qm = new QueueManager({ redisUrl: '', backend: 'memory' }, mockLogger);
+    qm.registerProcessor('review', async (job) => {
+      const data = job.data as ReviewJobData;
+      if (data.rejected) throw new UnrecoverableError(`Rejected: ${data.rejectionReason}`);
+      if (!data.approved) throw new AwaitingReviewError(data.generatedVideoId!, 60_000);
+      return { type: 'review', generatedVideoId: data.generatedVideoId, autoApproved: false };
+    });
+  });
+
+  afterEach(async () => {
+    await qm.shutdown();
+  });
+
+  it('parks review jobs until approved', async () => {
+    const jobId = await qm.addJob('review', { type: 'review', generatedVideoId: 3 });
+    await qm.drain();
+
+    const queue = await qm.getReviewQueue();
+    expect(queue).toEqual([expect.objectContaining({ id: jobId, state: 'awaiting-review' })]);
+
+    await qm.approveVideo(jobId);
+    await qm.drain();
+
+    expect(await qm.getReviewQueue()).toHaveLength(0);
+    const [job] = await qm.getJobHistory(5);
+    expect(job).toMatchObject({ id: jobId, state: 'completed' });
+  });
+
+  it('fails rejected review jobs', async () => {
+    const jobId = await qm.addJob('review', { type: 'review', generatedVideoId: 3 });
+    await qm.drain();
+
+    await qm.rejectVideo(jobId, 'Off-model character');
+    await qm.drain();
+
+    const [job] = await qm.getJobHistory(5);
+    expect(job).toMatchObject({
+      id: jobId,
+      state: 'failed',
+      failedReason: 'Rejected: Off-model character',
+    });
+  });
+
+  it('runs the full pipeline flow end to end', async () => {
+    const stages: string[] = [];
+    for (const name of [
+      'analyze',
+      'generate-script',
+      'generate-media',
+      'quality-check',
+      'publish',
+      'track-performance',
+    ] as const) {
+      qm.registerProcessor(name, async () => {
+        stages.push(name);
+        return { type: name, generatedVideoId: 1 };
+      });
+    }
+
+    const jobIds = await qm.schedulePipeline({ autoApprove: false });
+    await qm.drain();
+    expect(stages).toEqual(['analyze', 'generate-script', 'generate-media', 'quality-check']);
+
+    const [review] = await qm.getReviewQueue();
+    await qm.approveVideo(review.id);
+    await qm.drain();
+
+    expect(jobIds).toHaveLength(7);
+    expect(stages.slice(-2)).toEqual(['publish', 'track-performance']);
+    expect(await qm.getHealth()).toMatchObject({ completed: 7, failed: 0 });
+  });
+
+  it('throws for unknown review jobs', async () => {
+    await expect(qm.approveVideo('999')).rejects.toThrow('Job 999 not found');
+  });
+});
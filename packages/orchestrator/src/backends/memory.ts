@@ -0,0 +1,336 @@
+import { UnrecoverableError } from 'bullmq';
+import type { Logger } from '@kidsvid/shared';
+import { DeferJobError, type JobName, type JobData } from '../jobs.js';
+import type {
+  QueueBackend,
+  QueueCounts,
+  JobState,
+  JobStatus,
+  JobOptions,
+  JobProcessor,
+  FlowNode,
+  PipelineJob,
+} from './types.js';
+
+/** In-process queue backend for local development and CI — no Redis required.
+ * Mirrors the BullMQ semantics the pipeline relies on: flows run children first and fail
+ * their parent on failure, delayed and prioritized jobs, retries with backoff, and jobs
+ * parked as delayed until a review decision or a quota reset. Jobs are lost when the process
+ * exits. */
+
+interface MemoryJob {
+  id: string;
+  name: JobName;
+  data: JobData;
+  options: JobOptions;
+  state: JobState | 'waiting-children';
+  /** Insertion order, used as a FIFO tiebreaker */
+  seq: number;
+  timestamp: number;
+  processedOn?: number;
+  finishedOn?: number;
+  attemptsMade: number;
+  failedReason?: string;
+  returnValue?: unknown;
+  parentId?: string;
+  childIds: string[];
+  /** Delayed because it is waiting on a reviewer, not on a timer the process must wait for */
+  parked: boolean;
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+interface StageWorker {
+  processor: JobProcessor;
+  concurrency: number;
+  active: number;
+}
+
+export class MemoryBackend implements QueueBackend {
+  private jobs = new Map<string, MemoryJob>();
+  private workers = new Map<JobName, StageWorker>();
+  private nextId = 1;
+  private idleWaiters: Array<() => void> = [];
+  private closed = false;
+
+  constructor(private logger: Logger) {}
+
+  async add(name: JobName, data: JobData, options: JobOptions): Promise<string> {
+    const job = this.createJob(name, data, options);
+    this.enqueue(job, options.delay);
+    return job.id;
+  }
+
+  async addFlow(root: FlowNode): Promise<string[]> {
+    const ids: string[] = [];
+    const build = (node: FlowNode, parentId?: string): MemoryJob => {
+      const job = this.createJob(node.name, node.data, {}, parentId);
+      ids.push(job.id);
+      for (const child of node.children ?? []) {
+        job.childIds.push(build(child, job.id).id);
+      }
+      return job;
+    };
+
+    const rootJob = build(root);
+    // Leaves start immediately; every parent waits on its children
+    for (const job of this.flowJobs(rootJob)) {
+      if (job.childIds.length > 0) {
+        job.state = 'waiting-children';
+      } else {
+        this.enqueue(job);
+      }
+    }
+    return ids;
+  }
+
+  process(name: JobName, processor: JobProcessor, concurrency: number): void {
+    this.workers.set(name, { processor, concurrency, active: 0 });
+    this.dispatch(name);
+  }
+
+  async getCounts(): Promise<QueueCounts> {
+    const counts: QueueCounts = { waiting: 0, active: 0, completed: 0, failed: 0, delayed: 0 };
+    for (const job of this.jobs.values()) {
+      if (job.state !== 'waiting-children') counts[job.state]++;
+    }
+    return counts;
+  }
+
+  async getJobs(states: JobState[], limit: number, name?: JobName): Promise<JobStatus[]> {
+    return [...this.jobs.values()]
+      .filter(
+        (job) =>
+          (states as string[]).includes(job.state) && (name === undefined || job.name === name),
+      )
+      .sort((a, b) => b.seq - a.seq)
+      .slice(0, limit)
+      .map(toJobStatus);
+  }
+
+  async getJob(name: JobName, id: string): Promise<JobStatus | undefined> {
+    const job = this.jobs.get(id);
+    return job && job.name === name ? toJobStatus(job) : undefined;
+  }
+
+  async updateJobData(name: JobName, id: string, data: JobData): Promise<void> {
+    const job = this.jobs.get(id);
+    if (!job || job.name !== name) throw new Error(`Job ${id} not found`);
+    job.data = data;
+  }
+
+  async promoteJob(name: JobName, id: string): Promise<void> {
+    const job = this.jobs.get(id);
+    if (job && job.name === name && job.state === 'delayed') {
+      clearTimeout(job.timer);
+      this.moveToWaiting(job);
+    }
+  }
+
+  async drain(): Promise<void> {
+    if (this.isIdle()) return;
+    await new Promise<void>((resolve) => this.idleWaiters.push(resolve));
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+    for (const job of this.jobs.values()) clearTimeout(job.timer);
+    this.workers.clear();
+    this.notifyIfIdle();
+  }
+
+  // ─── Scheduling ───
+
+  private createJob(
+    name: JobName,
+    data: JobData,
+    options: JobOptions,
+    parentId?: string,
+  ): MemoryJob {
+    const seq = this.nextId++;
+    const job: MemoryJob = {
+      id: String(seq),
+      name,
+      data,
+      options,
+      state: 'waiting',
+      seq,
+      timestamp: Date.now(),
+      attemptsMade: 0,
+      parentId,
+      childIds: [],
+      parked: false,
+    };
+    this.jobs.set(job.id, job);
+    return job;
+  }
+
+  private enqueue(job: MemoryJob, delay?: number): void {
+    if (delay && delay > 0) {
+      this.delay(job, delay, false);
+    } else {
+      this.moveToWaiting(job);
+    }
+  }
+
+  private delay(job: MemoryJob, ms: number, parked: boolean): void {
+    job.state = 'delayed';
+    job.parked = parked;
+    job.timer = setTimeout(() => this.moveToWaiting(job), ms);
+  }
+
+  private moveToWaiting(job: MemoryJob): void {
+    job.state = 'waiting';
+    job.parked = false;
+    job.timer = undefined;
+    this.dispatch(job.name);
+  }
+
+  /** Start as many waiting jobs of this type as the stage's concurrency allows */
+  private dispatch(name: JobName): void {
+    const worker = this.workers.get(name);
+    if (!worker || this.closed) return;
+
+    while (worker.active < worker.concurrency) {
+      const next = this.nextWaiting(name);
+      if (!next) break;
+      worker.active++;
+      void this.run(next, worker).finally(() => {
+        worker.active--;
+        this.dispatch(name);
+        this.notifyIfIdle();
+      });
+    }
+  }
+
+  /** Like BullMQ: jobs without a priority first, then lowest priority number, FIFO within each */
+  private nextWaiting(name: JobName): MemoryJob | undefined {
+    let best: MemoryJob | undefined;
+    for (const job of this.jobs.values()) {
+      if (job.name !== name || job.state !== 'waiting') continue;
+      if (!best || compareJobs(job, best) < 0) best = job;
+    }
+    return best;
+  }
+
+  private async run(job: MemoryJob, worker: StageWorker): Promise<void> {
+    job.state = 'active';
+    job.processedOn = Date.now();
+    this.logger.info({ jobId: job.id, name: job.name }, 'Processing job');
+
+    try {
+      job.returnValue = await worker.processor(this.toPipelineJob(job));
+      job.state = 'completed';
+      job.finishedOn = Date.now();
+      this.logger.info({ jobId: job.id, name: job.name }, 'Job completed');
+      this.onChildCompleted(job);
+    } catch (err) {
+      if (err instanceof DeferJobError) {
+        this.delay(job, err.retryAfterMs, true);
+        return;
+      }
+
+      job.attemptsMade++;
+      const message = err instanceof Error ? err.message : String(err);
+      const attempts = job.options.attempts ?? 1;
+      if (!(err instanceof UnrecoverableError) && job.attemptsMade < attempts) {
+        this.delay(job, backoffDelay(job.options, job.attemptsMade), false);
+        return;
+      }
+
+      this.fail(job, message);
+    }
+  }
+
+  private fail(job: MemoryJob, reason: string): void {
+    job.state = 'failed';
+    job.failedReason = reason;
+    job.finishedOn = Date.now();
+    this.logger.error({ jobId: job.id, name: job.name, err: reason }, 'Job failed');
+
+    const parent = job.parentId ? this.jobs.get(job.parentId) : undefined;
+    if (parent && parent.state === 'waiting-children') {
+      this.fail(parent, `child ${job.name}:${job.id} failed`);
+    }
+  }
+
+  private onChildCompleted(job: MemoryJob): void {
+    const parent = job.parentId ? this.jobs.get(job.parentId) : undefined;
+    if (!parent || parent.state !== 'waiting-children') return;
+
+    const done = parent.childIds.every((id) => this.jobs.get(id)?.state === 'completed');
+    if (done) this.moveToWaiting(parent);
+  }
+
+  private toPipelineJob(job: MemoryJob): PipelineJob {
+    return {
+      id: job.id,
+      name: job.name,
+      data: job.data,
+      getChildrenValues: async <T>() => {
+        const values: Record<string, T> = {};
+        for (const id of job.childIds) {
+          const child = this.jobs.get(id);
+          if (child?.state === 'completed') {
+            values[`memory:${child.name}:${child.id}`] = child.returnValue as T;
+          }
+        }
+        return values;
+      },
+      updateData: async (data) => {
+        job.data = data;
+      },
+    };
+  }
+
+  private *flowJobs(job: MemoryJob): Generator<MemoryJob> {
+    yield job;
+    for (const id of job.childIds) yield* this.flowJobs(this.jobs.get(id)!);
+  }
+
+  // ─── Idle Tracking ───
+
+  /** Idle when no job with a registered processor is waiting, running, or about to retry */
+  private isIdle(): boolean {
+    if (this.closed) return true;
+    for (const job of this.jobs.values()) {
+      if (!this.workers.has(job.name)) continue;
+      if (job.state === 'waiting' || job.state === 'active') return false;
+      if (job.state === 'delayed' && !job.parked) return false;
+    }
+    return true;
+  }
+
+  private notifyIfIdle(): void {
+    if (this.idleWaiters.length === 0 || !this.isIdle()) return;
+    const waiters = this.idleWaiters;
+    this.idleWaiters = [];
+    for (const resolve of waiters) resolve();
+  }
+}
+
+function compareJobs(a: MemoryJob, b: MemoryJob): number {
+  const pa = a.options.priority ?? 0;
+  const pb = b.options.priority ?? 0;
+  return pa !== pb ? pa - pb : a.seq - b.seq;
+}
+
+function backoffDelay(options: JobOptions, attemptsMade: number): number {
+  if (!options.backoff) return 0;
+  return options.backoff.type === 'exponential'
+    ? options.backoff.delay * 2 ** (attemptsMade - 1)
+    : options.backoff.delay;
+}
+
+function toJobStatus(job: MemoryJob): JobStatus {
+  return {
+    id: job.id,
+    name: job.name,
+    state: job.state,
+    progress: 0,
+    attempts: job.attemptsMade,
+    timestamp: job.timestamp,
+    finishedOn: job.finishedOn,
+    failedReason: job.failedReason,
+    data: job.data as unknown as Record<string, unknown>,
+  };
+}
@@ -0,0 +1,73 @@
+import type { JobName, JobData } from '../jobs.js';
+
+/** Storage and execution layer behind QueueManager.
+ * BullMQ is the production backend; the in-memory backend runs the same flows in-process. */
+
+export type QueueBackendName = 'bullmq' | 'memory';
+
+export type JobState = 'waiting' | 'active' | 'delayed' | 'completed' | 'failed';
+
+export interface JobStatus {
+  id: string;
+  name: string;
+  state: string;
+  progress: number;
+  attempts: number;
+  timestamp: number;
+  finishedOn?: number;
+  failedReason?: string;
+  data: Record<string, unknown>;
+}
+
+export interface QueueCounts {
+  waiting: number;
+  active: number;
+  completed: number;
+  failed: number;
+  delayed: number;
+}
+
+/** The part of a job a processor sees. BullMQ's Job satisfies this structurally. */
+export interface PipelineJob {
+  id?: string;
+  name: string;
+  data: JobData;
+  /** Return values of completed child jobs, keyed by an opaque per-backend job key */
+  getChildrenValues<T = unknown>(): Promise<Record<string, T>>;
+  /** Replace the job's data, e.g. to carry progress into the run after a deferral */
+  updateData(data: JobData): Promise<void>;
+}
+
+export type JobProcessor = (job: PipelineJob) => Promise<unknown>;
+
+export interface JobOptions {
+  delay?: number;
+  priority?: number;
+  attempts?: number;
+  backoff?: { type: 'fixed' | 'exponential'; delay: number };
+}
+
+/** A flow node runs after all its children complete. A failed child fails its parent. */
+export interface FlowNode {
+  name: JobName;
+  data: JobData;
+  children?: FlowNode[];
+}
+
+export interface QueueBackend {
+  add(name: JobName, data: JobData, options: JobOptions): Promise<string>;
+  /** Add a flow and return its job ids, root first */
+  addFlow(root: FlowNode): Promise<string[]>;
+  /** Start processing one job type at the given concurrency */
+  process(name: JobName, processor: JobProcessor, concurrency: number): void;
+  getCounts(): Promise<QueueCounts>;
+  /** Jobs in the given states, newest first, optionally limited to one job type */
+  getJobs(states: JobState[], limit: number, name?: JobName): Promise<JobStatus[]>;
+  getJob(name: JobName, id: string): Promise<JobStatus | undefined>;
+  updateJobData(name: JobName, id: string, data: JobData): Promise<void>;
+  /** Move a delayed job back to waiting so it runs now; no-op for other states */
+  promoteJob(name: JobName, id: string): Promise<void>;
+  /** Resolve once every job this process can run has finished or is parked (review, quota) */
+  drain(): Promise<void>;
+  close(): Promise<void>;
+}
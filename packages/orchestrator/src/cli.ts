@@ -1,7 +1,17 @@
-import { loadConfig, createLogger } from '@kidsvid/shared';
-import { QueueManager } from './queue.js';
+import {
+  loadConfig,
+  createLogger,
+  getDb,
+  VideoLifecycle,
+  Watchlist,
+  createQuotaLedger,
+  loadLatestRunPatterns,
+  type WatchlistChanges,
+  type WatchlistFilter,
+} from '@kidsvid/shared';
 import { createDashboard } from './dashboard.js';
 import { JOB_NAMES } from './jobs.js';
+import { startWorker, createQueueManager } from './worker.js';
 
 async function main() {
   const args = process.argv.slice(2);
@@ -32,7 +42,7 @@ async function main() {
     switch (command) {
       case 'analyze': {
         print.header('Channel Analysis');
-        const qm = new QueueManager({ redisUrl: config.redisUrl }, logger);
+        const qm = createQueueManager(config, logger);
         const jobId = await qm.addJob(JOB_NAMES.ANALYZE, {
           type: 'analyze',
           channelIds: getFlag(args, '--channels')?.split(','),
@@ -40,6 +50,127 @@ async function main() {
         });
         print.success(`Analysis job queued (${chalk.bold(jobId)})`);
         print.dim('Run "kidsvid status" to monitor progress');
+        await qm.drain();
+        await qm.shutdown();
+        break;
+      }
+
+      case 'watchlist': {
+        const sub = args[1] ?? 'list';
+        const channelId = args[2];
+        const db = getDb(config.databaseUrl);
+        const watchlist = new Watchlist(db, logger);
+        const tags = {
+          niche: getFlag(args, '--niche') as WatchlistChanges['niche'],
+          language: getFlag(args, '--language'),
+          tier: getFlag(args, '--tier') as WatchlistChanges['tier'],
+        };
+
+        if (sub === 'list' || sub === 'proposed') {
+          const status = sub === 'proposed' ? 'proposed' : getFlag(args, '--status');
+          print.header(sub === 'proposed' ? 'Proposed Watchlist Additions' : 'Competitor Watchlist');
+          const entries = await watchlist.list({ ...tags, status } as WatchlistFilter);
+          if (entries.length === 0) {
+            print.info('No matching channels');
+            break;
+          }
+          const table = new Table({
+            head: [
+              chalk.cyan('Channel ID'),
+              chalk.cyan('Name'),
+              chalk.cyan('Niche'),
+              chalk.cyan('Lang'),
+              chalk.cyan('Tier'),
+              chalk.cyan('Status'),
+              chalk.cyan('Score'),
+            ],
+            colWidths: [26, 28, 16, 6, 7, 10, 7],
+          });
+          for (const e of entries) {
+            table.push([
+              e.youtubeChannelId,
+              e.name.slice(0, 26),
+              e.niche ?? '',
+              e.language ?? '',
+              e.tier ?? '',
+              e.status === 'active' ? chalk.green(e.status) : chalk.yellow(e.status),
+              e.score !== null ? e.score.toFixed(2) : '',
+            ]);
+          }
+          console.log(table.toString());
+          if (sub === 'proposed') {
+            for (const e of entries) print.dim(`${e.name}: ${e.reason}`);
+            print.dim('Use "kidsvid watchlist accept <channelId>" or "kidsvid watchlist reject <channelId>"');
+          }
+          break;
+        }
+
+        if (sub === 'seed') {
+          const added = await watchlist.seed();
+          print.success(`Seeded ${added} built-in channel(s)`);
+          break;
+        }
+
+        if (!channelId) {
+          print.error(`Usage: kidsvid watchlist ${sub} <channelId>`);
+          process.exit(1);
+        }
+
+        switch (sub) {
+          case 'add': {
+            const name = args[3];
+            if (!name || name.startsWith('--')) {
+              print.error('Usage: kidsvid watchlist add <channelId> "<name>" [--niche --language --tier]');
+              process.exit(1);
+            }
+            await watchlist.add({ youtubeChannelId: channelId, name, ...tags });
+            print.success(`${chalk.bold(name)} added to the watchlist`);
+            break;
+          }
+          case 'tag': {
+            const changes: WatchlistChanges = {};
+            if (tags.niche) changes.niche = tags.niche;
+            if (tags.language) changes.language = tags.language;
+            if (tags.tier) changes.tier = tags.tier;
+            if (args.includes('--pause')) changes.status = 'paused';
+            if (args.includes('--resume')) changes.status = 'active';
+            await watchlist.update(channelId, changes);
+            print.success(`${chalk.bold(channelId)} updated`);
+            break;
+          }
+          case 'remove':
+            await watchlist.remove(channelId);
+            print.success(`${chalk.bold(channelId)} removed from the watchlist`);
+            break;
+          case 'accept':
+            await watchlist.accept(channelId, 'cli');
+            print.success(`${chalk.bold(channelId)} accepted; the next analysis run covers it`);
+            break;
+          case 'reject':
+            await watchlist.reject(channelId, 'cli');
+            print.warn(`${chalk.bold(channelId)} rejected; discovery won't propose it again`);
+            break;
+          default:
+            print.error(`Unknown watchlist command: ${sub}`);
+            process.exit(1);
+        }
+        break;
+      }
+
+      case 'discover': {
+        print.header('Competitor Discovery');
+        const qm = createQueueManager(config, logger);
+        const minSubscribers = getFlag(args, '--min-subscribers');
+        const max = getFlag(args, '--max');
+        const jobId = await qm.addJob(JOB_NAMES.DISCOVER, {
+          type: 'discover-channels',
+          keywords: getFlag(args, '--keywords')?.split(','),
+          minSubscribers: minSubscribers ? parseInt(minSubscribers, 10) : undefined,
+          maxProposals: max ? parseInt(max, 10) : undefined,
+        });
+        print.success(`Discovery job queued (${chalk.bold(jobId)})`);
+        print.dim('Run "kidsvid watchlist proposed" to review what it finds');
+        await qm.drain();
         await qm.shutdown();
         break;
       }
@@ -55,12 +186,17 @@ async function main() {
           print.header(`Series Generation: "${seriesName}"`);
           const { SeriesGenerator } = await import('@kidsvid/generator');
           const seriesGen = new SeriesGenerator(logger);
+          // Without --episodes the length follows competitors' better-performing series
+          const latest = await loadLatestRunPatterns(getDb(config.databaseUrl));
+          seriesGen.usePatterns(latest?.patterns ?? []);
           const series = seriesGen.generate({
             name: seriesName,
             educationalCategory: category as 'early_math',
             topic,
             ageBracket: age as '4-6',
-            totalEpisodes: episodes ? parseInt(episodes, 10) : 10,
+            totalEpisodes: episodes
+              ? parseInt(episodes, 10)
+              : (seriesGen.conventions.totalEpisodes ?? 10),
             characterIds: [0],
           });
 
@@ -89,7 +225,7 @@ async function main() {
           print.dim(`Story arc: ${series.storyArc.slice(0, 100)}...`);
         } else {
           print.header('Single Video Generation');
-          const qm = new QueueManager({ redisUrl: config.redisUrl }, logger);
+          const qm = createQueueManager(config, logger);
           const jobId = await qm.addJob(JOB_NAMES.GENERATE_SCRIPT, {
             type: 'generate-script',
             educationalCategory: category,
@@ -99,6 +235,7 @@ async function main() {
           });
           print.success(`Generation job queued (${chalk.bold(jobId)})`);
           print.dim(`Topic: ${topic} | Age: ${age} | Category: ${category}`);
+          await qm.drain();
           await qm.shutdown();
         }
         break;
@@ -106,7 +243,7 @@ async function main() {
 
       case 'review': {
         print.header('Content Review Queue');
-        const qm = new QueueManager({ redisUrl: config.redisUrl }, logger);
+        const qm = createQueueManager(config, logger);
         const queue = await qm.getReviewQueue();
 
         if (queue.length === 0) {
@@ -145,8 +282,8 @@ async function main() {
           process.exit(1);
         }
         print.header('Approve Content');
-        const qm = new QueueManager({ redisUrl: config.redisUrl }, logger);
-        await qm.approveVideo(jobId);
+        const qm = createQueueManager(config, logger);
+        await qm.approveVideo(jobId, 'cli');
         print.success(`Video ${chalk.bold(jobId)} approved for publishing`);
         await qm.shutdown();
         break;
@@ -160,30 +297,36 @@ async function main() {
           process.exit(1);
         }
         print.header('Reject Content');
-        const qm = new QueueManager({ redisUrl: config.redisUrl }, logger);
-        await qm.rejectVideo(jobId, reason);
+        const qm = createQueueManager(config, logger);
+        await qm.rejectVideo(jobId, reason, 'cli');
         print.warn(`Video ${chalk.bold(jobId)} rejected: ${reason}`);
         await qm.shutdown();
         break;
       }
 
       case 'publish': {
+        const videoId = getFlag(args, '--video');
+        if (!videoId) {
+          print.error('Usage: kidsvid publish --video <generatedVideoId>');
+          process.exit(1);
+        }
         print.header('Publish Approved Content');
-        const qm = new QueueManager({ redisUrl: config.redisUrl }, logger);
+        const qm = createQueueManager(config, logger);
         const jobId = await qm.addJob(JOB_NAMES.PUBLISH, {
           type: 'publish',
-          generatedVideoId: 0,
+          generatedVideoId: parseInt(videoId, 10),
           dryRun: config.dryRun,
         });
         print.success(`Publish job queued (${chalk.bold(jobId)})`);
         if (config.dryRun) print.warn('DRY RUN mode — no actual upload will occur');
+        await qm.drain();
         await qm.shutdown();
         break;
       }
 
       case 'stats': {
         print.header('Queue Health & Statistics');
-        const qm = new QueueManager({ redisUrl: config.redisUrl }, logger);
+        const qm = createQueueManager(config, logger);
         const health = await qm.getHealth();
 
         const table = new Table();
@@ -232,24 +375,26 @@ async function main() {
 
       case 'report': {
         print.header('Weekly Performance Report');
-        const qm = new QueueManager({ redisUrl: config.redisUrl }, logger);
+        const qm = createQueueManager(config, logger);
         const jobId = await qm.addJob(JOB_NAMES.REPORT, {
           type: 'weekly-report',
           period: 'weekly',
         });
         print.success(`Report generation queued (${chalk.bold(jobId)})`);
+        await qm.drain();
         await qm.shutdown();
         break;
       }
 
       case 'pipeline': {
         print.header('Full Pipeline');
-        const qm = new QueueManager({ redisUrl: config.redisUrl }, logger);
+        const qm = createQueueManager(config, logger);
         const jobIds = await qm.schedulePipeline({
           dryRun: config.dryRun,
           educationalCategory: getFlag(args, '--category') ?? 'early_math',
           topic: getFlag(args, '--topic') ?? 'counting to 10',
           ageBracket: getFlag(args, '--age') ?? '4-6',
+          autoApprove: !config.manualApproval,
         });
 
         print.success(`Pipeline started with ${jobIds.length} stages`);
@@ -257,18 +402,43 @@ async function main() {
           print.dim(`  Stage ${i + 1}: ${jobIds[i]}`);
         }
         if (config.dryRun) print.warn('DRY RUN mode enabled');
+        if (config.queueBackend === 'bullmq') {
+          print.dim('Run "kidsvid worker" to process the pipeline');
+        } else if (config.manualApproval) {
+          print.warn('In-memory queue stops at the review gate; use "dashboard" to approve');
+        }
+        await qm.drain();
         await qm.shutdown();
         break;
       }
 
+      case 'worker': {
+        print.header('Pipeline Worker');
+        const qm = startWorker(config, logger);
+        print.success('Processing analyze → generate → review → publish → track');
+        if (config.dryRun) print.warn('DRY RUN mode — publish stage will not upload');
+        if (config.queueBackend === 'memory') {
+          print.warn('In-memory queue: only jobs queued by this process run here (try "dashboard")');
+        }
+        print.dim('Press Ctrl+C to stop');
+        process.once('SIGINT', () => {
+          qm.shutdown().then(() => process.exit(0));
+        });
+        break;
+      }
+
       case 'dashboard': {
         print.header('Dashboard API');
         const portArg = getFlag(args, '--port');
         const port = portArg ? parseInt(portArg, 10) : 3000;
-        const qm = new QueueManager({ redisUrl: config.redisUrl }, logger);
-        createDashboard(qm, logger, port);
+        const qm = createQueueManager(config, logger);
+        const db = getDb(config.databaseUrl);
+        const lifecycle = new VideoLifecycle(db, logger);
+        const quota = createQuotaLedger(db, logger, config);
+        const watchlist = new Watchlist(db, logger);
+        createDashboard(qm, logger, { port, lifecycle, quota, watchlist });
         print.success(`Dashboard running at ${chalk.underline(`http://localhost:${port}`)}`);
-        print.dim('Endpoints: /health, /api/queue/stats, /api/jobs, /api/review');
+        print.dim('Endpoints: /health, /api/queue/stats, /api/jobs, /api/review, /api/videos/:id/history, /api/watchlist');
         print.dim('Press Ctrl+C to stop');
         break;
       }
@@ -313,6 +483,19 @@ async function main() {
         }
         console.log(schedTable.toString());
 
+        // Shorts, episodes and compilations are planned apart, from the latest run's findings
+        const latest = await loadLatestRunPatterns(getDb(config.databaseUrl));
+        if (!latest) print.dim('No completed analysis run yet, showing default recommendations');
+        const byFormat = engine.recommendByFormat(latest?.patterns ?? []);
+        for (const [format, label] of [
+          ['short', 'Shorts'],
+          ['long_form', 'Episodes'],
+          ['compilation', 'Compilations'],
+        ] as const) {
+          print.header(label);
+          for (const rec of byFormat[format]) print.info(`${rec.area}: ${rec.recommendation}`);
+        }
+
         // Growth projections
         const growth = engine.projectGrowth({
           currentSubscribers: 0,
@@ -365,9 +548,23 @@ function printHelp() {
       --channels <ids>         Comma-separated YouTube channel IDs
       --videos <n>             Videos per channel (default: 50)
 
+    watchlist [list]           List watched competitor channels
+      --status/--niche/--language/--tier <value>   Filter by tag
+    watchlist proposed         Show channels proposed by discovery
+    watchlist add <id> "<name>" Watch a channel (--niche, --language, --tier)
+    watchlist tag <id>         Retag a channel (--niche, --language, --tier, --pause, --resume)
+    watchlist remove <id>      Stop watching a channel
+    watchlist accept <id>      Accept a discovery proposal
+    watchlist reject <id>      Reject a discovery proposal
+    watchlist seed             Add the built-in seed channels
+    discover                   Search YouTube for new competitor channels to propose
+      --keywords <list>        Comma-separated search phrases
+      --min-subscribers <n>    Smallest channel to propose (default: 100000)
+      --max <n>                Proposals per run (default: 10)
+
     generate                   Generate content
       --series "<name>"        Generate a full series (with --episodes)
-      --episodes <n>           Number of episodes (default: 10)
+      --episodes <n>           Number of episodes (default: competitor series length, else 10)
       --single                 Generate a single video
       --topic "<topic>"        Content topic
       --age <bracket>          Age bracket: 2-4, 4-6, 6-8
@@ -378,9 +575,11 @@ function printHelp() {
     reject <id> [reason]       Reject content with reason
 
     publish                    Publish approved content
+      --video <id>             Generated video ID to publish
     stats                      Show queue health and job history
     report                     Generate weekly performance report
     pipeline                   Run the full pipeline end-to-end
+    worker                     Start a worker that processes pipeline jobs
     strategy                   Show channel strategy recommendations
       --topic "<topic>"        Topic for title recommendations
       --category <cat>         Content category
@@ -1,6 +1,13 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { createDashboard } from './dashboard.js';
-import type { Logger } from '@kidsvid/shared';
+import {
+  WatchlistEntryNotFoundError,
+  WatchlistProposalConflictError,
+  type Logger,
+  type VideoLifecycle,
+  type QuotaLedger,
+  type Watchlist,
+} from '@kidsvid/shared';
 import type { QueueManager } from './queue.js';
 import type { Server } from 'http';
 
@@ -19,6 +26,8 @@ vi.mock('express', () => {
     post: vi.fn((path: string, handler: Function) => {
       mockRouter.post.push({ path, handler });
     }),
+    patch: vi.fn(),
+    delete: vi.fn(),
     listen: vi.fn((_port: number, cb: Function) => {
       cb();
       return { close: vi.fn() } as unknown as Server;
@@ -67,7 +76,7 @@ describe('createDashboard', () => {
 
   it('creates Express server and registers routes', () => {
     const qm = createMockQueueManager();
-    const server = createDashboard(qm, mockLogger, 3001);
+    const server = createDashboard(qm, mockLogger, { port: 3001 });
 
     expect(server).toBeDefined();
     expect(mockLogger.info).toHaveBeenCalledWith(
@@ -78,7 +87,7 @@ describe('createDashboard', () => {
 
   it('registers health endpoint', async () => {
     const qm = createMockQueueManager();
-    createDashboard(qm, mockLogger, 3002);
+    createDashboard(qm, mockLogger, { port: 3002 });
 
     // Find the health route handler
     const express = (await import('express')).default;
@@ -91,7 +100,7 @@ describe('createDashboard', () => {
 
   it('registers all API endpoints', async () => {
     const qm = createMockQueueManager();
-    createDashboard(qm, mockLogger, 3003);
+    createDashboard(qm, mockLogger, { port: 3003 });
 
     const express = (await import('express')).default;
     const app = express();
@@ -118,7 +127,7 @@ describe('createDashboard', () => {
 
   it('registers approval/rejection endpoints', async () => {
     const qm = createMockQueueManager();
-    createDashboard(qm, mockLogger, 3004);
+    createDashboard(qm, mockLogger, { port: 3004 });
 
     const express = (await import('express')).default;
     const app = express();
@@ -130,4 +139,132 @@ describe('createDashboard', () => {
     expect(postRoutes).toContain('/api/review/:jobId/approve');
     expect(postRoutes).toContain('/api/review/:jobId/reject');
   });
+
+  it('serves video status history when a lifecycle is provided', async () => {
+    const qm = createMockQueueManager();
+    const lifecycle = {
+      history: vi.fn().mockResolvedValue([{ id: 1, fromStatus: 'review', toStatus: 'failed' }]),
+    } as unknown as VideoLifecycle;
+    createDashboard(qm, mockLogger, { port: 3005, lifecycle });
+
+    const express = (await import('express')).default;
+    const app = express();
+    const historyRoute = (app.get as ReturnType<typeof vi.fn>).mock.calls.find(
+      ([path]) => path === '/api/videos/:id/history',
+    );
+    const json = vi.fn();
+    const status = vi.fn(() => ({ json }));
+    await historyRoute![1]({ params: { id: '42' } }, { json, status });
+
+    expect(lifecycle.history).toHaveBeenCalledWith(42);
+    expect(json).toHaveBeenCalledWith({
+      videoId: 42,
+      events: [{ id: 1, fromStatus: 'review', toStatus: 'failed' }],
+    });
+
+    vi.mocked(lifecycle.history).mockClear();
+    for (const id of ['abc', '0', '4.5']) {
+      await historyRoute![1]({ params: { id } }, { json, status });
+    }
+    expect(status).toHaveBeenCalledTimes(3);
+    expect(status).toHaveBeenCalledWith(400);
+    expect(lifecycle.history).not.toHaveBeenCalled();
+  });
+
+  it('reports YouTube quota usage in queue stats when a ledger is provided', async () => {
+    const qm = createMockQueueManager();
+    const usage = { day: '2026-03-02', dailyLimit: 10_000, used: 4230, remaining: 5770 };
+    const quota = { usage: vi.fn().mockResolvedValue(usage) } as unknown as QuotaLedger;
+    createDashboard(qm, mockLogger, { port: 3006, quota });
+
+    const express = (await import('express')).default;
+    const app = express();
+    const statsRoute = (app.get as ReturnType<typeof vi.fn>).mock.calls.find(
+      ([path]) => path === '/api/queue/stats',
+    );
+    const json = vi.fn();
+    await statsRoute![1]({}, { json, status: vi.fn() });
+
+    expect(json).toHaveBeenCalledWith(expect.objectContaining({ waiting: 2, youtubeQuota: usage }));
+  });
+
+  it('queues a discover job from a validated body without overriding its type', async () => {
+    const qm = createMockQueueManager();
+    createDashboard(qm, mockLogger, { port: 3007 });
+
+    const express = (await import('express')).default;
+    const app = express();
+    const discoverRoute = (app.post as ReturnType<typeof vi.fn>).mock.calls.find(
+      ([path]) => path === '/api/jobs/discover',
+    );
+    const json = vi.fn();
+    const status = vi.fn(() => ({ json }));
+
+    await discoverRoute![1](
+      { body: { keywords: ['nursery rhymes'], maxProposals: 5 } },
+      { json, status },
+    );
+    expect(qm.addJob).toHaveBeenCalledWith('discover-channels', {
+      keywords: ['nursery rhymes'],
+      maxProposals: 5,
+      type: 'discover-channels',
+    });
+
+    vi.mocked(qm.addJob).mockClear();
+    await discoverRoute![1]({ body: { type: 'publish', maxProposals: 5 } }, { json, status });
+    expect(status).toHaveBeenCalledWith(400);
+    expect(qm.addJob).not.toHaveBeenCalled();
+  });
+
+  describe('watchlist review', () => {
+    async function reviewRoute(watchlist: Watchlist, action: 'accept' | 'reject') {
+      createDashboard(createMockQueueManager(), mockLogger, { port: 3008, watchlist });
+      const express = (await import('express')).default;
+      const app = express();
+      return (app.post as ReturnType<typeof vi.fn>).mock.calls.find(
+        ([path]) => path === `/api/watchlist/:channelId/${action}`,
+      )![1];
+    }
+
+    it('returns 404 when accepting a channel that is not listed', async () => {
+      const watchlist = {
+        accept: vi.fn().mockRejectedValue(new WatchlistEntryNotFoundError('UC_unknown')),
+      } as unknown as Watchlist;
+      const json = vi.fn();
+      const status = vi.fn(() => ({ json }));
+
+      await (
+        await reviewRoute(watchlist, 'accept')
+      )({ params: { channelId: 'UC_unknown' }, body: {} }, { json, status });
+      expect(status).toHaveBeenCalledWith(404);
+    });
+
+    it('returns 409 when rejecting a channel that is no longer proposed', async () => {
+      const watchlist = {
+        reject: vi
+          .fn()
+          .mockRejectedValue(new WatchlistProposalConflictError('UC_active', 'active')),
+      } as unknown as Watchlist;
+      const json = vi.fn();
+      const status = vi.fn(() => ({ json }));
+
+      await (
+        await reviewRoute(watchlist, 'reject')
+      )({ params: { channelId: 'UC_active' }, body: {} }, { json, status });
+      expect(status).toHaveBeenCalledWith(409);
+    });
+
+    it('returns 500 for unexpected review failures', async () => {
+      const watchlist = {
+        accept: vi.fn().mockRejectedValue(new Error('connection reset')),
+      } as unknown as Watchlist;
+      const json = vi.fn();
+      const status = vi.fn(() => ({ json }));
+
+      await (
+        await reviewRoute(watchlist, 'accept')
+      )({ params: { channelId: 'UC_new' }, body: {} }, { json, status });
+      expect(status).toHaveBeenCalledWith(500);
+    });
+  });
 });
@@ -1,5 +1,13 @@
 import express from 'express';
-import type { Logger } from '@kidsvid/shared';
+import { z } from 'zod';
+import {
+  WatchlistEntryNotFoundError,
+  WatchlistProposalConflictError,
+  type Logger,
+  type VideoLifecycle,
+  type QuotaLedger,
+  type Watchlist,
+} from '@kidsvid/shared';
 import type { QueueManager } from './queue.js';
 import type { AnalyticsEngine } from './analytics.js';
 import { JOB_NAMES } from './jobs.js';
@@ -7,12 +15,31 @@ import { JOB_NAMES } from './jobs.js';
 /** Express dashboard API for monitoring pipeline status, job history,
  * content queue, and manual approval gate. */
 
+/** Optional services; each one mounts its own routes when provided */
+export interface DashboardOptions {
+  port?: number;
+  analytics?: AnalyticsEngine;
+  lifecycle?: VideoLifecycle;
+  quota?: QuotaLedger;
+  watchlist?: Watchlist;
+}
+
+const discoverBodySchema = z
+  .object({
+    keywords: z.array(z.string().min(1)).optional(),
+    minSubscribers: z.number().int().nonnegative().optional(),
+    maxProposals: z.number().int().positive().optional(),
+  })
+  .strict();
+
+const videoIdSchema = z.coerce.number().int().positive();
+
 export function createDashboard(
   queueManager: QueueManager,
   logger: Logger,
-  port = 3000,
-  analytics?: AnalyticsEngine,
+  options: DashboardOptions = {},
 ) {
+  const { port = 3000, analytics, lifecycle, quota, watchlist } = options;
   const app = express();
   app.use(express.json());
 
@@ -37,7 +64,7 @@ export function createDashboard(
   app.get('/api/queue/stats', async (_req, res) => {
     try {
       const health = await queueManager.getHealth();
-      res.json(health);
+      res.json(quota ? { ...health, youtubeQuota: await quota.usage() } : health);
     } catch (err) {
       res.status(500).json({ error: String(err) });
     }
@@ -70,7 +97,7 @@ export function createDashboard(
 
   app.post('/api/review/:jobId/approve', async (req, res) => {
     try {
-      await queueManager.approveVideo(req.params.jobId);
+      await queueManager.approveVideo(req.params.jobId, req.body.reviewer);
       res.json({ status: 'approved', jobId: req.params.jobId });
     } catch (err) {
       res.status(500).json({ error: String(err) });
@@ -80,7 +107,7 @@ export function createDashboard(
   app.post('/api/review/:jobId/reject', async (req, res) => {
     try {
       const reason = req.body.reason || 'No reason provided';
-      await queueManager.rejectVideo(req.params.jobId, reason);
+      await queueManager.rejectVideo(req.params.jobId, reason, req.body.reviewer);
       res.json({ status: 'rejected', jobId: req.params.jobId, reason });
     } catch (err) {
       res.status(500).json({ error: String(err) });
@@ -149,6 +176,23 @@ export function createDashboard(
     }
   });
 
+  app.post('/api/jobs/discover', async (req, res) => {
+    const body = discoverBodySchema.safeParse(req.body ?? {});
+    if (!body.success) {
+      res.status(400).json({ error: body.error.issues.map((i) => i.message).join('; ') });
+      return;
+    }
+    try {
+      const jobId = await queueManager.addJob(JOB_NAMES.DISCOVER, {
+        ...body.data,
+        type: 'discover-channels',
+      });
+      res.json({ jobId, status: 'queued' });
+    } catch (err) {
+      res.status(500).json({ error: String(err) });
+    }
+  });
+
   // ─── Full Pipeline ───
 
   app.post('/api/pipeline/start', async (req, res) => {
@@ -207,6 +251,94 @@ export function createDashboard(
     });
   }
 
+  // ─── Video History (if lifecycle provided) ───
+
+  if (lifecycle) {
+    app.get('/api/videos/:id/history', async (req, res) => {
+      const videoId = videoIdSchema.safeParse(req.params.id);
+      if (!videoId.success) {
+        res.status(400).json({ error: videoId.error.issues.map((i) => i.message).join('; ') });
+        return;
+      }
+      try {
+        res.json({ videoId: videoId.data, events: await lifecycle.history(videoId.data) });
+      } catch (err) {
+        res.status(500).json({ error: String(err) });
+      }
+    });
+  }
+
+  // ─── Competitor Watchlist (if provided) ───
+
+  if (watchlist) {
+    const notFoundOr500 = (res: express.Response, err: unknown) =>
+      res.status(err instanceof WatchlistEntryNotFoundError ? 404 : 500).json({ error: String(err) });
+    const reviewFailed = (res: express.Response, err: unknown) =>
+      err instanceof WatchlistProposalConflictError
+        ? res.status(409).json({ error: String(err) })
+        : notFoundOr500(res, err);
+
+    app.get('/api/watchlist', async (req, res) => {
+      try {
+        const entries = await watchlist.list(req.query as Parameters<Watchlist['list']>[0]);
+        res.json({ entries, total: entries.length });
+      } catch (err) {
+        res.status(500).json({ error: String(err) });
+      }
+    });
+
+    app.post('/api/watchlist', async (req, res) => {
+      const { channelId, name, niche, language, tier } = req.body;
+      if (!channelId || !name) {
+        res.status(400).json({ error: 'channelId and name are required' });
+        return;
+      }
+      try {
+        res.json(
+          await watchlist.add({ youtubeChannelId: channelId, name, niche, language, tier }),
+        );
+      } catch (err) {
+        res.status(500).json({ error: String(err) });
+      }
+    });
+
+    app.patch('/api/watchlist/:channelId', async (req, res) => {
+      try {
+        const { name, niche, language, tier, status } = req.body;
+        res.json(
+          await watchlist.update(req.params.channelId, { name, niche, language, tier, status }),
+        );
+      } catch (err) {
+        notFoundOr500(res, err);
+      }
+    });
+
+    app.delete('/api/watchlist/:channelId', async (req, res) => {
+      try {
+        await watchlist.remove(req.params.channelId);
+        res.json({ status: 'removed', channelId: req.params.channelId });
+      } catch (err) {
+        notFoundOr500(res, err);
+      }
+    });
+
+    app.post('/api/watchlist/:channelId/accept', async (req, res) => {
+      try {
+        res.json(await watchlist.accept(req.params.channelId, req.body.reviewer));
+      } catch (err) {
+        reviewFailed(res, err);
+      }
+    });
+
+    app.post('/api/watchlist/:channelId/reject', async (req, res) => {
+      try {
+        res.json(await watchlist.reject(req.params.channelId, req.body.reviewer));
+      } catch (err) {
+        reviewFailed(res, err);
+      }
+    });
+  }
+
   const server = app.listen(port, () => {
     logger.info({ port }, 'Dashboard API running');
   });
@@ -1,8 +1,27 @@
-export { QueueManager, type QueueManagerOptions, type JobStatus } from './queue.js';
-export { createDashboard } from './dashboard.js';
+export { QueueManager, type QueueManagerOptions } from './queue.js';
+export {
+  BullMQBackend,
+  MemoryBackend,
+  createQueueBackend,
+  type QueueBackend,
+  type QueueBackendName,
+  type QueueCounts,
+  type JobState,
+  type JobStatus,
+  type JobOptions,
+  type JobProcessor,
+  type PipelineJob,
+  type FlowNode,
+} from './backends/index.js';
+export { createDashboard, type DashboardOptions } from './dashboard.js';
 export {
   JOB_NAMES,
   PIPELINE_STAGES,
+  STANDALONE_JOBS,
+  DEFAULT_STAGE_CONCURRENCY,
+  AwaitingReviewError,
+  DeferJobError,
+  QuotaWaitError,
   type JobName,
   type JobData,
   type AnalyzeJobData,
@@ -14,7 +33,32 @@ export {
   type TrackJobData,
   type ReportJobData,
   type ScoreJobData,
+  type DiscoverJobData,
+  type JobResult,
+  type AnalyzeJobResult,
+  type GenerateScriptJobResult,
+  type GenerateMediaJobResult,
+  type QualityCheckJobResult,
+  type ReviewJobResult,
+  type PublishJobResult,
+  type TrackJobResult,
+  type DiscoverJobResult,
 } from './jobs.js';
+export {
+  createStageProcessors,
+  registerStageProcessors,
+  type PipelineStage,
+  type ProcessedJob,
+  type StageProcessors,
+  type StageProcessorDeps,
+  type MediaProviders,
+} from './processors.js';
+export {
+  startWorker,
+  createQueueManager,
+  createStageProcessorDeps,
+  createMediaProviders,
+} from './worker.js';
 export {
   AnalyticsEngine,
   type SummaryStats,
@@ -12,10 +12,11 @@ describe('JOB_NAMES', () => {
     expect(JOB_NAMES.TRACK).toBe('track-performance');
     expect(JOB_NAMES.REPORT).toBe('weekly-report');
     expect(JOB_NAMES.SCORE).toBe('score-strategies');
+    expect(JOB_NAMES.DISCOVER).toBe('discover-channels');
   });
 
-  it('has 9 job types', () => {
-    expect(Object.keys(JOB_NAMES)).toHaveLength(9);
+  it('has 10 job types', () => {
+    expect(Object.keys(JOB_NAMES)).toHaveLength(10);
   });
 });
 
@@ -10,14 +10,32 @@ export const JOB_NAMES = {
   TRACK: 'track-performance',
   REPORT: 'weekly-report',
   SCORE: 'score-strategies',
+  DISCOVER: 'discover-channels',
 } as const;
 
 export type JobName = (typeof JOB_NAMES)[keyof typeof JOB_NAMES];
 
+/** Default worker concurrency per job type. Media rendering is bound by provider rate
+ * limits (Veo renders one clip at a time); tracking is cheap read-only API calls. */
+export const DEFAULT_STAGE_CONCURRENCY: Record<JobName, number> = {
+  [JOB_NAMES.ANALYZE]: 1,
+  [JOB_NAMES.GENERATE_SCRIPT]: 2,
+  [JOB_NAMES.GENERATE_MEDIA]: 1,
+  [JOB_NAMES.QUALITY_CHECK]: 5,
+  [JOB_NAMES.REVIEW]: 5,
+  [JOB_NAMES.PUBLISH]: 1,
+  [JOB_NAMES.TRACK]: 10,
+  [JOB_NAMES.REPORT]: 1,
+  [JOB_NAMES.SCORE]: 1,
+  [JOB_NAMES.DISCOVER]: 1,
+};
+
 export interface AnalyzeJobData {
   type: 'analyze';
   channelIds?: string[];
   videosPerChannel?: number;
+  /** Analysis run paused on quota that this job continues */
+  resume?: number;
 }
 
 export interface GenerateScriptJobData {
@@ -28,9 +46,12 @@ export interface GenerateScriptJobData {
   characterIds: number[];
 }
 
+/** Stage jobs below take `generatedVideoId` when queued on their own. Inside a pipeline
+ * flow it is omitted and resolved from the child job's return value instead. */
+
 export interface GenerateMediaJobData {
   type: 'generate-media';
-  scriptId: number;
+  generatedVideoId?: number;
   generateThumbnail: boolean;
   generateVoice: boolean;
   generateMusic: boolean;
@@ -39,18 +60,23 @@ export interface GenerateMediaJobData {
 
 export interface QualityCheckJobData {
   type: 'quality-check';
-  generatedVideoId: number;
+  generatedVideoId?: number;
 }
 
 export interface ReviewJobData {
   type: 'review';
-  generatedVideoId: number;
+  generatedVideoId?: number;
   autoApprove?: boolean;
+  approved?: boolean;
+  rejected?: boolean;
+  rejectionReason?: string;
+  /** Who approved or rejected, recorded in the video's status history */
+  reviewedBy?: string;
 }
 
 export interface PublishJobData {
   type: 'publish';
-  generatedVideoId: number;
+  generatedVideoId?: number;
   scheduledAt?: string;
   dryRun?: boolean;
 }
@@ -69,6 +95,13 @@ export interface ScoreJobData {
   type: 'score-strategies';
 }
 
+export interface DiscoverJobData {
+  type: 'discover-channels';
+  keywords?: string[];
+  minSubscribers?: number;
+  maxProposals?: number;
+}
+
 export type JobData =
   | AnalyzeJobData
   | GenerateScriptJobData
@@ -78,7 +111,112 @@ export type JobData =
   | PublishJobData
   | TrackJobData
   | ReportJobData
-  | ScoreJobData;
+  | ScoreJobData
+  | DiscoverJobData;
+
+// ─── Job Results ───
+// Returned by stage processors and read by the parent job via getChildrenValues().
+
+export interface AnalyzeJobResult {
+  type: 'analyze';
+  channelsAnalyzed: number;
+  videosAnalyzed: number;
+  patternsFound: number;
+  apiQuotaUsed: number;
+}
+
+export interface GenerateScriptJobResult {
+  type: 'generate-script';
+  generatedVideoId: number;
+  title: string;
+  passedQualityGate: boolean;
+}
+
+export interface GenerateMediaJobResult {
+  type: 'generate-media';
+  generatedVideoId: number;
+  thumbnailUrl?: string;
+  audioUrl?: string;
+  musicUrl?: string;
+  videoUrl?: string;
+}
+
+export interface QualityCheckJobResult {
+  type: 'quality-check';
+  generatedVideoId: number;
+  educationalValue: number;
+  engagementPotential: number;
+}
+
+export interface ReviewJobResult {
+  type: 'review';
+  generatedVideoId: number;
+  autoApproved: boolean;
+}
+
+export interface PublishJobResult {
+  type: 'publish';
+  generatedVideoId: number;
+  youtubeVideoId: string;
+  url: string;
+  dryRun: boolean;
+}
+
+export interface TrackJobResult {
+  type: 'track-performance';
+  tracked: number;
+}
+
+export interface DiscoverJobResult {
+  type: 'discover-channels';
+  searched: number;
+  candidates: number;
+  proposed: number;
+}
+
+export type JobResult =
+  | AnalyzeJobResult
+  | GenerateScriptJobResult
+  | GenerateMediaJobResult
+  | QualityCheckJobResult
+  | ReviewJobResult
+  | PublishJobResult
+  | TrackJobResult
+  | DiscoverJobResult;
+
+/** Thrown by a processor that can't make progress yet. The worker parks the job as delayed
+ * and runs it again after `retryAfterMs`, without using up an attempt. */
+export class DeferJobError extends Error {
+  constructor(
+    message: string,
+    public retryAfterMs: number,
+  ) {
+    super(message);
+    this.name = 'DeferJobError';
+  }
+}
+
+/** Thrown by the review processor while a video is still waiting on a human decision */
+export class AwaitingReviewError extends DeferJobError {
+  constructor(
+    public generatedVideoId: number,
+    retryAfterMs: number,
+  ) {
+    super(`Video ${generatedVideoId} is awaiting review`, retryAfterMs);
+    this.name = 'AwaitingReviewError';
+  }
+}
+
+/** Thrown when the shared YouTube quota is spent; the job waits for the Pacific-midnight reset */
+export class QuotaWaitError extends DeferJobError {
+  constructor(public resetAt: Date) {
+    super(
+      `YouTube quota exhausted until ${resetAt.toISOString()}`,
+      Math.max(0, resetAt.getTime() - Date.now()),
+    );
+    this.name = 'QuotaWaitError';
+  }
+}
 
 /** Full pipeline definition: the ordered sequence of jobs */
 export const PIPELINE_STAGES = [
@@ -90,3 +228,6 @@ export const PIPELINE_STAGES = [
   JOB_NAMES.PUBLISH,
   JOB_NAMES.TRACK,
 ] as const;
+
+/** Jobs queued on their own rather than as a stage of the pipeline flow */
+export const STANDALONE_JOBS = [JOB_NAMES.DISCOVER] as const;
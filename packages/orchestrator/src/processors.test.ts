@@ -0,0 +1,861 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { UnrecoverableError } from 'bullmq';
+import { BudgetExceededError, QuotaExhaustedError, nextQuotaReset } from '@kidsvid/shared';
+import type {
+  Database,
+  Logger,
+  EpisodeStructure,
+  VideoLifecycle,
+  CostTracker,
+  CostMeter,
+} from '@kidsvid/shared';
+import type { AnalysisPipeline, ChannelDiscovery } from '@kidsvid/analyzer';
+import {
+  scoreContent,
+  ScriptParseError,
+  MockThumbnailProvider,
+  MockVoiceProvider,
+  MockMusicProvider,
+  MockVideoProvider,
+  ThumbnailIntelligence,
+  type ScriptGenerator,
+} from '@kidsvid/generator';
+import type { SeoOptimizer } from '@kidsvid/publisher';
+import type { PerformanceTracker } from '@kidsvid/feedback';
+import {
+  createStageProcessors,
+  registerStageProcessors,
+  type StageProcessorDeps,
+} from './processors.js';
+import { AwaitingReviewError, QuotaWaitError, type JobResult } from './jobs.js';
+import type { QueueManager } from './queue.js';
+import type { PipelineJob } from './backends/index.js';
+
+vi.mock('@kidsvid/generator', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@kidsvid/generator')>()),
+  scoreContent: vi.fn(),
+}));
+
+const mockLogger = {
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+  debug: vi.fn(),
+} as unknown as Logger;
+
+const episodeStructure: EpisodeStructure = {
+  hook: { duration: 15, description: 'Cosmo finds a mystery box' },
+  problem: { duration: 30, description: 'How many stars are inside?' },
+  exploration: { duration: 150, description: 'Count the stars together' },
+  resolution: { duration: 30, description: 'Ten stars!' },
+  nextPreview: { duration: 15, description: 'Next time: shapes' },
+};
+
+const storedVideo = {
+  id: 42,
+  title: 'Counting Stars with Cosmo',
+  description: 'Count to 10!',
+  script: "[Cosmo waves] Hi friends! Let's count! 1, 2, 3!",
+  category: 'educational',
+  targetDuration: 240,
+  tags: ['counting'],
+  status: 'media_ready',
+  videoUrl: 'mock://video/1.mp4',
+  thumbnailUrl: 'mock://thumb/1.png',
+  generationMetadata: {
+    educationalCategory: 'early_math',
+    ageBracket: '4-6',
+    topic: 'counting to 10',
+    educationalObjective: 'Count from 1 to 10',
+    learningTakeaways: ['Numbers 1-10'],
+    engagementHooks: ['call_response'],
+    episodeStructure,
+    estimatedDuration: 240,
+  },
+};
+
+const generatedScript = {
+  title: 'Counting Stars with Cosmo',
+  description: 'Count to 10!',
+  script: 'Hi friends!',
+  tags: ['counting'],
+  estimatedDuration: 240,
+  educationalObjective: 'Count from 1 to 10',
+  engagementHooks: ['call_response'],
+  episodeStructure,
+  learningTakeaways: ['Numbers 1-10'],
+  qualityScore: { educationalValue: 8, engagementPotential: 8, passed: true, feedback: [] },
+};
+
+function createMockDb(video: Record<string, unknown> | undefined = storedVideo) {
+  const db = {
+    query: {
+      generatedVideos: { findFirst: vi.fn().mockResolvedValue(video) },
+      analysisRuns: { findMany: vi.fn().mockResolvedValue([]) },
+      analysisPatterns: { findMany: vi.fn().mockResolvedValue([]) },
+    },
+  } as unknown as Database;
+  return { db };
+}
+
+function createMockLifecycle() {
+  return {
+    create: vi.fn().mockResolvedValue(42),
+    transition: vi.fn().mockResolvedValue(undefined),
+  } as unknown as VideoLifecycle;
+}
+
+function createMockCosts(meter: CostMeter = { check: vi.fn(), record: vi.fn() }) {
+  return {
+    assertWithinBudget: vi.fn().mockResolvedValue(undefined),
+    record: vi.fn().mockResolvedValue(undefined),
+    forEpisode: vi.fn().mockReturnValue(meter),
+  } as unknown as CostTracker;
+}
+
+function makeJob(
+  name: string,
+  data: Record<string, unknown>,
+  children: Record<string, JobResult> = {},
+): PipelineJob {
+  return {
+    id: `${name}-1`,
+    name,
+    data,
+    getChildrenValues: vi.fn().mockResolvedValue(children),
+    updateData: vi.fn().mockResolvedValue(undefined),
+  } as unknown as PipelineJob;
+}
+
+function makeDeps(db: Database, overrides: Partial<StageProcessorDeps> = {}): StageProcessorDeps {
+  return {
+    db,
+    lifecycle: createMockLifecycle(),
+    costs: createMockCosts(),
+    analysis: {
+      run: vi.fn().mockResolvedValue({
+        channelsAnalyzed: 3,
+        videosAnalyzed: 150,
+        patterns: [{}, {}],
+        apiQuotaUsed: 12,
+      }),
+    } as unknown as AnalysisPipeline,
+    discovery: {
+      discover: vi.fn().mockResolvedValue({ searched: 6, candidates: 4, proposals: [{}, {}] }),
+    } as unknown as ChannelDiscovery,
+    scriptGenerator: {
+      generate: vi.fn().mockResolvedValue(generatedScript),
+    } as unknown as ScriptGenerator,
+    media: {
+      thumbnail: new MockThumbnailProvider(),
+      voice: new MockVoiceProvider(),
+      music: new MockMusicProvider(),
+      video: new MockVideoProvider(),
+    },
+    thumbnails: new ThumbnailIntelligence(mockLogger),
+    seo: {
+      optimize: vi.fn((input) => ({ ...input, changes: [] })),
+      loadLatestRun: vi.fn().mockResolvedValue(null),
+    } as unknown as SeoOptimizer,
+    uploaderOptions: { clientId: 'id', clientSecret: 'secret', refreshToken: 'token' },
+    tracker: {
+      snapshotAll: vi.fn().mockResolvedValue([{ videoId: 'yt1' }]),
+    } as unknown as PerformanceTracker,
+    reviewPollIntervalMs: 1000,
+    ...overrides,
+  };
+}
+
+describe('createStageProcessors', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('analyze', () => {
+    it('runs the analysis pipeline and summarizes the result', async () => {
+      const { db } = createMockDb();
+      const deps = makeDeps(db);
+      const processors = createStageProcessors(deps, mockLogger);
+
+      const result = await processors.analyze(
+        makeJob('analyze', { type: 'analyze', channelIds: ['UC1'], videosPerChannel: 20 }),
+      );
+
+      expect(deps.analysis.run).toHaveBeenCalledWith({ channelIds: ['UC1'], videosPerChannel: 20 });
+      expect(result).toEqual({
+        type: 'analyze',
+        channelsAnalyzed: 3,
+        videosAnalyzed: 150,
+        patternsFound: 2,
+        apiQuotaUsed: 12,
+      });
+    });
+
+    it('defers a run paused on quota and resumes it after the reset', async () => {
+      const { db } = createMockDb();
+      const resumeAt = new Date(Date.now() + 3_600_000);
+      const deps = makeDeps(db);
+      vi.mocked(deps.analysis.run).mockResolvedValue({
+        channelsAnalyzed: 12,
+        videosAnalyzed: 600,
+        patterns: [],
+        apiQuotaUsed: 9000,
+        runId: 5,
+        status: 'paused_quota',
+        resumeAt,
+      });
+      const processors = createStageProcessors(deps, mockLogger);
+      const job = makeJob('analyze', { type: 'analyze', videosPerChannel: 50 });
+
+      const err = await processors.analyze(job).catch((e) => e);
+
+      expect(err).toBeInstanceOf(QuotaWaitError);
+      expect(err.resetAt).toBe(resumeAt);
+      expect(job.updateData).toHaveBeenCalledWith({
+        type: 'analyze',
+        videosPerChannel: 50,
+        resume: 5,
+      });
+    });
+
+    it('defers a paused run until the next daily reset when it has no reset time', async () => {
+      const { db } = createMockDb();
+      const deps = makeDeps(db);
+      vi.mocked(deps.analysis.run).mockResolvedValue({
+        channelsAnalyzed: 4,
+        videosAnalyzed: 80,
+        patterns: [],
+        apiQuotaUsed: 10000,
+        runId: 6,
+        status: 'paused_quota',
+      });
+      const processors = createStageProcessors(deps, mockLogger);
+      const job = makeJob('analyze', { type: 'analyze' });
+
+      const err = await processors.analyze(job).catch((e) => e);
+
+      expect(err).toBeInstanceOf(QuotaWaitError);
+      expect(err.resetAt.getTime()).toBeCloseTo(nextQuotaReset().getTime(), -4);
+      expect(job.updateData).toHaveBeenCalledWith({ type: 'analyze', resume: 6 });
+    });
+  });
+
+  describe('generate-script', () => {
+    it('stores the script and returns the new generated video id', async () => {
+      const { db } = createMockDb();
+      const deps = makeDeps(db);
+      const processors = createStageProcessors(deps, mockLogger);
+
+      const result = await processors['generate-script'](
+        makeJob('generate-script', {
+          type: 'generate-script',
+          educationalCategory: 'early_math',
+          topic: 'counting to 10',
+          ageBracket: '4-6',
+          characterIds: [0],
+        }),
+      );
+
+      expect(result).toMatchObject({ type: 'generate-script', generatedVideoId: 42 });
+      expect(deps.lifecycle.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          status: 'script_ready',
+          targetAgeMin: 4,
+          targetAgeMax: 6,
+          characters: [0],
+        }),
+        { actor: 'pipeline:generate-script', jobId: 'generate-script-1', reason: undefined },
+      );
+    });
+
+    it("briefs the generator with the latest analysis run's findings", async () => {
+      const { db } = createMockDb();
+      const finding = {
+        patternType: 'duration',
+        category: null,
+        finding: 'Videos between 3 and 5 minutes get 1.8x channel-typical views',
+        confidence: 0.97,
+        sampleSize: 120,
+        metadata: {},
+      };
+      vi.mocked(db.query.analysisRuns.findMany).mockResolvedValue([{ id: 7 }] as never);
+      vi.mocked(db.query.analysisPatterns.findMany).mockResolvedValue([finding] as never);
+      const deps = makeDeps(db);
+      const processors = createStageProcessors(deps, mockLogger);
+
+      await processors['generate-script'](
+        makeJob('generate-script', {
+          type: 'generate-script',
+          educationalCategory: 'early_math',
+          topic: 'counting to 10',
+          ageBracket: '4-6',
+          characterIds: [0],
+        }),
+      );
+
+      expect(deps.scriptGenerator.generate).toHaveBeenCalledWith(
+        expect.objectContaining({ insights: [finding] }),
+      );
+    });
+
+    it('records the LLM usage against the new video', async () => {
+      const { db } = createMockDb();
+      const deps = makeDeps(db);
+      const usage = {
+        provider: 'anthropic',
+        model: 'claude-sonnet-4-5-20250929',
+        unit: 'tokens',
+        units: 5200,
+        estimatedUsd: 0.04,
+      };
+      vi.mocked(deps.scriptGenerator.generate).mockResolvedValue({
+        ...generatedScript,
+        usage: [usage],
+      } as never);
+      const processors = createStageProcessors(deps, mockLogger);
+
+      await processors['generate-script'](
+        makeJob('generate-script', {
+          type: 'generate-script',
+          educationalCategory: 'early_math',
+          topic: 'counting to 10',
+          ageBracket: '4-6',
+          characterIds: [0],
+        }),
+      );
+
+      expect(deps.costs.record).toHaveBeenCalledWith(usage, 42);
+    });
+
+    it('records the usage of a failed generation before failing the job', async () => {
+      const { db } = createMockDb();
+      const deps = makeDeps(db);
+      const usage = {
+        provider: 'anthropic',
+        model: 'claude-sonnet-4-5-20250929',
+        unit: 'tokens',
+        units: 4100,
+        estimatedUsd: 0.03,
+      };
+      const failure = Object.assign(new ScriptParseError('still invalid', [], ''), {
+        usage: [usage, usage],
+      });
+      vi.mocked(deps.scriptGenerator.generate).mockRejectedValue(failure);
+      const processors = createStageProcessors(deps, mockLogger);
+
+      const error = await processors['generate-script'](
+        makeJob('generate-script', {
+          type: 'generate-script',
+          educationalCategory: 'early_math',
+          topic: 'counting to 10',
+          ageBracket: '4-6',
+          characterIds: [0],
+        }),
+      ).catch((err) => err);
+
+      expect(error).toBe(failure);
+      expect(deps.costs.record).toHaveBeenCalledTimes(2);
+      expect(deps.costs.record).toHaveBeenCalledWith(usage);
+      expect(deps.lifecycle.create).not.toHaveBeenCalled();
+    });
+
+    it('records the script usage when storing the script fails', async () => {
+      const { db } = createMockDb();
+      const deps = makeDeps(db);
+      const usage = {
+        provider: 'anthropic',
+        model: 'claude-sonnet-4-5-20250929',
+        unit: 'tokens',
+        units: 5200,
+        estimatedUsd: 0.04,
+      };
+      vi.mocked(deps.scriptGenerator.generate).mockResolvedValue({
+        ...generatedScript,
+        usage: [usage],
+      } as never);
+      vi.mocked(deps.lifecycle.create).mockRejectedValue(new Error('connection reset'));
+      const processors = createStageProcessors(deps, mockLogger);
+
+      await expect(
+        processors['generate-script'](
+          makeJob('generate-script', {
+            type: 'generate-script',
+            educationalCategory: 'early_math',
+            topic: 'counting to 10',
+            ageBracket: '4-6',
+            characterIds: [0],
+          }),
+        ),
+      ).rejects.toThrow('connection reset');
+      expect(deps.costs.record).toHaveBeenCalledWith(usage);
+    });
+
+    it('refuses to generate once the daily budget is spent', async () => {
+      const { db } = createMockDb();
+      const deps = makeDeps(db);
+      vi.mocked(deps.costs.assertWithinBudget).mockRejectedValue(
+        new BudgetExceededError('day', 51, 50),
+      );
+      const processors = createStageProcessors(deps, mockLogger);
+
+      const error = await processors['generate-script'](
+        makeJob('generate-script', {
+          type: 'generate-script',
+          educationalCategory: 'early_math',
+          topic: 'counting to 10',
+          ageBracket: '4-6',
+          characterIds: [0],
+        }),
+      ).catch((err) => err);
+
+      expect(error).toBeInstanceOf(UnrecoverableError);
+      expect(error.message).toBe('Daily budget exhausted: $51.00 spent of $50.00');
+      expect(deps.scriptGenerator.generate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('generate-media', () => {
+    it('reads the video id from the generate-script child result', async () => {
+      const { db } = createMockDb({ ...storedVideo, status: 'script_ready' });
+      const deps = makeDeps(db);
+      const processors = createStageProcessors(deps, mockLogger);
+
+      const result = await processors['generate-media'](
+        makeJob(
+          'generate-media',
+          {
+            type: 'generate-media',
+            generateThumbnail: true,
+            generateVoice: true,
+            generateMusic: false,
+            generateVideo: true,
+          },
+          {
+            'bull:kidsvid-pipeline:7': {
+              type: 'generate-script',
+              generatedVideoId: 42,
+              title: 'Counting Stars',
+              passedQualityGate: true,
+            },
+          },
+        ),
+      );
+
+      expect(result.generatedVideoId).toBe(42);
+      expect(result.thumbnailUrl).toBeDefined();
+      expect(result.videoUrl).toBeDefined();
+      expect(result.musicUrl).toBeUndefined();
+      expect(vi.mocked(deps.lifecycle.transition).mock.calls.map(([, to]) => to)).toEqual([
+        'media_generating',
+        'media_ready',
+      ]);
+    });
+
+    it('narrates the spoken lines of a stored scene script', async () => {
+      const sceneScript = {
+        scenes: [
+          {
+            section: 'hook',
+            duration: 15,
+            visual: 'Cosmo waves',
+            lines: [{ speaker: 'Cosmo', text: 'Hi friends!' }],
+            onScreenText: [],
+            sfx: ['whoosh'],
+          },
+        ],
+      };
+      const { db } = createMockDb({ ...storedVideo, status: 'script_ready', sceneScript });
+      const deps = makeDeps(db);
+      const voice = vi.spyOn(deps.media.voice, 'generate');
+      const processors = createStageProcessors(deps, mockLogger);
+
+      await processors['generate-media'](
+        makeJob('generate-media', {
+          type: 'generate-media',
+          generatedVideoId: 42,
+          generateThumbnail: false,
+          generateVoice: true,
+          generateMusic: false,
+          generateVideo: false,
+        }),
+      );
+
+      expect(voice).toHaveBeenCalledWith('Hi friends!', expect.any(String));
+    });
+
+    it('prompts for a thumbnail with the analyzed thumbnail patterns', async () => {
+      const { db } = createMockDb({ ...storedVideo, status: 'script_ready' });
+      const deps = makeDeps(db);
+      const thumbnail = vi.spyOn(deps.media.thumbnail, 'generate');
+      const processors = createStageProcessors(deps, mockLogger);
+
+      await processors['generate-media'](
+        makeJob('generate-media', {
+          type: 'generate-media',
+          generatedVideoId: 42,
+          generateThumbnail: true,
+          generateVoice: false,
+          generateMusic: false,
+          generateVideo: false,
+        }),
+      );
+
+      const [prompt] = thumbnail.mock.calls[0];
+      expect(prompt).toContain('YouTube kids video thumbnail');
+      expect(prompt).toContain('counting to 10');
+      expect(prompt).toContain('Favor bright yellow, vivid red, sky blue');
+      expect(db.query.analysisRuns.findMany).toHaveBeenCalled();
+    });
+
+    it('rolls the video back to script_ready when a provider fails', async () => {
+      const { db } = createMockDb({ ...storedVideo, status: 'script_ready' });
+      const deps = makeDeps(db);
+      vi.spyOn(deps.media.video, 'generate').mockRejectedValue(new Error('render timeout'));
+      const processors = createStageProcessors(deps, mockLogger);
+
+      await expect(
+        processors['generate-media'](
+          makeJob('generate-media', {
+            type: 'generate-media',
+            generatedVideoId: 42,
+            generateThumbnail: false,
+            generateVoice: false,
+            generateMusic: false,
+            generateVideo: true,
+          }),
+        ),
+      ).rejects.toThrow('render timeout');
+      expect(deps.lifecycle.transition).toHaveBeenLastCalledWith(
+        42,
+        'script_ready',
+        expect.objectContaining({ reason: 'Media generation failed: Error: render timeout' }),
+      );
+    });
+
+    it('meters each provider call against the episode budget', async () => {
+      const { db } = createMockDb({ ...storedVideo, status: 'script_ready' });
+      const meter = { check: vi.fn(), record: vi.fn() };
+      const deps = makeDeps(db, { costs: createMockCosts(meter) });
+      const usage = {
+        provider: 'veo',
+        model: 'veo-3.1-generate-preview',
+        unit: 'seconds' as const,
+        units: 8,
+        estimatedUsd: 3.2,
+      };
+      vi.spyOn(deps.media.video, 'generate').mockResolvedValue({
+        videoUrl: 'veo://clip.mp4',
+        duration: 8,
+        usage,
+      });
+      const processors = createStageProcessors(deps, mockLogger);
+
+      await processors['generate-media'](
+        makeJob('generate-media', {
+          type: 'generate-media',
+          generatedVideoId: 42,
+          generateThumbnail: true,
+          generateVoice: false,
+          generateMusic: false,
+          generateVideo: true,
+        }),
+      );
+
+      expect(deps.costs.forEpisode).toHaveBeenCalledWith(42);
+      expect(meter.check).toHaveBeenCalledTimes(2);
+      expect(meter.record).toHaveBeenCalledTimes(1);
+      expect(meter.record).toHaveBeenCalledWith(usage);
+    });
+
+    it('stops rendering once the episode budget is spent', async () => {
+      const { db } = createMockDb({ ...storedVideo, status: 'script_ready' });
+      const meter = {
+        check: vi.fn().mockRejectedValue(new BudgetExceededError('episode', 10.4, 10, 42)),
+        record: vi.fn(),
+      };
+      const deps = makeDeps(db, { costs: createMockCosts(meter) });
+      const video = vi.spyOn(deps.media.video, 'generate');
+      const processors = createStageProcessors(deps, mockLogger);
+
+      await expect(
+        processors['generate-media'](
+          makeJob('generate-media', {
+            type: 'generate-media',
+            generatedVideoId: 42,
+            generateThumbnail: false,
+            generateVoice: false,
+            generateMusic: false,
+            generateVideo: true,
+          }),
+        ),
+      ).rejects.toBeInstanceOf(UnrecoverableError);
+      expect(video).not.toHaveBeenCalled();
+      expect(deps.lifecycle.transition).toHaveBeenLastCalledWith(
+        42,
+        'script_ready',
+        expect.objectContaining({ reason: expect.stringContaining('Episode 42 budget exhausted') }),
+      );
+    });
+
+    it('fails when there is neither an id nor an upstream result', async () => {
+      const { db } = createMockDb();
+      const processors = createStageProcessors(makeDeps(db), mockLogger);
+
+      await expect(
+        processors['generate-media'](
+          makeJob('generate-media', {
+            type: 'generate-media',
+            generateThumbnail: true,
+            generateVoice: false,
+            generateMusic: false,
+            generateVideo: false,
+          }),
+        ),
+      ).rejects.toThrow('no generatedVideoId');
+    });
+  });
+
+  describe('quality-check', () => {
+    it('moves passing videos to review', async () => {
+      vi.mocked(scoreContent).mockReturnValue({
+        educationalValue: 8,
+        engagementPotential: 9,
+        passed: true,
+        feedback: [],
+      });
+      const { db } = createMockDb();
+      const deps = makeDeps(db);
+      const processors = createStageProcessors(deps, mockLogger);
+
+      const result = await processors['quality-check'](
+        makeJob('quality-check', { type: 'quality-check', generatedVideoId: 42 }),
+      );
+
+      expect(result).toEqual({
+        type: 'quality-check',
+        generatedVideoId: 42,
+        educationalValue: 8,
+        engagementPotential: 9,
+      });
+      expect(deps.lifecycle.transition).toHaveBeenCalledWith(
+        42,
+        'review',
+        expect.objectContaining({ actor: 'pipeline:quality-check' }),
+        expect.objectContaining({ generationMetadata: expect.any(Object) }),
+      );
+    });
+
+    it('marks failing videos as failed', async () => {
+      vi.mocked(scoreContent).mockReturnValue({
+        educationalValue: 4,
+        engagementPotential: 5,
+        passed: false,
+        feedback: ['No clear learning takeaway'],
+      });
+      const { db } = createMockDb();
+      const deps = makeDeps(db);
+      const processors = createStageProcessors(deps, mockLogger);
+
+      await expect(
+        processors['quality-check'](
+          makeJob('quality-check', { type: 'quality-check', generatedVideoId: 42 }),
+        ),
+      ).rejects.toThrow('No clear learning takeaway');
+      expect(deps.lifecycle.transition).toHaveBeenCalledWith(
+        42,
+        'failed',
+        expect.objectContaining({ reason: 'No clear learning takeaway' }),
+      );
+    });
+  });
+
+  describe('review', () => {
+    it('waits for a decision when not auto-approved', async () => {
+      const { db } = createMockDb();
+      const processors = createStageProcessors(makeDeps(db), mockLogger);
+
+      const error = await processors
+        .review(makeJob('review', { type: 'review', generatedVideoId: 42 }))
+        .catch((err) => err);
+
+      expect(error).toBeInstanceOf(AwaitingReviewError);
+      expect(error.retryAfterMs).toBe(1000);
+    });
+
+    it('approves once the reviewer has signed off', async () => {
+      const { db } = createMockDb();
+      const deps = makeDeps(db);
+      const processors = createStageProcessors(deps, mockLogger);
+
+      const result = await processors.review(
+        makeJob('review', {
+          type: 'review',
+          generatedVideoId: 42,
+          approved: true,
+          reviewedBy: 'sam',
+        }),
+      );
+
+      expect(result).toEqual({ type: 'review', generatedVideoId: 42, autoApproved: false });
+      expect(deps.lifecycle.transition).toHaveBeenCalledWith(42, 'approved', {
+        actor: 'reviewer:sam',
+        jobId: 'review-1',
+      });
+    });
+
+    it('fails rejected videos with the reviewer reason', async () => {
+      const { db } = createMockDb();
+      const deps = makeDeps(db);
+      const processors = createStageProcessors(deps, mockLogger);
+
+      await expect(
+        processors.review(
+          makeJob('review', {
+            type: 'review',
+            generatedVideoId: 42,
+            rejected: true,
+            rejectionReason: 'Off-model character',
+          }),
+        ),
+      ).rejects.toThrow('Rejected: Off-model character');
+      expect(deps.lifecycle.transition).toHaveBeenCalledWith(42, 'failed', {
+        actor: 'reviewer:unknown',
+        reason: 'Off-model character',
+        jobId: 'review-1',
+      });
+    });
+  });
+
+  describe('publish', () => {
+    it('dry-run uploads without marking the video published', async () => {
+      const { db } = createMockDb({ ...storedVideo, status: 'approved' });
+      const deps = makeDeps(db);
+      const processors = createStageProcessors(deps, mockLogger);
+
+      const result = await processors.publish(
+        makeJob(
+          'publish',
+          { type: 'publish', dryRun: true },
+          {
+            'bull:kidsvid-pipeline:3': { type: 'review', generatedVideoId: 42, autoApproved: true },
+          },
+        ),
+      );
+
+      expect(result.dryRun).toBe(true);
+      expect(result.youtubeVideoId).toMatch(/^dry-run-/);
+      expect(deps.seo.loadLatestRun).toHaveBeenCalledWith(db);
+      expect(deps.seo.optimize).toHaveBeenCalled();
+      expect(deps.lifecycle.transition).not.toHaveBeenCalled();
+    });
+
+    it('refuses to publish videos that are not approved', async () => {
+      const { db } = createMockDb({ ...storedVideo, status: 'review' });
+      const processors = createStageProcessors(makeDeps(db), mockLogger);
+
+      await expect(
+        processors.publish(makeJob('publish', { type: 'publish', generatedVideoId: 42 })),
+      ).rejects.toThrow('not approved');
+    });
+  });
+
+  describe('track-performance', () => {
+    it('skips tracking after a dry-run publish', async () => {
+      const { db } = createMockDb();
+      const deps = makeDeps(db);
+      const processors = createStageProcessors(deps, mockLogger);
+
+      const result = await processors['track-performance'](
+        makeJob(
+          'track-performance',
+          { type: 'track-performance' },
+          {
+            'bull:kidsvid-pipeline:2': {
+              type: 'publish',
+              generatedVideoId: 42,
+              youtubeVideoId: 'dry-run-1',
+              url: '',
+              dryRun: true,
+            },
+          },
+        ),
+      );
+
+      expect(result.tracked).toBe(0);
+      expect(deps.tracker.snapshotAll).not.toHaveBeenCalled();
+    });
+
+    it('snapshots published videos', async () => {
+      const { db } = createMockDb();
+      const deps = makeDeps(db);
+      const processors = createStageProcessors(deps, mockLogger);
+
+      const result = await processors['track-performance'](
+        makeJob('track-performance', { type: 'track-performance' }),
+      );
+
+      expect(result).toEqual({ type: 'track-performance', tracked: 1 });
+    });
+
+    it('waits for the quota reset when the daily YouTube quota is spent', async () => {
+      const { db } = createMockDb();
+      const deps = makeDeps(db);
+      const resetAt = new Date(Date.now() + 3_600_000);
+      vi.mocked(deps.tracker.snapshotAll).mockRejectedValue(
+        new QuotaExhaustedError('YouTube quota exhausted for tracking', resetAt),
+      );
+      const processors = createStageProcessors(deps, mockLogger);
+
+      const err = await processors['track-performance'](
+        makeJob('track-performance', { type: 'track-performance' }),
+      ).catch((e) => e);
+
+      expect(err).toBeInstanceOf(QuotaWaitError);
+      expect(err.resetAt).toBe(resetAt);
+      expect(err.retryAfterMs).toBeGreaterThan(3_500_000);
+    });
+  });
+
+  describe('discover-channels', () => {
+    it('proposes watchlist additions from a discovery run', async () => {
+      const { db } = createMockDb();
+      const deps = makeDeps(db);
+      const processors = createStageProcessors(deps, mockLogger);
+
+      const result = await processors['discover-channels'](
+        makeJob('discover-channels', { type: 'discover-channels', minSubscribers: 500_000 }),
+      );
+
+      expect(deps.discovery.discover).toHaveBeenCalledWith(
+        expect.objectContaining({ minSubscribers: 500_000 }),
+      );
+      expect(result).toEqual({
+        type: 'discover-channels',
+        searched: 6,
+        candidates: 4,
+        proposed: 2,
+      });
+    });
+  });
+});
+
+describe('registerStageProcessors', () => {
+  it('registers a processor for every pipeline stage', () => {
+    const { db } = createMockDb();
+    const queueManager = { registerProcessor: vi.fn() } as unknown as QueueManager;
+
+    registerStageProcessors(queueManager, createStageProcessors(makeDeps(db), mockLogger));
+
+    const names = vi.mocked(queueManager.registerProcessor).mock.calls.map(([name]) => name);
+    expect(names).toEqual([
+      'analyze',
+      'generate-script',
+      'generate-media',
+      'quality-check',
+      'review',
+      'publish',
+      'track-performance',
+      'discover-channels',
+    ]);
+  });
+});
@@ -0,0 +1,543 @@
+import { UnrecoverableError } from 'bullmq';
+import {
+  sceneScriptNarration,
+  loadLatestRunPatterns,
+  nextQuotaReset,
+  BudgetExceededError,
+  QuotaExhaustedError,
+} from '@kidsvid/shared';
+import type {
+  Logger,
+  Database,
+  AgeBracket,
+  EducationalCategory,
+  EngagementHookType,
+  EpisodeStructure,
+  ScriptRequest,
+  PublishResult,
+  ThumbnailProvider,
+  VoiceProvider,
+  MusicProvider,
+  VideoProvider,
+  VideoLifecycle,
+  StatusChange,
+  CostTracker,
+  CostMeter,
+  ProviderUsage,
+} from '@kidsvid/shared';
+import { generatedVideos, eq } from '@kidsvid/shared/db';
+import type { AnalysisPipeline, ChannelDiscovery } from '@kidsvid/analyzer';
+import {
+  failedScriptUsage,
+  getTemplateForAge,
+  scoreContent,
+  CHARACTER_VOICE_MAP,
+  DEFAULT_CHARACTERS,
+  type ScriptGenerator,
+  type ThumbnailIntelligence,
+} from '@kidsvid/generator';
+import { YouTubeUploader, type UploaderOptions, type SeoOptimizer } from '@kidsvid/publisher';
+import type { PerformanceTracker } from '@kidsvid/feedback';
+import {
+  PIPELINE_STAGES,
+  STANDALONE_JOBS,
+  AwaitingReviewError,
+  QuotaWaitError,
+  type JobResult,
+  type AnalyzeJobData,
+  type GenerateScriptJobData,
+  type GenerateMediaJobData,
+  type QualityCheckJobData,
+  type ReviewJobData,
+  type PublishJobData,
+  type DiscoverJobData,
+} from './jobs.js';
+import type { QueueManager } from './queue.js';
+import type { PipelineJob } from './backends/index.js';
+
+/** Stage processors for the autonomous pipeline.
+ * Each processor does one stage's work through the domain packages and returns a typed
+ * result; the next stage in the flow reads it via job.getChildrenValues(). */
+
+export type PipelineStage = (typeof PIPELINE_STAGES)[number];
+
+/** Every job type a worker runs: the pipeline stages plus standalone jobs */
+export type ProcessedJob = PipelineStage | (typeof STANDALONE_JOBS)[number];
+
+export type StageProcessors = {
+  [K in ProcessedJob]: (job: PipelineJob) => Promise<Extract<JobResult, { type: K }>>;
+};
+
+export interface MediaProviders {
+  thumbnail: ThumbnailProvider;
+  voice: VoiceProvider;
+  music: MusicProvider;
+  video: VideoProvider;
+}
+
+export interface StageProcessorDeps {
+  db: Database;
+  lifecycle: VideoLifecycle;
+  costs: CostTracker;
+  analysis: AnalysisPipeline;
+  discovery: ChannelDiscovery;
+  scriptGenerator: ScriptGenerator;
+  media: MediaProviders;
+  thumbnails: ThumbnailIntelligence;
+  seo: SeoOptimizer;
+  uploaderOptions: Omit<UploaderOptions, 'dryRun'>;
+  tracker: PerformanceTracker;
+  /** How long a review job stays parked before it re-checks for a decision (ms) */
+  reviewPollIntervalMs?: number;
+}
+
+/** Metadata stored on generated_videos.generation_metadata by the generate-script stage */
+interface ScriptMetadata {
+  educationalCategory: EducationalCategory;
+  ageBracket: AgeBracket;
+  topic: string;
+  educationalObjective: string;
+  learningTakeaways: string[];
+  engagementHooks: EngagementHookType[];
+  episodeStructure: EpisodeStructure;
+  estimatedDuration: number;
+}
+
+type VideoResultStage = Extract<JobResult, { generatedVideoId: number }>['type'];
+
+const DEFAULT_REVIEW_POLL_INTERVAL_MS = 5 * 60 * 1000;
+const VIDEO_CLIP_SECONDS = 8; // Veo caps a single render at 8s
+
+export function createStageProcessors(deps: StageProcessorDeps, logger: Logger): StageProcessors {
+  const { db } = deps;
+
+  async function loadVideo(id: number) {
+    const video = await db.query.generatedVideos.findFirst({
+      where: eq(generatedVideos.id, id),
+    });
+    if (!video) throw new UnrecoverableError(`Generated video ${id} not found`);
+    return video;
+  }
+
+  /** Status change attributed to the stage running this job */
+  function byStage(job: PipelineJob, reason?: string): StatusChange {
+    return { actor: `pipeline:${job.name}`, jobId: job.id, reason };
+  }
+
+  /** Check the budget, make the call, and record what it cost against the episode */
+  async function metered<T extends { usage?: ProviderUsage }>(
+    meter: CostMeter,
+    call: () => Promise<T>,
+  ): Promise<T> {
+    await meter.check();
+    const result = await call();
+    if (result.usage) await meter.record(result.usage);
+    return result;
+  }
+
+  return {
+    async analyze(job) {
+      const data = job.data as AnalyzeJobData;
+      const result = await deps.analysis
+        .run({
+          channelIds: data.channelIds,
+          videosPerChannel: data.videosPerChannel,
+          resume: data.resume,
+        })
+        .catch(deferUntilQuotaReset);
+
+      // Wait for the reset and pick the paused run up where it stopped. A pause without a
+      // reset time still waits for the next daily reset, so later stages never run on the
+      // partial analysis.
+      if (result.status === 'paused_quota') {
+        await job.updateData({ ...data, resume: result.runId });
+        throw new QuotaWaitError(result.resumeAt ?? nextQuotaReset());
+      }
+
+      return {
+        type: 'analyze',
+        channelsAnalyzed: result.channelsAnalyzed,
+        videosAnalyzed: result.videosAnalyzed,
+        patternsFound: result.patterns.length,
+        apiQuotaUsed: result.apiQuotaUsed,
+      };
+    },
+
+    async 'generate-script'(job) {
+      const data = job.data as GenerateScriptJobData;
+      const educationalCategory = data.educationalCategory as EducationalCategory;
+      const ageBracket = data.ageBracket as AgeBracket;
+      const template = getTemplateForAge(educationalCategory, ageBracket);
+      const latest = await loadLatestRunPatterns(deps.db);
+
+      const request: ScriptRequest = {
+        category: 'educational',
+        educationalCategory,
+        educationalObjective: `Teach ${data.topic}`,
+        engagementHooks: template.suggestedHooks,
+        targetDuration: Object.values(template.structure).reduce((s, sec) => s + sec.duration, 0),
+        ageBracket,
+        characterIds: data.characterIds,
+        topic: data.topic,
+        insights: latest?.patterns,
+      };
+
+      await deps.costs.assertWithinBudget().catch(asUnrecoverableBudgetError);
+      // Calls a failed generation already made still count against the day's budget
+      const script = await deps.scriptGenerator.generate(request).catch(async (err) => {
+        for (const usage of failedScriptUsage(err)) await deps.costs.record(usage);
+        throw err;
+      });
+      const [ageMin, ageMax] = ageBracket.split('-').map(Number);
+      const metadata: ScriptMetadata = {
+        educationalCategory,
+        ageBracket,
+        topic: data.topic,
+        educationalObjective: script.educationalObjective,
+        learningTakeaways: script.learningTakeaways,
+        engagementHooks: script.engagementHooks,
+        episodeStructure: script.episodeStructure,
+        estimatedDuration: script.estimatedDuration,
+      };
+
+      const id = await deps.lifecycle
+        .create(
+          {
+            title: script.title,
+            description: script.description,
+            script: script.script,
+            sceneScript: script.sceneScript,
+            category: request.category,
+            targetDuration: request.targetDuration,
+            targetAgeMin: ageMin,
+            targetAgeMax: ageMax,
+            characters: data.characterIds,
+            tags: script.tags,
+            status: 'script_ready',
+            generationMetadata: { ...metadata, qualityScore: script.qualityScore },
+          },
+          byStage(job),
+        )
+        .catch(async (err) => {
+          // No video row to charge the script to, but it was still paid for
+          for (const usage of script.usage ?? []) await deps.costs.record(usage);
+          throw err;
+        });
+
+      for (const usage of script.usage ?? []) await deps.costs.record(usage, id);
+
+      logger.info({ generatedVideoId: id, title: script.title }, 'Script stored');
+      return {
+        type: 'generate-script',
+        generatedVideoId: id,
+        title: script.title,
+        passedQualityGate: script.qualityScore.passed,
+      };
+    },
+
+    async 'generate-media'(job) {
+      const data = job.data as GenerateMediaJobData;
+      const id = await resolveVideoId(job, data.generatedVideoId, 'generate-script');
+      const video = await loadVideo(id);
+      const metadata = video.generationMetadata as unknown as ScriptMetadata;
+
+      // A worker that died mid-render leaves the video media_generating; pick up from there
+      if (video.status !== 'media_generating') {
+        await deps.lifecycle.transition(id, 'media_generating', byStage(job));
+      }
+
+      const urls: Partial<Record<'thumbnailUrl' | 'audioUrl' | 'musicUrl' | 'videoUrl', string>> =
+        {};
+      const meter = deps.costs.forEpisode(id);
+      try {
+        if (data.generateThumbnail) {
+          await deps.thumbnails.loadLatestRun(db);
+          const spec = deps.thumbnails.generateSpec({
+            title: video.title,
+            category: video.category ?? 'educational',
+            topic: metadata.topic,
+          });
+          const thumb = await metered(meter, () =>
+            deps.media.thumbnail.generate(deps.thumbnails.buildDallePrompt(spec)),
+          );
+          urls.thumbnailUrl = thumb.url;
+        }
+        if (data.generateVoice) {
+          const voice = await metered(meter, () =>
+            deps.media.voice.generate(
+              video.sceneScript
+                ? sceneScriptNarration(video.sceneScript)
+                : toNarration(video.script ?? ''),
+              CHARACTER_VOICE_MAP.narrator,
+            ),
+          );
+          urls.audioUrl = voice.audioUrl;
+        }
+        if (data.generateMusic) {
+          const music = await metered(meter, () =>
+            deps.media.music.generate(
+              `Gentle, upbeat background music for a kids video about ${metadata.topic}`,
+              video.targetDuration ?? 180,
+            ),
+          );
+          urls.musicUrl = music.audioUrl;
+        }
+        if (data.generateVideo) {
+          const clip = await metered(meter, () =>
+            deps.media.video.generate(
+              `${video.title}. ${metadata.episodeStructure?.hook.description ?? ''}`.trim(),
+              VIDEO_CLIP_SECONDS,
+            ),
+          );
+          urls.videoUrl = clip.videoUrl;
+        }
+      } catch (err) {
+        // Roll back so the retry starts from the script again
+        await deps.lifecycle.transition(
+          id,
+          'script_ready',
+          byStage(job, `Media generation failed: ${String(err)}`),
+        );
+        asUnrecoverableBudgetError(err);
+      }
+
+      await deps.lifecycle.transition(id, 'media_ready', byStage(job), urls);
+      logger.info({ generatedVideoId: id, media: Object.keys(urls) }, 'Media generated');
+      return { type: 'generate-media', generatedVideoId: id, ...urls };
+    },
+
+    async 'quality-check'(job) {
+      const data = job.data as QualityCheckJobData;
+      const id = await resolveVideoId(job, data.generatedVideoId, 'generate-media');
+      const video = await loadVideo(id);
+      const metadata = video.generationMetadata as unknown as ScriptMetadata;
+
+      const score = scoreContent({
+        title: video.title,
+        script: video.script ?? '',
+        educationalObjective: metadata.educationalObjective,
+        learningTakeaways: metadata.learningTakeaways,
+        engagementHooks: metadata.engagementHooks,
+        episodeStructure: metadata.episodeStructure,
+        ageBracket: metadata.ageBracket,
+        estimatedDuration: metadata.estimatedDuration,
+      });
+
+      if (!score.passed) {
+        await deps.lifecycle.transition(id, 'failed', byStage(job, score.feedback.join('; ')));
+        // Regenerating is a new script, so retrying this job would never change the outcome
+        throw new UnrecoverableError(
+          `Video ${id} failed quality check: ${score.feedback.join('; ')}`,
+        );
+      }
+
+      await deps.lifecycle.transition(id, 'review', byStage(job), {
+        generationMetadata: { ...video.generationMetadata, qualityScore: score },
+      });
+      return {
+        type: 'quality-check',
+        generatedVideoId: id,
+        educationalValue: score.educationalValue,
+        engagementPotential: score.engagementPotential,
+      };
+    },
+
+    async review(job) {
+      const data = job.data as ReviewJobData;
+      const id = await resolveVideoId(job, data.generatedVideoId, 'quality-check');
+
+      if (data.rejected) {
+        const reason = data.rejectionReason ?? 'no reason given';
+        await deps.lifecycle.transition(id, 'failed', {
+          actor: `reviewer:${data.reviewedBy ?? 'unknown'}`,
+          reason,
+          jobId: job.id,
+        });
+        throw new UnrecoverableError(`Rejected: ${reason}`);
+      }
+
+      if (!data.approved && !data.autoApprove) {
+        throw new AwaitingReviewError(
+          id,
+          deps.reviewPollIntervalMs ?? DEFAULT_REVIEW_POLL_INTERVAL_MS,
+        );
+      }
+
+      await deps.lifecycle.transition(
+        id,
+        'approved',
+        data.approved
+          ? { actor: `reviewer:${data.reviewedBy ?? 'unknown'}`, jobId: job.id }
+          : byStage(job, 'Auto-approved'),
+      );
+      logger.info({ generatedVideoId: id, autoApproved: !data.approved }, 'Video approved');
+      return { type: 'review', generatedVideoId: id, autoApproved: !data.approved };
+    },
+
+    async publish(job) {
+      const data = job.data as PublishJobData;
+      const id = await resolveVideoId(job, data.generatedVideoId, 'review');
+      const video = await loadVideo(id);
+      const dryRun = data.dryRun ?? true;
+
+      if (video.status !== 'approved') {
+        throw new UnrecoverableError(`Video ${id} is ${video.status}, not approved`);
+      }
+      if (!video.videoUrl) {
+        throw new UnrecoverableError(`Video ${id} has no rendered video to upload`);
+      }
+
+      await deps.seo.loadLatestRun(deps.db);
+      const metadata = video.generationMetadata as unknown as ScriptMetadata | null;
+      const seo = deps.seo.optimize({
+        title: video.title,
+        description: video.description ?? '',
+        tags: video.tags ?? [],
+        category: video.category ?? 'educational',
+        characterName: DEFAULT_CHARACTERS[video.characters?.[0] ?? -1]?.name,
+        topic: metadata?.topic,
+      });
+
+      if (!dryRun) await deps.lifecycle.transition(id, 'publishing', byStage(job));
+
+      const uploader = new YouTubeUploader({ ...deps.uploaderOptions, dryRun }, logger);
+      const scheduledAt = data.scheduledAt ? new Date(data.scheduledAt) : undefined;
+      let result: PublishResult;
+      try {
+        result = await uploader.upload({
+          title: seo.title,
+          description: seo.description,
+          tags: seo.tags,
+          thumbnailPath: video.thumbnailUrl ?? '',
+          videoPath: video.videoUrl,
+          scheduledAt,
+          madeForKids: true,
+        });
+      } catch (err) {
+        // Back to approved so the retry passes the status check above
+        if (!dryRun) {
+          await deps.lifecycle.transition(
+            id,
+            'approved',
+            byStage(job, `Upload failed: ${String(err)}`),
+          );
+        }
+        throw err;
+      }
+
+      // Dry runs leave the video approved so it can still be published for real
+      if (!dryRun) {
+        await deps.lifecycle.transition(id, 'published', byStage(job), {
+          youtubeVideoId: result.videoId,
+          publishedAt: result.publishedAt,
+          scheduledAt,
+          title: seo.title,
+          description: seo.description,
+          tags: seo.tags,
+        });
+      }
+
+      return {
+        type: 'publish',
+        generatedVideoId: id,
+        youtubeVideoId: result.videoId,
+        url: result.url,
+        dryRun,
+      };
+    },
+
+    async 'track-performance'(job) {
+      const published = await childResult(job, 'publish');
+      if (published?.dryRun) {
+        logger.info(
+          { generatedVideoId: published.generatedVideoId },
+          'Dry run publish, skipping tracking',
+        );
+        return { type: 'track-performance', tracked: 0 };
+      }
+
+      const metrics = await deps.tracker.snapshotAll().catch(deferUntilQuotaReset);
+      return { type: 'track-performance', tracked: metrics.length };
+    },
+
+    async 'discover-channels'(job) {
+      const data = job.data as DiscoverJobData;
+      const result = await deps.discovery
+        .discover({
+          keywords: data.keywords,
+          minSubscribers: data.minSubscribers,
+          maxProposals: data.maxProposals,
+        })
+        .catch(deferUntilQuotaReset);
+
+      return {
+        type: 'discover-channels',
+        searched: result.searched,
+        candidates: result.candidates,
+        proposed: result.proposals.length,
+      };
+    },
+  };
+}
+
+/** Register every pipeline stage and standalone job processor on the queue manager */
+export function registerStageProcessors(
+  queueManager: QueueManager,
+  processors: StageProcessors,
+): void {
+  for (const stage of [...PIPELINE_STAGES, ...STANDALONE_JOBS]) {
+    queueManager.registerProcessor(stage, processors[stage]);
+  }
+}
+
+// ─── Helpers ───
+
+/** Find the return value of the child job for a given stage */
+async function childResult<K extends JobResult['type']>(
+  job: PipelineJob,
+  type: K,
+): Promise<Extract<JobResult, { type: K }> | undefined> {
+  const values = await job.getChildrenValues<JobResult>();
+  return Object.values(values).find(
+    (value): value is Extract<JobResult, { type: K }> => value?.type === type,
+  );
+}
+
+/** Use the id the job was queued with, or take it from the upstream stage's result */
+async function resolveVideoId(
+  job: PipelineJob,
+  explicitId: number | undefined,
+  upstream: VideoResultStage,
+): Promise<number> {
+  if (explicitId) return explicitId;
+
+  const result = await childResult(job, upstream);
+  if (!result) {
+    throw new UnrecoverableError(
+      `${job.name} job ${job.id} has no generatedVideoId and no ${upstream} result to read it from`,
+    );
+  }
+  return result.generatedVideoId;
+}
+
+/** Rethrow, turning an exhausted budget into an unrecoverable failure: retries can't succeed
+ * until the budget is raised or the day rolls over */
+function asUnrecoverableBudgetError(err: unknown): never {
+  if (err instanceof BudgetExceededError) throw new UnrecoverableError(err.message);
+  throw err;
+}
+
+/** Rethrow, turning an exhausted daily YouTube quota into a wait until it resets */
+function deferUntilQuotaReset(err: unknown): never {
+  if (err instanceof QuotaExhaustedError && err.resetAt) throw new QuotaWaitError(err.resetAt);
+  throw err;
+}
+
+/** Narration for scripts stored before scene scripts existed.
+ * Strips stage directions so only spoken lines reach the TTS provider. */
+function toNarration(script: string): string {
+  return script
+    .replace(/\[[^\]]*\]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
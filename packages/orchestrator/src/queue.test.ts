@@ -1,5 +1,7 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { FlowProducer, Worker } from 'bullmq';
 import { QueueManager } from './queue.js';
+import { JOB_NAMES } from './jobs.js';
 import type { Logger } from '@kidsvid/shared';
 
 // Mock bullmq
@@ -12,7 +14,9 @@ vi.mock('bullmq', () => {
     attemptsMade: 0,
     progress: 0,
     updateData: vi.fn(),
-    moveToFailed: vi.fn(),
+    getState: vi.fn().mockResolvedValue('delayed'),
+    isDelayed: vi.fn().mockResolvedValue(true),
+    promote: vi.fn(),
   };
 
   return {
@@ -33,6 +37,9 @@ vi.mock('bullmq', () => {
       getWaiting: vi.fn().mockResolvedValue([
         { ...mockJob, name: 'review', data: { type: 'review', generatedVideoId: 1 } },
       ]),
+      getDelayed: vi.fn().mockResolvedValue([
+        { ...mockJob, id: 'job-456', name: 'review', data: { type: 'review', generatedVideoId: 2 } },
+      ]),
       getJob: vi.fn().mockResolvedValue(mockJob),
       close: vi.fn(),
     })),
@@ -130,21 +137,51 @@ describe('QueueManager', () => {
         'Full pipeline scheduled',
       );
     });
+
+    it('chains stages children-first without placeholder ids', async () => {
+      const qm = new QueueManager(
+        { redisUrl: 'redis://localhost:6379' },
+        mockLogger,
+      );
+
+      await qm.schedulePipeline({ dryRun: true, autoApprove: true });
+
+      const producer = vi.mocked(FlowProducer).mock.results.at(-1)!.value;
+      const names: string[] = [];
+      let node = producer.add.mock.calls[0][0];
+      while (node) {
+        names.push(node.name);
+        expect(node.data).not.toHaveProperty('generatedVideoId');
+        expect(node.opts).toEqual({ failParentOnFailure: true });
+        node = node.children?.[0];
+      }
+
+      expect(names).toEqual([
+        'track-performance',
+        'publish',
+        'review',
+        'quality-check',
+        'generate-media',
+        'generate-script',
+        'analyze',
+      ]);
+    });
   });
 
   describe('getHealth', () => {
-    it('returns queue statistics', async () => {
+    it('returns queue statistics summed across job queues', async () => {
       const qm = new QueueManager(
         { redisUrl: 'redis://localhost:6379' },
         mockLogger,
       );
 
       const health = await qm.getHealth();
+      const queueCount = Object.keys(JOB_NAMES).length;
 
-      expect(health.waiting).toBe(2);
-      expect(health.active).toBe(1);
-      expect(health.completed).toBe(10);
-      expect(health.failed).toBe(1);
+      expect(health.waiting).toBe(2 * queueCount);
+      expect(health.active).toBe(1 * queueCount);
+      expect(health.completed).toBe(10 * queueCount);
+      expect(health.failed).toBe(1 * queueCount);
       expect(health.delayed).toBe(0);
     });
   });
@@ -177,6 +214,18 @@ describe('QueueManager', () => {
       expect(queue.length).toBeGreaterThan(0);
       expect(queue[0].name).toBe('review');
     });
+
+    it('includes review jobs parked while awaiting a decision', async () => {
+      const qm = new QueueManager(
+        { redisUrl: 'redis://localhost:6379' },
+        mockLogger,
+      );
+
+      const queue = await qm.getReviewQueue();
+
+      expect(queue).toHaveLength(2);
+      expect(queue[1]).toMatchObject({ id: 'job-456', state: 'awaiting-review' });
+    });
   });
 
   describe('approveVideo', () => {
@@ -196,7 +245,7 @@ describe('QueueManager', () => {
   });
 
   describe('rejectVideo', () => {
-    it('moves job to failed with reason', async () => {
+    it('flags job as rejected with reason', async () => {
       const qm = new QueueManager(
         { redisUrl: 'redis://localhost:6379' },
         mockLogger,
@@ -223,6 +272,47 @@ describe('QueueManager', () => {
         qm.registerProcessor('analyze', async () => ({ result: 'done' }));
       }).not.toThrow();
     });
+
+    it('starts one worker on the stage queue with its concurrency limit', () => {
+      const qm = new QueueManager(
+        { redisUrl: 'redis://localhost:6379' },
+        mockLogger,
+      );
+
+      qm.registerProcessor('generate-media', async () => ({}));
+      qm.registerProcessor('track-performance', async () => ({}));
+
+      const calls = vi.mocked(Worker).mock.calls;
+      expect(calls).toHaveLength(2);
+      expect(calls[0][0]).toBe('kidsvid-pipeline-generate-media');
+      expect(calls[0][2]).toMatchObject({ concurrency: 1 });
+      expect(calls[1][0]).toBe('kidsvid-pipeline-track-performance');
+      expect(calls[1][2]).toMatchObject({ concurrency: 10 });
+    });
+
+    it('applies per-stage concurrency overrides', () => {
+      const qm = new QueueManager(
+        { redisUrl: 'redis://localhost:6379', stageConcurrency: { 'generate-media': 3 } },
+        mockLogger,
+      );
+
+      qm.registerProcessor('generate-media', async () => ({}));
+
+      expect(vi.mocked(Worker).mock.calls[0][2]).toMatchObject({ concurrency: 3 });
+    });
+
+    it('rejects a second processor for the same job type', () => {
+      const qm = new QueueManager(
+        { redisUrl: 'redis://localhost:6379' },
+        mockLogger,
+      );
+
+      qm.registerProcessor('review', async () => ({}));
+
+      expect(() => qm.registerProcessor('review', async () => ({}))).toThrow(
+        'Processor already registered for review',
+      );
+    });
   });
 
   describe('shutdown', () => {
@@ -1,42 +1,42 @@
-import { Queue, Worker, FlowProducer, type Job } from 'bullmq';
 import type { Logger } from '@kidsvid/shared';
-import { JOB_NAMES, PIPELINE_STAGES, type JobName, type JobData } from './jobs.js';
-
-/** Pipeline queue manager using BullMQ + Redis.
- * Supports individual job submission, full pipeline flows, and worker registration. */
+import {
+  JOB_NAMES,
+  PIPELINE_STAGES,
+  DEFAULT_STAGE_CONCURRENCY,
+  type JobName,
+  type JobData,
+} from './jobs.js';
+import {
+  createQueueBackend,
+  type QueueBackend,
+  type QueueBackendName,
+  type QueueCounts,
+  type JobStatus,
+  type JobProcessor,
+  type FlowNode,
+} from './backends/index.js';
+
+/** Pipeline queue manager. Supports individual job submission, full pipeline flows, and
+ * worker registration on top of a QueueBackend (BullMQ + Redis, or in-process). */
 
 export interface QueueManagerOptions {
   redisUrl: string;
+  /** Defaults to 'bullmq' */
+  backend?: QueueBackendName;
+  /** Concurrency for every stage without an entry in stageConcurrency */
   concurrency?: number;
+  stageConcurrency?: Partial<Record<JobName, number>>;
 }
 
-export interface JobStatus {
-  id: string;
-  name: string;
-  state: string;
-  progress: number;
-  attempts: number;
-  timestamp: number;
-  finishedOn?: number;
-  failedReason?: string;
-  data: Record<string, unknown>;
-}
-
-const QUEUE_NAME = 'kidsvid-pipeline';
-
 export class QueueManager {
-  private queue: Queue;
-  private flowProducer: FlowProducer;
-  private workers: Worker[] = [];
-  private connection: { host: string; port: number };
+  private backend: QueueBackend;
+  private registered = new Set<JobName>();
 
   constructor(
     private options: QueueManagerOptions,
     private logger: Logger,
   ) {
-    this.connection = parseRedisUrl(options.redisUrl);
-    this.queue = new Queue(QUEUE_NAME, { connection: this.connection });
-    this.flowProducer = new FlowProducer({ connection: this.connection });
+    this.backend = createQueueBackend(options.backend ?? 'bullmq', options.redisUrl, logger);
   }
 
   /** Add a job to the pipeline queue */
@@ -45,18 +45,19 @@ export class QueueManager {
     data: JobData,
     options?: { delay?: number; priority?: number },
   ): Promise<string> {
-    const job = await this.queue.add(name, data, {
+    const jobId = await this.backend.add(name, data, {
       delay: options?.delay,
       priority: options?.priority,
       attempts: 3,
       backoff: { type: 'exponential', delay: 5000 },
     });
 
-    this.logger.info({ jobId: job.id, name }, 'Job added to queue');
-    return job.id!;
+    this.logger.info({ jobId, name }, 'Job added to queue');
+    return jobId;
   }
 
-  /** Schedule the full pipeline as a flow (chained jobs with dependencies) */
+  /** Schedule the full pipeline as a flow (chained jobs with dependencies).
+   * Stages hand ids forward through their return values, so no placeholders are needed. */
   async schedulePipeline(config: {
     channelIds?: string[];
     educationalCategory?: string;
@@ -64,229 +65,126 @@ export class QueueManager {
     ageBracket?: string;
     characterIds?: number[];
     dryRun?: boolean;
+    autoApprove?: boolean;
   }): Promise<string[]> {
-    // Build flow from the bottom up (BullMQ FlowProducer uses children-first ordering)
-    const flow = await this.flowProducer.add({
-      name: JOB_NAMES.TRACK,
-      queueName: QUEUE_NAME,
-      data: { type: 'track-performance' } as JobData,
-      children: [
-        {
-          name: JOB_NAMES.PUBLISH,
-          queueName: QUEUE_NAME,
-          data: {
-            type: 'publish',
-            generatedVideoId: 0, // Filled by preceding job
-            dryRun: config.dryRun ?? true,
-          } as JobData,
-          children: [
-            {
-              name: JOB_NAMES.REVIEW,
-              queueName: QUEUE_NAME,
-              data: {
-                type: 'review',
-                generatedVideoId: 0,
-              } as JobData,
-              children: [
-                {
-                  name: JOB_NAMES.QUALITY_CHECK,
-                  queueName: QUEUE_NAME,
-                  data: {
-                    type: 'quality-check',
-                    generatedVideoId: 0,
-                  } as JobData,
-                  children: [
-                    {
-                      name: JOB_NAMES.GENERATE_MEDIA,
-                      queueName: QUEUE_NAME,
-                      data: {
-                        type: 'generate-media',
-                        scriptId: 0,
-                        generateThumbnail: true,
-                        generateVoice: true,
-                        generateMusic: true,
-                        generateVideo: true,
-                      } as JobData,
-                      children: [
-                        {
-                          name: JOB_NAMES.GENERATE_SCRIPT,
-                          queueName: QUEUE_NAME,
-                          data: {
-                            type: 'generate-script',
-                            educationalCategory: config.educationalCategory ?? 'early_math',
-                            topic: config.topic ?? 'counting to 10',
-                            ageBracket: config.ageBracket ?? '4-6',
-                            characterIds: config.characterIds ?? [0],
-                          } as JobData,
-                          children: [
-                            {
-                              name: JOB_NAMES.ANALYZE,
-                              queueName: QUEUE_NAME,
-                              data: {
-                                type: 'analyze',
-                                channelIds: config.channelIds,
-                              } as JobData,
-                            },
-                          ],
-                        },
-                      ],
-                    },
-                  ],
-                },
-              ],
-            },
-          ],
-        },
-      ],
-    });
-
-    const jobIds = this.collectFlowJobIds(flow);
+    const stageData: Record<(typeof PIPELINE_STAGES)[number], JobData> = {
+      [JOB_NAMES.ANALYZE]: { type: 'analyze', channelIds: config.channelIds },
+      [JOB_NAMES.GENERATE_SCRIPT]: {
+        type: 'generate-script',
+        educationalCategory: config.educationalCategory ?? 'early_math',
+        topic: config.topic ?? 'counting to 10',
+        ageBracket: config.ageBracket ?? '4-6',
+        characterIds: config.characterIds ?? [0],
+      },
+      [JOB_NAMES.GENERATE_MEDIA]: {
+        type: 'generate-media',
+        generateThumbnail: true,
+        generateVoice: true,
+        generateMusic: true,
+        generateVideo: true,
+      },
+      [JOB_NAMES.QUALITY_CHECK]: { type: 'quality-check' },
+      [JOB_NAMES.REVIEW]: { type: 'review', autoApprove: config.autoApprove },
+      [JOB_NAMES.PUBLISH]: { type: 'publish', dryRun: config.dryRun ?? true },
+      [JOB_NAMES.TRACK]: { type: 'track-performance' },
+    };
+
+    // Children run before parents, so each stage becomes the parent of the one before it
+    const root = PIPELINE_STAGES.reduce<FlowNode | undefined>(
+      (child, name) => ({
+        name,
+        data: stageData[name],
+        children: child ? [child] : undefined,
+      }),
+      undefined,
+    )!;
+
+    const jobIds = await this.backend.addFlow(root);
     this.logger.info({ jobIds, stages: PIPELINE_STAGES.length }, 'Full pipeline scheduled');
     return jobIds;
   }
 
-  /** Register a processor for a specific job type */
-  registerProcessor(
-    name: JobName,
-    processor: (job: Job) => Promise<unknown>,
-  ): void {
-    const worker = new Worker(
-      QUEUE_NAME,
-      async (job) => {
-        if (job.name !== name) return;
-        this.logger.info({ jobId: job.id, name: job.name }, 'Processing job');
-        return processor(job);
-      },
-      {
-        connection: this.connection,
-        concurrency: this.options.concurrency ?? 1,
-      },
-    );
+  /** Register the processor for a job type. Each job type is processed independently,
+   * at the stage's concurrency limit. */
+  registerProcessor(name: JobName, processor: JobProcessor): void {
+    if (this.registered.has(name)) {
+      throw new Error(`Processor already registered for ${name}`);
+    }
 
-    worker.on('completed', (job) => {
-      this.logger.info({ jobId: job.id, name: job.name }, 'Job completed');
-    });
+    const concurrency =
+      this.options.stageConcurrency?.[name] ??
+      this.options.concurrency ??
+      DEFAULT_STAGE_CONCURRENCY[name];
 
-    worker.on('failed', (job, err) => {
-      this.logger.error({ jobId: job?.id, name: job?.name, err: err.message }, 'Job failed');
-    });
-
-    this.workers.push(worker);
+    this.backend.process(name, processor, concurrency);
+    this.registered.add(name);
+    this.logger.debug({ name, concurrency }, 'Processor registered');
   }
 
   /** Get queue health stats */
-  async getHealth(): Promise<{
-    waiting: number;
-    active: number;
-    completed: number;
-    failed: number;
-    delayed: number;
-  }> {
-    const [waiting, active, completed, failed, delayed] = await Promise.all([
-      this.queue.getWaitingCount(),
-      this.queue.getActiveCount(),
-      this.queue.getCompletedCount(),
-      this.queue.getFailedCount(),
-      this.queue.getDelayedCount(),
-    ]);
-
-    return { waiting, active, completed, failed, delayed };
+  async getHealth(): Promise<QueueCounts> {
+    return this.backend.getCounts();
   }
 
   /** Get recent job history */
   async getJobHistory(limit = 20): Promise<JobStatus[]> {
-    const [completed, failed, active, waiting] = await Promise.all([
-      this.queue.getCompleted(0, limit),
-      this.queue.getFailed(0, limit),
-      this.queue.getActive(0, limit),
-      this.queue.getWaiting(0, limit),
-    ]);
-
-    const allJobs = [...completed, ...failed, ...active, ...waiting];
-    allJobs.sort((a, b) => (b.timestamp ?? 0) - (a.timestamp ?? 0));
-
-    return allJobs.slice(0, limit).map((job) => ({
-      id: job.id ?? '',
-      name: job.name,
-      state: job.finishedOn
-        ? job.failedReason
-          ? 'failed'
-          : 'completed'
-        : job.processedOn
-          ? 'active'
-          : 'waiting',
-      progress: typeof job.progress === 'number' ? job.progress : 0,
-      attempts: job.attemptsMade,
-      timestamp: job.timestamp ?? 0,
-      finishedOn: job.finishedOn ?? undefined,
-      failedReason: job.failedReason ?? undefined,
-      data: job.data as Record<string, unknown>,
-    }));
+    return this.backend.getJobs(['completed', 'failed', 'active', 'waiting'], limit);
   }
 
-  /** Get content queue (videos in review state) */
+  /** Get content queue (videos in review state).
+   * Review jobs the worker has already seen sit in the delayed set until approved or rejected. */
   async getReviewQueue(): Promise<JobStatus[]> {
-    const jobs = await this.queue.getWaiting(0, 50);
-    return jobs
-      .filter((j) => j.name === JOB_NAMES.REVIEW)
-      .map((job) => ({
-        id: job.id ?? '',
-        name: job.name,
-        state: 'waiting',
-        progress: 0,
-        attempts: job.attemptsMade,
-        timestamp: job.timestamp ?? 0,
-        data: job.data as Record<string, unknown>,
-      }));
+    const jobs = await this.backend.getJobs(['waiting', 'delayed'], 50, JOB_NAMES.REVIEW);
+    return jobs.map((job) => ({
+      ...job,
+      state: job.state === 'delayed' ? 'awaiting-review' : job.state,
+    }));
   }
 
   /** Approve a video in the review queue */
-  async approveVideo(jobId: string): Promise<void> {
-    const job = await this.queue.getJob(jobId);
+  async approveVideo(jobId: string, reviewer?: string): Promise<void> {
+    const job = await this.backend.getJob(JOB_NAMES.REVIEW, jobId);
     if (!job) {
       throw new Error(`Job ${jobId} not found`);
     }
 
-    // Update job data to mark as approved
-    await job.updateData({ ...job.data, approved: true });
-    this.logger.info({ jobId }, 'Video approved for publishing');
+    // Update job data to mark as approved; the review processor picks it up on its next pass
+    await this.backend.updateJobData(JOB_NAMES.REVIEW, jobId, {
+      ...job.data,
+      approved: true,
+      reviewedBy: reviewer,
+    } as JobData);
+    await this.backend.promoteJob(JOB_NAMES.REVIEW, jobId);
+    this.logger.info({ jobId, reviewer }, 'Video approved for publishing');
   }
 
   /** Reject a video in the review queue */
-  async rejectVideo(jobId: string, reason: string): Promise<void> {
-    const job = await this.queue.getJob(jobId);
+  async rejectVideo(jobId: string, reason: string, reviewer?: string): Promise<void> {
+    const job = await this.backend.getJob(JOB_NAMES.REVIEW, jobId);
     if (!job) {
       throw new Error(`Job ${jobId} not found`);
     }
 
-    await job.moveToFailed(new Error(`Rejected: ${reason}`), '0');
-    this.logger.info({ jobId, reason }, 'Video rejected');
+    // The review processor fails the job (and the flow above it) once it sees the flag
+    await this.backend.updateJobData(JOB_NAMES.REVIEW, jobId, {
+      ...job.data,
+      rejected: true,
+      rejectionReason: reason,
+      reviewedBy: reviewer,
+    } as JobData);
+    await this.backend.promoteJob(JOB_NAMES.REVIEW, jobId);
+    this.logger.info({ jobId, reason, reviewer }, 'Video rejected');
+  }
+
+  /** Wait until every queued job this process can run has finished (or is parked for
+   * review or a quota reset). Only meaningful for the in-memory backend; BullMQ jobs outlive the process. */
+  async drain(): Promise<void> {
+    await this.backend.drain();
   }
 
   /** Shutdown gracefully */
   async shutdown(): Promise<void> {
-    await Promise.all(this.workers.map((w) => w.close()));
-    await this.queue.close();
-    await this.flowProducer.close();
+    await this.backend.close();
     this.logger.info('Queue manager shut down');
   }
-
-  private collectFlowJobIds(flow: { job: { id?: string }; children?: Array<{ job: { id?: string }; children?: unknown[] }> }): string[] {
-    const ids: string[] = [];
-    if (flow.job.id) ids.push(flow.job.id);
-    if (flow.children) {
-      for (const child of flow.children) {
-        ids.push(...this.collectFlowJobIds(child as typeof flow));
-      }
-    }
-    return ids;
-  }
-}
-
-function parseRedisUrl(url: string): { host: string; port: number } {
-  const parsed = new URL(url);
-  return {
-    host: parsed.hostname,
-    port: parseInt(parsed.port || '6379', 10),
-  };
 }
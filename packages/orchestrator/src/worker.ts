@@ -0,0 +1,116 @@
+import {
+  YouTubeClient,
+  VideoLifecycle,
+  CostTracker,
+  createQuotaLedger,
+  createCacheStore,
+  getDb,
+  type CacheMode,
+  type Config,
+  type Logger,
+} from '@kidsvid/shared';
+import { AnalysisPipeline, ChannelDiscovery, ThumbnailAnalyzer } from '@kidsvid/analyzer';
+import {
+  ScriptGenerator,
+  ThumbnailIntelligence,
+  DalleThumbnailProvider,
+  MockThumbnailProvider,
+  MockVoiceProvider,
+  MockMusicProvider,
+  MockVideoProvider,
+  createVoiceProvider,
+  createMusicProvider,
+  createVideoProvider,
+  createLLMProviderFromConfig,
+} from '@kidsvid/generator';
+import { SeoOptimizer } from '@kidsvid/publisher';
+import { PerformanceTracker } from '@kidsvid/feedback';
+import { QueueManager } from './queue.js';
+import {
+  createStageProcessors,
+  registerStageProcessors,
+  type MediaProviders,
+  type StageProcessorDeps,
+} from './processors.js';
+
+/** Worker entrypoint: wires the domain packages into stage processors from config.
+ * Media providers without an API key fall back to their mock so the pipeline still runs. */
+
+export function createStageProcessorDeps(config: Config, logger: Logger): StageProcessorDeps {
+  const db = getDb(config.databaseUrl);
+  const ledger = createQuotaLedger(db, logger, config);
+  const cache = createCacheStore(config.youtubeCacheStore, { db, dir: config.youtubeCacheDir });
+  const youtubeFor = (consumer: string, cacheMode?: CacheMode) =>
+    new YouTubeClient({ apiKey: config.youtubeApiKey, ledger, consumer, cache, cacheMode });
+
+  return {
+    db,
+    lifecycle: new VideoLifecycle(db, logger),
+    costs: new CostTracker(db, logger, {
+      perEpisodeUsd: config.budgetPerEpisodeUsd,
+      perDayUsd: config.budgetPerDayUsd,
+    }),
+    analysis: new AnalysisPipeline(
+      youtubeFor('analyzer'),
+      db,
+      logger,
+      new ThumbnailAnalyzer(logger, { cacheDir: config.youtubeThumbnailDir }),
+    ),
+    discovery: new ChannelDiscovery(youtubeFor('discovery'), db, logger),
+    scriptGenerator: new ScriptGenerator({ llm: createLLMProviderFromConfig(config) }, logger),
+    media: createMediaProviders(config, logger),
+    thumbnails: new ThumbnailIntelligence(logger),
+    seo: new SeoOptimizer(logger),
+    uploaderOptions: {
+      clientId: config.youtubeClientId,
+      clientSecret: config.youtubeClientSecret,
+      refreshToken: config.youtubeRefreshToken,
+    },
+    // Snapshots need live counts, so tracking always refetches (and refreshes the cache)
+    tracker: new PerformanceTracker(youtubeFor('tracking', 'refresh'), db, logger),
+  };
+}
+
+export function createMediaProviders(config: Config, logger: Logger): MediaProviders {
+  const voiceKey = config.voiceProvider === 'openai' ? config.openaiApiKey : config.googleApiKey;
+  const musicKey = config.musicProvider === 'suno' ? config.sunoApiKey : config.googleApiKey;
+  const videoKey = config.videoProvider === 'runway' ? config.runwayApiKey : config.googleApiKey;
+
+  const missing = [
+    !config.openaiApiKey && 'thumbnail',
+    !voiceKey && 'voice',
+    !musicKey && 'music',
+    !videoKey && 'video',
+  ].filter(Boolean);
+  if (missing.length > 0) {
+    logger.warn({ providers: missing }, 'No API key configured, using mock media providers');
+  }
+
+  return {
+    thumbnail: config.openaiApiKey
+      ? new DalleThumbnailProvider(config.openaiApiKey)
+      : new MockThumbnailProvider(),
+    voice: voiceKey ? createVoiceProvider(config.voiceProvider, voiceKey) : new MockVoiceProvider(),
+    music: musicKey ? createMusicProvider(config.musicProvider, musicKey) : new MockMusicProvider(),
+    video: videoKey ? createVideoProvider(config.videoProvider, videoKey) : new MockVideoProvider(),
+  };
+}
+
+/** Start a worker that executes every pipeline stage. Call shutdown() on the result to stop. */
+export function startWorker(config: Config, logger: Logger): QueueManager {
+  const queueManager = new QueueManager(
+    { backend: config.queueBackend, redisUrl: config.redisUrl },
+    logger,
+  );
+  const processors = createStageProcessors(createStageProcessorDeps(config, logger), logger);
+  registerStageProcessors(queueManager, processors);
+  logger.info('Pipeline worker started');
+  return queueManager;
+}
+
+/** Queue manager for the configured backend. The in-memory backend only lives as long as
+ * this process, so it gets the stage processors too and runs jobs in-process. */
+export function createQueueManager(config: Config, logger: Logger): QueueManager {
+  if (config.queueBackend === 'memory') return startWorker(config, logger);
+  return new QueueManager({ backend: config.queueBackend, redisUrl: config.redisUrl }, logger);
+}
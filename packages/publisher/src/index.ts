@@ -1,4 +1,11 @@
 export { YouTubeUploader, type UploaderOptions } from './uploader.js';
-export { SeoOptimizer, type SeoInput, type SeoResult, type AnalysisPatterns } from './seo-optimizer.js';
+export {
+  SeoOptimizer,
+  applyTitleTemplate,
+  type SeoInput,
+  type SeoResult,
+  type AnalysisPatterns,
+  type RankedTitleTemplate,
+} from './seo-optimizer.js';
 export { UploadScheduler, type ScheduleOptions } from './scheduler.js';
 export { PlaylistManager, type PlaylistConfig, type PlaylistManagerOptions } from './playlist-manager.js';
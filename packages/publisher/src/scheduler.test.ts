@@ -117,6 +117,30 @@ describe('UploadScheduler', () => {
     expect([15, 16]).toContain(slot.getUTCHours());
   });
 
+  it('prefers the upload cadence recommendations of an analysis run', () => {
+    const scheduler = UploadScheduler.fromAnalysis(
+      [
+        { patternType: 'upload_day', metadata: { bestDays: [1], bestHours: [9] } },
+        {
+          patternType: 'upload_cadence',
+          metadata: {
+            recommendations: [
+              { day: 'Thursday', hourUtc: 17, reason: '', expectedEngagementBoost: 1.6 },
+              { day: 'Saturday', hourUtc: 17, reason: '', expectedEngagementBoost: 1.4 },
+            ],
+          },
+        },
+      ],
+      mockLogger,
+    );
+
+    const slots = scheduler.getSlots(2, new Date('2026-02-16T10:00:00Z')); // Monday
+    expect(slots.map((s) => s.toISOString())).toEqual([
+      '2026-02-19T17:00:00.000Z',
+      '2026-02-21T17:00:00.000Z',
+    ]);
+  });
+
   it('fallback returns next day when no slots found in 2 weeks', () => {
     const scheduler = new UploadScheduler(
       {
@@ -1,4 +1,4 @@
-import type { Logger } from '@kidsvid/shared';
+import { DAY_NAMES, type Logger, type UploadRecommendation } from '@kidsvid/shared';
 
 /** Upload scheduler — determines optimal publish times based on analysis patterns.
  * Uses engagement data to find the best day/hour combinations for uploading. */
@@ -100,6 +100,14 @@ export class UploadScheduler {
     analysisPatterns: Array<{ patternType: string; metadata?: Record<string, unknown> }>,
     logger: Logger,
   ): UploadScheduler {
+    const cadencePattern = analysisPatterns.find((p) => p.patternType === 'upload_cadence');
+    const recommendations = cadencePattern?.metadata?.recommendations as
+      | UploadRecommendation[]
+      | undefined;
+    if (recommendations && recommendations.length > 0) {
+      return UploadScheduler.fromRecommendations(recommendations, logger);
+    }
+
     const options: ScheduleOptions = {};
 
     const uploadPattern = analysisPatterns.find(
@@ -119,6 +127,26 @@ export class UploadScheduler {
     return new UploadScheduler(options, logger);
   }
 
+  /** Configure schedule from ranked upload recommendations: their days and hours, best first */
+  static fromRecommendations(
+    recommendations: UploadRecommendation[],
+    logger: Logger,
+    options: ScheduleOptions = {},
+  ): UploadScheduler {
+    const days = recommendations.map((r) => DAY_NAMES.indexOf(r.day)).filter((d) => d >= 0);
+    const hours = recommendations.map((r) => r.hourUtc);
+    if (days.length > 0 && hours.length > 0) {
+      options = {
+        ...options,
+        preferredDays: [...new Set(days)],
+        preferredHoursUtc: [...new Set(hours)],
+      };
+    }
+
+    logger.info({ options }, 'Scheduler configured from upload recommendations');
+    return new UploadScheduler(options, logger);
+  }
+
   /** Clear all scheduled slots */
   clearSchedule(): void {
     this.scheduledSlots = [];
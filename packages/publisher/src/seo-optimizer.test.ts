@@ -195,6 +195,106 @@ describe('SeoOptimizer', () => {
     expect(keywordSuggestion).toBeDefined();
   });
 
+  it("switches to an analysis run's patterns", () => {
+    const optimizer = new SeoOptimizer(mockLogger);
+    optimizer.usePatterns([
+      {
+        patternType: 'tags_high_performing',
+        metadata: { highPerformingTags: [{ tag: 'dino facts', count: 12, avgViews: 900000 }] },
+      },
+    ]);
+
+    const result = optimizer.optimize({
+      title: 'Test!',
+      description: 'Test',
+      tags: [],
+      category: 'educational',
+    });
+
+    expect(result.tags).toContain('dino facts');
+    expect(result.tags).not.toContain('kids toys');
+  });
+
+  const titleTemplates = [
+    {
+      patternType: 'title_template',
+      category: 'educational',
+      metadata: {
+        templates: [
+          // Not enough evidence to rewrite into
+          {
+            template: '[question]',
+            slots: ['question'],
+            separators: [],
+            relativeViews: 3,
+            effectSize: 1.2,
+            confidence: 0.6,
+          },
+          {
+            template: '[character] | [brand]',
+            slots: ['character', 'brand'],
+            separators: ['|'],
+            relativeViews: 2.1,
+            effectSize: 0.8,
+            confidence: 0.95,
+          },
+          {
+            template: '[keyword] - [phrase]',
+            slots: ['keyword', 'phrase'],
+            separators: ['-'],
+            relativeViews: 1.6,
+            effectSize: 0.5,
+            confidence: 0.9,
+          },
+        ],
+      },
+    },
+  ];
+
+  it('rewrites titles into the best performing template it can fill', () => {
+    const optimizer = new SeoOptimizer(mockLogger);
+    optimizer.usePatterns(titleTemplates);
+
+    const branded = optimizer.optimize({
+      title: 'Counting Stars with Cosmo',
+      description: 'Test',
+      tags: [],
+      category: 'educational',
+      characterName: 'Cosmo',
+      topic: 'counting',
+      brand: 'Star Kids TV',
+    });
+    expect(branded.title).toBe('Cosmo: Counting Stars | Star Kids TV');
+    expect(branded.changes).toContain(
+      'Rewrote title into the "[character] | [brand]" template (2.1x channel median views)',
+    );
+
+    // Without a brand the next template that fits is used
+    const keyword = optimizer.optimize({
+      title: 'Stars in the Night Sky',
+      description: 'Test',
+      tags: [],
+      category: 'educational',
+      topic: 'space',
+    });
+    expect(keyword.title).toBe('Space: Stars in the Night Sky - Learning Video for Kids');
+  });
+
+  it('keeps the draft title when no template slots can be filled', () => {
+    const optimizer = new SeoOptimizer(mockLogger);
+    optimizer.usePatterns(titleTemplates);
+
+    const result = optimizer.optimize({
+      title: 'Stars in the Night Sky',
+      description: 'Test',
+      tags: [],
+      category: 'educational',
+    });
+
+    expect(result.title).toBe('Stars in the Night Sky!');
+    expect(result.changes).toContain('Added exclamation to title');
+  });
+
   it('returns optimal posting insights', () => {
     const optimizer = new SeoOptimizer(mockLogger);
     const insights = optimizer.getOptimalPostingInsights();
@@ -1,16 +1,29 @@
-import type { Logger, ContentCategory } from '@kidsvid/shared';
+import type {
+  Logger,
+  ContentCategory,
+  Database,
+  PatternFinding,
+  TitleTemplate,
+} from '@kidsvid/shared';
+import { loadLatestRunPatterns } from '@kidsvid/shared';
 import * as fs from 'fs';
 import * as path from 'path';
 
 /** SEO optimizer for YouTube kids content.
- * Uses analysis patterns from analysis-results.json to optimize titles,
- * descriptions, and tags for maximum discoverability and engagement. */
+ * Uses the latest analysis run's patterns (or analysis-results.json when there is no
+ * database) to optimize titles, descriptions, and tags for maximum discoverability and
+ * engagement. */
 
 export interface SeoInput {
   title: string;
   description: string;
   tags: string[];
   category: string;
+  /** Fill the slots of a title template that leads with a character or topic keyword */
+  characterName?: string;
+  topic?: string;
+  /** Our channel's brand suffix, for templates that end in one */
+  brand?: string;
 }
 
 export interface SeoResult {
@@ -26,6 +39,90 @@ export interface AnalysisPatterns {
   popularTags: { tag: string; count: number; avgViews: number }[];
   optimalTitleLength: number;
   avgEngagementRate: number;
+  /** Mined title templates, best performing first, by category ('all' across categories) */
+  titleTemplates: Record<string, RankedTitleTemplate[]>;
+}
+
+/** A title template with how competitor titles using it performed */
+export interface RankedTitleTemplate extends TitleTemplate {
+  relativeViews: number;
+  effectSize: number;
+  confidence: number;
+}
+
+/** Only templates that beat the other titles at least this confidently are worth a rewrite */
+const MIN_TEMPLATE_CONFIDENCE = 0.8;
+const MAX_TITLE_LENGTH = 60;
+
+const TITLE_SEPARATOR = /\s*\|\s*|\s+[-–—]+\s+/;
+const QUESTION = /\?|^(how|what|why|where|who|which|can|do|does|is|are|will)\b/i;
+
+/** Second segment for templates that want one when the draft title has none */
+const CATEGORY_PHRASES: Record<string, string> = {
+  nursery_rhyme: 'Nursery Rhymes',
+  song: 'Kids Songs',
+  educational: 'Learning Video for Kids',
+  story: 'Story for Kids',
+  animation: 'Cartoon for Kids',
+  roleplay: 'Pretend Play for Kids',
+  challenge: 'Kids Challenge',
+  unboxing: 'Toy Unboxing',
+  other: 'Videos for Kids',
+};
+
+/** Rewrite a draft title into a template's structure. Null when the draft can't fill one of
+ * the template's slots, e.g. a character lead without a character or a brand without one. */
+export function applyTitleTemplate(
+  template: TitleTemplate,
+  input: Pick<SeoInput, 'title' | 'category' | 'characterName' | 'topic' | 'brand'>,
+): string | null {
+  const [core, ...rest] = input.title
+    .split(TITLE_SEPARATOR)
+    .map((s) => s.trim())
+    .filter(Boolean);
+  if (!core) return null;
+  const name = input.characterName;
+  // The draft without its character mention ("... with Cosmo", "Cosmo's ...")
+  const bare = name
+    ? core
+        .replace(new RegExp(`\\s+(with|and)\\s+${escapeRegExp(name)}\\b`, 'i'), '')
+        .replace(new RegExp(`^${escapeRegExp(name)}('s)?:?\\s+`, 'i'), '')
+    : core;
+  const startsWith = (text: string, word: string) =>
+    text.toLowerCase().startsWith(word.toLowerCase());
+
+  const lead = (() => {
+    switch (template.slots[0]) {
+      case 'question':
+        return QUESTION.test(core) ? core : null;
+      case 'count':
+        return /^\d+\b/.test(core) ? core : null;
+      case 'character':
+        if (!name) return null;
+        return startsWith(core, name) ? core : `${name}: ${bare}`;
+      case 'keyword': {
+        if (!input.topic) return null;
+        if (startsWith(bare, input.topic.split(' ')[0])) return bare;
+        return `${titleCase(input.topic)}: ${core}`;
+      }
+      default:
+        return core;
+    }
+  })();
+  if (!lead) return null;
+
+  const segments = [lead];
+  for (const slot of template.slots.slice(1)) {
+    const segment =
+      slot === 'brand'
+        ? input.brand
+        : slot === 'phrase'
+          ? (rest.shift() ?? CATEGORY_PHRASES[input.category])
+          : undefined;
+    if (!segment) return null;
+    segments.push(segment);
+  }
+  return segments.map((s, i) => (i > 0 ? `${template.separators[i - 1]} ${s}` : s)).join(' ');
 }
 
 export class SeoOptimizer {
@@ -44,8 +141,16 @@ export class SeoOptimizer {
 
     // ─── Title Optimizations ───
 
-    // Add engagement markers if missing (numbers or punctuation)
-    if (!/[!?]/.test(title) && !/\d/.test(title)) {
+    // Rewrite into the best performing title template for the category
+    const templated = this.applyBestTemplate(input);
+    if (templated && templated.title !== title) {
+      title = templated.title;
+      changes.push(
+        `Rewrote title into the "${templated.template.template}" template ` +
+          `(${templated.template.relativeViews}x channel median views)`,
+      );
+    } else if (!/[!?]/.test(title) && !/\d/.test(title)) {
+      // Add engagement markers if missing (numbers or punctuation)
       title = title + '!';
       changes.push('Added exclamation to title');
     }
@@ -139,6 +244,23 @@ export class SeoOptimizer {
     return { title, description, tags, changes };
   }
 
+  /** Replace the patterns in use, e.g. with a run's findings from the database */
+  usePatterns(
+    patterns: Array<Pick<PatternFinding, 'patternType' | 'metadata'> & { category?: string | null }>,
+  ): void {
+    this.patterns = this.extractPatterns(patterns);
+  }
+
+  /** Switch to the latest completed analysis run's patterns. Returns the run id, or null
+   * when no run has stored findings yet and the current patterns stay in use. */
+  async loadLatestRun(db: Database): Promise<number | null> {
+    const latest = await loadLatestRunPatterns(db);
+    if (!latest) return null;
+    this.usePatterns(latest.patterns);
+    this.logger.info({ runId: latest.run.id }, 'Loaded analysis run patterns for SEO optimization');
+    return latest.run.id;
+  }
+
   /** Get optimal posting insights from analysis data */
   getOptimalPostingInsights(): {
     bestDays: string[];
@@ -152,6 +274,22 @@ export class SeoOptimizer {
     };
   }
 
+  /** The best performing template the draft can be written into */
+  private applyBestTemplate(
+    input: SeoInput,
+  ): { title: string; template: RankedTitleTemplate } | null {
+    const candidates = [
+      ...(this.patterns.titleTemplates[input.category] ?? []),
+      ...(this.patterns.titleTemplates.all ?? []),
+    ].filter((t) => t.effectSize > 0 && t.confidence >= MIN_TEMPLATE_CONFIDENCE);
+
+    for (const template of candidates) {
+      const title = applyTitleTemplate(template, input);
+      if (title && title.length <= MAX_TITLE_LENGTH) return { title, template };
+    }
+    return null;
+  }
+
   private getCategoryTags(category: string): string[] {
     const categoryTagMap: Record<string, string[]> = {
       nursery_rhyme: ['nursery rhymes', 'baby songs', 'sing along', 'rhymes for kids'],
@@ -167,91 +305,123 @@ export class SeoOptimizer {
     return categoryTagMap[category] ?? categoryTagMap['other'];
   }
 
-  private loadPatterns(resultsPath?: string): AnalysisPatterns {
-    const defaults: AnalysisPatterns = {
+  private defaultPatterns(): AnalysisPatterns {
+    return {
       titleKeywords: ['kids', 'fun', 'learn', 'songs', 'story'],
       highPerformingTags: [],
       popularTags: [],
       optimalTitleLength: 40,
       avgEngagementRate: 0.004,
+      titleTemplates: {},
     };
+  }
 
+  private loadPatterns(resultsPath?: string): AnalysisPatterns {
     const filePath = resultsPath ?? path.resolve(process.cwd(), 'analysis-results.json');
 
     try {
-      if (!fs.existsSync(filePath)) return defaults;
+      if (!fs.existsSync(filePath)) return this.defaultPatterns();
 
       const raw = fs.readFileSync(filePath, 'utf-8');
       const data = JSON.parse(raw) as {
         patterns?: Array<{
           patternType: string;
+          category?: string | null;
           metadata?: Record<string, unknown>;
         }>;
       };
 
-      if (!data.patterns) return defaults;
+      if (!data.patterns) return this.defaultPatterns();
 
-      // Extract title keywords
-      const keywordPattern = data.patterns.find(
-        (p) => p.patternType === 'title_keywords',
-      );
-      if (keywordPattern?.metadata?.topWords) {
-        defaults.titleKeywords = (
-          keywordPattern.metadata.topWords as Array<{ word: string }>
-        )
-          .slice(0, 10)
-          .map((w) => w.word);
-      }
+      const patterns = this.extractPatterns(data.patterns);
+      this.logger.info('Loaded analysis patterns for SEO optimization');
+      return patterns;
+    } catch {
+      this.logger.warn('Could not load analysis-results.json, using defaults');
+      return this.defaultPatterns();
+    }
+  }
 
-      // Extract high-performing tags
-      const highPerfPattern = data.patterns.find(
-        (p) => p.patternType === 'tags_high_performing',
-      );
-      if (highPerfPattern?.metadata?.highPerformingTags) {
-        defaults.highPerformingTags = highPerfPattern.metadata.highPerformingTags as {
-          tag: string;
-          count: number;
-          avgViews: number;
-        }[];
-      }
+  private extractPatterns(
+    patterns: Array<{
+      patternType: string;
+      category?: string | null;
+      metadata?: Record<string, unknown>;
+    }>,
+  ): AnalysisPatterns {
+    const defaults = this.defaultPatterns();
+
+    // Extract title keywords
+    const keywordPattern = patterns.find(
+      (p) => p.patternType === 'title_keywords',
+    );
+    if (keywordPattern?.metadata?.topWords) {
+      defaults.titleKeywords = (
+        keywordPattern.metadata.topWords as Array<{ word: string }>
+      )
+        .slice(0, 10)
+        .map((w) => w.word);
+    }
 
-      // Extract popular tags
-      const popularPattern = data.patterns.find(
-        (p) => p.patternType === 'tags_popular',
-      );
-      if (popularPattern?.metadata?.topTags) {
-        defaults.popularTags = popularPattern.metadata.topTags as {
-          tag: string;
-          count: number;
-          avgViews: number;
-        }[];
-      }
+    // Extract high-performing tags
+    const highPerfPattern = patterns.find(
+      (p) => p.patternType === 'tags_high_performing',
+    );
+    if (highPerfPattern?.metadata?.highPerformingTags) {
+      defaults.highPerformingTags = highPerfPattern.metadata.highPerformingTags as {
+        tag: string;
+        count: number;
+        avgViews: number;
+      }[];
+    }
 
-      // Extract engagement rate
-      const engagementPattern = data.patterns.find(
-        (p) => p.patternType === 'engagement_rate',
-      );
-      if (engagementPattern?.metadata?.avgEngagementRate) {
-        defaults.avgEngagementRate = engagementPattern.metadata
-          .avgEngagementRate as number;
-      }
+    // Extract popular tags
+    const popularPattern = patterns.find(
+      (p) => p.patternType === 'tags_popular',
+    );
+    if (popularPattern?.metadata?.topTags) {
+      defaults.popularTags = popularPattern.metadata.topTags as {
+        tag: string;
+        count: number;
+        avgViews: number;
+      }[];
+    }
+
+    // Extract engagement rate
+    const engagementPattern = patterns.find(
+      (p) => p.patternType === 'engagement_rate',
+    );
+    if (engagementPattern?.metadata?.avgEngagementRate) {
+      defaults.avgEngagementRate = engagementPattern.metadata
+        .avgEngagementRate as number;
+    }
 
-      // Extract optimal title length
-      const titlePattern = data.patterns.find(
-        (p) => p.patternType === 'title_length',
+    // Extract optimal title length
+    const titlePattern = patterns.find(
+      (p) => p.patternType === 'title_length',
+    );
+    if (titlePattern?.metadata?.avgLength) {
+      defaults.optimalTitleLength = Math.min(
+        titlePattern.metadata.avgLength as number,
+        60,
       );
-      if (titlePattern?.metadata?.avgLength) {
-        defaults.optimalTitleLength = Math.min(
-          titlePattern.metadata.avgLength as number,
-          60,
-        );
-      }
+    }
 
-      this.logger.info('Loaded analysis patterns for SEO optimization');
-      return defaults;
-    } catch {
-      this.logger.warn('Could not load analysis-results.json, using defaults');
-      return defaults;
+    // Extract title templates, overall and per category
+    for (const pattern of patterns.filter((p) => p.patternType === 'title_template')) {
+      if (!pattern.metadata?.templates) continue;
+      defaults.titleTemplates[pattern.category ?? 'all'] = pattern.metadata
+        .templates as RankedTitleTemplate[];
     }
+
+    return defaults;
   }
 }
+
+function titleCase(text: string): string {
+  return text.replace(/\b\p{L}/gu, (c) => c.toUpperCase());
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,58 @@
+import { analysisPatterns, analysisRuns, desc, eq, type Database } from './db/index.js';
+import type { PatternFinding } from './types.js';
+
+/** Analysis runs and the findings they produced.
+ * Consumers (generator, SEO) read the latest completed run instead of a results file, so
+ * they always see one run's conclusions together. */
+
+export type AnalysisRun = typeof analysisRuns.$inferSelect;
+
+export interface RunPatterns {
+  run: AnalysisRun;
+  patterns: PatternFinding[];
+}
+
+/** Findings stored for a run, in the order they were stored */
+export async function loadRunPatterns(db: Database, runId: number): Promise<PatternFinding[]> {
+  const rows = await db.query.analysisPatterns.findMany({
+    where: eq(analysisPatterns.runId, runId),
+    orderBy: [analysisPatterns.id],
+  });
+  return rows.map((row) => ({
+    patternType: row.patternType,
+    category: row.category,
+    format: row.format,
+    finding: row.finding,
+    confidence: row.confidence ?? 0,
+    sampleSize: row.sampleSize ?? 0,
+    metadata: row.metadata ?? {},
+  }));
+}
+
+/** Completed runs, newest first */
+export async function listCompletedRuns(db: Database, limit = 10): Promise<AnalysisRun[]> {
+  return db.query.analysisRuns.findMany({
+    where: eq(analysisRuns.status, 'completed'),
+    orderBy: [desc(analysisRuns.completedAt)],
+    limit,
+  });
+}
+
+/** The most recently started run waiting on quota to finish collecting its sample */
+export async function findPausedRun(db: Database): Promise<AnalysisRun | null> {
+  const run = await db.query.analysisRuns.findFirst({
+    where: eq(analysisRuns.status, 'paused_quota'),
+    orderBy: [desc(analysisRuns.startedAt)],
+  });
+  return run ?? null;
+}
+
+/** The most recent completed run that stored findings, or null before the first one.
+ * Dry runs (`--no-store`) complete without findings and are skipped. */
+export async function loadLatestRunPatterns(db: Database): Promise<RunPatterns | null> {
+  for (const run of await listCompletedRuns(db)) {
+    const patterns = await loadRunPatterns(db, run.id);
+    if (patterns.length > 0) return { run, patterns };
+  }
+  return null;
+}
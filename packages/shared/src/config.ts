@@ -1,12 +1,35 @@
 import { config as dotenvConfig } from 'dotenv';
 import { z } from 'zod';
 import { resolve } from 'path';
+import { parseQuotaAllocations } from './youtube/quota.js';
 
 dotenvConfig({ path: resolve(process.cwd(), '.env') });
 
+/** Daily Data API quota shared across processes, units reserved per consumer
+ * (`tracking=1000,analyzer=6000`) that other consumers cannot spend, the response cache, and
+ * where competitor thumbnails are kept for image analysis */
+function youtubeApiFields() {
+  return {
+    youtubeDailyQuota: z.coerce.number().int().positive().default(10_000),
+    youtubeQuotaAllocations: z.string().default('tracking=1000').transform(parseQuotaAllocations),
+    youtubeCacheStore: z.enum(['memory', 'file', 'postgres']).default('postgres'),
+    youtubeCacheDir: z.string().default('.cache/youtube'), // file store only
+    youtubeThumbnailDir: z.string().default('.cache/thumbnails'),
+  };
+}
+
+/** Provider spend caps in USD, from the provider_costs ledger. 0 disables a cap. */
+function budgetFields() {
+  return {
+    budgetPerEpisodeUsd: z.coerce.number().min(0).default(10),
+    budgetPerDayUsd: z.coerce.number().min(0).default(50),
+  };
+}
+
 const configSchema = z.object({
   // YouTube
   youtubeApiKey: z.string().min(1),
+  ...youtubeApiFields(),
 
   // Database
   databaseUrl: z.string().url(),
@@ -14,6 +37,9 @@ const configSchema = z.object({
   // Redis
   redisUrl: z.string().default('redis://localhost:6379'),
 
+  // Job queue: BullMQ on Redis, or in-process for local development and CI
+  queueBackend: z.enum(['bullmq', 'memory']).default('bullmq'),
+
   // Anthropic
   anthropicApiKey: z.string().default(''),
 
@@ -30,6 +56,12 @@ const configSchema = z.object({
   sunoApiKey: z.string().default(''),
 
   // Providers
+  llmProvider: z
+    .enum(['anthropic', 'openai', 'gemini', 'openai-compatible', 'mock'])
+    .default('anthropic'),
+  llmModel: z.string().default(''), // empty = the provider's default model
+  llmBaseUrl: z.string().default('http://localhost:11434/v1'), // openai-compatible endpoints
+  llmApiKey: z.string().default(''), // openai-compatible endpoints that need a key
   videoProvider: z.enum(['veo', 'nanobanana', 'runway', 'kling', 'sora']).default('veo'),
   musicProvider: z.enum(['gemini', 'suno']).default('gemini'),
   voiceProvider: z.enum(['openai', 'gemini']).default('openai'),
@@ -45,6 +77,9 @@ const configSchema = z.object({
   autoPublish: z.coerce.boolean().default(false),
   manualApproval: z.coerce.boolean().default(true),
 
+  // Spend caps
+  ...budgetFields(),
+
   // Logging
   logLevel: z.enum(['trace', 'debug', 'info', 'warn', 'error', 'fatal']).default('info'),
 });
@@ -58,13 +93,23 @@ export function loadConfig(): Config {
 
   const result = configSchema.safeParse({
     youtubeApiKey: process.env.YOUTUBE_API_KEY,
+    youtubeDailyQuota: process.env.YOUTUBE_DAILY_QUOTA,
+    youtubeQuotaAllocations: process.env.YOUTUBE_QUOTA_ALLOCATIONS,
+    youtubeCacheStore: process.env.YOUTUBE_CACHE_STORE,
+    youtubeCacheDir: process.env.YOUTUBE_CACHE_DIR,
+    youtubeThumbnailDir: process.env.YOUTUBE_THUMBNAIL_DIR,
     databaseUrl: process.env.DATABASE_URL,
     redisUrl: process.env.REDIS_URL,
+    queueBackend: process.env.QUEUE_BACKEND,
     anthropicApiKey: process.env.ANTHROPIC_API_KEY,
     openaiApiKey: process.env.OPENAI_API_KEY,
     googleApiKey: process.env.GOOGLE_API_KEY,
     elevenlabsApiKey: process.env.ELEVENLABS_API_KEY,
     sunoApiKey: process.env.SUNO_API_KEY,
+    llmProvider: process.env.LLM_PROVIDER,
+    llmModel: process.env.LLM_MODEL,
+    llmBaseUrl: process.env.LLM_BASE_URL,
+    llmApiKey: process.env.LLM_API_KEY,
     videoProvider: process.env.VIDEO_PROVIDER,
     musicProvider: process.env.MUSIC_PROVIDER,
     voiceProvider: process.env.VOICE_PROVIDER,
@@ -75,6 +120,8 @@ export function loadConfig(): Config {
     dryRun: process.env.DRY_RUN,
     autoPublish: process.env.AUTO_PUBLISH,
     manualApproval: process.env.MANUAL_APPROVAL,
+    budgetPerEpisodeUsd: process.env.BUDGET_PER_EPISODE_USD,
+    budgetPerDayUsd: process.env.BUDGET_PER_DAY_USD,
     logLevel: process.env.LOG_LEVEL,
   });
 
@@ -91,15 +138,31 @@ export function loadConfig(): Config {
 }
 
 /** Load config with only the fields needed for analysis (no OAuth required) */
-export function loadAnalyzerConfig(): Pick<Config, 'youtubeApiKey' | 'databaseUrl' | 'logLevel'> {
+export function loadAnalyzerConfig(): Pick<
+  Config,
+  | 'youtubeApiKey'
+  | 'youtubeDailyQuota'
+  | 'youtubeQuotaAllocations'
+  | 'youtubeCacheStore'
+  | 'youtubeCacheDir'
+  | 'youtubeThumbnailDir'
+  | 'databaseUrl'
+  | 'logLevel'
+> {
   const schema = z.object({
     youtubeApiKey: z.string().min(1),
+    ...youtubeApiFields(),
     databaseUrl: z.string().url(),
     logLevel: z.enum(['trace', 'debug', 'info', 'warn', 'error', 'fatal']).default('info'),
   });
 
   const result = schema.safeParse({
     youtubeApiKey: process.env.YOUTUBE_API_KEY,
+    youtubeDailyQuota: process.env.YOUTUBE_DAILY_QUOTA,
+    youtubeQuotaAllocations: process.env.YOUTUBE_QUOTA_ALLOCATIONS,
+    youtubeCacheStore: process.env.YOUTUBE_CACHE_STORE,
+    youtubeCacheDir: process.env.YOUTUBE_CACHE_DIR,
+    youtubeThumbnailDir: process.env.YOUTUBE_THUMBNAIL_DIR,
     databaseUrl: process.env.DATABASE_URL,
     logLevel: process.env.LOG_LEVEL,
   });
@@ -112,3 +175,28 @@ export function loadAnalyzerConfig(): Pick<Config, 'youtubeApiKey' | 'databaseUr
 
   return result.data;
 }
+
+/** Load config with only the fields needed to meter provider spend (standalone scripts) */
+export function loadBudgetConfig(): Pick<
+  Config,
+  'databaseUrl' | 'budgetPerEpisodeUsd' | 'budgetPerDayUsd'
+> {
+  const schema = z.object({
+    databaseUrl: z.string().url(),
+    ...budgetFields(),
+  });
+
+  const result = schema.safeParse({
+    databaseUrl: process.env.DATABASE_URL,
+    budgetPerEpisodeUsd: process.env.BUDGET_PER_EPISODE_USD,
+    budgetPerDayUsd: process.env.BUDGET_PER_DAY_USD,
+  });
+
+  if (!result.success) {
+    throw new Error(
+      `Missing budget config. Ensure DATABASE_URL is set to record provider costs.\n${result.error.message}`,
+    );
+  }
+
+  return result.data;
+}
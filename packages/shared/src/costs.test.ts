@@ -0,0 +1,128 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  CostTracker,
+  BudgetExceededError,
+  estimateTokenCostUsd,
+  summarizeCosts,
+  tokenUsage,
+  unitUsage,
+} from './costs.js';
+import type { Database } from './db/index.js';
+import type { Logger } from './logger.js';
+
+const mockLogger = {
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+  debug: vi.fn(),
+} as unknown as Logger;
+
+/** Each select().from().where() resolves to the next total in `totals` */
+function createMockDb(totals: Array<number | null> = []) {
+  const inserted: Array<Record<string, unknown>> = [];
+  const queue = [...totals];
+  const db = {
+    insert: vi.fn(() => ({
+      values: vi.fn((values: Record<string, unknown>) => {
+        inserted.push(values);
+        return Promise.resolve();
+      }),
+    })),
+    select: vi.fn(() => ({
+      from: vi.fn(() => ({
+        where: vi.fn(() => Promise.resolve([{ total: queue.shift() ?? null }])),
+      })),
+    })),
+  };
+  return { db: db as unknown as Database, inserted };
+}
+
+describe('pricing', () => {
+  it('prices tokens per million for known models', () => {
+    expect(estimateTokenCostUsd('claude-sonnet-4-5-20250929', 1_000_000, 100_000)).toBeCloseTo(4.5);
+    expect(estimateTokenCostUsd('some-local-model', 5000, 5000)).toBe(0);
+  });
+
+  it('builds usage records for token and unit billing', () => {
+    expect(tokenUsage('openai', 'gpt-4o', { inputTokens: 1000, outputTokens: 500 })).toEqual({
+      provider: 'openai',
+      model: 'gpt-4o',
+      unit: 'tokens',
+      units: 1500,
+      estimatedUsd: 0.0075,
+    });
+    expect(unitUsage('veo', 'veo-3.1-generate-preview', 'seconds', 8).estimatedUsd).toBeCloseTo(
+      3.2,
+    );
+    expect(unitUsage('openai', 'tts-1', 'characters', 2000).estimatedUsd).toBeCloseTo(0.03);
+  });
+});
+
+describe('CostTracker', () => {
+  it('records usage against an episode', async () => {
+    const { db, inserted } = createMockDb();
+    const tracker = new CostTracker(db, mockLogger);
+
+    await tracker.record(unitUsage('openai', 'dall-e-3', 'images', 1), 7);
+
+    expect(inserted[0]).toMatchObject({
+      provider: 'openai',
+      model: 'dall-e-3',
+      units: 1,
+      estimatedUsd: 0.12,
+      generatedVideoId: 7,
+    });
+  });
+
+  it('does not query spend when no caps are set', async () => {
+    const { db } = createMockDb();
+    const tracker = new CostTracker(db, mockLogger);
+
+    await tracker.assertWithinBudget(7);
+
+    expect(db.select).not.toHaveBeenCalled();
+  });
+
+  it('throws once the daily cap is reached', async () => {
+    const { db } = createMockDb([50]);
+    const tracker = new CostTracker(db, mockLogger, { perEpisodeUsd: 10, perDayUsd: 50 });
+
+    const err = await tracker.assertWithinBudget(7).catch((e) => e);
+
+    expect(err).toBeInstanceOf(BudgetExceededError);
+    expect(err.scope).toBe('day');
+    expect(err.message).toBe('Daily budget exhausted: $50.00 spent of $50.00');
+  });
+
+  it('throws once the episode cap is reached', async () => {
+    const { db } = createMockDb([12, 10.5]);
+    const tracker = new CostTracker(db, mockLogger, { perEpisodeUsd: 10, perDayUsd: 50 });
+
+    await expect(tracker.forEpisode(7).check()).rejects.toThrow(
+      'Episode 7 budget exhausted: $10.50 spent of $10.00',
+    );
+  });
+
+  it('allows calls while under both caps', async () => {
+    const { db } = createMockDb(['3.2' as unknown as number, null]);
+    const tracker = new CostTracker(db, mockLogger, { perEpisodeUsd: 10, perDayUsd: 50 });
+
+    await expect(tracker.assertWithinBudget(7)).resolves.toBeUndefined();
+  });
+});
+
+describe('summarizeCosts', () => {
+  it('totals spend per provider rounded to cents', () => {
+    const summary = summarizeCosts([
+      { provider: 'veo', estimatedUsd: 3.2 },
+      { provider: 'veo', estimatedUsd: 3.2 },
+      { provider: 'anthropic', estimatedUsd: 0.0456 },
+    ]);
+
+    expect(summary).toEqual({
+      totalUsd: 6.45,
+      byProvider: { veo: 6.4, anthropic: 0.05 },
+      calls: 3,
+    });
+  });
+});
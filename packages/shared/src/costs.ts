@@ -0,0 +1,192 @@
+import type { Logger } from './logger.js';
+import type { CostMeter, CostUnit, ProviderUsage } from './types.js';
+import type { SQL } from 'drizzle-orm';
+import { providerCosts, eq, gte, sum, type Database } from './db/index.js';
+
+/** Provider cost ledger. Every provider call is recorded in provider_costs with an estimated
+ * USD price, and calls are refused once an episode or the day has spent its budget. */
+
+// ─── Pricing ───
+
+/** USD per million tokens, list prices. Unknown models are priced at 0 but still recorded. */
+export const TOKEN_PRICING: Record<string, { input: number; output: number }> = {
+  'claude-sonnet-4-5-20250929': { input: 3, output: 15 },
+  'claude-haiku-4-5': { input: 1, output: 5 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-2.5-pro': { input: 1.25, output: 10 },
+};
+
+/** USD per unit for media models: per second of video, per image, per character of speech */
+export const UNIT_PRICING: Record<string, { unit: CostUnit; usd: number }> = {
+  'veo-3.1-generate-preview': { unit: 'seconds', usd: 0.4 },
+  'veo-3.1-fast-generate-preview': { unit: 'seconds', usd: 0.15 },
+  'veo-3.0-generate-001': { unit: 'seconds', usd: 0.4 },
+  'veo-3.0-fast-generate-001': { unit: 'seconds', usd: 0.15 },
+  'imagen-4.0-generate-001': { unit: 'images', usd: 0.04 },
+  'imagen-4.0-ultra-generate-001': { unit: 'images', usd: 0.06 },
+  'dall-e-3': { unit: 'images', usd: 0.12 }, // hd, 1792x1024
+  'tts-1': { unit: 'characters', usd: 0.000015 },
+  'tts-1-hd': { unit: 'characters', usd: 0.00003 },
+};
+
+export function estimateTokenCostUsd(
+  model: string,
+  inputTokens: number,
+  outputTokens: number,
+): number {
+  const price = TOKEN_PRICING[model];
+  if (!price) return 0;
+  return (inputTokens * price.input + outputTokens * price.output) / 1_000_000;
+}
+
+export function estimateUnitCostUsd(model: string, units: number): number {
+  return (UNIT_PRICING[model]?.usd ?? 0) * units;
+}
+
+/** Usage record for an LLM-style call billed by tokens */
+export function tokenUsage(
+  provider: string,
+  model: string,
+  tokens: { inputTokens: number; outputTokens: number },
+): ProviderUsage {
+  return {
+    provider,
+    model,
+    unit: 'tokens',
+    units: tokens.inputTokens + tokens.outputTokens,
+    estimatedUsd: estimateTokenCostUsd(model, tokens.inputTokens, tokens.outputTokens),
+  };
+}
+
+/** Usage record for a media call billed per second, image or character */
+export function unitUsage(
+  provider: string,
+  model: string,
+  unit: CostUnit,
+  units: number,
+): ProviderUsage {
+  return { provider, model, unit, units, estimatedUsd: estimateUnitCostUsd(model, units) };
+}
+
+// ─── Budgets ───
+
+export interface BudgetPolicy {
+  /** Max spend per episode (generated video). 0 = no cap. */
+  perEpisodeUsd: number;
+  /** Max spend per UTC day across all calls. 0 = no cap. */
+  perDayUsd: number;
+}
+
+export class BudgetExceededError extends Error {
+  constructor(
+    public scope: 'episode' | 'day',
+    public spentUsd: number,
+    public limitUsd: number,
+    public episodeId?: number,
+  ) {
+    const subject = scope === 'episode' ? `Episode ${episodeId}` : 'Daily';
+    super(`${subject} budget exhausted: $${spentUsd.toFixed(2)} spent of $${limitUsd.toFixed(2)}`);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+export interface CostBreakdown {
+  totalUsd: number;
+  byProvider: Record<string, number>;
+  calls: number;
+}
+
+export class CostTracker {
+  constructor(
+    private db: Database,
+    private logger: Logger,
+    private policy: BudgetPolicy = { perEpisodeUsd: 0, perDayUsd: 0 },
+  ) {}
+
+  async record(usage: ProviderUsage, episodeId?: number): Promise<void> {
+    await this.db.insert(providerCosts).values({ ...usage, generatedVideoId: episodeId ?? null });
+    this.logger.debug({ ...usage, episodeId }, 'Provider cost recorded');
+  }
+
+  /** Throws BudgetExceededError if the episode or today has already reached its cap */
+  async assertWithinBudget(episodeId?: number): Promise<void> {
+    if (this.policy.perDayUsd > 0) {
+      const spent = await this.spentToday();
+      if (spent >= this.policy.perDayUsd) {
+        this.logger.warn({ spent, limit: this.policy.perDayUsd }, 'Daily budget exhausted');
+        throw new BudgetExceededError('day', spent, this.policy.perDayUsd);
+      }
+    }
+    if (episodeId !== undefined && this.policy.perEpisodeUsd > 0) {
+      const spent = await this.spentOnEpisode(episodeId);
+      if (spent >= this.policy.perEpisodeUsd) {
+        this.logger.warn(
+          { episodeId, spent, limit: this.policy.perEpisodeUsd },
+          'Episode budget exhausted',
+        );
+        throw new BudgetExceededError('episode', spent, this.policy.perEpisodeUsd, episodeId);
+      }
+    }
+  }
+
+  /** A meter bound to one episode, for providers that check and record their own calls */
+  forEpisode(episodeId?: number): CostMeter {
+    return {
+      check: () => this.assertWithinBudget(episodeId),
+      record: (usage) => this.record(usage, episodeId),
+    };
+  }
+
+  async spentOnEpisode(episodeId: number): Promise<number> {
+    return this.total(eq(providerCosts.generatedVideoId, episodeId));
+  }
+
+  async spentToday(now = new Date()): Promise<number> {
+    const midnight = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+    return this.total(gte(providerCosts.createdAt, midnight));
+  }
+
+  /** Spend since a date (all time when omitted), split by provider */
+  async breakdown(since?: Date): Promise<CostBreakdown> {
+    const rows = await this.db.query.providerCosts.findMany({
+      where: since ? gte(providerCosts.createdAt, since) : undefined,
+      columns: { provider: true, estimatedUsd: true },
+    });
+    return summarizeCosts(rows);
+  }
+
+  private async total(where: SQL): Promise<number> {
+    const [row] = await this.db
+      .select({ total: sum(providerCosts.estimatedUsd) })
+      .from(providerCosts)
+      .where(where);
+    return Number(row?.total ?? 0);
+  }
+}
+
+/** Total and per-provider spend for a set of ledger rows */
+export function summarizeCosts(
+  rows: Array<{ provider: string; estimatedUsd: number }>,
+): CostBreakdown {
+  const byProvider: Record<string, number> = {};
+  let totalUsd = 0;
+  for (const row of rows) {
+    byProvider[row.provider] = (byProvider[row.provider] ?? 0) + row.estimatedUsd;
+    totalUsd += row.estimatedUsd;
+  }
+  return {
+    totalUsd: roundUsd(totalUsd),
+    byProvider: mapValues(byProvider, roundUsd),
+    calls: rows.length,
+  };
+}
+
+function roundUsd(usd: number): number {
+  return Math.round(usd * 100) / 100;
+}
+
+function mapValues(obj: Record<string, number>, fn: (v: number) => number): Record<string, number> {
+  return Object.fromEntries(Object.entries(obj).map(([k, v]) => [k, fn(v)]));
+}
@@ -3,7 +3,7 @@ import pg from 'pg';
 import * as schema from './schema.js';
 
 export * from './schema.js';
-export { eq, and, or, desc, asc, sql, count, avg, sum } from 'drizzle-orm';
+export { eq, and, or, desc, asc, gte, inArray, sql, count, avg, sum } from 'drizzle-orm';
 
 let db: ReturnType<typeof drizzle<typeof schema>> | null = null;
 
@@ -11,7 +11,22 @@ import {
   pgEnum,
   serial,
   uniqueIndex,
+  index,
 } from 'drizzle-orm/pg-core';
+import type { SceneScript } from '../scene-script.js';
+import type {
+  AgeBracket,
+  AnalysisRunPlan,
+  AnalysisRunStatus,
+  CategorizerEvaluation,
+  CategoryModel,
+  EducationalCategory,
+  VideoFormat,
+  VideoTopic,
+  WatchlistSource,
+  WatchlistStatus,
+  WatchlistTier,
+} from '../types.js';
 
 // ─── Enums ───
 
@@ -75,6 +90,33 @@ export const channels = pgTable(
   (table) => [uniqueIndex('channels_yt_id_idx').on(table.youtubeChannelId)],
 );
 
+// ─── Competitor Watchlist ───
+
+/** Channels the analyzer follows. Discovery adds `proposed` rows, which only join the
+ * analyzed set once someone accepts them. */
+export const watchlist = pgTable(
+  'watchlist',
+  {
+    id: serial('id').primaryKey(),
+    youtubeChannelId: varchar('youtube_channel_id', { length: 64 }).notNull(),
+    name: varchar('name', { length: 256 }).notNull(),
+    niche: contentCategoryEnum('niche'),
+    language: varchar('language', { length: 10 }),
+    tier: varchar('tier', { length: 16 }).$type<WatchlistTier>(),
+    status: varchar('status', { length: 16 }).$type<WatchlistStatus>().default('active').notNull(),
+    source: varchar('source', { length: 16 }).$type<WatchlistSource>().default('manual').notNull(),
+    subscriberCount: bigint('subscriber_count', { mode: 'number' }),
+    // Discovery's similarity to our niche (0-1) and why the channel was proposed
+    score: real('score'),
+    reason: text('reason'),
+    reviewedBy: varchar('reviewed_by', { length: 128 }),
+    reviewedAt: timestamp('reviewed_at'),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
+  },
+  (table) => [uniqueIndex('watchlist_channel_idx').on(table.youtubeChannelId)],
+);
+
 // ─── Videos (from analysis) ───
 
 export const videos = pgTable(
@@ -101,24 +143,91 @@ export const videos = pgTable(
     hasNumbers: boolean('has_numbers'),
     hasEmoji: boolean('has_emoji'),
     isShort: boolean('is_short'), // < 60 seconds
+    // Educational topic classification (null when the video teaches no known topic)
+    educationalCategory: varchar('educational_category', {
+      length: 64,
+    }).$type<EducationalCategory>(),
+    educationalTopics: jsonb('educational_topics').$type<VideoTopic[]>().default([]),
+    topicConfidence: real('topic_confidence'),
+    ageBracket: varchar('age_bracket', { length: 8 }).$type<AgeBracket>(),
     createdAt: timestamp('created_at').defaultNow().notNull(),
   },
   (table) => [uniqueIndex('videos_yt_id_idx').on(table.youtubeVideoId)],
 );
 
-// ─── Analysis Patterns ───
+// ─── Content Category Classifier ───
 
-export const analysisPatterns = pgTable('analysis_patterns', {
+/** Hand-assigned categories for analyzed videos, the training and evaluation set */
+export const videoCategoryLabels = pgTable(
+  'video_category_labels',
+  {
+    id: serial('id').primaryKey(),
+    youtubeVideoId: varchar('youtube_video_id', { length: 32 }).notNull(),
+    category: contentCategoryEnum('category').notNull(),
+    labeledBy: varchar('labeled_by', { length: 128 }),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
+  },
+  (table) => [uniqueIndex('video_category_labels_video_idx').on(table.youtubeVideoId)],
+);
+
+/** Trained classifier versions (the id is the version). At most one is active; with none
+ * active, videos are categorized by keyword. */
+export const categorizerModels = pgTable('categorizer_models', {
   id: serial('id').primaryKey(),
-  patternType: varchar('pattern_type', { length: 64 }).notNull(), // 'title', 'duration', 'upload_time', 'thumbnail', 'tags'
-  category: contentCategoryEnum('category'),
-  finding: text('finding').notNull(),
-  confidence: real('confidence'), // 0-1
-  sampleSize: integer('sample_size'),
-  metadata: jsonb('metadata').$type<Record<string, unknown>>().default({}),
+  algorithm: varchar('algorithm', { length: 32 }).notNull(),
+  labelCount: integer('label_count').notNull(),
+  model: jsonb('model').$type<CategoryModel>().notNull(),
+  /** Cross-validated on the labels it was trained on, next to the keyword baseline */
+  evaluation: jsonb('evaluation').$type<{
+    model: CategorizerEvaluation;
+    keywords: CategorizerEvaluation;
+  }>(),
+  active: boolean('active').default(false).notNull(),
   createdAt: timestamp('created_at').defaultNow().notNull(),
 });
 
+// ─── Competitor Video Snapshots ───
+
+/** Statistics of a competitor video at one point in time, one row per video per scrape.
+ * Differences between snapshots give view velocity; `videos` only holds the latest counts. */
+export const competitorVideoSnapshots = pgTable(
+  'competitor_video_snapshots',
+  {
+    id: serial('id').primaryKey(),
+    youtubeVideoId: varchar('youtube_video_id', { length: 32 }).notNull(),
+    youtubeChannelId: varchar('youtube_channel_id', { length: 64 }).notNull(),
+    category: contentCategoryEnum('category'),
+    viewCount: bigint('view_count', { mode: 'number' }).notNull(),
+    likeCount: bigint('like_count', { mode: 'number' }),
+    commentCount: bigint('comment_count', { mode: 'number' }),
+    capturedAt: timestamp('captured_at').defaultNow().notNull(),
+  },
+  (table) => [
+    index('competitor_snapshots_video_idx').on(table.youtubeVideoId, table.capturedAt),
+    index('competitor_snapshots_captured_idx').on(table.capturedAt),
+  ],
+);
+
+// ─── Analysis Patterns ───
+
+export const analysisPatterns = pgTable(
+  'analysis_patterns',
+  {
+    id: serial('id').primaryKey(),
+    runId: integer('run_id').references(() => analysisRuns.id, { onDelete: 'cascade' }), // null for findings stored before runs were linked
+    patternType: varchar('pattern_type', { length: 64 }).notNull(), // 'title', 'duration', 'upload_time', 'thumbnail', 'tags'
+    category: contentCategoryEnum('category'),
+    format: varchar('format', { length: 16 }).$type<VideoFormat>(), // null when not format-specific
+    finding: text('finding').notNull(),
+    confidence: real('confidence'), // 0-1
+    sampleSize: integer('sample_size'),
+    metadata: jsonb('metadata').$type<Record<string, unknown>>().default({}),
+    createdAt: timestamp('created_at').defaultNow().notNull(),
+  },
+  (table) => [index('analysis_patterns_run_idx').on(table.runId)],
+);
+
 // ─── Analysis Runs ───
 
 export const analysisRuns = pgTable('analysis_runs', {
@@ -129,8 +238,9 @@ export const analysisRuns = pgTable('analysis_runs', {
   videosAnalyzed: integer('videos_analyzed').default(0),
   patternsFound: integer('patterns_found').default(0),
   apiQuotaUsed: integer('api_quota_used').default(0),
-  status: varchar('status', { length: 32 }).default('running'),
+  status: varchar('status', { length: 32 }).$type<AnalysisRunStatus>().default('running'),
   error: text('error'),
+  plan: jsonb('plan').$type<AnalysisRunPlan>(),
 });
 
 // ─── Characters (for content generation) ───
@@ -173,6 +283,7 @@ export const generatedVideos = pgTable('generated_videos', {
   title: varchar('title', { length: 512 }).notNull(),
   description: text('description'),
   script: text('script'),
+  sceneScript: jsonb('scene_script').$type<SceneScript>(),
   category: contentCategoryEnum('category'),
   targetDuration: integer('target_duration'), // seconds
   targetAgeMin: integer('target_age_min'),
@@ -198,6 +309,59 @@ export const generatedVideos = pgTable('generated_videos', {
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
 });
 
+// ─── Video Status Events ───
+
+/** Audit trail for generated_videos.status — one row per transition */
+export const videoStatusEvents = pgTable('video_status_events', {
+  id: serial('id').primaryKey(),
+  generatedVideoId: integer('generated_video_id')
+    .references(() => generatedVideos.id)
+    .notNull(),
+  fromStatus: videoStatusEnum('from_status'), // null when the video is created
+  toStatus: videoStatusEnum('to_status').notNull(),
+  actor: varchar('actor', { length: 128 }).notNull(), // e.g. 'pipeline:publish', 'reviewer:alice'
+  reason: text('reason'),
+  jobId: varchar('job_id', { length: 64 }),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
+// ─── Provider Costs ───
+
+export const providerCosts = pgTable('provider_costs', {
+  id: serial('id').primaryKey(),
+  provider: varchar('provider', { length: 64 }).notNull(), // e.g. 'veo', 'anthropic'
+  model: varchar('model', { length: 128 }).notNull(),
+  unit: varchar('unit', { length: 16 }).notNull(), // tokens | seconds | images | characters
+  units: real('units').notNull(),
+  estimatedUsd: real('estimated_usd').notNull(),
+  generatedVideoId: integer('generated_video_id').references(() => generatedVideos.id), // null for calls outside an episode
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+});
+
+// ─── YouTube Quota ───
+
+/** YouTube Data API units spent per Pacific quota day, per consumer (analyzer, tracking, ...) */
+export const youtubeQuotaUsage = pgTable(
+  'youtube_quota_usage',
+  {
+    id: serial('id').primaryKey(),
+    day: varchar('day', { length: 10 }).notNull(), // YYYY-MM-DD, Pacific time
+    consumer: varchar('consumer', { length: 64 }).notNull(),
+    units: integer('units').notNull().default(0),
+    updatedAt: timestamp('updated_at').defaultNow().notNull(),
+  },
+  (table) => [uniqueIndex('youtube_quota_day_consumer_idx').on(table.day, table.consumer)],
+);
+
+/** YouTube Data API responses, kept past their TTL so they can be revalidated by ETag */
+export const youtubeApiCache = pgTable('youtube_api_cache', {
+  key: text('key').primaryKey(), // endpoint?sorted params, batched ids make these long
+  etag: varchar('etag', { length: 128 }),
+  data: jsonb('data').$type<unknown>().notNull(),
+  fetchedAt: timestamp('fetched_at').notNull(),
+  expiresAt: timestamp('expires_at').notNull(),
+});
+
 // ─── Performance Tracking ───
 
 export const performanceSnapshots = pgTable('performance_snapshots', {
@@ -5,9 +5,93 @@ export { getDb, type Database } from './db/index.js';
 export {
   YouTubeClient,
   YouTubeApiError,
-  QuotaExhaustedError,
   NotFoundError,
   parseDuration,
   type YouTubeClientOptions,
 } from './youtube/client.js';
+export {
+  PostgresQuotaLedger,
+  MemoryQuotaLedger,
+  createQuotaLedger,
+  QuotaExhaustedError,
+  DEFAULT_DAILY_QUOTA,
+  quotaDay,
+  nextQuotaReset,
+  parseQuotaAllocations,
+  fitsQuota,
+  type QuotaLedger,
+  type QuotaOptions,
+  type QuotaUsage,
+  type ConsumerQuota,
+} from './youtube/quota.js';
+export {
+  MemoryCacheStore,
+  FileCacheStore,
+  PostgresCacheStore,
+  createCacheStore,
+  cacheKey,
+  DEFAULT_CACHE_TTLS,
+  type YouTubeCacheStore,
+  type YouTubeEndpoint,
+  type CachedResponse,
+  type CacheMode,
+  type CacheStats,
+  type CacheStoreName,
+} from './youtube/cache.js';
+export {
+  loadRunPatterns,
+  loadLatestRunPatterns,
+  listCompletedRuns,
+  findPausedRun,
+  type AnalysisRun,
+  type RunPatterns,
+} from './analysis-runs.js';
+export {
+  Watchlist,
+  WatchlistEntryNotFoundError,
+  WatchlistProposalConflictError,
+  subscriberTier,
+  type WatchlistEntry,
+  type WatchlistFilter,
+  type WatchlistChannel,
+  type WatchlistProposal,
+  type WatchlistChanges,
+} from './watchlist.js';
 export { withRetry, isRetryableError, type RetryOptions } from './retry.js';
+export {
+  VideoLifecycle,
+  InvalidTransitionError,
+  VIDEO_STATUS_TRANSITIONS,
+  canTransition,
+  type VideoStatus,
+  type VideoStatusEvent,
+  type NewGeneratedVideo,
+  type StatusChange,
+} from './lifecycle.js';
+export {
+  SCENE_SECTIONS,
+  sceneLineSchema,
+  sceneSchema,
+  sceneScriptSchema,
+  parseSceneScript,
+  renderSceneScript,
+  sceneScriptNarration,
+  sceneScriptDuration,
+  type SceneSection,
+  type SceneLine,
+  type Scene,
+  type SceneScript,
+} from './scene-script.js';
+export {
+  CostTracker,
+  BudgetExceededError,
+  TOKEN_PRICING,
+  UNIT_PRICING,
+  estimateTokenCostUsd,
+  estimateUnitCostUsd,
+  tokenUsage,
+  unitUsage,
+  summarizeCosts,
+  type BudgetPolicy,
+  type CostBreakdown,
+} from './costs.js';
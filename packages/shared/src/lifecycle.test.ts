@@ -0,0 +1,191 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  VideoLifecycle,
+  InvalidTransitionError,
+  VIDEO_STATUS_TRANSITIONS,
+  canTransition,
+  type VideoStatus,
+} from './lifecycle.js';
+import type { Database } from './db/index.js';
+import type { Logger } from './logger.js';
+
+const mockLogger = {
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+  debug: vi.fn(),
+} as unknown as Logger;
+
+function createMockDb(currentStatus: VideoStatus | undefined, updatedRows = 1) {
+  const inserted: Array<Record<string, unknown>> = [];
+  const updateSet = vi.fn();
+  const tx = {
+    query: {
+      generatedVideos: {
+        findFirst: vi.fn().mockResolvedValue(currentStatus ? { status: currentStatus } : undefined),
+      },
+    },
+    insert: vi.fn(() => ({
+      values: vi.fn((values: Record<string, unknown>) => {
+        inserted.push(values);
+        return {
+          returning: vi.fn().mockResolvedValue([{ id: 11 }]),
+          then: (resolve: (v: unknown) => void) => resolve(undefined),
+        };
+      }),
+    })),
+    update: vi.fn(() => ({
+      set: vi.fn((values: Record<string, unknown>) => {
+        updateSet(values);
+        return {
+          where: vi.fn(() => ({
+            returning: vi.fn().mockResolvedValue(Array(updatedRows).fill({ id: 11 })),
+          })),
+        };
+      }),
+    })),
+  };
+  const db = {
+    transaction: vi.fn((fn: (t: typeof tx) => Promise<unknown>) => fn(tx)),
+    query: {
+      videoStatusEvents: { findMany: vi.fn().mockResolvedValue([{ id: 1, toStatus: 'draft' }]) },
+    },
+  } as unknown as Database;
+  return { db, inserted, updateSet };
+}
+
+describe('VIDEO_STATUS_TRANSITIONS', () => {
+  it('follows the pipeline order', () => {
+    expect(canTransition('script_ready', 'media_generating')).toBe(true);
+    expect(canTransition('media_ready', 'review')).toBe(true);
+    expect(canTransition('review', 'approved')).toBe(true);
+    expect(canTransition('publishing', 'published')).toBe(true);
+  });
+
+  it('rejects skipping the review gate', () => {
+    expect(canTransition('media_ready', 'approved')).toBe(false);
+    expect(canTransition('review', 'publishing')).toBe(false);
+  });
+
+  it('treats published and failed as terminal', () => {
+    expect(VIDEO_STATUS_TRANSITIONS.published).toEqual([]);
+    expect(VIDEO_STATUS_TRANSITIONS.failed).toEqual([]);
+  });
+
+  it('lets every non-terminal status fail', () => {
+    for (const [from, targets] of Object.entries(VIDEO_STATUS_TRANSITIONS)) {
+      if (from === 'published' || from === 'failed') continue;
+      expect(targets).toContain('failed');
+    }
+  });
+});
+
+describe('VideoLifecycle', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('creates a video and records the initial status', async () => {
+    const { db, inserted } = createMockDb(undefined);
+    const lifecycle = new VideoLifecycle(db, mockLogger);
+
+    const id = await lifecycle.create(
+      { title: 'Counting Stars', status: 'script_ready' },
+      { actor: 'pipeline:generate-script', jobId: '4' },
+    );
+
+    expect(id).toBe(11);
+    expect(inserted[1]).toEqual({
+      generatedVideoId: 11,
+      fromStatus: null,
+      toStatus: 'script_ready',
+      actor: 'pipeline:generate-script',
+      jobId: '4',
+    });
+  });
+
+  it('refuses to create a video past the script stage', async () => {
+    const { db } = createMockDb(undefined);
+    const lifecycle = new VideoLifecycle(db, mockLogger);
+
+    await expect(
+      lifecycle.create({ title: 'x', status: 'published' }, { actor: 'cli' }),
+    ).rejects.toThrow(InvalidTransitionError);
+  });
+
+  it('applies a legal transition and writes an event', async () => {
+    const { db, inserted, updateSet } = createMockDb('review');
+    const lifecycle = new VideoLifecycle(db, mockLogger);
+
+    await lifecycle.transition(11, 'failed', {
+      actor: 'reviewer:sam',
+      reason: 'Off-model character',
+      jobId: '9',
+    });
+
+    expect(updateSet).toHaveBeenCalledWith(expect.objectContaining({ status: 'failed' }));
+    expect(inserted[0]).toEqual({
+      generatedVideoId: 11,
+      fromStatus: 'review',
+      toStatus: 'failed',
+      actor: 'reviewer:sam',
+      reason: 'Off-model character',
+      jobId: '9',
+    });
+  });
+
+  it('writes extra columns alongside the status', async () => {
+    const { db, updateSet } = createMockDb('publishing');
+    const lifecycle = new VideoLifecycle(db, mockLogger);
+
+    await lifecycle.transition(
+      11,
+      'published',
+      { actor: 'pipeline:publish' },
+      { youtubeVideoId: 'abc123' },
+    );
+
+    expect(updateSet).toHaveBeenCalledWith(
+      expect.objectContaining({ status: 'published', youtubeVideoId: 'abc123' }),
+    );
+  });
+
+  it('rejects illegal transitions without writing', async () => {
+    const { db, inserted, updateSet } = createMockDb('media_ready');
+    const lifecycle = new VideoLifecycle(db, mockLogger);
+
+    await expect(lifecycle.transition(11, 'approved', { actor: 'cli' })).rejects.toThrow(
+      'Video 11 cannot move from media_ready to approved',
+    );
+    expect(updateSet).not.toHaveBeenCalled();
+    expect(inserted).toHaveLength(0);
+  });
+
+  it('fails when the status changed concurrently', async () => {
+    const { db, inserted } = createMockDb('approved', 0);
+    const lifecycle = new VideoLifecycle(db, mockLogger);
+
+    await expect(
+      lifecycle.transition(11, 'publishing', { actor: 'pipeline:publish' }),
+    ).rejects.toThrow(InvalidTransitionError);
+    expect(inserted).toHaveLength(0);
+  });
+
+  it('throws for unknown videos', async () => {
+    const { db } = createMockDb(undefined);
+    const lifecycle = new VideoLifecycle(db, mockLogger);
+
+    await expect(lifecycle.transition(99, 'failed', { actor: 'cli' })).rejects.toThrow(
+      'Generated video 99 not found',
+    );
+  });
+
+  it('returns status history', async () => {
+    const { db } = createMockDb('draft');
+    const lifecycle = new VideoLifecycle(db, mockLogger);
+
+    const history = await lifecycle.history(11);
+
+    expect(history).toEqual([{ id: 1, toStatus: 'draft' }]);
+  });
+});
@@ -0,0 +1,138 @@
+import type { Logger } from './logger.js';
+import {
+  generatedVideos,
+  videoStatusEvents,
+  videoStatusEnum,
+  eq,
+  and,
+  asc,
+  type Database,
+} from './db/index.js';
+
+/** Generated video lifecycle. Every status change goes through here so illegal transitions
+ * are rejected and each change is recorded in video_status_events with who made it and why. */
+
+export type VideoStatus = (typeof videoStatusEnum.enumValues)[number];
+export type VideoStatusEvent = typeof videoStatusEvents.$inferSelect;
+export type NewGeneratedVideo = typeof generatedVideos.$inferInsert;
+
+/** Legal transitions. The two backward edges let a failed media render or upload be retried. */
+export const VIDEO_STATUS_TRANSITIONS: Record<VideoStatus, readonly VideoStatus[]> = {
+  draft: ['script_ready', 'failed'],
+  script_ready: ['media_generating', 'failed'],
+  media_generating: ['media_ready', 'script_ready', 'failed'],
+  media_ready: ['review', 'failed'],
+  review: ['approved', 'failed'],
+  approved: ['publishing', 'failed'],
+  publishing: ['published', 'approved', 'failed'],
+  published: [],
+  failed: [],
+};
+
+const INITIAL_STATUSES: readonly VideoStatus[] = ['draft', 'script_ready'];
+
+export interface StatusChange {
+  /** Who made the change: a pipeline stage, a reviewer, a CLI user */
+  actor: string;
+  reason?: string;
+  jobId?: string;
+}
+
+export class InvalidTransitionError extends Error {
+  constructor(
+    public videoId: number,
+    public from: VideoStatus | null,
+    public to: VideoStatus,
+  ) {
+    super(`Video ${videoId} cannot move from ${from ?? '(new)'} to ${to}`);
+    this.name = 'InvalidTransitionError';
+  }
+}
+
+export function canTransition(from: VideoStatus, to: VideoStatus): boolean {
+  return VIDEO_STATUS_TRANSITIONS[from].includes(to);
+}
+
+export class VideoLifecycle {
+  constructor(
+    private db: Database,
+    private logger: Logger,
+  ) {}
+
+  /** Insert a generated video and record its initial status */
+  async create(values: NewGeneratedVideo, change: StatusChange): Promise<number> {
+    const status = values.status ?? 'draft';
+    if (!INITIAL_STATUSES.includes(status)) {
+      throw new InvalidTransitionError(0, null, status);
+    }
+
+    return this.db.transaction(async (tx) => {
+      const [row] = await tx
+        .insert(generatedVideos)
+        .values({ ...values, status })
+        .returning({ id: generatedVideos.id });
+
+      await tx.insert(videoStatusEvents).values({
+        generatedVideoId: row.id,
+        fromStatus: null,
+        toStatus: status,
+        ...change,
+      });
+
+      this.logger.debug({ videoId: row.id, status, actor: change.actor }, 'Video created');
+      return row.id;
+    });
+  }
+
+  /** Move a video to a new status, optionally updating other columns in the same write.
+   * Throws InvalidTransitionError if the move is illegal or the status changed underneath us. */
+  async transition(
+    videoId: number,
+    to: VideoStatus,
+    change: StatusChange,
+    values: Omit<Partial<NewGeneratedVideo>, 'status'> = {},
+  ): Promise<void> {
+    await this.db.transaction(async (tx) => {
+      const video = await tx.query.generatedVideos.findFirst({
+        where: eq(generatedVideos.id, videoId),
+        columns: { status: true },
+      });
+      if (!video) throw new Error(`Generated video ${videoId} not found`);
+
+      const from = video.status ?? 'draft';
+      if (!canTransition(from, to)) {
+        throw new InvalidTransitionError(videoId, from, to);
+      }
+
+      // Guard on the status we validated against so concurrent writers can't both win
+      const updated = await tx
+        .update(generatedVideos)
+        .set({ ...values, status: to, updatedAt: new Date() })
+        .where(and(eq(generatedVideos.id, videoId), eq(generatedVideos.status, from)))
+        .returning({ id: generatedVideos.id });
+      if (updated.length === 0) {
+        throw new InvalidTransitionError(videoId, from, to);
+      }
+
+      await tx.insert(videoStatusEvents).values({
+        generatedVideoId: videoId,
+        fromStatus: from,
+        toStatus: to,
+        ...change,
+      });
+
+      this.logger.info(
+        { videoId, from, to, actor: change.actor, reason: change.reason },
+        'Video status changed',
+      );
+    });
+  }
+
+  /** Status history for a video, oldest first */
+  async history(videoId: number): Promise<VideoStatusEvent[]> {
+    return this.db.query.videoStatusEvents.findMany({
+      where: eq(videoStatusEvents.generatedVideoId, videoId),
+      orderBy: [asc(videoStatusEvents.createdAt), asc(videoStatusEvents.id)],
+    });
+  }
+}
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseSceneScript,
+  renderSceneScript,
+  sceneScriptNarration,
+  sceneScriptDuration,
+  type SceneScript,
+} from './scene-script.js';
+
+const script: SceneScript = parseSceneScript({
+  scenes: [
+    {
+      section: 'hook',
+      duration: 15,
+      visual: 'Cosmo peeks out of a mystery box',
+      lines: [{ speaker: 'Cosmo', text: 'What is inside?', delivery: 'whispering' }],
+      sfx: ['creak'],
+    },
+    {
+      section: 'exploration',
+      duration: 50,
+      visual: 'Stars float out one by one',
+      onScreenText: ['1', '2', '3'],
+      lines: [
+        { speaker: 'Cosmo', text: 'One, two, three stars!' },
+        { speaker: 'Narrator', text: 'Can you count with Cosmo?' },
+      ],
+      learningObjective: 'Count to 3',
+    },
+  ],
+});
+
+describe('parseSceneScript', () => {
+  it('fills defaults for optional lists', () => {
+    expect(script.scenes[0].onScreenText).toEqual([]);
+    expect(script.scenes[1].sfx).toEqual([]);
+  });
+
+  it('rejects scenes that go back to an earlier section', () => {
+    expect(() =>
+      parseSceneScript({
+        scenes: [
+          { section: 'resolution', duration: 30, visual: 'Confetti' },
+          { section: 'hook', duration: 15, visual: 'Cosmo waves' },
+        ],
+      }),
+    ).toThrow('Scene 2 (hook) is out of order after resolution');
+  });
+
+  it('rejects unknown sections and empty scripts', () => {
+    expect(() =>
+      parseSceneScript({ scenes: [{ section: 'intro', duration: 10, visual: 'x' }] }),
+    ).toThrow();
+    expect(() => parseSceneScript({ scenes: [] })).toThrow();
+  });
+});
+
+describe('renderSceneScript', () => {
+  it('renders timed scene headers, directions and speaker-tagged lines', () => {
+    expect(renderSceneScript(script)).toBe(
+      [
+        'SCENE 1 — HOOK (0:00–0:15)',
+        '[Cosmo peeks out of a mystery box]',
+        '[SFX: creak]',
+        'COSMO (whispering): What is inside?',
+        '',
+        'SCENE 2 — EXPLORATION (0:15–1:05)',
+        'Teaches: Count to 3',
+        '[Stars float out one by one]',
+        '[On screen: "1"]',
+        '[On screen: "2"]',
+        '[On screen: "3"]',
+        'COSMO: One, two, three stars!',
+        'NARRATOR: Can you count with Cosmo?',
+      ].join('\n'),
+    );
+  });
+});
+
+describe('sceneScriptNarration', () => {
+  it('joins spoken lines without directions', () => {
+    expect(sceneScriptNarration(script)).toBe(
+      'What is inside? One, two, three stars! Can you count with Cosmo?',
+    );
+  });
+});
+
+describe('sceneScriptDuration', () => {
+  it('sums scene durations', () => {
+    expect(sceneScriptDuration(script)).toBe(65);
+  });
+});
@@ -0,0 +1,114 @@
+import { z } from 'zod';
+
+/** Scene-level script model. The generator produces it, generated_videos.scene_script stores it,
+ * and TTS, video prompts and overlays read scenes from it instead of re-parsing script text. */
+
+export const SCENE_SECTIONS = [
+  'hook',
+  'problem',
+  'exploration',
+  'resolution',
+  'nextPreview',
+] as const;
+export type SceneSection = (typeof SCENE_SECTIONS)[number];
+
+const SECTION_LABELS: Record<SceneSection, string> = {
+  hook: 'HOOK',
+  problem: 'PROBLEM',
+  exploration: 'EXPLORATION',
+  resolution: 'RESOLUTION',
+  nextPreview: 'NEXT EPISODE PREVIEW',
+};
+
+// ─── Schema ───
+
+export const sceneLineSchema = z.object({
+  speaker: z.string().min(1), // character name, or 'Narrator'
+  text: z.string().min(1),
+  delivery: z.string().optional(), // e.g. 'whispering', 'singing'
+});
+
+export const sceneSchema = z.object({
+  section: z.enum(SCENE_SECTIONS),
+  lines: z.array(sceneLineSchema).default([]),
+  visual: z.string().min(1),
+  onScreenText: z.array(z.string()).default([]),
+  sfx: z.array(z.string()).default([]),
+  duration: z.number().positive(), // seconds
+  learningObjective: z.string().optional(), // the takeaway this scene teaches
+});
+
+export const sceneScriptSchema = z.object({
+  scenes: z
+    .array(sceneSchema)
+    .min(1)
+    .superRefine((scenes, ctx) => {
+      for (let i = 1; i < scenes.length; i++) {
+        const prev = SCENE_SECTIONS.indexOf(scenes[i - 1].section);
+        if (SCENE_SECTIONS.indexOf(scenes[i].section) < prev) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: [i, 'section'],
+            message: `Scene ${i + 1} (${scenes[i].section}) is out of order after ${scenes[i - 1].section}`,
+          });
+        }
+      }
+    }),
+});
+
+export type SceneLine = z.infer<typeof sceneLineSchema>;
+export type Scene = z.infer<typeof sceneSchema>;
+export type SceneScript = z.infer<typeof sceneScriptSchema>;
+
+// ─── Helpers ───
+
+/** Validate untrusted input (LLM output, jsonb rows). Throws a ZodError on failure. */
+export function parseSceneScript(value: unknown): SceneScript {
+  return sceneScriptSchema.parse(value);
+}
+
+export function sceneScriptDuration(script: SceneScript): number {
+  return script.scenes.reduce((sum, scene) => sum + scene.duration, 0);
+}
+
+/** Spoken lines only, in order — the input for TTS */
+export function sceneScriptNarration(script: SceneScript): string {
+  return script.scenes
+    .flatMap((scene) => scene.lines.map((line) => line.text))
+    .join(' ')
+    .trim();
+}
+
+/** Render scenes as the human-readable script reviewers read.
+ * Directions stay in [brackets] like hand-written scripts so existing tooling still strips them. */
+export function renderSceneScript(script: SceneScript): string {
+  let elapsed = 0;
+  return script.scenes
+    .map((scene, i) => {
+      const start = elapsed;
+      elapsed += scene.duration;
+
+      const out = [
+        `SCENE ${i + 1} — ${SECTION_LABELS[scene.section]} (${formatTime(start)}–${formatTime(elapsed)})`,
+      ];
+      if (scene.learningObjective) out.push(`Teaches: ${scene.learningObjective}`);
+      out.push(`[${scene.visual}]`);
+      for (const text of scene.onScreenText) out.push(`[On screen: "${text}"]`);
+      for (const sfx of scene.sfx) out.push(`[SFX: ${sfx}]`);
+      for (const line of scene.lines) {
+        const speaker = line.speaker.toUpperCase();
+        out.push(
+          line.delivery
+            ? `${speaker} (${line.delivery}): ${line.text}`
+            : `${speaker}: ${line.text}`,
+        );
+      }
+      return out.join('\n');
+    })
+    .join('\n\n');
+}
+
+function formatTime(seconds: number): string {
+  const s = Math.round(seconds);
+  return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, '0')}`;
+}
@@ -1,3 +1,5 @@
+import type { SceneScript } from './scene-script.js';
+
 // ─── Content Categories ───
 
 export const CONTENT_CATEGORIES = [
@@ -14,6 +16,22 @@ export const CONTENT_CATEGORIES = [
 
 export type ContentCategory = (typeof CONTENT_CATEGORIES)[number];
 
+/** Shorts and everything longer (episodes, compilations), which patterns are detected for apart */
+export const VIDEO_FORMATS = ['short', 'long_form'] as const;
+
+export type VideoFormat = (typeof VIDEO_FORMATS)[number];
+
+/** How episode titles mark the series: `Ep. 3` numbers, the series name before or after the
+ * episode's own title, or nothing at all */
+export const EPISODE_NAMINGS = [
+  'numbered',
+  'series_prefix',
+  'series_suffix',
+  'standalone',
+] as const;
+
+export type EpisodeNaming = (typeof EPISODE_NAMINGS)[number];
+
 // ─── YouTube API Response Types ───
 
 export interface YouTubeChannelInfo {
@@ -27,6 +45,8 @@ export interface YouTubeChannelInfo {
   thumbnailUrl: string;
   customUrl: string;
   publishedAt: string;
+  /** Channel-level "made for kids" designation, when the response included status */
+  madeForKids?: boolean;
 }
 
 export interface YouTubeVideoInfo {
@@ -43,6 +63,20 @@ export interface YouTubeVideoInfo {
   thumbnailUrl: string;
   defaultLanguage: string;
   categoryId: string;
+  /** When YouTube served these statistics; a cached response keeps its original time */
+  fetchedAt?: string;
+}
+
+export interface YouTubePlaylistInfo {
+  playlistId: string;
+  channelId: string;
+  title: string;
+  description: string;
+  publishedAt: string;
+  /** Videos in the playlist, which may be more than were listed */
+  itemCount: number;
+  /** Listed videos in playlist order */
+  videoIds: string[];
 }
 
 // ─── Analysis Types ───
@@ -61,17 +95,98 @@ export interface ChannelAnalysis {
 export interface PatternFinding {
   patternType: string;
   category: ContentCategory | null;
+  /** The format whose pattern suite produced the finding; unset on format-agnostic findings */
+  format?: VideoFormat | null;
   finding: string;
   confidence: number;
   sampleSize: number;
   metadata: Record<string, unknown>;
 }
 
+/** What a segment of a title is, as mined from competitor titles: the lead segment asks a
+ * question, starts with a count, a recurring character or a topic keyword, or is a plain
+ * phrase; later segments are phrases or the channel's recurring brand suffix */
+export type TitleSlot = 'question' | 'count' | 'character' | 'keyword' | 'phrase' | 'brand';
+
+/** The structure of a title, e.g. `[character] | [phrase] | [brand]` */
+export interface TitleTemplate {
+  template: string;
+  slots: TitleSlot[];
+  /** Separator before each slot after the first: `|` or `-` */
+  separators: string[];
+}
+
+// ─── Content Category Classifier ───
+
+/** Trained text classifier for ContentCategory: TF-IDF weighted multinomial naive Bayes */
+export interface CategoryModel {
+  algorithm: 'tfidf_naive_bayes';
+  /** Categories seen in training, indexing `priors` and each `likelihoods` entry */
+  categories: ContentCategory[];
+  /** log P(category) */
+  priors: number[];
+  /** Inverse document frequency per feature */
+  idf: Record<string, number>;
+  /** log P(feature | category), one value per category */
+  likelihoods: Record<string, number[]>;
+}
+
+export interface CategoryMetrics {
+  precision: number;
+  recall: number;
+  f1: number;
+  /** Labeled videos in this category */
+  support: number;
+}
+
+export interface CategorizerEvaluation {
+  accuracy: number;
+  sampleSize: number;
+  perCategory: Partial<Record<ContentCategory, CategoryMetrics>>;
+}
+
 export interface AnalysisResult {
   channelsAnalyzed: number;
   videosAnalyzed: number;
   patterns: PatternFinding[];
   apiQuotaUsed: number;
+  runId?: number;
+  /** `paused_quota` when the quota ran out before the sample was complete; patterns are
+   * only computed once a resumed run has collected every planned channel */
+  status?: AnalysisRunStatus;
+  /** When the exhausted daily quota resets, for runs paused on it */
+  resumeAt?: Date;
+  /** Underserved categories and educational topics, best opportunity first */
+  contentGaps?: ContentGap[];
+  /** Languages to localize existing episodes into, most additional reach first */
+  localization?: LocalizationOpportunity[];
+}
+
+export type WatchlistStatus = 'active' | 'proposed' | 'rejected' | 'paused';
+export type WatchlistTier = 'mega' | 'large' | 'mid' | 'small';
+export type WatchlistSource = 'seed' | 'manual' | 'discovery';
+
+export type AnalysisRunStatus = 'running' | 'completed' | 'paused_quota' | 'failed';
+
+/** Work plan of an analysis run, persisted on analysis_runs so a run paused on quota can
+ * continue from the page it stopped at */
+export interface AnalysisRunPlan {
+  videosPerChannel: number;
+  /** Playlists listed per channel for series analysis; plans from before playlists were
+   * collected have none */
+  playlistsPerChannel?: number;
+  skipExisting: boolean;
+  channels: AnalysisPlanChannel[];
+}
+
+export interface AnalysisPlanChannel {
+  channelId: string;
+  status: 'pending' | 'done' | 'skipped' | 'failed';
+  uploadsPlaylistId?: string;
+  /** Upload playlist pages listed so far and the video ids they held */
+  pagesFetched: number;
+  nextPageToken?: string;
+  videoIds: string[];
 }
 
 // ─── Educational Framework ───
@@ -104,6 +219,13 @@ export type EngagementHookType = (typeof ENGAGEMENT_HOOK_TYPES)[number];
 export const AGE_BRACKETS = ['2-4', '4-6', '6-8'] as const;
 export type AgeBracket = (typeof AGE_BRACKETS)[number];
 
+/** A concrete educational topic a video teaches (counting, letter B, weather) */
+export interface VideoTopic {
+  topic: string;
+  educationalCategory: EducationalCategory;
+  confidence: number;
+}
+
 export interface EpisodeStructure {
   hook: { duration: 15; description: string };
   problem: { duration: 30; description: string };
@@ -142,12 +264,15 @@ export interface ScriptRequest {
   style?: string;
   seriesName?: string;
   episodeNumber?: number;
+  /** Findings from the latest analysis run, summarized into the prompt */
+  insights?: PatternFinding[];
 }
 
 export interface GeneratedScript {
   title: string;
   description: string;
-  script: string;
+  script: string; // rendered from sceneScript for review
+  sceneScript: SceneScript;
   tags: string[];
   estimatedDuration: number;
   educationalObjective: string;
@@ -155,6 +280,7 @@ export interface GeneratedScript {
   episodeStructure: EpisodeStructure;
   learningTakeaways: string[];
   qualityScore: ContentQualityScore;
+  usage?: ProviderUsage[]; // one entry per LLM call, repairs and retries included
 }
 
 export interface CharacterDef {
@@ -168,23 +294,83 @@ export interface CharacterDef {
   styleSheet: Record<string, string>;
 }
 
+// ─── Provider Costs ───
+
+export type CostUnit = 'tokens' | 'seconds' | 'images' | 'characters';
+
+/** What one provider call consumed, priced with the estimates in costs.ts */
+export interface ProviderUsage {
+  provider: string;
+  model: string;
+  unit: CostUnit;
+  units: number;
+  estimatedUsd: number;
+}
+
+/** Budget-aware recorder for one episode's provider calls */
+export interface CostMeter {
+  /** Throws BudgetExceededError once the episode or daily budget is spent */
+  check(): Promise<void>;
+  record(usage: ProviderUsage): Promise<void>;
+}
+
 // ─── Media Provider Interfaces ───
 
 export interface ThumbnailProvider {
-  generate(prompt: string, style?: string): Promise<{ url: string; metadata: Record<string, unknown> }>;
+  generate(prompt: string, style?: string): Promise<{ url: string; metadata: Record<string, unknown>; usage?: ProviderUsage }>;
 }
 
 export interface VoiceProvider {
-  generate(text: string, voiceId: string): Promise<{ audioUrl: string; duration: number }>;
+  generate(text: string, voiceId: string): Promise<{ audioUrl: string; duration: number; usage?: ProviderUsage }>;
   listVoices(): Promise<{ id: string; name: string; preview: string }[]>;
 }
 
 export interface MusicProvider {
-  generate(prompt: string, duration: number): Promise<{ audioUrl: string; duration: number }>;
+  generate(prompt: string, duration: number): Promise<{ audioUrl: string; duration: number; usage?: ProviderUsage }>;
 }
 
 export interface VideoProvider {
-  generate(prompt: string, duration: number): Promise<{ videoUrl: string; duration: number }>;
+  generate(prompt: string, duration: number): Promise<{ videoUrl: string; duration: number; usage?: ProviderUsage }>;
+}
+
+// ─── LLM Provider Interface ───
+
+export interface LLMMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMImage {
+  mimeType: string;
+  data: string; // base64
+}
+
+/** JSON schema the response must follow. Providers map it to tool use or JSON mode. */
+export interface LLMJsonSchema {
+  name: string;
+  description?: string;
+  schema: Record<string, unknown>;
+}
+
+export interface LLMRequest {
+  system?: string;
+  messages: LLMMessage[];
+  jsonSchema?: LLMJsonSchema;
+  images?: LLMImage[]; // attached to the last user message
+  maxTokens?: number;
+  temperature?: number;
+}
+
+export interface LLMResponse {
+  text: string; // JSON text when jsonSchema was requested
+  json?: unknown; // structured output, when the provider returned it already parsed
+  model: string;
+  usage?: { inputTokens: number; outputTokens: number };
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  complete(request: LLMRequest): Promise<LLMResponse>;
 }
 
 // ─── Publishing Types ───
@@ -280,12 +466,49 @@ export interface ThumbnailVariant {
 export interface ContentGap {
   category: ContentCategory;
   topic: string;
+  /** Set on gaps in a specific educational topic rather than a whole category */
+  educationalCategory?: EducationalCategory;
+  ageBracket?: AgeBracket | null;
   demand: number; // search volume / competitor views
   supply: number; // how many competitors cover it
   opportunity: number; // demand / supply ratio
   recommendation: string;
 }
 
+/** A language our existing episodes could be localized into, ranked like a ContentGap */
+export interface LocalizationOpportunity {
+  /** ISO 639-1 code */
+  language: string;
+  /** Countries of the competitors publishing in it, most channels first */
+  countries: string[];
+  demand: number; // median views per competitor video in the language
+  supply: number; // competitor channels publishing in it
+  /** Views parallel language editions get in it, relative to the edition they were localized
+   * from; null when no competitor runs an edition in the language */
+  editionReach: number | null;
+  opportunity: number; // demand per channel, scaled by edition reach when known
+  recommendation: string;
+}
+
+/** Weekday names indexed like `Date#getUTCDay` (0 = Sunday) */
+export const DAY_NAMES = [
+  'Sunday',
+  'Monday',
+  'Tuesday',
+  'Wednesday',
+  'Thursday',
+  'Friday',
+  'Saturday',
+];
+
+/** A day and UTC hour to publish at, ranked by how competitor uploads then performed */
+export interface UploadRecommendation {
+  day: string;
+  hourUtc: number;
+  reason: string;
+  expectedEngagementBoost: number; // multiplier vs average
+}
+
 export interface GrowthProjection {
   weeksOut: number;
   projectedSubscribers: number;
@@ -298,6 +521,9 @@ export interface GrowthProjection {
 
 export const KIDS_CONTENT_RULES = {
   targetDuration: { min: 120, max: 300 }, // 2-5 minutes
+  compilationDuration: { min: 1800, max: 3600 }, // 30-60 minutes
+  shortsMaxDuration: 60, // seconds; anything shorter is a Short
+  shortsFrequency: { ideal: 7, min: 3 }, // per week
   ageRange: { min: 2, max: 8 },
   uploadFrequency: { ideal: 5, min: 3 }, // per week
   titleMaxLength: 60,
@@ -359,8 +585,6 @@ export const TOP_KIDS_CHANNELS = [
   { name: 'The Wiggles', channelId: 'UCtsGV0dGcXvcp9GhkxXIk7w' },
   { name: 'Masha and the Bear', channelId: 'UCSuJ2vJig1d-JiNBsYRp5PQ' },
   { name: 'Numberblocks', channelId: 'UCPlwvN0w4qFSP1FllALB92w' },
-  { name: 'Morphle', channelId: 'UC4NALVCmcmL5ntpV0thoH6w' },
-  { name: 'Chu Chu TV Surprise Eggs', channelId: 'UCgFXm4TI8htWmCyJ6cVPG_A' },
   { name: 'Genevieve\'s Playhouse', channelId: 'UCaqfivfQeQxS5mI82Pp3GZQ' },
   { name: 'Toys and Colors', channelId: 'UCgFXm4TI8htWmCyJ6cVPG_A' },
   { name: 'Nursery Rhymes TV', channelId: 'UCraawnIIE07K18PCXmFsGqw' },
@@ -0,0 +1,95 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  Watchlist,
+  WatchlistEntryNotFoundError,
+  WatchlistProposalConflictError,
+  subscriberTier,
+} from './watchlist.js';
+import { TOP_KIDS_CHANNELS } from './types.js';
+import type { Database } from './db/index.js';
+import type { Logger } from './logger.js';
+
+const mockLogger = {
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+  debug: vi.fn(),
+} as unknown as Logger;
+
+function createMockDb(rows: Array<Record<string, unknown>> = [], updated: unknown[] = []) {
+  const updateSet = vi.fn();
+  const db = {
+    query: {
+      watchlist: {
+        findMany: vi.fn().mockResolvedValue(rows),
+        findFirst: vi.fn().mockResolvedValue(rows[0]),
+      },
+    },
+    update: vi.fn(() => ({
+      set: vi.fn((values: Record<string, unknown>) => {
+        updateSet(values);
+        return { where: vi.fn(() => ({ returning: vi.fn().mockResolvedValue(updated) })) };
+      }),
+    })),
+    delete: vi.fn(() => ({
+      where: vi.fn(() => ({ returning: vi.fn().mockResolvedValue(updated) })),
+    })),
+  } as unknown as Database;
+  return { db, updateSet };
+}
+
+describe('subscriberTier', () => {
+  it('buckets channels by subscriber count', () => {
+    expect(subscriberTier(25_000_000)).toBe('mega');
+    expect(subscriberTier(1_000_000)).toBe('large');
+    expect(subscriberTier(450_000)).toBe('mid');
+    expect(subscriberTier(9_000)).toBe('small');
+  });
+});
+
+describe('Watchlist', () => {
+  it('falls back to the built-in channels while the table is empty', async () => {
+    const { db } = createMockDb();
+    const ids = await new Watchlist(db, mockLogger).activeChannelIds();
+    expect(ids).toEqual(TOP_KIDS_CHANNELS.map((c) => c.channelId));
+  });
+
+  it('only analyzes active channels once anything is listed', async () => {
+    const { db } = createMockDb([
+      { youtubeChannelId: 'UC_active', status: 'active' },
+      { youtubeChannelId: 'UC_proposed', status: 'proposed' },
+      { youtubeChannelId: 'UC_paused', status: 'paused' },
+    ]);
+    expect(await new Watchlist(db, mockLogger).activeChannelIds()).toEqual(['UC_active']);
+  });
+
+  it('records who accepted a proposal', async () => {
+    const { db, updateSet } = createMockDb([], [{ youtubeChannelId: 'UC_new', status: 'active' }]);
+    const entry = await new Watchlist(db, mockLogger).accept('UC_new', 'sam');
+    expect(entry.status).toBe('active');
+    expect(updateSet).toHaveBeenCalledWith(
+      expect.objectContaining({ status: 'active', reviewedBy: 'sam' }),
+    );
+  });
+
+  it('refuses to review a channel with no pending proposal', async () => {
+    const { db } = createMockDb([{ youtubeChannelId: 'UC_active', status: 'active' }]);
+    const review = new Watchlist(db, mockLogger).reject('UC_active');
+    await expect(review).rejects.toBeInstanceOf(WatchlistProposalConflictError);
+    await expect(review).rejects.toThrow('has no pending watchlist proposal');
+  });
+
+  it('throws WatchlistEntryNotFoundError when reviewing an unlisted channel', async () => {
+    const { db } = createMockDb();
+    await expect(new Watchlist(db, mockLogger).accept('UC_unknown')).rejects.toBeInstanceOf(
+      WatchlistEntryNotFoundError,
+    );
+  });
+
+  it('throws WatchlistEntryNotFoundError when removing an unlisted channel', async () => {
+    const { db } = createMockDb();
+    await expect(new Watchlist(db, mockLogger).remove('UC_unknown')).rejects.toBeInstanceOf(
+      WatchlistEntryNotFoundError,
+    );
+  });
+});
@@ -0,0 +1,203 @@
+import type { Logger } from './logger.js';
+import { watchlist, eq, and, asc, desc, type Database } from './db/index.js';
+import {
+  TOP_KIDS_CHANNELS,
+  type ContentCategory,
+  type WatchlistStatus,
+  type WatchlistTier,
+} from './types.js';
+
+/** Competitor watchlist: the channels analysis runs cover by default.
+ * Entries are added by hand (CLI, dashboard) or proposed by channel discovery; proposals
+ * are only analyzed once someone accepts them. */
+
+export type WatchlistEntry = typeof watchlist.$inferSelect;
+
+export interface WatchlistFilter {
+  status?: WatchlistStatus;
+  niche?: ContentCategory;
+  language?: string;
+  tier?: WatchlistTier;
+}
+
+export interface WatchlistChannel {
+  youtubeChannelId: string;
+  name: string;
+  niche?: ContentCategory | null;
+  language?: string | null;
+  tier?: WatchlistTier | null;
+  subscriberCount?: number | null;
+}
+
+export interface WatchlistProposal extends WatchlistChannel {
+  score: number;
+  reason: string;
+}
+
+export type WatchlistChanges = Partial<
+  Pick<WatchlistEntry, 'name' | 'niche' | 'language' | 'tier' | 'status'>
+>;
+
+export class WatchlistEntryNotFoundError extends Error {
+  constructor(public youtubeChannelId: string) {
+    super(`Channel ${youtubeChannelId} is not on the watchlist`);
+    this.name = 'WatchlistEntryNotFoundError';
+  }
+}
+
+/** The channel is listed but isn't a pending proposal, so there's nothing to review */
+export class WatchlistProposalConflictError extends Error {
+  constructor(
+    public youtubeChannelId: string,
+    public status: WatchlistStatus,
+  ) {
+    super(`Channel ${youtubeChannelId} has no pending watchlist proposal (status: ${status})`);
+    this.name = 'WatchlistProposalConflictError';
+  }
+}
+
+/** Size tier from subscriber count */
+export function subscriberTier(subscriberCount: number): WatchlistTier {
+  if (subscriberCount >= 10_000_000) return 'mega';
+  if (subscriberCount >= 1_000_000) return 'large';
+  if (subscriberCount >= 100_000) return 'mid';
+  return 'small';
+}
+
+export class Watchlist {
+  constructor(
+    private db: Database,
+    private logger: Logger,
+  ) {}
+
+  /** Entries matching every given tag, proposals by score and everything else by name */
+  async list(filter: WatchlistFilter = {}): Promise<WatchlistEntry[]> {
+    return this.db.query.watchlist.findMany({
+      where: and(
+        filter.status ? eq(watchlist.status, filter.status) : undefined,
+        filter.niche ? eq(watchlist.niche, filter.niche) : undefined,
+        filter.language ? eq(watchlist.language, filter.language) : undefined,
+        filter.tier ? eq(watchlist.tier, filter.tier) : undefined,
+      ),
+      orderBy:
+        filter.status === 'proposed'
+          ? [desc(watchlist.score), asc(watchlist.name)]
+          : [asc(watchlist.name)],
+    });
+  }
+
+  /** Channels an analysis run covers by default. Until anything is added, that's the
+   * built-in TOP_KIDS_CHANNELS seed list. */
+  async activeChannelIds(): Promise<string[]> {
+    const rows = await this.db.query.watchlist.findMany({
+      columns: { youtubeChannelId: true, status: true },
+    });
+    if (rows.length === 0) return TOP_KIDS_CHANNELS.map((c) => c.channelId);
+    return rows.filter((r) => r.status === 'active').map((r) => r.youtubeChannelId);
+  }
+
+  /** Add a channel, or re-activate and retag it if it's already listed */
+  async add(channel: WatchlistChannel): Promise<WatchlistEntry> {
+    const now = new Date();
+    const [row] = await this.db
+      .insert(watchlist)
+      .values({ ...channel, status: 'active', source: 'manual' })
+      .onConflictDoUpdate({
+        target: watchlist.youtubeChannelId,
+        set: { ...channel, status: 'active', updatedAt: now },
+      })
+      .returning();
+    this.logger.info({ channelId: channel.youtubeChannelId }, 'Channel added to watchlist');
+    return row;
+  }
+
+  async update(youtubeChannelId: string, changes: WatchlistChanges): Promise<WatchlistEntry> {
+    const [row] = await this.db
+      .update(watchlist)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(eq(watchlist.youtubeChannelId, youtubeChannelId))
+      .returning();
+    if (!row) throw new WatchlistEntryNotFoundError(youtubeChannelId);
+    return row;
+  }
+
+  async remove(youtubeChannelId: string): Promise<void> {
+    const removed = await this.db
+      .delete(watchlist)
+      .where(eq(watchlist.youtubeChannelId, youtubeChannelId))
+      .returning({ id: watchlist.id });
+    if (removed.length === 0) throw new WatchlistEntryNotFoundError(youtubeChannelId);
+    this.logger.info({ channelId: youtubeChannelId }, 'Channel removed from watchlist');
+  }
+
+  /** Record discovery proposals. Channels already listed in any status, including rejected
+   * ones, are left alone so a rejection sticks. Returns the proposals that were new.
+   * Proposals into an empty table seed it first: once anything is listed, activeChannelIds()
+   * stops falling back to the built-in channels. */
+  async propose(proposals: WatchlistProposal[]): Promise<WatchlistEntry[]> {
+    if (proposals.length === 0) return [];
+    if (!(await this.db.query.watchlist.findFirst({ columns: { id: true } }))) await this.seed();
+    const rows = await this.db
+      .insert(watchlist)
+      .values(
+        proposals.map((p) => ({ ...p, status: 'proposed' as const, source: 'discovery' as const })),
+      )
+      .onConflictDoNothing({ target: watchlist.youtubeChannelId })
+      .returning();
+    this.logger.info({ proposed: rows.length }, 'Watchlist additions proposed');
+    return rows;
+  }
+
+  /** Accept a proposal into the analyzed set */
+  async accept(youtubeChannelId: string, reviewer?: string): Promise<WatchlistEntry> {
+    return this.review(youtubeChannelId, 'active', reviewer);
+  }
+
+  async reject(youtubeChannelId: string, reviewer?: string): Promise<WatchlistEntry> {
+    return this.review(youtubeChannelId, 'rejected', reviewer);
+  }
+
+  /** Insert the built-in seed channels that aren't listed yet */
+  async seed(): Promise<number> {
+    const rows = await this.db
+      .insert(watchlist)
+      .values(
+        TOP_KIDS_CHANNELS.map((c) => ({
+          youtubeChannelId: c.channelId,
+          name: c.name,
+          status: 'active' as const,
+          source: 'seed' as const,
+        })),
+      )
+      .onConflictDoNothing({ target: watchlist.youtubeChannelId })
+      .returning({ id: watchlist.id });
+    return rows.length;
+  }
+
+  private async review(
+    youtubeChannelId: string,
+    status: 'active' | 'rejected',
+    reviewer?: string,
+  ): Promise<WatchlistEntry> {
+    const [row] = await this.db
+      .update(watchlist)
+      .set({ status, reviewedBy: reviewer ?? null, reviewedAt: new Date(), updatedAt: new Date() })
+      .where(
+        and(eq(watchlist.youtubeChannelId, youtubeChannelId), eq(watchlist.status, 'proposed')),
+      )
+      .returning();
+    if (!row) {
+      const existing = await this.db.query.watchlist.findFirst({
+        where: eq(watchlist.youtubeChannelId, youtubeChannelId),
+        columns: { status: true },
+      });
+      if (!existing) throw new WatchlistEntryNotFoundError(youtubeChannelId);
+      throw new WatchlistProposalConflictError(youtubeChannelId, existing.status);
+    }
+    this.logger.info(
+      { channelId: youtubeChannelId, status, reviewer },
+      'Watchlist proposal reviewed',
+    );
+    return row;
+  }
+}
@@ -0,0 +1,166 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { MemoryCacheStore, FileCacheStore, cacheKey, DEFAULT_CACHE_TTLS } from './cache.js';
+import { YouTubeClient } from './client.js';
+
+const channelResponse = {
+  etag: 'etag-1',
+  items: [
+    {
+      id: 'UC1',
+      snippet: { title: 'Cosmo', description: '', publishedAt: '2024-01-01T00:00:00Z' },
+      statistics: { subscriberCount: '100', videoCount: '10', viewCount: '5000' },
+    },
+  ],
+};
+
+function mockFetch(...responses: Array<{ status: number; body?: unknown }>) {
+  const fetchMock = vi.fn();
+  for (const { status, body } of responses) {
+    fetchMock.mockResolvedValueOnce({
+      ok: status >= 200 && status < 300,
+      status,
+      json: () => Promise.resolve(body),
+      text: () => Promise.resolve(''),
+    });
+  }
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+describe('cacheKey', () => {
+  it('is independent of parameter order', () => {
+    expect(cacheKey('channels', { part: 'snippet', id: 'UC1' })).toBe(
+      cacheKey('channels', { id: 'UC1', part: 'snippet' }),
+    );
+  });
+});
+
+describe('FileCacheStore', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'yt-cache-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('round-trips entries and treats missing files as misses', async () => {
+    const store = new FileCacheStore(join(dir, 'youtube'));
+    const entry = { data: { n: 1 }, etag: 'e', fetchedAt: 1, expiresAt: 2 };
+
+    expect(await store.get('channels?id=UC1')).toBeUndefined();
+    await store.set('channels?id=UC1', entry);
+    expect(await store.get('channels?id=UC1')).toEqual(entry);
+
+    await store.clear();
+    expect(await store.get('channels?id=UC1')).toBeUndefined();
+  });
+});
+
+describe('YouTubeClient response cache', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('serves repeat requests from the cache without spending quota', async () => {
+    const fetchMock = mockFetch({ status: 200, body: channelResponse });
+    const client = new YouTubeClient({ apiKey: 'k' });
+
+    await client.getChannel('UC1');
+    const channel = await client.getChannel('UC1');
+
+    expect(channel.name).toBe('Cosmo');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(client.totalQuotaUsed).toBe(1);
+    expect(client.cacheStats).toEqual({ hits: 1, misses: 1, revalidated: 0, stores: 1 });
+  });
+
+  it('stores entries with the per-endpoint TTL and the response ETag', async () => {
+    mockFetch({ status: 200, body: channelResponse });
+    const cache = new MemoryCacheStore();
+    const client = new YouTubeClient({ apiKey: 'k', cache, cacheTtls: { videos: 1000 } });
+
+    await client.getChannel('UC1');
+
+    const entry = await cache.get(cacheKey('channels', { part: 'snippet,statistics', id: 'UC1' }));
+    expect(entry?.etag).toBe('etag-1');
+    expect(entry!.expiresAt - entry!.fetchedAt).toBe(DEFAULT_CACHE_TTLS.channels);
+  });
+
+  it('revalidates expired entries with If-None-Match and reuses them on a 304', async () => {
+    const cache = new MemoryCacheStore();
+    const key = cacheKey('channels', { part: 'snippet,statistics', id: 'UC1' });
+    await cache.set(key, { data: channelResponse, etag: 'etag-1', fetchedAt: 0, expiresAt: 1 });
+    const fetchMock = mockFetch({ status: 304 });
+    const client = new YouTubeClient({ apiKey: 'k', cache });
+
+    const channel = await client.getChannel('UC1');
+
+    expect(fetchMock.mock.calls[0][1].headers).toEqual({ 'If-None-Match': 'etag-1' });
+    expect(channel.name).toBe('Cosmo');
+    expect(client.cacheStats.revalidated).toBe(1);
+    expect((await cache.get(key))!.expiresAt).toBeGreaterThan(Date.now());
+  });
+
+  it('stamps cached video statistics with when they were first fetched', async () => {
+    const videoResponse = {
+      etag: 'etag-v',
+      items: [
+        {
+          id: 'v1',
+          snippet: { channelId: 'UC1', title: 'Bath Song', description: '', publishedAt: '' },
+          contentDetails: { duration: 'PT3M' },
+          statistics: { viewCount: '1000' },
+        },
+      ],
+    };
+    const cache = new MemoryCacheStore();
+    const key = cacheKey('videos', { part: 'snippet,statistics,contentDetails', id: 'v1' });
+    const fetchedAt = Date.now() - 3 * 3600_000;
+    await cache.set(key, {
+      data: videoResponse,
+      etag: 'etag-v',
+      fetchedAt,
+      expiresAt: Date.now() + 3600_000,
+    });
+    const fetchMock = mockFetch();
+    const client = new YouTubeClient({ apiKey: 'k', cache });
+
+    const [video] = await client.getVideosBatch(['v1']);
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(video.fetchedAt).toBe(new Date(fetchedAt).toISOString());
+  });
+
+  it('skips cached responses but stores fresh ones in refresh mode', async () => {
+    const cache = new MemoryCacheStore();
+    const fetchMock = mockFetch(
+      { status: 200, body: channelResponse },
+      { status: 200, body: channelResponse },
+    );
+    const client = new YouTubeClient({ apiKey: 'k', cache, cacheMode: 'refresh' });
+
+    await client.getChannel('UC1');
+    await client.getChannel('UC1');
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(fetchMock.mock.calls[1][1].headers).toEqual({});
+    expect(client.cacheStats.stores).toBe(2);
+  });
+
+  it('neither reads nor writes the cache when off', async () => {
+    const cache = new MemoryCacheStore();
+    const set = vi.spyOn(cache, 'set');
+    mockFetch({ status: 200, body: channelResponse });
+    const client = new YouTubeClient({ apiKey: 'k', cache, cacheMode: 'off' });
+
+    await client.getChannel('UC1');
+
+    expect(set).not.toHaveBeenCalled();
+  });
+});
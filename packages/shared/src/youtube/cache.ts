@@ -0,0 +1,151 @@
+import { createHash } from 'crypto';
+import { mkdir, readFile, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { youtubeApiCache, eq, type Database } from '../db/index.js';
+
+/** Response cache for the YouTube Data API.
+ * Entries outlive their TTL so the ETag can be sent back with `If-None-Match`: an unchanged
+ * resource comes back as a 304 and the stored response is reused. */
+
+export type YouTubeEndpoint = 'channels' | 'videos' | 'playlists' | 'playlistItems' | 'search';
+
+/** How long a response stays fresh, per endpoint (ms) */
+export const DEFAULT_CACHE_TTLS: Record<YouTubeEndpoint, number> = {
+  channels: 3 * 24 * 3600_000, // channel metadata and the uploads playlist barely change
+  videos: 6 * 3600_000, // view, like and comment counts move throughout the day
+  playlists: 24 * 3600_000, // series playlists gain episodes every few days at most
+  playlistItems: 12 * 3600_000, // new uploads appear at most a few times a day
+  search: 24 * 3600_000,
+};
+
+/** `use` reads and writes the cache, `refresh` skips reads but stores fresh responses,
+ * `off` bypasses it entirely */
+export type CacheMode = 'use' | 'refresh' | 'off';
+
+export interface CachedResponse {
+  data: unknown;
+  etag?: string;
+  fetchedAt: number;
+  expiresAt: number;
+}
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+  /** Expired entries the API confirmed unchanged (304) */
+  revalidated: number;
+  stores: number;
+}
+
+export interface YouTubeCacheStore {
+  get(key: string): Promise<CachedResponse | undefined>;
+  set(key: string, entry: CachedResponse): Promise<void>;
+  clear(): Promise<void>;
+}
+
+/** Cache key for a request; the API key is never part of `params` */
+export function cacheKey(endpoint: string, params: Record<string, string>): string {
+  const sorted = Object.keys(params)
+    .sort()
+    .map((k) => `${k}=${params[k]}`);
+  return `${endpoint}?${sorted.join('&')}`;
+}
+
+// ─── Stores ───
+
+/** Per-process store; the default when no store is configured */
+export class MemoryCacheStore implements YouTubeCacheStore {
+  private entries = new Map<string, CachedResponse>();
+
+  async get(key: string): Promise<CachedResponse | undefined> {
+    return this.entries.get(key);
+  }
+
+  async set(key: string, entry: CachedResponse): Promise<void> {
+    this.entries.set(key, entry);
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+}
+
+/** One JSON file per response under `dir`, for local runs without a database */
+export class FileCacheStore implements YouTubeCacheStore {
+  constructor(private dir: string) {}
+
+  async get(key: string): Promise<CachedResponse | undefined> {
+    try {
+      return JSON.parse(await readFile(this.pathFor(key), 'utf-8')) as CachedResponse;
+    } catch {
+      return undefined; // missing or unreadable entries are misses
+    }
+  }
+
+  async set(key: string, entry: CachedResponse): Promise<void> {
+    await mkdir(this.dir, { recursive: true });
+    await writeFile(this.pathFor(key), JSON.stringify(entry));
+  }
+
+  async clear(): Promise<void> {
+    await rm(this.dir, { recursive: true, force: true });
+  }
+
+  private pathFor(key: string): string {
+    return join(this.dir, `${createHash('sha256').update(key).digest('hex')}.json`);
+  }
+}
+
+/** Rows in youtube_api_cache, shared by every process on the database */
+export class PostgresCacheStore implements YouTubeCacheStore {
+  constructor(private db: Database) {}
+
+  async get(key: string): Promise<CachedResponse | undefined> {
+    const row = await this.db.query.youtubeApiCache.findFirst({
+      where: eq(youtubeApiCache.key, key),
+    });
+    if (!row) return undefined;
+    return {
+      data: row.data,
+      etag: row.etag ?? undefined,
+      fetchedAt: row.fetchedAt.getTime(),
+      expiresAt: row.expiresAt.getTime(),
+    };
+  }
+
+  async set(key: string, entry: CachedResponse): Promise<void> {
+    const values = {
+      data: entry.data,
+      etag: entry.etag ?? null,
+      fetchedAt: new Date(entry.fetchedAt),
+      expiresAt: new Date(entry.expiresAt),
+    };
+    await this.db
+      .insert(youtubeApiCache)
+      .values({ key, ...values })
+      .onConflictDoUpdate({ target: youtubeApiCache.key, set: values });
+  }
+
+  async clear(): Promise<void> {
+    await this.db.delete(youtubeApiCache);
+  }
+}
+
+export type CacheStoreName = 'memory' | 'file' | 'postgres';
+
+export function createCacheStore(
+  name: CacheStoreName,
+  options: { db?: Database; dir?: string } = {},
+): YouTubeCacheStore {
+  switch (name) {
+    case 'memory':
+      return new MemoryCacheStore();
+    case 'file':
+      return new FileCacheStore(options.dir ?? '.cache/youtube');
+    case 'postgres':
+      if (!options.db) throw new Error('The postgres YouTube cache needs a database');
+      return new PostgresCacheStore(options.db);
+    default:
+      throw new Error(`Unknown YouTube cache store: ${name}`);
+  }
+}
@@ -1,5 +1,15 @@
 import { createLogger, type Logger } from '../logger.js';
-import type { YouTubeChannelInfo, YouTubeVideoInfo } from '../types.js';
+import type { YouTubeChannelInfo, YouTubePlaylistInfo, YouTubeVideoInfo } from '../types.js';
+import { MemoryQuotaLedger, QuotaExhaustedError, type QuotaLedger } from './quota.js';
+import {
+  DEFAULT_CACHE_TTLS,
+  MemoryCacheStore,
+  cacheKey,
+  type CacheMode,
+  type CacheStats,
+  type YouTubeCacheStore,
+  type YouTubeEndpoint,
+} from './cache.js';
 
 const YOUTUBE_API_BASE = 'https://www.googleapis.com/youtube/v3';
 
@@ -8,25 +18,44 @@ const QUOTA_COSTS = {
   'channels.list': 1,
   'search.list': 100,
   'videos.list': 1,
+  'playlists.list': 1,
   'playlistItems.list': 1,
 } as const;
 
 export interface YouTubeClientOptions {
   apiKey: string;
   maxQuotaPerRun?: number; // default 9000 (of 10000 daily limit, leaving buffer)
+  /** Daily quota shared with other processes. Defaults to a ledger private to this client. */
+  ledger?: QuotaLedger;
+  /** Whose allocation in the ledger calls are charged to */
+  consumer?: string;
+  /** Where responses are cached. Defaults to a store private to this client. */
+  cache?: YouTubeCacheStore;
+  /** Per-endpoint freshness overriding DEFAULT_CACHE_TTLS (ms) */
+  cacheTtls?: Partial<Record<YouTubeEndpoint, number>>;
+  cacheMode?: CacheMode; // default 'use'
 }
 
 export class YouTubeClient {
   private apiKey: string;
   private quotaUsed = 0;
   private maxQuota: number;
+  private ledger: QuotaLedger;
+  private consumer: string;
   private logger: Logger;
-  private cache = new Map<string, { data: unknown; expiry: number }>();
-  private cacheTtl = 3600_000; // 1 hour
+  private cache: YouTubeCacheStore;
+  private cacheTtls: Record<YouTubeEndpoint, number>;
+  private cacheMode: CacheMode;
+  private stats: CacheStats = { hits: 0, misses: 0, revalidated: 0, stores: 0 };
 
   constructor(options: YouTubeClientOptions) {
     this.apiKey = options.apiKey;
     this.maxQuota = options.maxQuotaPerRun ?? 9000;
+    this.ledger = options.ledger ?? new MemoryQuotaLedger();
+    this.consumer = options.consumer ?? 'default';
+    this.cache = options.cache ?? new MemoryCacheStore();
+    this.cacheTtls = { ...DEFAULT_CACHE_TTLS, ...options.cacheTtls };
+    this.cacheMode = options.cacheMode ?? 'use';
     this.logger = createLogger('youtube-client');
   }
 
@@ -38,6 +67,10 @@ export class YouTubeClient {
     return this.quotaUsed;
   }
 
+  get cacheStats(): CacheStats {
+    return { ...this.stats };
+  }
+
   private checkQuota(cost: number): void {
     if (this.quotaUsed + cost > this.maxQuota) {
       throw new QuotaExhaustedError(
@@ -47,18 +80,31 @@ export class YouTubeClient {
   }
 
   private async fetchApi<T>(
-    endpoint: string,
+    endpoint: YouTubeEndpoint,
     params: Record<string, string>,
     quotaCost: number,
   ): Promise<T> {
-    const cacheKey = `${endpoint}:${JSON.stringify(params)}`;
-    const cached = this.cache.get(cacheKey);
-    if (cached && cached.expiry > Date.now()) {
+    return (await this.fetchApiEntry<T>(endpoint, params, quotaCost)).data;
+  }
+
+  /** The response with when YouTube served it: a cache hit keeps its original fetch time */
+  private async fetchApiEntry<T>(
+    endpoint: YouTubeEndpoint,
+    params: Record<string, string>,
+    quotaCost: number,
+  ): Promise<{ data: T; fetchedAt: number }> {
+    const key = cacheKey(endpoint, params);
+    const cached = this.cacheMode === 'use' ? await this.cache.get(key) : undefined;
+    if (cached && cached.expiresAt > Date.now()) {
+      this.stats.hits++;
       this.logger.debug({ endpoint }, 'Cache hit');
-      return cached.data as T;
+      return { data: cached.data as T, fetchedAt: cached.fetchedAt };
     }
 
     this.checkQuota(quotaCost);
+    await this.ledger.reserve(this.consumer, quotaCost);
+    // YouTube charges for failed requests too, so the units are spent from here on
+    this.quotaUsed += quotaCost;
 
     const url = new URL(`${YOUTUBE_API_BASE}/${endpoint}`);
     url.searchParams.set('key', this.apiKey);
@@ -68,7 +114,16 @@ export class YouTubeClient {
 
     this.logger.debug({ endpoint, quotaCost }, 'API request');
 
-    const response = await fetch(url.toString());
+    // An expired entry is revalidated: a 304 still costs quota but skips the response body
+    const headers: Record<string, string> = cached?.etag ? { 'If-None-Match': cached.etag } : {};
+    const response = await fetch(url.toString(), { headers });
+
+    if (cached && response.status === 304) {
+      this.stats.revalidated++;
+      this.logger.debug({ endpoint }, 'Cache revalidated');
+      return { data: cached.data as T, fetchedAt: await this.store(key, endpoint, cached.data) };
+    }
+    this.stats.misses++;
 
     if (!response.ok) {
       const body = await response.text();
@@ -79,12 +134,22 @@ export class YouTubeClient {
       );
     }
 
-    this.quotaUsed += quotaCost;
     const data = (await response.json()) as T;
+    const fetchedAt = this.cacheMode !== 'off' ? await this.store(key, endpoint, data) : Date.now();
 
-    this.cache.set(cacheKey, { data, expiry: Date.now() + this.cacheTtl });
+    return { data, fetchedAt };
+  }
 
-    return data;
+  private async store(key: string, endpoint: YouTubeEndpoint, data: unknown): Promise<number> {
+    const now = Date.now();
+    await this.cache.set(key, {
+      data,
+      etag: (data as { etag?: string }).etag, // every list response carries its ETag
+      fetchedAt: now,
+      expiresAt: now + this.cacheTtls[endpoint],
+    });
+    this.stats.stores++;
+    return now;
   }
 
   async getChannel(channelId: string): Promise<YouTubeChannelInfo> {
@@ -124,7 +189,7 @@ export class YouTubeClient {
       const data = await this.fetchApi<YouTubeChannelListResponse>(
         'channels',
         {
-          part: 'snippet,statistics',
+          part: 'snippet,statistics,status',
           id: batch.join(','),
         },
         QUOTA_COSTS['channels.list'],
@@ -142,6 +207,7 @@ export class YouTubeClient {
           thumbnailUrl: item.snippet.thumbnails?.high?.url || '',
           customUrl: item.snippet.customUrl || '',
           publishedAt: item.snippet.publishedAt,
+          madeForKids: item.status?.madeForKids,
         });
       }
     }
@@ -152,7 +218,32 @@ export class YouTubeClient {
     channelId: string,
     maxResults = 50,
   ): Promise<YouTubeVideoInfo[]> {
-    // First, get upload playlist ID
+    const uploadsPlaylistId = await this.getUploadsPlaylistId(channelId);
+
+    // Fetch video IDs from uploads playlist
+    const videoIds: string[] = [];
+    let pageToken: string | undefined;
+
+    while (videoIds.length < maxResults) {
+      const page = await this.getPlaylistVideoIds(
+        uploadsPlaylistId,
+        Math.min(50, maxResults - videoIds.length),
+        pageToken,
+      );
+      videoIds.push(...page.videoIds);
+
+      pageToken = page.nextPageToken;
+      if (!pageToken) break;
+    }
+
+    if (videoIds.length === 0) return [];
+
+    // Fetch video details in batches of 50
+    return this.getVideosBatch(videoIds);
+  }
+
+  /** The playlist holding a channel's uploads */
+  async getUploadsPlaylistId(channelId: string): Promise<string> {
     const channelData = await this.fetchApi<YouTubeChannelListResponse>(
       'channels',
       {
@@ -171,37 +262,88 @@ export class YouTubeClient {
     if (!uploadsPlaylistId) {
       throw new NotFoundError(`No uploads playlist for channel: ${channelId}`);
     }
+    return uploadsPlaylistId;
+  }
 
-    // Fetch video IDs from uploads playlist
-    const videoIds: string[] = [];
+  /** One page (up to 50) of a playlist's video IDs, with the token for the next page */
+  async getPlaylistVideoIds(
+    playlistId: string,
+    maxResults = 50,
+    pageToken?: string,
+  ): Promise<{ videoIds: string[]; nextPageToken?: string }> {
+    const params: Record<string, string> = {
+      part: 'contentDetails',
+      playlistId,
+      maxResults: String(Math.min(50, maxResults)),
+    };
+    if (pageToken) params.pageToken = pageToken;
+
+    const playlistData = await this.fetchApi<YouTubePlaylistItemsResponse>(
+      'playlistItems',
+      params,
+      QUOTA_COSTS['playlistItems.list'],
+    );
+
+    return {
+      videoIds: (playlistData.items || []).map((item) => item.contentDetails.videoId),
+      nextPageToken: playlistData.nextPageToken,
+    };
+  }
+
+  /** A channel's own playlists, newest first, with up to `maxItems` of each one's video IDs.
+   * Costs a unit per 50 playlists plus a unit per 50 listed videos of each. */
+  async getChannelPlaylists(
+    channelId: string,
+    maxPlaylists = 25,
+    maxItems = 50,
+  ): Promise<YouTubePlaylistInfo[]> {
+    const playlists: YouTubePlaylistInfo[] = [];
     let pageToken: string | undefined;
 
-    while (videoIds.length < maxResults) {
+    while (playlists.length < maxPlaylists) {
       const params: Record<string, string> = {
-        part: 'contentDetails',
-        playlistId: uploadsPlaylistId,
-        maxResults: String(Math.min(50, maxResults - videoIds.length)),
+        part: 'snippet,contentDetails',
+        channelId,
+        maxResults: String(Math.min(50, maxPlaylists - playlists.length)),
       };
       if (pageToken) params.pageToken = pageToken;
 
-      const playlistData = await this.fetchApi<YouTubePlaylistItemsResponse>(
-        'playlistItems',
+      const data = await this.fetchApi<YouTubePlaylistListResponse>(
+        'playlists',
         params,
-        QUOTA_COSTS['playlistItems.list'],
+        QUOTA_COSTS['playlists.list'],
       );
-
-      for (const item of playlistData.items || []) {
-        videoIds.push(item.contentDetails.videoId);
+      for (const item of data.items || []) {
+        playlists.push({
+          playlistId: item.id,
+          channelId: item.snippet.channelId,
+          title: item.snippet.title,
+          description: item.snippet.description,
+          publishedAt: item.snippet.publishedAt,
+          itemCount: item.contentDetails?.itemCount ?? 0,
+          videoIds: [],
+        });
       }
 
-      pageToken = playlistData.nextPageToken;
+      pageToken = data.nextPageToken;
       if (!pageToken) break;
     }
 
-    if (videoIds.length === 0) return [];
+    for (const playlist of playlists) {
+      let itemsToken: string | undefined;
+      while (playlist.videoIds.length < Math.min(maxItems, playlist.itemCount)) {
+        const page = await this.getPlaylistVideoIds(
+          playlist.playlistId,
+          maxItems - playlist.videoIds.length,
+          itemsToken,
+        );
+        playlist.videoIds.push(...page.videoIds);
+        itemsToken = page.nextPageToken;
+        if (!itemsToken) break;
+      }
+    }
 
-    // Fetch video details in batches of 50
-    return this.getVideosBatch(videoIds);
+    return playlists;
   }
 
   async getVideosBatch(videoIds: string[]): Promise<YouTubeVideoInfo[]> {
@@ -209,7 +351,7 @@ export class YouTubeClient {
 
     for (let i = 0; i < videoIds.length; i += 50) {
       const batch = videoIds.slice(i, i + 50);
-      const data = await this.fetchApi<YouTubeVideoListResponse>(
+      const { data, fetchedAt } = await this.fetchApiEntry<YouTubeVideoListResponse>(
         'videos',
         {
           part: 'snippet,statistics,contentDetails',
@@ -233,6 +375,7 @@ export class YouTubeClient {
           thumbnailUrl: item.snippet.thumbnails?.high?.url || '',
           defaultLanguage: item.snippet.defaultLanguage || '',
           categoryId: item.snippet.categoryId || '',
+          fetchedAt: new Date(fetchedAt).toISOString(),
         });
       }
     }
@@ -284,13 +427,6 @@ export class YouTubeApiError extends Error {
   }
 }
 
-export class QuotaExhaustedError extends Error {
-  constructor(message: string) {
-    super(message);
-    this.name = 'QuotaExhaustedError';
-  }
-}
-
 export class NotFoundError extends Error {
   constructor(message: string) {
     super(message);
@@ -321,6 +457,9 @@ interface YouTubeChannelListResponse {
         uploads?: string;
       };
     };
+    status?: {
+      madeForKids?: boolean;
+    };
   }[];
 }
 
@@ -348,6 +487,22 @@ interface YouTubeVideoListResponse {
   }[];
 }
 
+interface YouTubePlaylistListResponse {
+  items: {
+    id: string;
+    snippet: {
+      channelId: string;
+      title: string;
+      description: string;
+      publishedAt: string;
+    };
+    contentDetails?: {
+      itemCount?: number;
+    };
+  }[];
+  nextPageToken?: string;
+}
+
 interface YouTubePlaylistItemsResponse {
   items: {
     contentDetails: {
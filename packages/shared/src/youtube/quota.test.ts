@@ -0,0 +1,147 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  PostgresQuotaLedger,
+  MemoryQuotaLedger,
+  QuotaExhaustedError,
+  quotaDay,
+  nextQuotaReset,
+  parseQuotaAllocations,
+  fitsQuota,
+} from './quota.js';
+import type { Database } from '../db/index.js';
+import type { Logger } from '../logger.js';
+
+const mockLogger = {
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+  debug: vi.fn(),
+} as unknown as Logger;
+
+function createMockDb(rows: Array<{ consumer: string; units: number }>) {
+  const inserted: Array<Record<string, unknown>> = [];
+  const tx = {
+    execute: vi.fn().mockResolvedValue(undefined),
+    query: { youtubeQuotaUsage: { findMany: vi.fn().mockResolvedValue(rows) } },
+    insert: vi.fn(() => ({
+      values: vi.fn((values: Record<string, unknown>) => {
+        inserted.push(values);
+        return { onConflictDoUpdate: vi.fn().mockResolvedValue(undefined) };
+      }),
+    })),
+  };
+  const db = {
+    ...tx,
+    transaction: vi.fn((fn: (t: typeof tx) => Promise<unknown>) => fn(tx)),
+  };
+  return { db: db as unknown as Database, tx, inserted };
+}
+
+describe('quota day', () => {
+  it('uses the Pacific date, not the UTC date', () => {
+    // 05:00 UTC on Jan 15 is still 21:00 on Jan 14 in Los Angeles (PST, UTC-8)
+    expect(quotaDay(new Date('2026-01-15T05:00:00Z'))).toBe('2026-01-14');
+    expect(quotaDay(new Date('2026-01-15T09:00:00Z'))).toBe('2026-01-15');
+  });
+
+  it('resets at Pacific midnight in both standard and daylight time', () => {
+    expect(nextQuotaReset(new Date('2026-01-15T05:00:00Z')).toISOString()).toBe(
+      '2026-01-15T08:00:00.000Z',
+    );
+    expect(nextQuotaReset(new Date('2026-07-04T12:00:00Z')).toISOString()).toBe(
+      '2026-07-05T07:00:00.000Z',
+    );
+  });
+});
+
+describe('parseQuotaAllocations', () => {
+  it('parses consumer=units pairs', () => {
+    expect(parseQuotaAllocations('tracking=1000, analyzer=6000')).toEqual({
+      tracking: 1000,
+      analyzer: 6000,
+    });
+    expect(parseQuotaAllocations('')).toEqual({});
+  });
+
+  it('rejects malformed entries', () => {
+    expect(() => parseQuotaAllocations('tracking=lots')).toThrow('Invalid quota allocation');
+  });
+});
+
+describe('fitsQuota', () => {
+  const allocations = { tracking: 1000 };
+
+  it('keeps a consumer allocation out of reach of other consumers', () => {
+    const used = { analyzer: 8900 };
+
+    expect(fitsQuota(used, 'analyzer', 100, 10_000, allocations)).toBe(true);
+    expect(fitsQuota(used, 'analyzer', 101, 10_000, allocations)).toBe(false);
+    expect(fitsQuota(used, 'tracking', 1000, 10_000, allocations)).toBe(true);
+  });
+
+  it('lets a consumer spill into the shared pool once its allocation is spent', () => {
+    const used = { tracking: 1000, analyzer: 8000 };
+
+    expect(fitsQuota(used, 'tracking', 1000, 10_000, allocations)).toBe(true);
+    expect(fitsQuota(used, 'tracking', 1001, 10_000, allocations)).toBe(false);
+  });
+});
+
+describe('MemoryQuotaLedger', () => {
+  it('throws with the reset time once the day is spent', async () => {
+    const ledger = new MemoryQuotaLedger({ dailyLimit: 150 });
+    await ledger.reserve('analyzer', 100);
+
+    const err = await ledger.reserve('analyzer', 100).catch((e) => e);
+
+    expect(err).toBeInstanceOf(QuotaExhaustedError);
+    expect(err.resetAt).toEqual(nextQuotaReset());
+    expect((await ledger.usage()).remaining).toBe(50);
+  });
+});
+
+describe('PostgresQuotaLedger', () => {
+  it('locks the quota day and adds the units to the consumer row', async () => {
+    const { db, tx, inserted } = createMockDb([{ consumer: 'analyzer', units: 500 }]);
+    const ledger = new PostgresQuotaLedger(db, mockLogger, { allocations: { tracking: 1000 } });
+
+    await ledger.reserve('analyzer', 100);
+
+    expect(tx.execute).toHaveBeenCalledOnce();
+    expect(inserted[0]).toEqual({ day: quotaDay(), consumer: 'analyzer', units: 100 });
+  });
+
+  it('throws without writing when the reservation does not fit', async () => {
+    const { db, inserted } = createMockDb([{ consumer: 'analyzer', units: 8950 }]);
+    const ledger = new PostgresQuotaLedger(db, mockLogger, { allocations: { tracking: 1000 } });
+
+    await expect(ledger.reserve('analyzer', 100)).rejects.toThrow(QuotaExhaustedError);
+    expect(inserted).toHaveLength(0);
+  });
+
+  it('reports usage per consumer alongside allocations', async () => {
+    const { db } = createMockDb([
+      { consumer: 'analyzer', units: 4200 },
+      { consumer: 'tracking', units: 30 },
+    ]);
+    const ledger = new PostgresQuotaLedger(db, mockLogger, {
+      dailyLimit: 10_000,
+      allocations: { tracking: 1000 },
+    });
+    const now = new Date('2026-03-02T18:00:00Z');
+
+    const usage = await ledger.usage(now);
+
+    expect(usage).toEqual({
+      day: '2026-03-02',
+      dailyLimit: 10_000,
+      used: 4230,
+      remaining: 5770,
+      resetAt: new Date('2026-03-03T08:00:00Z'),
+      consumers: {
+        tracking: { used: 30, allocated: 1000 },
+        analyzer: { used: 4200, allocated: 0 },
+      },
+    });
+  });
+});
@@ -0,0 +1,267 @@
+import type { Logger } from '../logger.js';
+import { youtubeQuotaUsage, eq, sql, type Database } from '../db/index.js';
+
+/** Daily YouTube Data API quota shared by every process that calls the API.
+ * Google resets the quota at midnight Pacific time, so usage is keyed on the Pacific date.
+ * Consumers can be given a reserved allocation (e.g. tracking always gets 1000 units); the rest
+ * of the daily limit is a shared pool that every consumer draws from once its own allocation
+ * is spent. */
+
+export const DEFAULT_DAILY_QUOTA = 10_000;
+
+export interface QuotaOptions {
+  /** Units per quota day across all consumers */
+  dailyLimit?: number;
+  /** Units reserved for a consumer that other consumers cannot spend */
+  allocations?: Record<string, number>;
+}
+
+export interface ConsumerQuota {
+  used: number;
+  allocated: number;
+}
+
+export interface QuotaUsage {
+  /** Pacific quota day, YYYY-MM-DD */
+  day: string;
+  dailyLimit: number;
+  used: number;
+  remaining: number;
+  resetAt: Date;
+  consumers: Record<string, ConsumerQuota>;
+}
+
+export interface QuotaLedger {
+  /** Charge `units` to `consumer` for today, or throw QuotaExhaustedError if they don't fit */
+  reserve(consumer: string, units: number): Promise<void>;
+  usage(now?: Date): Promise<QuotaUsage>;
+}
+
+export class QuotaExhaustedError extends Error {
+  constructor(
+    message: string,
+    /** When the quota that ran out is replenished; unset for per-run caps */
+    public resetAt?: Date,
+  ) {
+    super(message);
+    this.name = 'QuotaExhaustedError';
+  }
+}
+
+// ─── Quota Day ───
+
+const PACIFIC = new Intl.DateTimeFormat('en-US', {
+  timeZone: 'America/Los_Angeles',
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit',
+  hour: '2-digit',
+  minute: '2-digit',
+  second: '2-digit',
+  hourCycle: 'h23',
+});
+
+/** Wall-clock time in Los Angeles, as if it were UTC */
+function pacificWallClock(date: Date): Date {
+  const parts = Object.fromEntries(PACIFIC.formatToParts(date).map((p) => [p.type, p.value]));
+  return new Date(
+    Date.UTC(
+      Number(parts.year),
+      Number(parts.month) - 1,
+      Number(parts.day),
+      Number(parts.hour),
+      Number(parts.minute),
+      Number(parts.second),
+    ),
+  );
+}
+
+/** The quota day `now` falls in, as YYYY-MM-DD in Pacific time */
+export function quotaDay(now = new Date()): string {
+  return pacificWallClock(now).toISOString().slice(0, 10);
+}
+
+/** Next midnight Pacific time, when the daily quota resets */
+export function nextQuotaReset(now = new Date()): Date {
+  const wall = pacificWallClock(now);
+  const midnight = Date.UTC(wall.getUTCFullYear(), wall.getUTCMonth(), wall.getUTCDate() + 1);
+  // DST switches at 2am, so the offset late on the previous day is the offset at midnight
+  const offset = pacificWallClock(new Date(midnight)).getTime() - midnight;
+  return new Date(midnight - offset);
+}
+
+/** Parse allocations written as `tracking=1000,analyzer=6000` */
+export function parseQuotaAllocations(value: string): Record<string, number> {
+  const allocations: Record<string, number> = {};
+  for (const entry of value.split(',')) {
+    const [consumer, units] = entry.split('=').map((s) => s.trim());
+    if (!consumer) continue;
+    const n = Number(units);
+    if (!Number.isInteger(n) || n < 0) {
+      throw new Error(`Invalid quota allocation "${entry}", expected consumer=units`);
+    }
+    allocations[consumer] = n;
+  }
+  return allocations;
+}
+
+// ─── Reservation Rules ───
+
+/** Units of the shared pool a consumer has spent beyond its own allocation */
+function overflow(used: number, allocated: number): number {
+  return Math.max(0, used - allocated);
+}
+
+/** Whether `units` more for `consumer` fit, given today's usage per consumer */
+export function fitsQuota(
+  used: Record<string, number>,
+  consumer: string,
+  units: number,
+  dailyLimit: number,
+  allocations: Record<string, number>,
+): boolean {
+  const reserved = Object.values(allocations).reduce((s, n) => s + n, 0);
+  const sharedPool = Math.max(0, dailyLimit - reserved);
+  const sharedUsed = Object.entries(used).reduce(
+    (s, [name, n]) => s + overflow(n, allocations[name] ?? 0),
+    0,
+  );
+
+  const before = used[consumer] ?? 0;
+  const allocated = allocations[consumer] ?? 0;
+  const extra = overflow(before + units, allocated) - overflow(before, allocated);
+  return sharedUsed + extra <= sharedPool;
+}
+
+function summarize(
+  day: string,
+  resetAt: Date,
+  used: Record<string, number>,
+  dailyLimit: number,
+  allocations: Record<string, number>,
+): QuotaUsage {
+  const consumers: Record<string, ConsumerQuota> = {};
+  for (const name of new Set([...Object.keys(allocations), ...Object.keys(used)])) {
+    consumers[name] = { used: used[name] ?? 0, allocated: allocations[name] ?? 0 };
+  }
+  const total = Object.values(used).reduce((s, n) => s + n, 0);
+  return {
+    day,
+    dailyLimit,
+    used: total,
+    remaining: Math.max(0, dailyLimit - total),
+    resetAt,
+    consumers,
+  };
+}
+
+function exhausted(consumer: string, units: number, now: Date): QuotaExhaustedError {
+  const resetAt = nextQuotaReset(now);
+  return new QuotaExhaustedError(
+    `YouTube quota exhausted for ${consumer}: ${units} units do not fit today's remaining quota, resets at ${resetAt.toISOString()}`,
+    resetAt,
+  );
+}
+
+// ─── Ledgers ───
+
+/** Ledger in the youtube_quota_usage table, shared by every process on the database.
+ * Reservations take a transaction-scoped advisory lock on the quota day, so concurrent
+ * reservations from different processes are serialized. */
+export class PostgresQuotaLedger implements QuotaLedger {
+  private dailyLimit: number;
+  private allocations: Record<string, number>;
+
+  constructor(
+    private db: Database,
+    private logger: Logger,
+    options: QuotaOptions = {},
+  ) {
+    this.dailyLimit = options.dailyLimit ?? DEFAULT_DAILY_QUOTA;
+    this.allocations = options.allocations ?? {};
+  }
+
+  async reserve(consumer: string, units: number): Promise<void> {
+    const now = new Date();
+    const day = quotaDay(now);
+
+    const reserved = await this.db.transaction(async (tx) => {
+      await tx.execute(sql`select pg_advisory_xact_lock(hashtext(${`youtube_quota:${day}`}))`);
+      const rows = await tx.query.youtubeQuotaUsage.findMany({
+        where: eq(youtubeQuotaUsage.day, day),
+      });
+      const used = Object.fromEntries(rows.map((r) => [r.consumer, r.units]));
+      if (!fitsQuota(used, consumer, units, this.dailyLimit, this.allocations)) return false;
+
+      await tx
+        .insert(youtubeQuotaUsage)
+        .values({ day, consumer, units })
+        .onConflictDoUpdate({
+          target: [youtubeQuotaUsage.day, youtubeQuotaUsage.consumer],
+          set: { units: sql`${youtubeQuotaUsage.units} + ${units}`, updatedAt: now },
+        });
+      return true;
+    });
+
+    if (!reserved) {
+      this.logger.warn({ consumer, units, day }, 'YouTube quota exhausted');
+      throw exhausted(consumer, units, now);
+    }
+  }
+
+  async usage(now = new Date()): Promise<QuotaUsage> {
+    const day = quotaDay(now);
+    const rows = await this.db.query.youtubeQuotaUsage.findMany({
+      where: eq(youtubeQuotaUsage.day, day),
+    });
+    const used = Object.fromEntries(rows.map((r) => [r.consumer, r.units]));
+    return summarize(day, nextQuotaReset(now), used, this.dailyLimit, this.allocations);
+  }
+}
+
+/** The ledger every process on this database reserves against, with the configured limits */
+export function createQuotaLedger(
+  db: Database,
+  logger: Logger,
+  config: { youtubeDailyQuota: number; youtubeQuotaAllocations: Record<string, number> },
+): QuotaLedger {
+  return new PostgresQuotaLedger(db, logger, {
+    dailyLimit: config.youtubeDailyQuota,
+    allocations: config.youtubeQuotaAllocations,
+  });
+}
+
+/** Ledger private to this process, for tests and one-off scripts without a database */
+export class MemoryQuotaLedger implements QuotaLedger {
+  private dailyLimit: number;
+  private allocations: Record<string, number>;
+  private day = '';
+  private used: Record<string, number> = {};
+
+  constructor(options: QuotaOptions = {}) {
+    this.dailyLimit = options.dailyLimit ?? DEFAULT_DAILY_QUOTA;
+    this.allocations = options.allocations ?? {};
+  }
+
+  async reserve(consumer: string, units: number): Promise<void> {
+    const now = new Date();
+    this.rollOver(now);
+    if (!fitsQuota(this.used, consumer, units, this.dailyLimit, this.allocations)) {
+      throw exhausted(consumer, units, now);
+    }
+    this.used[consumer] = (this.used[consumer] ?? 0) + units;
+  }
+
+  async usage(now = new Date()): Promise<QuotaUsage> {
+    this.rollOver(now);
+    return summarize(this.day, nextQuotaReset(now), this.used, this.dailyLimit, this.allocations);
+  }
+
+  private rollOver(now: Date): void {
+    const day = quotaDay(now);
+    if (day !== this.day) {
+      this.day = day;
+      this.used = {};
+    }
+  }
+}
@@ -23,6 +23,8 @@ dotenv.config({ path: resolve(__dirname, '..', '.env') });
 
 import { COSMO_IDENTITY } from '../src/characters/cosmo.js';
 import { GoogleGenAI } from '@google/genai';
+import { BudgetExceededError, unitUsage } from '../packages/shared/src/index.js';
+import { scriptCosts } from '../src/providers/costs.js';
 
 const OUTPUT_DIR = resolve(__dirname, '..', 'output', 'v9-count-to-10');
 const sleep = (ms: number) => new Promise(r => setTimeout(r, ms));
@@ -147,6 +149,7 @@ async function main() {
     if (!existsSync(framePath)) {
       console.log(`  🖼️  Starting frame (Imagen 4, exact blocks)...`);
       try {
+        await scriptCosts().check();
         const resp = await client.models.generateImages({
           model: 'imagen-4.0-generate-001',
           prompt: scene.framePrompt,
@@ -156,6 +159,7 @@ async function main() {
             personGeneration: 'allow_all',
           } as any,
         });
+        await scriptCosts().record(unitUsage('imagen', 'imagen-4.0-generate-001', 'images', 1));
         const img = (resp as any).generatedImages?.[0];
         if (img?.image?.imageBytes) {
           const bytes = typeof img.image.imageBytes === 'string'
@@ -167,6 +171,7 @@ async function main() {
           console.log(`  ❌ No image returned`);
         }
       } catch (e: any) {
+        if (e instanceof BudgetExceededError) throw e;
         console.log(`  ❌ Imagen: ${e.message?.substring(0, 120)}`);
       }
       await sleep(3000);
@@ -221,6 +226,7 @@ async function main() {
         console.log(`  🎬 Veo 3.1 image-to-video...`);
         try {
           const frameData = await readFile(framePath);
+          await scriptCosts().check();
           let op = await client.models.generateVideos({
             model: 'veo-3.1-generate-preview',
             prompt: scene.motionPrompt,
@@ -231,6 +237,8 @@ async function main() {
               personGeneration: 'allow_adult',
             } as any,
           });
+          // No durationSeconds: Veo 3.1 renders 8s
+          await scriptCosts().record(unitUsage('veo', 'veo-3.1-generate-preview', 'seconds', 8));
 
           let attempts = 0;
           while (!op.done) {
@@ -250,6 +258,7 @@ async function main() {
           await writeFile(clipPath, buf);
           console.log(`  ✅ Clip: ${(buf.length / 1024 / 1024).toFixed(1)}MB`);
         } catch (e: any) {
+          if (e instanceof BudgetExceededError) throw e;
           console.log(`  ❌ Veo: ${e.message?.substring(0, 150)}`);
         }
         await sleep(5000);
@@ -312,11 +321,13 @@ async function main() {
   if (!existsSync(thumbPath)) {
     console.log('\n━━━ Thumbnail ━━━');
     try {
+      await scriptCosts().check();
       const resp = await client.models.generateImages({
         model: 'imagen-4.0-generate-001',
         prompt: `${COSMO_IDENTITY.description} standing next to ${describeStack(10)}. Bright cheerful background with confetti and sparkles. Bold colorful style, vibrant, eye-catching YouTube thumbnail composition. Pixar-style 3D children's animation.`,
         config: { numberOfImages: 1, aspectRatio: '16:9', personGeneration: 'allow_all' } as any,
       });
+      await scriptCosts().record(unitUsage('imagen', 'imagen-4.0-generate-001', 'images', 1));
       const img = (resp as any).generatedImages?.[0];
       if (img?.image?.imageBytes) {
         const rawThumb = resolve(OUTPUT_DIR, 'thumbnail-raw.png');
@@ -327,7 +338,10 @@ async function main() {
         } catch { execSync(`cp "${rawThumb}" "${thumbPath}"`); }
         console.log('✅ Thumbnail');
       }
-    } catch (e: any) { console.log(`❌ Thumbnail: ${e.message?.substring(0, 100)}`); }
+    } catch (e: any) {
+      if (e instanceof BudgetExceededError) throw e;
+      console.log(`❌ Thumbnail: ${e.message?.substring(0, 100)}`);
+    }
   }
 
   // Summary
@@ -25,6 +25,8 @@ import { fileURLToPath } from 'url';
 import { writeFile, readFile, mkdir } from 'fs/promises';
 import { execSync } from 'child_process';
 import { existsSync } from 'fs';
+import { unitUsage } from '../packages/shared/src/index.js';
+import { scriptCosts } from '../src/providers/costs.js';
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 dotenv.config({ path: resolve(__dirname, '..', '.env') });
@@ -34,6 +36,8 @@ const VEO_DELAY_MS = 150_000; // 2.5 min between Veo calls
 const VEO_POLL_INTERVAL = 10_000;
 const VEO_POLL_MAX = 60;
 const MAX_EXTEND_RETRIES = 2;
+const VEO_MODEL = 'veo-3.1-generate-preview';
+const VEO_EXTEND_SEC = 7; // each extension adds 7s
 const STATE_FILE = resolve(OUTPUT_DIR, 'pipeline_state.json');
 
 // ═══════════════════════════════════════════════════
@@ -254,8 +258,9 @@ async function generateInitialClip(refImagePath: string, beat: StoryBeat): Promi
   console.log(`\n🎬 Generating INITIAL clip (8s): ${beat.id}`);
   console.log(`   Prompt: ${beat.veoPrompt.substring(0, 100)}...`);
 
+  await scriptCosts().check();
   let operation = await client.models.generateVideos({
-    model: 'veo-3.1-generate-preview',
+    model: VEO_MODEL,
     prompt: beat.veoPrompt,
     referenceImages: [{
       image: { imageBytes: refBase64, mimeType: 'image/png' },
@@ -267,6 +272,7 @@ async function generateInitialClip(refImagePath: string, beat: StoryBeat): Promi
       personGeneration: 'allow_all',
     },
   } as any);
+  await scriptCosts().record(unitUsage('veo', VEO_MODEL, 'seconds', 8));
 
   // Poll until done
   let attempts = 0;
@@ -300,8 +306,9 @@ async function extendClip(prevVideoUri: string, beat: StoryBeat, index: number):
   console.log(`   Prompt: ${beat.veoPrompt.substring(0, 100)}...`);
 
   // For extend, we pass the previous video URI
+  await scriptCosts().check();
   let operation = await client.models.generateVideos({
-    model: 'veo-3.1-generate-preview',
+    model: VEO_MODEL,
     prompt: beat.veoPrompt,
     video: { uri: prevVideoUri },
     config: {
@@ -309,6 +316,7 @@ async function extendClip(prevVideoUri: string, beat: StoryBeat, index: number):
       personGeneration: 'allow_all',
     },
   } as any);
+  await scriptCosts().record(unitUsage('veo', VEO_MODEL, 'seconds', VEO_EXTEND_SEC));
 
   // Poll
   let attempts = 0;
@@ -23,6 +23,8 @@ import { fileURLToPath } from 'url';
 import { writeFile, readFile, mkdir } from 'fs/promises';
 import { execSync } from 'child_process';
 import { existsSync } from 'fs';
+import { unitUsage } from '../packages/shared/src/index.js';
+import { scriptCosts } from '../src/providers/costs.js';
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 dotenv.config({ path: resolve(__dirname, '..', '.env') });
@@ -241,7 +243,12 @@ async function veoGenerate(params: any): Promise<{ uri: string }> {
   const { GoogleGenAI } = await import('@google/genai');
   const client = new GoogleGenAI({ apiKey: process.env.GOOGLE_API_KEY! });
 
+  await scriptCosts().check();
   let operation = await client.models.generateVideos(params);
+  // An extension sets no duration: it always adds 7s
+  await scriptCosts().record(
+    unitUsage('veo', params.model, 'seconds', params.config?.durationSeconds ?? 7),
+  );
   let attempts = 0;
   while (!operation.done) {
     if (attempts++ >= VEO_POLL_MAX) throw new Error('Veo timed out');
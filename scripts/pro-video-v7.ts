@@ -19,6 +19,8 @@ import { fileURLToPath } from 'url';
 import { writeFile, readFile, mkdir } from 'fs/promises';
 import { execSync } from 'child_process';
 import { existsSync } from 'fs';
+import { unitUsage } from '../packages/shared/src/index.js';
+import { scriptCosts } from '../src/providers/costs.js';
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 dotenv.config({ path: resolve(__dirname, '..', '.env') });
@@ -27,6 +29,7 @@ const OUTPUT_DIR = resolve(__dirname, '..', 'output', 'v7');
 const VEO_DELAY_MS = 150_000;
 const VEO_POLL_INTERVAL = 10_000;
 const VEO_POLL_MAX = 60;
+const VEO_MODEL = 'veo-3.1-generate-preview';
 const MAX_RETRIES = 2;
 const STATE_FILE = resolve(OUTPUT_DIR, 'pipeline_state.json');
 
@@ -232,8 +235,9 @@ async function generateVeoClip(
   console.log(`\n🎬 Veo ${index + 1}/${STORY_BEATS.length}: ${beat.id}`);
   console.log(`   ${beat.veoPrompt.substring(0, 90)}...`);
 
+  await scriptCosts().check();
   let operation = await client.models.generateVideos({
-    model: 'veo-3.1-generate-preview',
+    model: VEO_MODEL,
     prompt: beat.veoPrompt,
     referenceImages: [{
       image: { imageBytes: refBase64, mimeType: 'image/png' },
@@ -245,6 +249,7 @@ async function generateVeoClip(
       personGeneration: 'allow_all',
     },
   } as any);
+  await scriptCosts().record(unitUsage('veo', VEO_MODEL, 'seconds', beat.veoDurationSec));
 
   let attempts = 0;
   while (!operation.done) {
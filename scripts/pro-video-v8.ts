@@ -26,6 +26,7 @@ import { existsSync } from 'fs';
 import { COSMO_IDENTITY } from '../src/characters/cosmo.js';
 import { VeoProvider } from '../src/providers/veo.js';
 import { ImagenProvider } from '../src/providers/imagen.js';
+import { scriptCosts } from '../src/providers/costs.js';
 import { PromptEngineer } from '../src/pipeline/prompt-engineer.js';
 import { QualityGate } from '../src/pipeline/quality-gate.js';
 
@@ -196,11 +197,12 @@ function createVeo(): VeoProvider {
     apiKey: getApiKey(),
     model: 'veo-3.0-generate-001',
     defaultNegativePrompt: COSMO_IDENTITY.negativePrompt,
+    costs: scriptCosts(),
   });
 }
 
 function createImagen(): ImagenProvider {
-  return new ImagenProvider({ apiKey: getApiKey() });
+  return new ImagenProvider({ apiKey: getApiKey(), costs: scriptCosts() });
 }
 
 function createPromptEngineer(): PromptEngineer {
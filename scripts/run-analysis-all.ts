@@ -8,12 +8,13 @@ import { config } from 'dotenv';
 import { resolve } from 'path';
 config({ path: resolve(process.cwd(), '.env') });
 
-import { createLogger, YouTubeClient, getDb } from '../packages/shared/src/index.js';
+import { createLogger, createQuotaLedger, loadAnalyzerConfig, YouTubeClient, getDb } from '../packages/shared/src/index.js';
 import { ChannelScraper } from '../packages/analyzer/src/scraper.js';
 import { detectPatterns } from '../packages/analyzer/src/patterns.js';
 import { computeEngagementStats, buildChannelAnalysis, rankChannels, findViralOutliers } from '../packages/analyzer/src/engagement.js';
 import { categorizeChannel } from '../packages/analyzer/src/categorizer.js';
 import { StrategyEngine } from '../packages/analyzer/src/strategy-engine.js';
+import { loadVideoSnapshots, computeVideoVelocities, aggregateVelocity } from '../packages/analyzer/src/velocity.js';
 import { analysisRuns, analysisPatterns, eq } from '../packages/shared/src/db/index.js';
 import * as fs from 'fs';
 
@@ -37,8 +38,9 @@ async function main() {
   const dbUrl = process.env.DATABASE_URL!;
   if (!apiKey || !dbUrl) { console.error('Missing keys'); process.exit(1); }
 
-  const youtube = new YouTubeClient({ apiKey, maxQuotaPerRun: 9000 });
   const db = getDb(dbUrl);
+  const ledger = createQuotaLedger(db, logger, loadAnalyzerConfig());
+  const youtube = new YouTubeClient({ apiKey, maxQuotaPerRun: 9000, ledger, consumer: 'scripts' });
   const strategy = new StrategyEngine(logger);
 
   logger.info('═══════════════════════════════════════════════════');
@@ -66,6 +68,7 @@ async function main() {
   // Store patterns in DB
   for (const p of patterns) {
     await db.insert(analysisPatterns).values({
+      runId: run.id,
       patternType: p.patternType,
       category: p.category,
       finding: p.finding,
@@ -92,7 +95,8 @@ async function main() {
   });
 
   const ranked = rankChannels(channelAnalyses);
-  const outliers = findViralOutliers(result.videos, result.categories);
+  const velocities = computeVideoVelocities(await loadVideoSnapshots(db, new Date(Date.now() - 30 * 86400_000)));
+  const outliers = findViralOutliers(result.videos, result.categories, new Map(velocities.map(v => [v.videoId, v])));
 
   // Print rankings
   logger.info('\n🏆 Channel Rankings:');
@@ -104,7 +108,7 @@ async function main() {
   logger.info('\n⚔️  Step 4: Strategy & Competitive Analysis...');
 
   // Content gaps
-  const gaps = strategy.findContentGaps(channelAnalyses, patterns);
+  const gaps = strategy.findContentGaps(channelAnalyses, patterns, aggregateVelocity(velocities, 'category'));
   logger.info('\n📋 Content Gaps (opportunities):');
   for (const g of gaps.slice(0, 5)) {
     logger.info(`  [${g.category}] ${g.recommendation}`);
@@ -7,7 +7,7 @@ import { config } from 'dotenv';
 import { resolve } from 'path';
 config({ path: resolve(process.cwd(), '.env') });
 
-import { createLogger, YouTubeClient, getDb } from '../packages/shared/src/index.js';
+import { createLogger, createQuotaLedger, loadAnalyzerConfig, YouTubeClient, getDb } from '../packages/shared/src/index.js';
 import type { ScriptRequest } from '../packages/shared/src/types.js';
 import { generatedVideos } from '../packages/shared/src/db/index.js';
 import { categorizeVideo, categorizeChannel } from '../packages/analyzer/src/categorizer.js';
@@ -27,8 +27,9 @@ async function main() {
     process.exit(1);
   }
 
-  const youtube = new YouTubeClient({ apiKey, maxQuotaPerRun: 500 });
   const db = getDb(dbUrl);
+  const ledger = createQuotaLedger(db, logger, loadAnalyzerConfig());
+  const youtube = new YouTubeClient({ apiKey, maxQuotaPerRun: 500, ledger, consumer: 'scripts' });
 
   // ─── Step 1: Fetch real Cocomelon data ───
   logger.info('═══ Step 1: Fetching Cocomelon from YouTube API ═══');
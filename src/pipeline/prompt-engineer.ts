@@ -10,11 +10,14 @@
  * - Avoidance of prompt pitfalls (subtitle generation, character re-description)
  */
 
-import { GoogleGenAI } from '@google/genai';
+import { GeminiLLMProvider } from '../../packages/generator/src/providers/llm.js';
+import type { LLMProvider } from '../../packages/shared/src/types.js';
 
 export interface PromptEngineerOptions {
-  apiKey: string;
+  apiKey?: string;
   model?: string;
+  /** Provider to refine with. Defaults to Gemini using apiKey and model. */
+  llm?: LLMProvider;
 }
 
 export interface RefinePromptInput {
@@ -35,13 +38,24 @@ export interface RefinedPrompts {
   veoMotionPrompt: string;
 }
 
+const REFINED_PROMPTS_SCHEMA = {
+  name: 'refined_prompts',
+  schema: {
+    type: 'object',
+    properties: {
+      imagenPrompt: { type: 'string' },
+      veoMotionPrompt: { type: 'string' },
+    },
+    required: ['imagenPrompt', 'veoMotionPrompt'],
+  },
+};
+
 export class PromptEngineer {
-  private client: GoogleGenAI;
-  private model: string;
+  private llm: LLMProvider;
 
   constructor(options: PromptEngineerOptions) {
-    this.client = new GoogleGenAI({ apiKey: options.apiKey });
-    this.model = options.model ?? 'gemini-2.5-flash';
+    this.llm =
+      options.llm ?? new GeminiLLMProvider({ apiKey: options.apiKey ?? '', model: options.model });
   }
 
   /**
@@ -74,24 +88,21 @@ Respond in JSON format:
 Character description (use verbatim in Imagen prompt): "${input.characterDescription}"
 Duration: ${input.durationSec} seconds`;
 
-    const response = await this.client.models.generateContent({
-      model: this.model,
-      contents: userPrompt,
-      config: {
-        systemInstruction: systemPrompt,
-        responseMimeType: 'application/json',
-      },
+    const response = await this.llm.complete({
+      system: systemPrompt,
+      messages: [{ role: 'user', content: userPrompt }],
+      jsonSchema: REFINED_PROMPTS_SCHEMA,
     });
 
-    const text = response.text ?? '';
     try {
-      const parsed = JSON.parse(text);
+      const parsed = (response.json ?? JSON.parse(response.text)) as RefinedPrompts;
+      if (!parsed.imagenPrompt || !parsed.veoMotionPrompt) throw new Error('Missing prompts');
       return {
         imagenPrompt: parsed.imagenPrompt,
         veoMotionPrompt: parsed.veoMotionPrompt,
       };
     } catch {
-      // Fallback: construct prompts manually if Gemini JSON fails
+      // Fallback: construct prompts manually if the JSON response is unusable
       return {
         imagenPrompt: `${input.characterDescription}. ${input.sceneIdea}. Pixar-style 3D children's animation, bright warm lighting, clean composition.`,
         veoMotionPrompt: `${input.sceneIdea}. Smooth animation, gentle camera movement. Audio: cheerful ambient sounds. (no subtitles)`,
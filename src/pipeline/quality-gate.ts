@@ -11,14 +11,17 @@
  * Also includes black/solid frame detection via FFmpeg.
  */
 
-import { GoogleGenAI } from '@google/genai';
+import { GeminiLLMProvider } from '../../packages/generator/src/providers/llm.js';
+import type { LLMProvider } from '../../packages/shared/src/types.js';
 import { execSync } from 'child_process';
 import { readFile, writeFile } from 'fs/promises';
 import { resolve, dirname } from 'path';
 
 export interface QualityGateOptions {
-  apiKey: string;
+  apiKey?: string;
   model?: string;
+  /** Multimodal provider to judge with. Defaults to Gemini using apiKey and model. */
+  llm?: LLMProvider;
   /** Minimum acceptable score (1-10). Defaults to 7. */
   minScore?: number;
 }
@@ -38,14 +41,28 @@ export interface QualityEvaluation {
   promptSuggestions?: string;
 }
 
+const EVALUATION_SCHEMA = {
+  name: 'evaluate_clip',
+  schema: {
+    type: 'object',
+    properties: {
+      characterScore: { type: 'number' },
+      qualityScore: { type: 'number' },
+      overallScore: { type: 'number' },
+      feedback: { type: 'string' },
+      promptSuggestions: { type: 'string' },
+    },
+    required: ['characterScore', 'qualityScore', 'overallScore', 'feedback'],
+  },
+};
+
 export class QualityGate {
-  private client: GoogleGenAI;
-  private model: string;
+  private llm: LLMProvider;
   private minScore: number;
 
   constructor(options: QualityGateOptions) {
-    this.client = new GoogleGenAI({ apiKey: options.apiKey });
-    this.model = options.model ?? 'gemini-2.5-flash';
+    this.llm =
+      options.llm ?? new GeminiLLMProvider({ apiKey: options.apiKey ?? '', model: options.model });
     this.minScore = options.minScore ?? 7;
   }
 
@@ -85,14 +102,11 @@ export class QualityGate {
       };
     }
 
-    const response = await this.client.models.generateContent({
-      model: this.model,
-      contents: [
+    const response = await this.llm.complete({
+      messages: [
         {
           role: 'user',
-          parts: [
-            {
-              text: `You are a quality evaluator for AI-generated children's animation clips.
+          content: `You are a quality evaluator for AI-generated children's animation clips.
 
 Evaluate this video frame against the reference character image. The scene should show: "${sceneDescription}"
 
@@ -114,24 +128,18 @@ Respond in JSON:
   "feedback": "<brief explanation>",
   "promptSuggestions": "<how to improve the prompt if scores are low>"
 }`,
-            },
-            {
-              inlineData: { mimeType: 'image/jpeg', data: frameBase64 },
-            },
-            {
-              inlineData: { mimeType: 'image/png', data: referenceBase64 },
-            },
-          ],
         },
       ],
-      config: {
-        responseMimeType: 'application/json',
-      },
+      images: [
+        { mimeType: 'image/jpeg', data: frameBase64 },
+        { mimeType: 'image/png', data: referenceBase64 },
+      ],
+      jsonSchema: EVALUATION_SCHEMA,
     });
 
-    const text = response.text ?? '';
+    const text = response.text;
     try {
-      const parsed = JSON.parse(text);
+      const parsed = (response.json ?? JSON.parse(text)) as Partial<QualityEvaluation>;
       return {
         overallScore: parsed.overallScore ?? 0,
         characterScore: parsed.characterScore ?? 0,
@@ -141,13 +149,13 @@ Respond in JSON:
         promptSuggestions: parsed.promptSuggestions,
       };
     } catch {
-      // If Gemini response isn't valid JSON, treat as marginal pass
+      // If the judge's response isn't valid JSON, treat as marginal pass
       return {
         overallScore: 6,
         characterScore: 6,
         qualityScore: 6,
         passed: false,
-        feedback: `Gemini evaluation response was not valid JSON: ${text.substring(0, 200)}`,
+        feedback: `${this.llm.name} evaluation response was not valid JSON: ${text.substring(0, 200)}`,
       };
     }
   }
@@ -0,0 +1,35 @@
+/**
+ * Provider Cost Meter for Scripts
+ *
+ * Standalone render scripts spend the same provider budget as the worker, so every
+ * Veo / Imagen call they make goes through a CostTracker:
+ * - refused with BudgetExceededError once the day (or episode) budget is spent
+ * - recorded in provider_costs as soon as it is billed
+ *
+ * Scripts render outside generated_videos, so their spend has no episode row and only the
+ * daily cap (BUDGET_PER_DAY_USD) applies.
+ */
+
+import {
+  CostTracker,
+  createLogger,
+  getDb,
+  loadBudgetConfig,
+  type CostMeter,
+} from '../../packages/shared/src/index.js';
+
+let meter: CostMeter | undefined;
+
+/** The meter shared by every provider of this script run; requires DATABASE_URL, where the
+ * ledger lives. */
+export function scriptCosts(): CostMeter {
+  if (!meter) {
+    const config = loadBudgetConfig();
+    const tracker = new CostTracker(getDb(config.databaseUrl), createLogger('script-costs'), {
+      perEpisodeUsd: config.budgetPerEpisodeUsd,
+      perDayUsd: config.budgetPerDayUsd,
+    });
+    meter = tracker.forEpisode();
+  }
+  return meter;
+}
@@ -9,10 +9,13 @@
  */
 
 import { GoogleGenAI } from '@google/genai';
+import { unitUsage, type CostMeter } from '../../packages/shared/src/index.js';
 
 export interface ImagenOptions {
   apiKey: string;
   model?: string;
+  /** Budget check before, and a provider_costs record after, every request. */
+  costs?: CostMeter;
 }
 
 export interface GenerateImageOptions {
@@ -36,10 +39,12 @@ export interface GeneratedImage {
 export class ImagenProvider {
   private client: GoogleGenAI;
   private model: string;
+  private costs?: CostMeter;
 
   constructor(options: ImagenOptions) {
     this.client = new GoogleGenAI({ apiKey: options.apiKey });
     this.model = options.model ?? 'imagen-4.0-generate-001';
+    this.costs = options.costs;
   }
 
   /**
@@ -47,6 +52,8 @@ export class ImagenProvider {
    * Returns an array of base64-encoded images.
    */
   async generateImages(options: GenerateImageOptions): Promise<GeneratedImage[]> {
+    await this.costs?.check();
+
     const response = await this.client.models.generateImages({
       model: this.model,
       prompt: options.prompt,
@@ -61,6 +68,7 @@ export class ImagenProvider {
     if (!images || images.length === 0) {
       throw new Error('Imagen returned no generated images');
     }
+    await this.costs?.record(unitUsage('imagen', this.model, 'images', images.length));
 
     return images.map((img) => {
       const imageData = img.image;
@@ -0,0 +1,74 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { BudgetExceededError, CostTracker, type Database, type Logger } from '../../packages/shared/src/index.js';
+import { VeoProvider } from './veo.js';
+
+const generateVideos = vi.fn();
+
+vi.mock('@google/genai', () => ({
+  GoogleGenAI: vi.fn().mockImplementation(() => ({
+    models: { generateVideos },
+    operations: { getVideosOperation: vi.fn() },
+  })),
+}));
+
+const mockLogger = {
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+  debug: vi.fn(),
+} as unknown as Logger;
+
+/** A ledger whose spend totals are `spentUsd`, collecting inserted cost rows */
+function createMockDb(spentUsd: number) {
+  const inserted: Array<Record<string, unknown>> = [];
+  const db = {
+    insert: vi.fn(() => ({
+      values: vi.fn((values: Record<string, unknown>) => {
+        inserted.push(values);
+        return Promise.resolve();
+      }),
+    })),
+    select: vi.fn(() => ({
+      from: vi.fn(() => ({
+        where: vi.fn(() => Promise.resolve([{ total: spentUsd }])),
+      })),
+    })),
+  };
+  return { db: db as unknown as Database, inserted };
+}
+
+describe('VeoProvider budget', () => {
+  beforeEach(() => {
+    generateVideos.mockReset();
+  });
+
+  it('refuses a clip without calling Veo once the daily budget is spent', async () => {
+    const { db, inserted } = createMockDb(50);
+    const costs = new CostTracker(db, mockLogger, { perEpisodeUsd: 0, perDayUsd: 50 });
+    const veo = new VeoProvider({ apiKey: 'k', costs: costs.forEpisode() });
+
+    await expect(veo.generateClip({ prompt: 'Cosmo waves' })).rejects.toBeInstanceOf(
+      BudgetExceededError,
+    );
+    expect(generateVideos).not.toHaveBeenCalled();
+    expect(inserted).toEqual([]);
+  });
+
+  it('records the clip seconds once the render is submitted', async () => {
+    const { db, inserted } = createMockDb(3.2);
+    const costs = new CostTracker(db, mockLogger, { perEpisodeUsd: 0, perDayUsd: 50 });
+    const veo = new VeoProvider({
+      apiKey: 'k',
+      model: 'veo-3.0-generate-001',
+      costs: costs.forEpisode(),
+    });
+    generateVideos.mockResolvedValue({ done: true, response: { generatedVideos: [] } });
+
+    await expect(veo.generateClip({ prompt: 'Cosmo waves', durationSec: 6 })).rejects.toThrow(
+      'Veo returned no generated videos',
+    );
+    expect(inserted).toEqual([
+      expect.objectContaining({ provider: 'veo', model: 'veo-3.0-generate-001', units: 6 }),
+    ]);
+  });
+});
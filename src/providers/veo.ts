@@ -10,6 +10,7 @@
  */
 
 import { GoogleGenAI } from '@google/genai';
+import { unitUsage, type CostMeter } from '../../packages/shared/src/index.js';
 
 export interface ReferenceImage {
   /** Base64-encoded image bytes. */
@@ -55,6 +56,8 @@ export interface VeoProviderOptions {
   maxPollAttempts?: number;
   /** Default negative prompt appended to every call. */
   defaultNegativePrompt?: string;
+  /** Budget check before, and a provider_costs record after, every clip. */
+  costs?: CostMeter;
 }
 
 export class VeoProvider {
@@ -64,6 +67,7 @@ export class VeoProvider {
   private pollIntervalMs: number;
   private maxPollAttempts: number;
   private defaultNegativePrompt: string;
+  private costs?: CostMeter;
 
   constructor(options: VeoProviderOptions) {
     this.client = new GoogleGenAI({ apiKey: options.apiKey });
@@ -74,6 +78,7 @@ export class VeoProvider {
     this.defaultNegativePrompt =
       options.defaultNegativePrompt ??
       'blurry, distorted, inconsistent character, morphing, text overlays, subtitles, watermark';
+    this.costs = options.costs;
   }
 
   /**
@@ -83,6 +88,8 @@ export class VeoProvider {
    * Returns the raw video bytes as a Buffer.
    */
   async generateClip(options: VeoClipOptions): Promise<Buffer> {
+    await this.costs?.check();
+
     const negativePrompt = options.negativePrompt
       ? `${this.defaultNegativePrompt}, ${options.negativePrompt}`
       : this.defaultNegativePrompt;
@@ -135,6 +142,8 @@ export class VeoProvider {
     }
 
     let operation = await this.client.models.generateVideos(request as any);
+    // Billed once the render is submitted, even if polling or the download fails later
+    await this.costs?.record(unitUsage('veo', this.model, 'seconds', durationSec));
 
     // Poll until done
     let attempts = 0;